@@ -1,16 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  // API route headers for CORS
+  // Security headers (API CORS headers are set by src/middleware.ts, per route)
   async headers() {
     return [
-      {
-        source: '/api/:path*',
-        headers: [
-          { key: 'Access-Control-Allow-Origin', value: '*' },
-          { key: 'Access-Control-Allow-Methods', value: 'GET,OPTIONS,PATCH,DELETE,POST,PUT' },
-          { key: 'Access-Control-Allow-Headers', value: 'X-Requested-With, Content-Type, Authorization' },
-        ],
-      },
       {
         source: '/(.*)',
         headers: [
@@ -31,6 +23,9 @@ const nextConfig = {
     ];
   },
   
+  // Native database drivers are loaded from node_modules at runtime
+  serverExternalPackages: ['better-sqlite3', 'pg'],
+  
   // Production optimizations
   poweredByHeader: false,
   reactStrictMode: true,
@@ -54,7 +49,6 @@ const nextConfig = {
   // Environment variables that will be available at build time
   env: {
     NEXT_PUBLIC_APP_VERSION: '1.0.0',
-    USE_MOCK_DATA: 'true', // Force using mock data for static exports
   },
   
   // Disable ESLint during build
@@ -66,12 +60,6 @@ const nextConfig = {
   typescript: {
     ignoreBuildErrors: true,
   },
-  
-  // Enable static export
-  output: 'export',
-  
-  // Trailingslash for better compatibility
-  trailingSlash: true,
 };
 
 module.exports = nextConfig;
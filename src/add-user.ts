@@ -0,0 +1,49 @@
+import readline from 'readline';
+import { Writable } from 'stream';
+import { ROLES, isRole, saveLocalUser } from './utils/auth';
+
+/**
+ * Add a local user, or change an existing user's password and role
+ *
+ * Usage: npm run auth:add-user -- <username> <role> ["Display Name"]
+ * The password is read from the terminal (or AUTH_PASSWORD, for scripts)
+ */
+async function addUser() {
+  const [username, role, name] = process.argv.slice(2);
+  if (!username || !isRole(role)) {
+    console.error(`Usage: npm run auth:add-user -- <username> <${ROLES.join('|')}> ["Display Name"]`);
+    process.exit(1);
+  }
+
+  const password = process.env.AUTH_PASSWORD || await promptPassword(`Password for ${username}: `);
+  const user = await saveLocalUser(username, password, role, name);
+  console.log(`Saved ${user.username} (${user.role})`);
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function promptPassword(prompt: string): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    }
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+
+  return new Promise(resolve => {
+    rl.question(prompt, answer => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+addUser().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
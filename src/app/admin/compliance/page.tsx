@@ -0,0 +1,421 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { ComplianceReport, CrawlAuditEntry, DomainPolicy, PolicyType } from '../../../utils/compliance';
+import Layout from '../../../components/Layout';
+
+type PolicyForm = {
+  domain: string;
+  policy: PolicyType;
+  notes: string;
+  permissionGranted: boolean;
+};
+
+const EMPTY_FORM: PolicyForm = { domain: '', policy: 'allow', notes: '', permissionGranted: false };
+
+const POLICY_LABELS: Record<PolicyType, string> = {
+  'allow': 'Allow',
+  'deny': 'Deny',
+  'require-permission': 'Requires permission'
+};
+
+export default function CompliancePage() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [policies, setPolicies] = useState<DomainPolicy[]>([]);
+  const [entries, setEntries] = useState<CrawlAuditEntry[]>([]);
+  // Audit log filters
+  const [hostFilter, setHostFilter] = useState('');
+  const [decisionFilter, setDecisionFilter] = useState<'' | 'allowed' | 'denied'>('');
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/compliance?days=${days}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load the compliance report: ${response.status}`);
+      }
+      const data = await response.json() as ComplianceReport & { policies: DomainPolicy[] };
+      setReport(data);
+      setPolicies(data.policies);
+    } catch (err) {
+      setError('Failed to load the compliance report. Please try again.');
+      console.error('Error fetching compliance report:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  const fetchEntries = useCallback(async () => {
+    const params = new URLSearchParams({ days: String(days), limit: '100' });
+    if (hostFilter) params.set('host', hostFilter);
+    if (decisionFilter) params.set('decision', decisionFilter);
+
+    try {
+      const response = await fetch(`/api/admin/compliance/log?${params}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load the audit log: ${response.status}`);
+      }
+      const data = await response.json() as { entries: CrawlAuditEntry[] };
+      setEntries(data.entries);
+    } catch (err) {
+      setError('Failed to load the audit log. Please try again.');
+      console.error('Error fetching audit log:', err);
+    }
+  }, [days, hostFilter, decisionFilter]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleSavePolicy = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/compliance/policies', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the policy');
+      }
+
+      setSuccessMessage(`Saved the policy for ${data.policy.domain}`);
+      setForm(EMPTY_FORM);
+      await fetchReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the policy');
+      console.error('Error saving domain policy:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePolicy = async (domain: string) => {
+    if (!window.confirm(`Remove the policy for ${domain}?`)) return;
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch(`/api/admin/compliance/policies?domain=${encodeURIComponent(domain)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to remove the policy');
+      }
+
+      setSuccessMessage(`Removed the policy for ${domain}`);
+      await fetchReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove the policy');
+      console.error('Error deleting domain policy:', err);
+    }
+  };
+
+  return (
+    <Layout>
+      {/* Header */}
+      <header className="mb-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-500 to-cyan-400 bg-clip-text text-transparent">
+              Crawl Compliance
+            </h1>
+            <p className="text-gray-400 mt-2">
+              What was fetched from each publisher, and under which rules
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={days}
+              onChange={event => setDays(Number(event.target.value))}
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-sm text-gray-200"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+            </select>
+            <Link
+              href="/admin"
+              className="px-3 py-1 rounded-md text-sm text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors"
+            >
+              Back to Admin
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Status Messages */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-900/50 border border-red-700 rounded-md text-red-200">
+          {error}
+        </div>
+      )}
+      {successMessage && (
+        <div className="mb-6 p-4 bg-green-900/50 border border-green-700 rounded-md text-green-200">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-8">
+        {/* Publishers */}
+        <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+          <h2 className="text-2xl font-semibold text-gray-200 mb-2">Publishers</h2>
+          {report && (
+            <p className="text-gray-400 text-sm mb-6">{report.from} to {report.to}</p>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-cyan-500"></div>
+            </div>
+          ) : report?.publishers.length === 0 ? (
+            <p className="text-gray-400">Nothing was fetched in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="pb-3 text-gray-400 font-medium">Host</th>
+                    <th className="pb-3 text-gray-400 font-medium">Policy</th>
+                    <th className="pb-3 text-gray-400 font-medium">Fetched</th>
+                    <th className="pb-3 text-gray-400 font-medium">Refused</th>
+                    <th className="pb-3 text-gray-400 font-medium">Rules</th>
+                    <th className="pb-3 text-gray-400 font-medium">robots.txt</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report?.publishers.map(publisher => (
+                    <tr key={publisher.host} className="border-b border-gray-700/50 align-top">
+                      <td className="py-4 text-gray-200">
+                        <span className="font-medium">{publisher.publisher || publisher.host}</span>
+                        {publisher.publisher && <p className="text-xs text-gray-400">{publisher.host}</p>}
+                        {publisher.lastFetchedAt && (
+                          <p className="text-xs text-gray-500">Last fetched {new Date(publisher.lastFetchedAt).toLocaleString()}</p>
+                        )}
+                      </td>
+                      <td className="py-4 text-gray-300">
+                        {publisher.policy ? POLICY_LABELS[publisher.policy.policy] : <span className="text-gray-500">None</span>}
+                      </td>
+                      <td className="py-4 text-gray-300">
+                        {publisher.fetched}
+                        <p className="text-xs text-gray-500">
+                          {Object.entries(publisher.statuses).map(([status, count]) => `${status}: ${count}`).join(', ')}
+                        </p>
+                      </td>
+                      <td className={`py-4 ${publisher.denied > 0 ? 'text-red-400' : 'text-gray-300'}`}>{publisher.denied}</td>
+                      <td className="py-4 text-gray-300">
+                        <ul className="space-y-1">
+                          {Object.entries(publisher.rules).map(([rule, count]) => (
+                            <li key={rule} className="text-xs"><span className="font-mono">{rule}</span> × {count}</li>
+                          ))}
+                        </ul>
+                      </td>
+                      <td className="py-4 text-gray-300">
+                        <ul className="space-y-1">
+                          {publisher.robotsSnapshots.map(snapshot => (
+                            <li key={snapshot.hash} className="text-xs">
+                              <a
+                                href={`/api/admin/compliance/robots?host=${encodeURIComponent(publisher.host)}&hash=${snapshot.hash}`}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="font-mono text-cyan-400 hover:underline"
+                              >
+                                {snapshot.hash.slice(0, 12)}
+                              </a>
+                              <span className="text-gray-500"> {new Date(snapshot.firstSeen).toLocaleDateString()} to {new Date(snapshot.lastSeen).toLocaleDateString()}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Domain Policies */}
+        <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+          <h2 className="text-2xl font-semibold text-gray-200 mb-2">Domain Policies</h2>
+          <p className="text-gray-400 text-sm mb-6">
+            What each publisher&apos;s terms allow. Domains without a policy are crawled as their robots.txt allows.
+          </p>
+
+          {policies.length > 0 && (
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="pb-3 text-gray-400 font-medium">Domain</th>
+                    <th className="pb-3 text-gray-400 font-medium">Policy</th>
+                    <th className="pb-3 text-gray-400 font-medium">Notes</th>
+                    <th className="pb-3 text-gray-400 font-medium">Updated</th>
+                    <th className="pb-3 text-gray-400 font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {policies.map(policy => (
+                    <tr key={policy.domain} className="border-b border-gray-700/50">
+                      <td className="py-3 text-gray-200 font-mono">{policy.domain}</td>
+                      <td className="py-3 text-gray-300">
+                        {POLICY_LABELS[policy.policy]}
+                        {policy.policy === 'require-permission' && (
+                          <span className={`ml-2 text-xs ${policy.permissionGranted ? 'text-green-400' : 'text-yellow-400'}`}>
+                            {policy.permissionGranted ? 'granted' : 'not granted'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 text-gray-300 max-w-md whitespace-pre-wrap">{policy.notes}</td>
+                      <td className="py-3 text-gray-400 text-xs">
+                        {new Date(policy.updatedAt).toLocaleString()}
+                        {policy.updatedBy && <p>by {policy.updatedBy}</p>}
+                      </td>
+                      <td className="py-3 space-x-2">
+                        <button
+                          onClick={() => setForm({
+                            domain: policy.domain,
+                            policy: policy.policy,
+                            notes: policy.notes || '',
+                            permissionGranted: policy.permissionGranted === true
+                          })}
+                          className="px-3 py-1 rounded-md text-sm bg-cyan-900/20 text-cyan-400 hover:bg-cyan-900/40 border border-cyan-800/50 transition-colors"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeletePolicy(policy.domain)}
+                          className="px-3 py-1 rounded-md text-sm bg-red-900/20 text-red-400 hover:bg-red-900/40 border border-red-800/50 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <form onSubmit={handleSavePolicy} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+            <input
+              value={form.domain}
+              onChange={event => setForm({ ...form, domain: event.target.value })}
+              placeholder="bisnow.com"
+              required
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200"
+            />
+            <div>
+              <select
+                value={form.policy}
+                onChange={event => setForm({ ...form, policy: event.target.value as PolicyType })}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200"
+              >
+                {Object.entries(POLICY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {form.policy === 'require-permission' && (
+                <label className="flex items-center mt-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={form.permissionGranted}
+                    onChange={event => setForm({ ...form, permissionGranted: event.target.checked })}
+                    className="mr-2"
+                  />
+                  Permission granted
+                </label>
+              )}
+            </div>
+            <textarea
+              value={form.notes}
+              onChange={event => setForm({ ...form, notes: event.target.value })}
+              placeholder="Terms clause, or who granted permission and where it is filed"
+              rows={2}
+              className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-sm text-gray-200"
+            />
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save Policy'}
+            </button>
+          </form>
+        </div>
+
+        {/* Audit Log */}
+        <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-semibold text-gray-200">Crawl Decisions</h2>
+            <div className="flex space-x-3">
+              <select
+                value={hostFilter}
+                onChange={event => setHostFilter(event.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-sm text-gray-200"
+              >
+                <option value="">All hosts</option>
+                {report?.publishers.map(publisher => (
+                  <option key={publisher.host} value={publisher.host}>{publisher.host}</option>
+                ))}
+              </select>
+              <select
+                value={decisionFilter}
+                onChange={event => setDecisionFilter(event.target.value as '' | 'allowed' | 'denied')}
+                className="bg-gray-700 border border-gray-600 rounded-md px-3 py-1 text-sm text-gray-200"
+              >
+                <option value="">All decisions</option>
+                <option value="allowed">Allowed</option>
+                <option value="denied">Refused</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="pb-3 text-gray-400 font-medium">Time</th>
+                  <th className="pb-3 text-gray-400 font-medium">URL</th>
+                  <th className="pb-3 text-gray-400 font-medium">Decision</th>
+                  <th className="pb-3 text-gray-400 font-medium">Rule</th>
+                  <th className="pb-3 text-gray-400 font-medium">Response</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => (
+                  <tr key={`${entry.at}-${index}`} className="border-b border-gray-700/50">
+                    <td className="py-2 text-gray-400 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                    <td className="py-2 text-gray-300 max-w-sm truncate" title={entry.url}>{entry.url}</td>
+                    <td className={`py-2 ${entry.decision === 'allowed' ? 'text-green-400' : 'text-red-400'}`}>
+                      {entry.decision === 'allowed' ? 'Allowed' : 'Refused'}
+                    </td>
+                    <td className="py-2 text-gray-300 font-mono text-xs">{entry.rule}</td>
+                    <td className="py-2 text-gray-400">{entry.status ?? entry.error ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {entries.length === 0 && (
+              <p className="text-gray-400 mt-4">No crawl decisions recorded.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,141 +1,134 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import CONFIG from '../../config';
+import type { ScraperStatus } from '../../utils/scrapers/scraper-status';
 import AdminDashboard from '../../components/AdminDashboard';
 import Layout from '../../components/Layout';
 
-interface ScraperStatus {
-  name: string;
-  enabled: boolean;
-  lastRun?: string;
-  articleCount?: number;
-  status: 'active' | 'disabled' | 'error';
-  error?: string;
-}
-
 export default function AdminPage() {
   const [scrapers, setScrapers] = useState<ScraperStatus[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Source being refreshed on its own
+  const [refreshingScraper, setRefreshingScraper] = useState<string | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   // Fetch scraper statuses
-  useEffect(() => {
-    async function fetchScraperStatus() {
-      setIsLoading(true);
-      setError(null);
-      
-      try {
-        // In a real app, this would be an API call to get actual scraper statuses
-        // For now, we'll create mock data based on the enabled sources in config
-        const enabledSources = CONFIG.ENABLE_SOURCES;
-        
-        // Create mock scraper statuses
-        const mockScrapers: ScraperStatus[] = [
-          {
-            name: 'Bisnow',
-            enabled: enabledSources.includes('bisnow'),
-            lastRun: new Date().toISOString(),
-            articleCount: 42,
-            status: enabledSources.includes('bisnow') ? 'active' : 'disabled'
-          },
-          {
-            name: 'GlobeSt',
-            enabled: enabledSources.includes('globest'),
-            lastRun: new Date().toISOString(),
-            articleCount: 38,
-            status: enabledSources.includes('globest') ? 'active' : 'disabled'
-          },
-          {
-            name: 'ConnectCRE',
-            enabled: enabledSources.includes('connectcre'),
-            lastRun: enabledSources.includes('connectcre') ? new Date().toISOString() : undefined,
-            articleCount: enabledSources.includes('connectcre') ? 27 : 0,
-            status: enabledSources.includes('connectcre') ? 'active' : 'disabled'
-          },
-          {
-            name: 'REBusiness',
-            enabled: false,
-            status: 'disabled'
-          },
-          {
-            name: 'CommercialSearch',
-            enabled: false,
-            status: 'disabled'
-          }
-        ];
-        
-        setScrapers(mockScrapers);
-      } catch (err) {
-        setError('Failed to load scraper status. Please try again.');
-        console.error('Error fetching scraper status:', err);
-      } finally {
-        setIsLoading(false);
+  const fetchScraperStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/scrapers');
+      if (!response.ok) {
+        throw new Error(`Failed to load scraper status: ${response.status}`);
       }
+      const data = await response.json() as { scrapers: ScraperStatus[] };
+      setScrapers(data.scrapers);
+    } catch (err) {
+      setError('Failed to load scraper status. Please try again.');
+      console.error('Error fetching scraper status:', err);
+    } finally {
+      setIsLoading(false);
     }
-    
-    fetchScraperStatus();
   }, []);
 
-  // Handle refreshing scrapers (simulated)
+  useEffect(() => {
+    fetchScraperStatus();
+  }, [fetchScraperStatus]);
+
+  /**
+   * Re-run one source, bypassing the cache and its circuit breaker
+   * @returns The error message if the refresh failed
+   */
+  const refreshScraper = async (scraper: ScraperStatus): Promise<string | null> => {
+    const response = await fetch(`/api/admin/scrapers/${encodeURIComponent(scraper.id)}/refresh`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) {
+      return data.error || `Failed to refresh ${scraper.name}`;
+    }
+
+    const updated = data.scraper as ScraperStatus;
+    setScrapers(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    return updated.status === 'error' ? `${scraper.name}: ${updated.lastError || 'scrape failed'}` : null;
+  };
+
+  // Handle refreshing a single scraper
+  const handleRefreshScraper = async (scraper: ScraperStatus) => {
+    setRefreshingScraper(scraper.id);
+    setSuccessMessage(null);
+    setError(null);
+
+    try {
+      const failure = await refreshScraper(scraper);
+      if (failure) {
+        setError(failure);
+      } else {
+        setSuccessMessage(`${scraper.name} refreshed successfully!`);
+      }
+    } catch (err) {
+      setError(`Failed to refresh ${scraper.name}. Please try again.`);
+      console.error(`Error refreshing scraper ${scraper.name}:`, err);
+    } finally {
+      setRefreshingScraper(null);
+    }
+  };
+
+  // Handle refreshing all enabled scrapers, one at a time
   const handleRefreshScrapers = async () => {
     setIsRefreshing(true);
     setSuccessMessage(null);
     setError(null);
     
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Update last run time for enabled scrapers
-      setScrapers(prev => 
-        prev.map(scraper => 
-          scraper.enabled 
-            ? { ...scraper, lastRun: new Date().toISOString() } 
-            : scraper
-        )
-      );
-      
-      setSuccessMessage('Scrapers refreshed successfully!');
+      const failures: string[] = [];
+      for (const scraper of scrapers.filter(candidate => candidate.enabled)) {
+        setRefreshingScraper(scraper.id);
+        const failure = await refreshScraper(scraper);
+        if (failure) failures.push(failure);
+      }
+
+      if (failures.length > 0) {
+        setError(`Some scrapers failed to refresh: ${failures.join('; ')}`);
+      } else {
+        setSuccessMessage('Scrapers refreshed successfully!');
+      }
     } catch (err) {
       setError('Failed to refresh scrapers. Please try again.');
       console.error('Error refreshing scrapers:', err);
     } finally {
+      setRefreshingScraper(null);
       setIsRefreshing(false);
     }
   };
 
-  // Handle toggling a scraper's enabled status (simulated)
-  const handleToggleScraper = async (scraperName: string) => {
+  // Handle clearing the scrape cache
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
     setSuccessMessage(null);
     setError(null);
-    
+
     try {
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
-      // Update scraper status
-      setScrapers(prev => 
-        prev.map(scraper => 
-          scraper.name === scraperName
-            ? { 
-                ...scraper, 
-                enabled: !scraper.enabled,
-                status: !scraper.enabled ? 'active' : 'disabled'
-              } 
-            : scraper
-        )
-      );
-      
-      setSuccessMessage(`${scraperName} scraper ${scrapers.find(s => s.name === scraperName)?.enabled ? 'disabled' : 'enabled'} successfully!`);
+      const response = await fetch('/api/admin/cache/clear', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to clear the cache: ${response.status}`);
+      }
+      setSuccessMessage(`Cache cleared (${data.removed} entr${data.removed === 1 ? 'y' : 'ies'} removed)`);
     } catch (err) {
-      setError(`Failed to update ${scraperName} scraper status. Please try again.`);
-      console.error(`Error toggling scraper ${scraperName}:`, err);
+      setError('Failed to clear the cache. Please try again.');
+      console.error('Error clearing cache:', err);
+    } finally {
+      setIsClearingCache(false);
     }
   };
 
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.assign('/login');
+  };
+
   return (
     <Layout>
       {/* Header */}
@@ -149,6 +142,20 @@ export default function AdminPage() {
               Manage scrapers and monitor system status
             </p>
           </div>
+          <div className="flex items-center space-x-3">
+            <Link
+              href="/admin/compliance"
+              className="px-3 py-1 rounded-md text-sm text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors"
+            >
+              Compliance
+            </Link>
+            <button
+              onClick={handleSignOut}
+              className="px-3 py-1 rounded-md text-sm text-gray-300 border border-gray-600 hover:bg-gray-700 transition-colors"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
         
@@ -188,7 +195,7 @@ export default function AdminPage() {
               <h2 className="text-2xl font-semibold text-gray-200">Scraper Management</h2>
               <button
                 onClick={handleRefreshScrapers}
-                disabled={isRefreshing}
+                disabled={isRefreshing || refreshingScraper !== null}
                 className="px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
               >
                 {isRefreshing ? (
@@ -234,15 +241,29 @@ export default function AdminPage() {
                       <tr key={scraper.name} className="border-b border-gray-700/50">
                         <td className="py-4 text-gray-200 font-medium">{scraper.name}</td>
                         <td className="py-4">
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          <span
+                            title={`Circuit ${scraper.breaker}, health ${scraper.healthScore}/100`}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                             scraper.status === 'active' 
                               ? 'bg-green-900/30 text-green-400 border border-green-800' 
+                              : scraper.status === 'warning'
+                              ? 'bg-yellow-900/30 text-yellow-400 border border-yellow-800'
                               : scraper.status === 'error'
                               ? 'bg-red-900/30 text-red-400 border border-red-800'
                               : 'bg-gray-700/30 text-gray-400 border border-gray-600'
                           }`}>
-                            {scraper.status === 'active' ? 'Active' : scraper.status === 'error' ? 'Error' : 'Disabled'}
+                            {scraper.status === 'active'
+                              ? 'Active'
+                              : scraper.status === 'warning' ? 'Warning' : scraper.status === 'error' ? 'Error' : 'Disabled'}
                           </span>
+                          {scraper.breaker !== 'closed' && (
+                            <span className="ml-2 text-xs text-gray-400">Circuit {scraper.breaker}</span>
+                          )}
+                          {scraper.lastError && (
+                            <p className="mt-1 text-xs text-red-300 max-w-xs truncate" title={scraper.lastError}>
+                              {scraper.lastError}
+                            </p>
+                          )}
                         </td>
                         <td className="py-4 text-gray-300">
                           {scraper.lastRun 
@@ -256,14 +277,12 @@ export default function AdminPage() {
                         </td>
                         <td className="py-4">
                           <button
-                            onClick={() => handleToggleScraper(scraper.name)}
-                            className={`px-3 py-1 rounded-md text-sm ${
-                              scraper.enabled
-                                ? 'bg-red-900/20 text-red-400 hover:bg-red-900/40 border border-red-800/50'
-                                : 'bg-green-900/20 text-green-400 hover:bg-green-900/40 border border-green-800/50'
-                            } transition-colors`}
+                            onClick={() => handleRefreshScraper(scraper)}
+                            disabled={!scraper.enabled || isRefreshing || refreshingScraper !== null}
+                            title={scraper.enabled ? 'Scrape now, bypassing the cache' : 'Enable this source with ENABLE_SOURCES'}
+                            className="px-3 py-1 rounded-md text-sm bg-cyan-900/20 text-cyan-400 hover:bg-cyan-900/40 border border-cyan-800/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            {scraper.enabled ? 'Disable' : 'Enable'}
+                            {refreshingScraper === scraper.id ? 'Refreshing...' : 'Refresh'}
                           </button>
                         </td>
                       </tr>
@@ -288,6 +307,13 @@ export default function AdminPage() {
                 <p className="text-gray-400 text-sm mt-2">
                   Cache duration: {CONFIG.SCRAPE_CACHE_DURATION_MINUTES} minutes
                 </p>
+                <button
+                  onClick={handleClearCache}
+                  disabled={isClearingCache}
+                  className="mt-3 px-3 py-1 rounded-md text-sm bg-red-900/20 text-red-400 hover:bg-red-900/40 border border-red-800/50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isClearingCache ? 'Clearing...' : 'Clear Cache'}
+                </button>
               </div>
               
               <div className="bg-gray-700/50 rounded-lg p-4 border border-gray-600">
@@ -0,0 +1,31 @@
+/**
+ * API Route for Clearing the Cache
+ * 
+ * Removes cached scrapes so the next request scrapes again. Pass `prefix` to
+ * clear only some keys, e.g. `?prefix=scraper:GlobeSt:` for one source
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { cache } from '../../../../../utils/cache';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+async function handlePost(request: Request) {
+  try {
+    const prefix = new URL(request.url).searchParams.get('prefix') || '';
+    const removed = await cache.clear(prefix);
+
+    console.log(`Admin: Cleared ${removed} cache entries${prefix ? ` under ${prefix}` : ''}`);
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('Error in /api/admin/cache/clear:', error);
+    return NextResponse.json({
+      error: 'Failed to clear the cache',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const POST = withRouteMetrics('/api/admin/cache/clear', handlePost);
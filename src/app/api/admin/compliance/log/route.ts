@@ -0,0 +1,40 @@
+/**
+ * API Route for the Crawl Audit Log
+ * 
+ * Crawl decisions, newest first. Filter with `host`, `decision` (allowed or
+ * denied) and `days` (default 30); `limit` defaults to 200
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { readAuditLog } from '../../../../../utils/compliance';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+async function handleGet(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const decision = searchParams.get('decision') || undefined;
+    if (decision !== undefined && decision !== 'allowed' && decision !== 'denied') {
+      return NextResponse.json({ error: `Invalid decision: ${decision}` }, { status: 400 });
+    }
+
+    const entries = readAuditLog({
+      days: Math.min(Math.max(Number(searchParams.get('days')) || 30, 1), 365),
+      host: searchParams.get('host') || undefined,
+      decision,
+      limit: Math.min(Math.max(Number(searchParams.get('limit')) || 200, 1), 5000)
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance/log:', error);
+    return NextResponse.json({
+      error: 'Failed to read the audit log',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/admin/compliance/log', handleGet);
@@ -0,0 +1,88 @@
+/**
+ * API Route for Domain Policies
+ * 
+ * GET lists the crawl policy of each publisher domain, PUT adds or replaces one
+ * (`{ domain, policy: 'allow' | 'deny' | 'require-permission', notes?, permissionGranted? }`)
+ * and DELETE removes one (`?domain=bisnow.com`)
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import logger from '../../../../../utils/logger';
+import { getRequestSession } from '../../../../../utils/auth';
+import {
+  deleteDomainPolicy,
+  getDomainPolicies,
+  isPolicyType,
+  normalizeDomain,
+  saveDomainPolicy
+} from '../../../../../utils/compliance';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+async function handleGet() {
+  try {
+    return NextResponse.json({ policies: getDomainPolicies() });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance/policies:', error);
+    return NextResponse.json({
+      error: 'Failed to read domain policies',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+async function handlePut(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const domain = typeof body?.domain === 'string' ? normalizeDomain(body.domain) : '';
+    if (!domain) {
+      return NextResponse.json({ error: 'A valid domain is required, e.g. bisnow.com' }, { status: 400 });
+    }
+    if (!isPolicyType(body.policy)) {
+      return NextResponse.json({ error: 'policy must be allow, deny or require-permission' }, { status: 400 });
+    }
+
+    const session = await getRequestSession(request);
+    const policy = saveDomainPolicy({
+      domain,
+      policy: body.policy,
+      ...(typeof body.notes === 'string' && body.notes.trim() && { notes: body.notes.trim() }),
+      ...(body.policy === 'require-permission' && { permissionGranted: body.permissionGranted === true }),
+      ...(session && { updatedBy: session.id })
+    });
+
+    logger.info({ event: 'domain_policy_saved', domain, policy: policy.policy, user: session?.id });
+    return NextResponse.json({ policy });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance/policies:', error);
+    return NextResponse.json({
+      error: 'Failed to save the domain policy',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+async function handleDelete(request: Request) {
+  try {
+    const domain = new URL(request.url).searchParams.get('domain') || '';
+    if (!deleteDomainPolicy(domain)) {
+      return NextResponse.json({ error: `No policy for ${domain}` }, { status: 404 });
+    }
+
+    const session = await getRequestSession(request);
+    logger.info({ event: 'domain_policy_deleted', domain, user: session?.id });
+    return NextResponse.json({ deleted: normalizeDomain(domain) });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance/policies:', error);
+    return NextResponse.json({
+      error: 'Failed to delete the domain policy',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/admin/compliance/policies', handleGet);
+export const PUT = withRouteMetrics('/api/admin/compliance/policies', handlePut);
+export const DELETE = withRouteMetrics('/api/admin/compliance/policies', handleDelete);
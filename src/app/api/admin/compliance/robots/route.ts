@@ -0,0 +1,39 @@
+/**
+ * API Route for robots.txt Snapshots
+ * 
+ * The robots.txt a crawl decision was made under: `?host=www.bisnow.com&hash=<sha256>`
+ * with the `robotsHash` from the audit log
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { readRobotsSnapshot } from '../../../../../utils/compliance';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+async function handleGet(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const host = searchParams.get('host');
+    const hash = searchParams.get('hash');
+    if (!host || !hash) {
+      return NextResponse.json({ error: 'host and hash are required' }, { status: 400 });
+    }
+
+    const content = readRobotsSnapshot(host, hash);
+    if (content === null) {
+      return NextResponse.json({ error: `No robots.txt snapshot ${hash} for ${host}` }, { status: 404 });
+    }
+
+    return new NextResponse(content, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance/robots:', error);
+    return NextResponse.json({
+      error: 'Failed to read the robots.txt snapshot',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/admin/compliance/robots', handleGet);
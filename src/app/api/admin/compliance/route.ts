@@ -0,0 +1,33 @@
+/**
+ * API Route for the Compliance Report
+ * 
+ * What was fetched from each publisher over the last `days` days (default 30),
+ * the rules it was fetched or refused under and the robots.txt in effect, along
+ * with the domain policies
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getComplianceReport, getDomainPolicies } from '../../../../utils/compliance';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handleGet(request: Request) {
+  try {
+    const days = Math.min(Math.max(Number(new URL(request.url).searchParams.get('days')) || 30, 1), 365);
+
+    return NextResponse.json({
+      ...getComplianceReport(days),
+      policies: getDomainPolicies()
+    });
+  } catch (error) {
+    console.error('Error in /api/admin/compliance:', error);
+    return NextResponse.json({
+      error: 'Failed to build the compliance report',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/admin/compliance', handleGet);
@@ -0,0 +1,60 @@
+/**
+ * API Route for Importing Market Fundamentals
+ *
+ * POST a quarterly dataset as the request body, CSV (text/csv) or JSON
+ * (application/json); see utils/market-data/import.ts for the columns. `?source=`
+ * names the dataset (defaults to "upload"). Rows that can't be read are reported
+ * back rather than failing the import
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getRequestSession } from '../../../../utils/auth';
+import { getFundamentalsStore, importDataset } from '../../../../utils/market-data';
+import logger from '../../../../utils/logger';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handlePost(request: Request) {
+  try {
+    if (!getFundamentalsStore()) {
+      return NextResponse.json({ error: 'Market data needs a store; ARTICLE_STORE is none' }, { status: 400 });
+    }
+
+    const content = await request.text();
+    if (!content.trim()) {
+      return NextResponse.json({ error: 'The request body must be a CSV or JSON dataset' }, { status: 400 });
+    }
+
+    const source = new URL(request.url).searchParams.get('source')?.trim() || 'upload';
+    const format = (request.headers.get('content-type') || '').includes('json') ? 'json' : undefined;
+
+    let result;
+    try {
+      result = await importDataset(content, source, format);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return NextResponse.json({ error: `Invalid JSON: ${error.message}` }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const session = await getRequestSession(request);
+    logger.info({ event: 'market_data_uploaded', source, user: session?.id });
+    return NextResponse.json({
+      source,
+      rows: result.rows,
+      imported: result.observations.length,
+      problems: result.problems
+    });
+  } catch (error) {
+    console.error('Error in /api/admin/market-data:', error);
+    return NextResponse.json({
+      error: 'Failed to import market data',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const POST = withRouteMetrics('/api/admin/market-data', handlePost);
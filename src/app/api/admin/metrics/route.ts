@@ -0,0 +1,27 @@
+/**
+ * API Route for Admin Metrics
+ * 
+ * Request counts per source and per API route, and source requests per day,
+ * for the admin dashboard
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getMetricsSummary } from '../../../../utils/metrics';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 14, 1), 90);
+
+    return NextResponse.json(await getMetricsSummary(days));
+  } catch (error) {
+    console.error('Error in /api/admin/metrics:', error);
+    return NextResponse.json({
+      error: 'Failed to read metrics',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
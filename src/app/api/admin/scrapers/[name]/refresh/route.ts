@@ -0,0 +1,55 @@
+/**
+ * API Route for Refreshing One Source
+ * 
+ * Scrapes the source now, bypassing the cache and its circuit breaker, and
+ * stores the results as a scheduled run would. The source can be given by
+ * name or id (e.g. GlobeSt or globest)
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../../../../config';
+import { ingestionScheduler } from '../../../../../../utils/ingest';
+import { getSourceDefinition } from '../../../../../../utils/scrapers/definitions';
+import { getScraperStatus } from '../../../../../../utils/scrapers/scraper-status';
+import { withRouteMetrics } from '../../../../../../utils/metrics';
+
+async function handlePost(
+  request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+
+  try {
+    const definition = getSourceDefinition(name);
+    if (!definition) {
+      return NextResponse.json({ error: `Unknown source: ${name}` }, { status: 404 });
+    }
+    if (!CONFIG.ENABLE_SOURCES.includes(definition.id)) {
+      return NextResponse.json({ error: `${definition.name} is not enabled (see ENABLE_SOURCES)` }, { status: 400 });
+    }
+
+    console.log(`Admin: Refreshing ${definition.name}`);
+    const requestedAt = new Date().toISOString();
+    const run = await ingestionScheduler.runNow(definition.id, { force: true });
+
+    // The run is skipped if another process (e.g. the worker) is scraping the source right now
+    if (!run.lastFinishedAt || run.lastFinishedAt < requestedAt) {
+      return NextResponse.json({
+        error: `${definition.name} is already being scraped by another process, try again shortly`
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ scraper: getScraperStatus(definition), run });
+  } catch (error) {
+    console.error(`Error refreshing ${name}:`, error);
+    return NextResponse.json({
+      error: `Failed to refresh ${name}`,
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const POST = withRouteMetrics('/api/admin/scrapers/[name]/refresh', handlePost);
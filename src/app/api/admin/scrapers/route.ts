@@ -0,0 +1,27 @@
+/**
+ * API Route for Scraper Administration
+ * 
+ * Lists every known source with whether it is enabled, its last run, article
+ * count, last error and circuit breaker state
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getScraperStatuses } from '../../../../utils/scrapers/scraper-status';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handleGet() {
+  try {
+    return NextResponse.json({ scrapers: getScraperStatuses() });
+  } catch (error) {
+    console.error('Error in /api/admin/scrapers:', error);
+    return NextResponse.json({
+      error: 'Failed to read scraper status',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/admin/scrapers', handleGet);
@@ -0,0 +1,51 @@
+/**
+ * API Route for Signing In
+ * 
+ * Checks a local username and password and sets the session cookie
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../../config';
+import logger from '../../../../utils/logger';
+import {
+  SESSION_COOKIE,
+  authenticateLocalUser,
+  createSessionToken,
+  sessionCookieOptions
+} from '../../../../utils/auth';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handlePost(request: Request) {
+  try {
+    if (!CONFIG.AUTH_SECRET) {
+      return NextResponse.json({ error: 'Sign-in is not configured (set AUTH_SECRET)' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({})) as { username?: unknown; password?: unknown };
+    if (typeof body.username !== 'string' || typeof body.password !== 'string' || !body.username || !body.password) {
+      return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+    }
+
+    const user = await authenticateLocalUser(body.username, body.password);
+    if (!user) {
+      logger.warn({ event: 'auth_login_failed', user: body.username });
+      return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    logger.info({ event: 'auth_login', user: user.id, role: user.role });
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error('Error in /api/auth/login:', error);
+    return NextResponse.json({
+      error: 'Failed to sign in',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const POST = withRouteMetrics('/api/auth/login', handlePost);
@@ -0,0 +1,20 @@
+/**
+ * API Route for Signing Out
+ * 
+ * Clears the session cookie
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '../../../../utils/auth';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handlePost() {
+  const response = NextResponse.json({ user: null });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
+
+export const POST = withRouteMetrics('/api/auth/logout', handlePost);
@@ -0,0 +1,62 @@
+/**
+ * API Route for Finishing an OIDC Sign-in
+ * 
+ * The provider redirects here with an authorization code; on success the session
+ * cookie is set and the user is sent back to where they started
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import {
+  OIDC_COOKIE,
+  OidcLoginState,
+  SESSION_COOKIE,
+  createSessionToken,
+  finishOidcLogin,
+  getCookie,
+  getSafeRedirect,
+  sessionCookieOptions
+} from '../../../../../utils/auth';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+async function handleGet(request: Request) {
+  const url = new URL(request.url);
+  const fail = (message: string) => {
+    const response = NextResponse.redirect(new URL(`/login?error=${encodeURIComponent(message)}`, url.origin));
+    response.cookies.set(OIDC_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  };
+
+  let loginState: OidcLoginState | null = null;
+  try {
+    const cookie = getCookie(request, OIDC_COOKIE);
+    loginState = cookie ? JSON.parse(cookie) as OidcLoginState : null;
+  } catch {
+    loginState = null;
+  }
+
+  const code = url.searchParams.get('code');
+  if (url.searchParams.get('error')) {
+    return fail(`Sign-in was refused: ${url.searchParams.get('error_description') || url.searchParams.get('error')}`);
+  }
+  if (!code || !loginState || url.searchParams.get('state') !== loginState.state) {
+    return fail('Sign-in expired or was tampered with, please try again');
+  }
+
+  try {
+    const redirectUri = new URL('/api/auth/oidc/callback', url.origin).toString();
+    const user = await finishOidcLogin(code, loginState.verifier, redirectUri);
+
+    const response = NextResponse.redirect(new URL(getSafeRedirect(loginState.next), url.origin));
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions());
+    response.cookies.set(OIDC_COOKIE, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  } catch (error) {
+    console.error('Error in /api/auth/oidc/callback:', error);
+    return fail('Sign-in with your identity provider failed');
+  }
+}
+
+export const GET = withRouteMetrics('/api/auth/oidc/callback', handleGet);
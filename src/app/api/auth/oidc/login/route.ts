@@ -0,0 +1,49 @@
+/**
+ * API Route for Starting an OIDC Sign-in
+ * 
+ * Redirects to the configured provider; `next` is where to return afterwards
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../../../config';
+import { OIDC_COOKIE, getSafeRedirect, isOidcConfigured, startOidcLogin } from '../../../../../utils/auth';
+import { withRouteMetrics } from '../../../../../utils/metrics';
+
+// How long the user has to finish signing in at the provider
+const LOGIN_STATE_MAX_AGE_SECONDS = 10 * 60;
+
+async function handleGet(request: Request) {
+  try {
+    if (!isOidcConfigured() || !CONFIG.AUTH_SECRET) {
+      return NextResponse.json({ error: 'OIDC sign-in is not configured' }, { status: 404 });
+    }
+
+    const url = new URL(request.url);
+    const redirectUri = new URL('/api/auth/oidc/callback', url.origin).toString();
+    const { url: authorizationUrl, loginState } = await startOidcLogin(
+      redirectUri,
+      getSafeRedirect(url.searchParams.get('next'))
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_COOKIE, JSON.stringify(loginState), {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api/auth/oidc',
+      maxAge: LOGIN_STATE_MAX_AGE_SECONDS
+    });
+    return response;
+  } catch (error) {
+    console.error('Error in /api/auth/oidc/login:', error);
+    return NextResponse.json({
+      error: 'Failed to start OIDC sign-in',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 502 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/auth/oidc/login', handleGet);
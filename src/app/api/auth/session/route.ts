@@ -0,0 +1,24 @@
+/**
+ * API Route for the Current Session
+ * 
+ * Reports who is signed in (or null) and which sign-in methods are available
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../../config';
+import { getAuthProviders, getRequestSession } from '../../../../utils/auth';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handleGet(request: Request) {
+  return NextResponse.json({
+    user: await getRequestSession(request),
+    // Nobody can sign in until AUTH_SECRET is set
+    configured: Boolean(CONFIG.AUTH_SECRET),
+    providers: getAuthProviders()
+  });
+}
+
+export const GET = withRouteMetrics('/api/auth/session', handleGet);
@@ -0,0 +1,32 @@
+/**
+ * API Route for Ingestion Status
+ * 
+ * Reports the ingestion schedule of every enabled source: last run, outcome and next run
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../config';
+import { ingestionScheduler } from '../../../utils/ingest';
+import { withRouteMetrics } from '../../../utils/metrics';
+
+async function handleGet() {
+  try {
+    return NextResponse.json({
+      mode: CONFIG.INGEST_MODE,
+      // Whether the scheduler runs in this server process (it may run in a worker instead)
+      schedulerInProcess: ingestionScheduler.isRunning(),
+      sources: ingestionScheduler.getStatus()
+    });
+  } catch (error) {
+    console.error('Error in /api/ingest:', error);
+    return NextResponse.json({
+      error: 'Failed to read ingestion status',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/ingest', handleGet);
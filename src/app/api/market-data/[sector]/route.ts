@@ -1,47 +1,69 @@
 /**
  * API Route for CRE Market Data
- * 
- * Provides quarterly market data for Office, Industrial, Retail, and Multifamily sectors
+ *
+ * Returns a quarter of imported market fundamentals for a sector, with
+ * quarter-over-quarter changes. `metro` picks a metro (national by default; names
+ * and aliases such as DFW work) and `quarter` a quarter (e.g. 2025-Q2; the latest
+ * by default)
  */
 
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
 import { NextResponse } from 'next/server';
 import { creMarketData } from '../../../../utils/scrapers/cre-market-data';
+import { MARKET_SECTORS, isMarketSector, normalizeQuarter, resolveMarketMetro } from '../../../../utils/market-data';
+import { withRouteMetrics } from '../../../../utils/metrics';
 
-// Configure for static export
-export const dynamic = 'force-dynamic';
-export const revalidate = 3600; // Revalidate every hour
-
-export async function GET(
+async function handleGet(
   request: Request,
-  { params }: { params: { sector: string } }
+  { params }: { params: Promise<{ sector: string }> }
 ) {
+  const { sector: sectorParam } = await params;
+
   try {
-    const sector = params.sector.toLowerCase();
-    
+    const sector = sectorParam.toLowerCase();
+
     // Validate sector parameter
-    if (!['office', 'industrial', 'retail', 'multifamily'].includes(sector)) {
+    if (!isMarketSector(sector)) {
       return NextResponse.json(
-        { error: `Invalid sector: ${sector}` },
+        { error: `Invalid sector: ${sector} (expected one of ${MARKET_SECTORS.join(', ')})` },
         { status: 400 }
       );
     }
-    
-    // Get market data for the requested sector
-    const marketData = await creMarketData.getSectorData(
-      sector as 'office' | 'industrial' | 'retail' | 'multifamily'
-    );
-    
+
+    const { searchParams } = new URL(request.url);
+    const metro = resolveMarketMetro(searchParams.get('metro'));
+    const quarterParam = searchParams.get('quarter');
+    const quarter = quarterParam ? normalizeQuarter(quarterParam) : undefined;
+    if (quarter === null) {
+      return NextResponse.json(
+        { error: `Invalid quarter: ${quarterParam} (e.g. 2025-Q2)` },
+        { status: 400 }
+      );
+    }
+
+    const marketData = await creMarketData.getSectorData(sector, { metro, quarter });
+    if (!marketData) {
+      return NextResponse.json(
+        { error: `No market data for ${sector} in ${metro || 'the U.S.'}${quarter ? ` for ${quarter}` : ''}` },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json(marketData, {
       status: 200,
       headers: {
-        'Cache-Control': 'max-age=3600', // Cache for 1 hour
+        'Cache-Control': 'max-age=300', // Cache for 5 minutes
       },
     });
   } catch (error) {
-    console.error(`Error fetching ${params.sector} market data:`, error);
-    return NextResponse.json(
-      { error: 'Failed to fetch market data' },
-      { status: 500 }
-    );
+    console.error(`Error fetching ${sectorParam} market data:`, error);
+    return NextResponse.json({
+      error: 'Failed to fetch market data',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
   }
 }
+
+export const GET = withRouteMetrics('/api/market-data/[sector]', handleGet);
@@ -0,0 +1,87 @@
+/**
+ * API Route for Comparing Market Data
+ *
+ * One metric for a sector across metros and quarters, e.g.
+ * `?sector=office&metric=vacancyRate&metro=national,Dallas-Fort Worth&quarter=2025-Q1,2025-Q2`.
+ * `metro` and `quarter` are comma-separated or repeated; by default every metro
+ * with figures and the latest four quarters are compared
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { creMarketData } from '../../../../utils/scrapers/cre-market-data';
+import {
+  FUNDAMENTAL_METRICS,
+  MARKET_SECTORS,
+  isFundamentalMetric,
+  isMarketSector,
+  normalizeQuarter,
+  resolveMarketMetro
+} from '../../../../utils/market-data';
+import { resolveMetro } from '../../../../utils/geography';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+/**
+ * Values of a repeated or comma-separated parameter; a known metro name with a
+ * comma in it is kept whole
+ */
+function getListParam(searchParams: URLSearchParams, name: string): string[] | undefined {
+  const values = searchParams.getAll(name)
+    .flatMap(value => (resolveMetro(value.trim()) ? [value] : value.split(',')))
+    .map(value => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+async function handleGet(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const sector = (searchParams.get('sector') || '').toLowerCase();
+    if (!isMarketSector(sector)) {
+      return NextResponse.json(
+        { error: `Invalid sector: ${sector} (expected one of ${MARKET_SECTORS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const metric = searchParams.get('metric') || 'vacancyRate';
+    if (!isFundamentalMetric(metric)) {
+      return NextResponse.json(
+        { error: `Invalid metric: ${metric} (expected one of ${FUNDAMENTAL_METRICS.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const quarterParams = getListParam(searchParams, 'quarter');
+    const quarters = quarterParams?.map(normalizeQuarter);
+    const badQuarter = quarterParams?.find((_, i) => !quarters![i]);
+    if (badQuarter) {
+      return NextResponse.json({ error: `Invalid quarter: ${badQuarter} (e.g. 2025-Q2)` }, { status: 400 });
+    }
+
+    const metros = getListParam(searchParams, 'metro')?.map(resolveMarketMetro);
+
+    console.log(`[market-data/compare] ${sector} ${metric} for ${metros?.length ?? 'all'} metros`);
+    const comparison = await creMarketData.compare(sector, metric, {
+      metros,
+      quarters: quarters as string[] | undefined
+    });
+
+    return NextResponse.json(comparison, {
+      headers: {
+        'Cache-Control': 'max-age=300'
+      }
+    });
+  } catch (error) {
+    console.error('Error in /api/market-data/compare:', error);
+    return NextResponse.json({
+      error: 'Failed to compare market data',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/market-data/compare', handleGet);
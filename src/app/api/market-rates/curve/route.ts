@@ -0,0 +1,38 @@
+/**
+ * API Route for Rate Curves
+ * 
+ * The treasury and SOFR swap curves on `date` (the latest observed day by
+ * default) against `compare`, from the stored rate history. Each day falls back
+ * to the latest observed day up to a week before it. Also lists the observed
+ * days to pick from
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getRateCurves } from '../../../../utils/rates';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function handleGet(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || undefined;
+    const compare = searchParams.get('compare') || undefined;
+    if ((date && !DAY_PATTERN.test(date)) || (compare && !DAY_PATTERN.test(compare))) {
+      return NextResponse.json({ error: 'date and compare must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    return NextResponse.json(await getRateCurves(date, compare));
+  } catch (error) {
+    console.error('Error in /api/market-rates/curve:', error);
+    return NextResponse.json({
+      error: 'Failed to read rate curves',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/market-rates/curve', handleGet);
@@ -0,0 +1,52 @@
+/**
+ * API Route for Market Rate History
+ * 
+ * Stored daily observations for one or more series, with their day, week, month
+ * and year-over-year changes. `name` takes series ids, names or tenors
+ * (comma-separated, e.g. `10Y,sofr`; bare tenors are treasuries unless `kind`
+ * says otherwise). `from` and `to` are days (YYYY-MM-DD); the last year by default
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { RATE_KINDS, RateKind, getRateHistory, resolveSeriesIds, shiftDay, toDay } from '../../../../utils/rates';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function handleGet(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const names = searchParams.getAll('name').flatMap(name => name.split(',')).filter(name => name.trim());
+    if (names.length === 0) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const kind = searchParams.get('kind') || undefined;
+    if (kind !== undefined && !(RATE_KINDS as readonly string[]).includes(kind)) {
+      return NextResponse.json({ error: `Invalid kind: ${kind}` }, { status: 400 });
+    }
+
+    const to = searchParams.get('to') || toDay(new Date());
+    const from = searchParams.get('from') || shiftDay(to, { years: -1 });
+    if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to)) {
+      return NextResponse.json({ error: 'from and to must be dates (YYYY-MM-DD)' }, { status: 400 });
+    }
+
+    const ids = resolveSeriesIds(names, kind as RateKind | undefined);
+    console.log(`[market-rates/history] ${ids.join(', ')} from ${from} to ${to}`);
+    const series = await getRateHistory(ids, from, to);
+
+    return NextResponse.json({ from, to, series });
+  } catch (error) {
+    console.error('Error in /api/market-rates/history:', error);
+    return NextResponse.json({
+      error: 'Failed to read rate history',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/market-rates/history', handleGet);
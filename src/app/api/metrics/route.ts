@@ -0,0 +1,31 @@
+/**
+ * API Route for Prometheus
+ * 
+ * Every metric in the Prometheus text format. Requires `Authorization: Bearer <METRICS_TOKEN>`
+ * when METRICS_TOKEN is set
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import CONFIG from '../../../config';
+import { toPrometheusText } from '../../../utils/metrics';
+
+export async function GET(request: Request) {
+  if (CONFIG.METRICS_TOKEN && request.headers.get('authorization') !== `Bearer ${CONFIG.METRICS_TOKEN}`) {
+    return NextResponse.json({ error: 'Invalid metrics token' }, { status: 401 });
+  }
+
+  try {
+    return new NextResponse(await toPrometheusText(), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Error in /api/metrics:', error);
+    return NextResponse.json({
+      error: 'Failed to read metrics',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
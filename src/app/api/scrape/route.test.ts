@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Article } from '../../../../types/article';
+
+const articles: Article[] = [
+  {
+    title: 'Hillwood Breaks Ground On 1.2M SF Alliance Distribution Center',
+    url: 'https://www.bisnow.com/dallas-ft-worth/news/industrial/hillwood-breaks-ground-129288',
+    publishedDate: 'May 06, 2025',
+    publishedAt: '2025-05-06T16:05:00.000Z',
+    source: 'Bisnow',
+    region: 'Texas',
+    propertyTypes: ['industrial'],
+    dealTypes: ['development'],
+    storyId: 'hillwood'
+  },
+  {
+    title: 'Manhattan Office Leasing Tops 10M SF in First Quarter',
+    url: 'https://www.credaily.com/news/office/2025/05/05/manhattan-office-leasing',
+    publishedDate: 'May 05, 2025',
+    publishedAt: '2025-05-05T00:00:00.000Z',
+    source: 'CREDaily',
+    region: 'New York',
+    propertyTypes: ['office'],
+    dealTypes: ['lease']
+  },
+  {
+    title: 'Blackstone Buys Last-Mile Industrial Portfolio for $710M',
+    url: 'https://www.connectcre.com/stories/blackstone-buys-last-mile-industrial-portfolio/',
+    publishedDate: 'May 04, 2025',
+    publishedAt: '2025-05-04T00:00:00.000Z',
+    source: 'ConnectCRE',
+    region: 'National',
+    propertyTypes: ['industrial'],
+    dealTypes: ['sale']
+  },
+  {
+    // The same story as the Bisnow article, published later and tagged differently
+    title: 'Hillwood Starts Work on 1.2M SF Alliance Distribution Center',
+    url: 'https://www.globest.com/2025/05/07/hillwood-starts-work-on-alliance-distribution-center/',
+    publishedDate: 'May 07, 2025',
+    publishedAt: '2025-05-07T00:00:00.000Z',
+    source: 'GlobeSt',
+    region: 'National',
+    propertyTypes: ['industrial'],
+    dealTypes: ['development'],
+    storyId: 'hillwood'
+  }
+];
+
+// Scrape inline (ARTICLE_STORE=none in the test env) from a fixed set of articles
+vi.mock('../../../utils/scrapers', () => ({
+  getAllArticlesWithStatus: async () => ({ articles, sources: [] }),
+  getSampleArticles: () => []
+}));
+
+const { GET, dynamic } = await import('./route');
+
+async function get(query: string) {
+  const response = await GET(new Request(`http://localhost/api/scrape${query}`));
+  return { status: response.status, body: await response.json() };
+}
+
+describe('GET /api/scrape', () => {
+  it('is rendered on every request so query params reach the handler', () => {
+    expect(dynamic).toBe('force-dynamic');
+  });
+
+  it('returns every article without filters', async () => {
+    const { status, body } = await get('');
+    expect(status).toBe(200);
+    expect(body.total).toBe(3);
+  });
+
+  it('filters by sector', async () => {
+    const { body } = await get('?sector=industrial');
+    expect(body.total).toBe(2);
+    expect(body.articles.map((article: Article) => article.source).sort()).toEqual(['Bisnow', 'ConnectCRE']);
+  });
+
+  it('filters by source and region', async () => {
+    const { body } = await get('?source=credaily');
+    expect(body.articles.map((article: Article) => article.title)).toEqual([articles[1].title]);
+
+    const { body: inTexas } = await get('?region=Texas');
+    expect(inTexas.articles.map((article: Article) => article.url)).toEqual([articles[0].url]);
+
+    // Texas is in the South group, so the state-tagged article is in the South too
+    const { body: inSouth } = await get('?region=South');
+    expect(inSouth.articles.map((article: Article) => article.url)).toEqual([articles[0].url]);
+  });
+
+  it('matches a story by any source and region that covered it', async () => {
+    const { body } = await get('?source=globest');
+    expect(body.total).toBe(1);
+    // The first article published is shown, with GlobeSt's listed as also covering it
+    expect(body.articles[0].url).toBe(articles[0].url);
+    expect(body.articles[0].alsoCoveredBy.map((coverage: { source: string }) => coverage.source)).toEqual(['GlobeSt']);
+
+    const { body: national } = await get('?region=National');
+    expect(national.articles.map((article: Article) => article.url).sort()).toEqual([articles[0].url, articles[2].url].sort());
+  });
+
+  it('counts each story once per source and region that covered it', async () => {
+    const { body } = await get('');
+    expect(body.total).toBe(3);
+    expect(body.facets.source).toEqual({ Bisnow: 1, CREDaily: 1, ConnectCRE: 1, GlobeSt: 1 });
+    expect(body.facets.region.Texas).toBe(1);
+    expect(body.facets.region.National).toBe(2);
+
+    // The source facet ignores the source filter, so every source still has its count
+    const { body: fromGlobeSt } = await get('?source=globest');
+    expect(fromGlobeSt.facets.source.Bisnow).toBe(1);
+    expect(fromGlobeSt.facets.region).toMatchObject({ National: 1 });
+  });
+
+  it('rejects an unknown sector', async () => {
+    const { status, body } = await get('?sector=castles');
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Invalid sector/);
+  });
+});
@@ -1,32 +1,137 @@
-import { NextResponse } from 'next/server';
+/**
+ * API Route for Articles
+ *
+ * The latest scrape (or the article history with `history=true`), filtered by the
+ * query params, paginated and with facet counts
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
 
-// Configure this route for static export
-// This must be force-static for compatibility with static exports
-export const dynamic = 'force-static';
-// This will make the route work with static export
-import { Article } from '../../../../types/article';
-import { mockArticles } from '../../../mocks/articles';
-import { getAllArticles } from '../../../utils/scrapers';
+import { NextResponse } from 'next/server';
+import { Article, DealType, PropertyType, SourceStatus } from '../../../../types/article';
+import { getAllArticlesWithStatus, getSampleArticles } from '../../../utils/scrapers';
 import CONFIG from '../../../config';
 import logger from '../../../utils/logger';
+import {
+  getArticleRepository,
+  ArticleQuery,
+  ArticleFacets,
+  ArticleSort,
+  ARTICLE_SORTS
+} from '../../../utils/repository';
+import { getLatestArticlesFromStore } from '../../../utils/ingest';
+import { withPublishedAt } from '../../../utils/dates';
+import { queryArticles, encodeCursor, decodeCursor } from '../../../utils/article-query';
+import { searchArticles } from '../../../utils/search';
+import { withClassification, PROPERTY_TYPES, DEAL_TYPES } from '../../../utils/classify';
+import { withLocations, resolveMetro } from '../../../utils/geography';
+import { isKnownRegion } from '../../../utils/regions';
+import { withRouteMetrics } from '../../../utils/metrics';
 
 type ArticleParams = {
   page?: number;
   pageSize?: number;
-  region?: string;
-  source?: string;
+  // Any of these regions / sources; a region group includes its states
+  region?: string[];
+  source?: string[];
+  // Any of these property types (sectors) / deal types
+  sector?: string[];
+  dealType?: string[];
+  // Any of these metros (canonical gazetteer names)
+  metro?: string[];
+  // Defaults to 'newest', or 'firstSeen' when reading the history
+  sort?: ArticleSort;
+  // Publish date bounds (ISO dates or timestamps)
+  from?: string;
+  to?: string;
+  // Only articles first seen after this (decoded) cursor
+  since?: string;
+  // Full-text search; results are ordered by relevance unless a sort is given
+  searchTerm?: string;
+  // Read from the article store instead of the latest scrape
+  history?: boolean;
+  seenFrom?: string;
+  seenTo?: string;
 };
 
-/**
- * Get articles with pagination and filtering
- */
-async function getArticlesFromSource(params: ArticleParams = {}): Promise<{
+type ArticlesResponse = {
   articles: Article[];
   total: number;
   page: number;
   pageSize: number;
   totalPages: number;
-}> {
+  sources: SourceStatus[];
+  // Article counts per source, region and metro for the current filters
+  facets: ArticleFacets;
+  // Pass back as `since` to get only articles that are new after this response
+  cursor: string;
+};
+
+/**
+ * Filters shared by the history and latest-scrape views
+ */
+function toArticleQuery(params: ArticleParams, defaultSort: ArticleSort): ArticleQuery {
+  return {
+    sort: params.sort || (params.searchTerm ? undefined : defaultSort),
+    source: params.source,
+    region: params.region,
+    propertyType: params.sector,
+    dealType: params.dealType,
+    metro: params.metro,
+    publishedFrom: params.from,
+    publishedTo: params.to,
+    firstSeenAfter: params.since,
+    facets: true
+  };
+}
+
+/**
+ * Page through every article the store has seen (most recently discovered first by default)
+ */
+async function getArticlesFromHistory(params: ArticleParams): Promise<Omit<ArticlesResponse, 'cursor'>> {
+  const repository = getArticleRepository();
+  if (!repository) {
+    throw new Error('Article history is disabled (ARTICLE_STORE=none)');
+  }
+  
+  const page = params.page || 1;
+  const pageSize = params.pageSize || 10;
+  
+  const query: ArticleQuery = {
+    ...toArticleQuery(params, 'firstSeen'),
+    seenFrom: params.seenFrom,
+    seenTo: params.seenTo,
+    limit: pageSize,
+    offset: (page - 1) * pageSize
+  };
+  const { articles, total, facets } = params.searchTerm
+    ? queryArticles(await searchArticles(params.searchTerm), query)
+    : await repository.query(query);
+  
+  logger.info({ 
+    event: 'api_history_fetch_complete',
+    totalArticles: total,
+    page,
+    seenFrom: params.seenFrom,
+    seenTo: params.seenTo
+  });
+  
+  return {
+    articles: articles.map(article => ({ ...withLocations(withClassification(withPublishedAt(article))), provenance: 'cached' as const })),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+    sources: [],
+    facets: facets || { source: {}, region: {}, metro: {} }
+  };
+}
+
+/**
+ * Get articles with pagination and filtering
+ */
+async function getArticlesFromSource(params: ArticleParams = {}): Promise<Omit<ArticlesResponse, 'cursor'>> {
   try {
     // Log whether we're using mock or real data
     logger.info({ 
@@ -41,86 +146,58 @@ async function getArticlesFromSource(params: ArticleParams = {}): Promise<{
     
     // Get articles (either from mock data or real scrapers)
     let allArticles: Article[] = [];
+    let sources: SourceStatus[] = [];
     
-    if (CONFIG.USE_MOCK_DATA) {
+    // Mock data is synthesized, so strict mode ignores USE_MOCK_DATA
+    if (CONFIG.USE_MOCK_DATA && !CONFIG.STRICT_MODE) {
       logger.info({ event: 'using_mock_data' });
-      allArticles = [...mockArticles];
+      allArticles = getSampleArticles();
     } else {
-      // Get articles from all enabled scrapers
+      // Scheduled ingestion keeps the store current, so only scrape inline without it
+      const readFromStore = CONFIG.INGEST_MODE === 'scheduled' && CONFIG.ARTICLE_STORE !== 'none';
       logger.info({ 
-        event: 'using_real_scrapers',
+        event: readFromStore ? 'using_article_store' : 'using_real_scrapers',
         enabledSources: CONFIG.ENABLE_SOURCES,
         useMockData: CONFIG.USE_MOCK_DATA
       });
       
       try {
-        allArticles = await getAllArticles();
+        const result = readFromStore
+          ? await getLatestArticlesFromStore()
+          : await getAllArticlesWithStatus();
+        allArticles = result.articles;
+        sources = result.sources;
         logger.info({ 
           event: 'articles_fetched', 
           count: allArticles.length,
-          sources: allArticles.map(a => a.source).filter((v, i, a) => a.indexOf(v) === i)
+          sources: sources.map(status => `${status.source}:${status.status}`)
         });
       } catch (error) {
         logger.error({ 
           event: 'error_fetching_articles', 
           error: error instanceof Error ? error.message : String(error)
         });
-        // Fallback to mock data if real scraping fails
-        allArticles = [...mockArticles];
+        // Never fall back to invented articles in strict mode
+        if (CONFIG.STRICT_MODE) {
+          throw error;
+        }
+        allArticles = getSampleArticles();
         logger.info({ event: 'falling_back_to_mock_data', count: allArticles.length });
       }
-      
-      // Fix for GlobeSt articles with "Unknown" dates
-      // This is a temporary fix until the caching issue is resolved
-      allArticles = allArticles.map(article => {
-        if (article.source === 'GlobeSt' && article.publishedDate === 'Unknown') {
-          // Extract date from URL if possible (format: /YYYY/MM/DD/)
-          const dateMatch = article.url.match(/\/(\d{4})\/(\d{2})\/(\d{2})\//i);
-          if (dateMatch) {
-            const year = dateMatch[1];
-            const month = parseInt(dateMatch[2]);
-            const day = dateMatch[3];
-            
-            // Convert month number to name
-            const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-            const monthName = monthNames[month - 1];
-            
-            // Format date like "May 06, 2025"
-            article.publishedDate = `${monthName} ${day}, ${year}`;
-            logger.info({
-              event: 'fixed_globest_date',
-              url: article.url,
-              date: article.publishedDate
-            });
-          }
-        }
-        return article;
-      });
     }
     
-    // Filter by region if specified
-    if (params.region && params.region !== 'all' && params.region !== 'All') {
-      const regionToFilter = params.region.toLowerCase();
-      allArticles = allArticles.filter(article => 
-        article.region.toLowerCase() === regionToFilter
-      );
+    // Articles cached or stored before dates were normalized or articles were classified and located lack those fields
+    allArticles = allArticles.map(article => withLocations(withClassification(withPublishedAt(article))));
+    if (params.searchTerm) {
+      allArticles = await searchArticles(params.searchTerm, allArticles);
     }
     
-    // Filter by source if specified
-    if (params.source) {
-      allArticles = allArticles.filter(article => 
-        article.source.toLowerCase().includes(params.source!.toLowerCase())
-      );
-    }
-    
-    // Calculate pagination
-    const total = allArticles.length;
+    const { articles: paginatedArticles, total, facets } = queryArticles(allArticles, {
+      ...toArticleQuery(params, 'newest'),
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    });
     const totalPages = Math.ceil(total / pageSize);
-    const startIndex = (page - 1) * pageSize;
-    const endIndex = Math.min(startIndex + pageSize, total);
-    
-    // Get the current page of articles
-    const paginatedArticles = allArticles.slice(startIndex, endIndex);
     
     logger.info({ 
       event: 'api_fetch_complete',
@@ -135,7 +212,9 @@ async function getArticlesFromSource(params: ArticleParams = {}): Promise<{
       total,
       page,
       pageSize,
-      totalPages
+      totalPages,
+      sources,
+      facets: facets || { source: {}, region: {}, metro: {} }
     };
   } catch (error) {
     logger.error({ 
@@ -147,24 +226,109 @@ async function getArticlesFromSource(params: ArticleParams = {}): Promise<{
   }
 }
 
-export async function GET(request: Request) {
+/**
+ * Article bodies are only kept for search, so they are left out of list responses
+ */
+function toListItem(article: Article): Article {
+  const item = { ...article };
+  delete item.body;
+  return item;
+}
+
+/**
+ * Read a multi-value param, given either repeated (?source=a&source=b) or comma-separated (?source=a,b)
+ * 'all' means no filter
+ * @param isName Values that are names as a whole are not split, so "Washington, D.C." works
+ */
+function getListParam(
+  searchParams: URLSearchParams,
+  name: string,
+  isName: (value: string) => boolean = () => false
+): string[] | undefined {
+  const values = searchParams.getAll(name)
+    .flatMap(value => (isName(value.trim()) ? [value] : value.split(',')))
+    .map(value => value.trim())
+    .filter(value => value && value.toLowerCase() !== 'all');
+  return values.length > 0 ? values : undefined;
+}
+
+async function handleGet(request: Request) {
   console.log('API route: Starting GET request');
   try {
     // Parse URL parameters
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const pageSize = parseInt(searchParams.get('pageSize') || '10');
-    const region = searchParams.get('region') || undefined;
-    const source = searchParams.get('source') || undefined;
+    const region = getListParam(searchParams, 'region', isKnownRegion);
+    const source = getListParam(searchParams, 'source');
+    const sector = getListParam(searchParams, 'sector')?.map(value => value.toLowerCase());
+    const dealType = getListParam(searchParams, 'dealType')?.map(value => value.toLowerCase());
+    const metroNames = getListParam(searchParams, 'metro', value => Boolean(resolveMetro(value)));
+    const sort = searchParams.get('sort') || undefined;
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const since = searchParams.get('since') || undefined;
+    const searchTerm = (searchParams.get('searchTerm') || searchParams.get('q') || '').trim() || undefined;
+    const history = searchParams.get('history') === 'true';
+    const seenFrom = searchParams.get('seenFrom') || undefined;
+    const seenTo = searchParams.get('seenTo') || undefined;
+    
+    // Taken before reading so articles stored during this request count as new next time
+    const cursor = encodeCursor();
     
-    console.log('API route: Getting articles with params:', { page, pageSize, region, source });
+    for (const [name, value] of [['from', from], ['to', to], ['seenFrom', seenFrom], ['seenTo', seenTo]]) {
+      if (value && isNaN(new Date(value).getTime())) {
+        return NextResponse.json({ error: `Invalid ${name} date: ${value}` }, { status: 400 });
+      }
+    }
+    if (sort && !ARTICLE_SORTS.includes(sort as ArticleSort)) {
+      return NextResponse.json({ error: `Invalid sort: ${sort} (expected one of ${ARTICLE_SORTS.join(', ')})` }, { status: 400 });
+    }
+    const unknownRegion = region?.find(value => !isKnownRegion(value));
+    if (unknownRegion) {
+      return NextResponse.json({ error: `Unknown region: ${unknownRegion} (expected National, a region or a state)` }, { status: 400 });
+    }
+    const unknownSector = sector?.find(value => !PROPERTY_TYPES.includes(value as PropertyType));
+    if (unknownSector) {
+      return NextResponse.json({ error: `Invalid sector: ${unknownSector} (expected one of ${PROPERTY_TYPES.join(', ')})` }, { status: 400 });
+    }
+    const unknownDealType = dealType?.find(value => !DEAL_TYPES.includes(value as DealType));
+    if (unknownDealType) {
+      return NextResponse.json({ error: `Invalid dealType: ${unknownDealType} (expected one of ${DEAL_TYPES.join(', ')})` }, { status: 400 });
+    }
+    const unknownMetro = metroNames?.find(value => !resolveMetro(value));
+    if (unknownMetro) {
+      return NextResponse.json({ error: `Unknown metro: ${unknownMetro}` }, { status: 400 });
+    }
+    const metro = metroNames?.map(value => resolveMetro(value)!);
+    const sinceTimestamp = since ? decodeCursor(since) : undefined;
+    if (sinceTimestamp === null) {
+      return NextResponse.json({ error: `Invalid since cursor: ${since}` }, { status: 400 });
+    }
+    
+    console.log('API route: Getting articles with params:', { page, pageSize, region, source, sector, dealType, metro, sort, from, to, since: sinceTimestamp, searchTerm, history, seenFrom, seenTo });
     
-    const result = await getArticlesFromSource({
+    const params: ArticleParams = {
       page,
       pageSize,
-      region: region as string | undefined,
-      source: source as string | undefined
-    });
+      region,
+      source,
+      sector,
+      dealType,
+      metro,
+      sort: sort as ArticleSort | undefined,
+      from,
+      to,
+      since: sinceTimestamp,
+      searchTerm,
+      seenFrom,
+      seenTo
+    };
+    
+    // Seen-date windows only make sense against the stored history
+    const result = history || seenFrom || seenTo
+      ? await getArticlesFromHistory(params)
+      : await getArticlesFromSource(params);
     
     console.log(`API route: Got ${result.articles.length} articles (page ${result.page} of ${result.totalPages})`);
     
@@ -172,7 +336,7 @@ export async function GET(request: Request) {
     console.log(`API route: Found ${result.articles.length} articles`);
     // No need to return a 404 - empty array is a valid response
     
-    return NextResponse.json(result);
+    return NextResponse.json({ ...result, articles: result.articles.map(toListItem), cursor });
   } catch (error) {
     console.error('Error in /api/scrape:', error);
     return NextResponse.json({ 
@@ -181,3 +345,5 @@ export async function GET(request: Request) {
     }, { status: 500 });
   }
 }
+
+export const GET = withRouteMetrics('/api/scrape', handleGet);
@@ -0,0 +1,38 @@
+/**
+ * API Route for Source Health
+ * 
+ * Reports each source's circuit breaker (closed, open or half-open), its health
+ * score and the recent run history behind it, and each site's politeness limits
+ * and requests today
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { circuitBreakers } from '../../../../utils/circuit-breaker';
+import { getEnabledDefinitions } from '../../../../utils/scrapers';
+import { httpClient } from '../../../../utils/http';
+import { withRouteMetrics } from '../../../../utils/metrics';
+
+async function handleGet() {
+  try {
+    // Enabled sources first, then any others with recorded runs
+    const enabled = getEnabledDefinitions().map(definition => definition.name);
+    const recorded = circuitBreakers.getAllHealth().map(health => health.source);
+    const sources = [...new Set([...enabled, ...recorded])];
+
+    return NextResponse.json({
+      sources: circuitBreakers.getAllHealth(sources),
+      hosts: await httpClient.getHostStatuses()
+    });
+  } catch (error) {
+    console.error('Error in /api/sources/health:', error);
+    return NextResponse.json({
+      error: 'Failed to read source health',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
+
+export const GET = withRouteMetrics('/api/sources/health', handleGet);
@@ -0,0 +1,336 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Layout from '../../components/Layout';
+import type { MarketRate, MarketRatesResult } from '../../utils/rates';
+import {
+  CONSTRAINT_LABELS,
+  DEFAULT_LOAN_INPUTS,
+  LoanSizingInputs,
+  LoanSizingResult,
+  SensitivityRow,
+  fromSearchParams,
+  sizeLoan,
+  spreadSensitivity,
+  toSearchParams,
+  validateLoanInputs
+} from '../../utils/loan-sizing';
+
+// Form fields are kept as typed so partial numbers can be edited
+type LoanForm = {
+  noi: string;
+  value: string;
+  amortizationYears: string;
+  termYears: string;
+  index: string;
+  // Percent, e.g. '4.35'
+  indexRate: string;
+  spreadBps: string;
+  minDscr: string;
+  maxLtv: string;
+  minDebtYield: string;
+};
+
+const toForm = (inputs: LoanSizingInputs): LoanForm => ({
+  noi: String(inputs.noi),
+  value: String(inputs.value),
+  amortizationYears: String(inputs.amortizationYears),
+  termYears: String(inputs.termYears),
+  index: inputs.index,
+  indexRate: inputs.indexRateBps ? (inputs.indexRateBps / 100).toFixed(2) : '',
+  spreadBps: String(inputs.spreadBps),
+  minDscr: inputs.minDscr !== undefined ? String(inputs.minDscr) : '',
+  maxLtv: inputs.maxLtv !== undefined ? String(inputs.maxLtv) : '',
+  minDebtYield: inputs.minDebtYield !== undefined ? String(inputs.minDebtYield) : ''
+});
+
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+const toInputs = (form: LoanForm): LoanSizingInputs => ({
+  noi: Number(form.noi),
+  value: Number(form.value),
+  amortizationYears: Number(form.amortizationYears),
+  termYears: Number(form.termYears),
+  index: form.index,
+  indexRateBps: form.indexRate.trim() === '' ? NaN : Math.round(Number(form.indexRate) * 10000) / 100,
+  spreadBps: Number(form.spreadBps),
+  minDscr: optionalNumber(form.minDscr),
+  maxLtv: optionalNumber(form.maxLtv),
+  minDebtYield: optionalNumber(form.minDebtYield)
+});
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+const formatMoney = (value: number) => currency.format(value);
+const formatPercent = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+const formatRatio = (value: number) => (Number.isFinite(value) ? `${value.toFixed(2)}x` : '—');
+
+const FIELD_CLASS = 'w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white';
+
+/**
+ * Loan sizing and debt-yield calculator: the largest loan meeting LTV, DSCR and
+ * debt-yield constraints at a note rate of a live index plus a spread.
+ * The inputs are kept in the URL, so a sizing can be shared as a link
+ */
+export default function LoanSizingPage() {
+  const [form, setForm] = useState<LoanForm>(toForm(DEFAULT_LOAN_INPUTS));
+  const [rates, setRates] = useState<MarketRate[]>([]);
+  const [ratesAsOf, setRatesAsOf] = useState<string | null>(null);
+  const [ratesLoaded, setRatesLoaded] = useState(false);
+  // Whether the index rate follows the live rate (false when a shared link set it)
+  const [useLiveRate, setUseLiveRate] = useState(true);
+  const [loaded, setLoaded] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  // Inputs from the URL, once on load
+  useEffect(() => {
+    const shared = fromSearchParams(new URLSearchParams(window.location.search));
+    setForm(toForm({ ...DEFAULT_LOAN_INPUTS, ...shared }));
+    if (shared.indexRateBps) setUseLiveRate(false);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    const fetchRates = async () => {
+      try {
+        const response = await fetch('/api/market-rates', { cache: 'no-store' });
+        if (!response.ok) return;
+        const data: MarketRatesResult = await response.json();
+        setRates(data.rates);
+        setRatesAsOf(data.rates.map(rate => rate.asOf).sort().slice(-1)[0] || null);
+      } catch (error) {
+        console.error('Loan sizing: Error fetching market rates:', error);
+      } finally {
+        setRatesLoaded(true);
+      }
+    };
+    fetchRates();
+  }, []);
+
+  // Follow the live rate for the chosen index
+  useEffect(() => {
+    if (!useLiveRate) return;
+    const live = rates.find(rate => rate.id === form.index);
+    if (live) {
+      setForm(current => ({ ...current, indexRate: (live.valueBps / 100).toFixed(2) }));
+    }
+  }, [useLiveRate, rates, form.index]);
+
+  const inputs = useMemo(() => toInputs(form), [form]);
+  const problems = useMemo(() => validateLoanInputs(inputs), [inputs]);
+
+  const { result, sensitivity } = useMemo((): { result: LoanSizingResult | null; sensitivity: SensitivityRow[] } => {
+    if (problems.length > 0) return { result: null, sensitivity: [] };
+    return { result: sizeLoan(inputs), sensitivity: spreadSensitivity(inputs) };
+  }, [inputs, problems]);
+
+  // Keep the URL in step with the inputs
+  useEffect(() => {
+    if (!loaded) return;
+    window.history.replaceState(null, '', `${window.location.pathname}?${toSearchParams(inputs)}`);
+  }, [inputs, loaded]);
+
+  const setField = (field: keyof LoanForm) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm(current => ({ ...current, [field]: e.target.value }));
+    if (field === 'indexRate') setUseLiveRate(false);
+    if (field === 'index') setUseLiveRate(true);
+    setCopied(false);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+    } catch (error) {
+      console.error('Loan sizing: Could not copy the link:', error);
+    }
+  };
+
+  const selectedIndex = rates.find(rate => rate.id === form.index);
+
+  const numberField = (field: keyof LoanForm, label: string, hint?: string) => (
+    <label className="block">
+      <span className="block text-sm text-gray-300 mb-1">{label}</span>
+      <input type="number" inputMode="decimal" value={form[field]} onChange={setField(field)} className={FIELD_CLASS} />
+      {hint && <span className="block text-xs text-gray-500 mt-1">{hint}</span>}
+    </label>
+  );
+
+  return (
+    <Layout>
+      <header className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-100 mb-2">Loan Sizing</h1>
+          <p className="text-gray-400">
+            The largest loan meeting your LTV, DSCR and debt-yield constraints, priced over a live index.
+          </p>
+        </div>
+        <button
+          onClick={copyLink}
+          className="px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors"
+        >
+          {copied ? 'Link copied' : 'Copy link'}
+        </button>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <section className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 space-y-4">
+          <h2 className="text-lg font-semibold text-white">Property</h2>
+          {numberField('noi', 'NOI ($/year)')}
+          {numberField('value', 'Value ($)')}
+
+          <h2 className="text-lg font-semibold text-white pt-2">Loan</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('termYears', 'Term (years)')}
+            {numberField('amortizationYears', 'Amortization (years)', '0 for interest-only')}
+          </div>
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Index</span>
+            <select value={form.index} onChange={setField('index')} className={FIELD_CLASS}>
+              {!selectedIndex && <option value={form.index}>{form.index}</option>}
+              {rates.map(rate => (
+                <option key={rate.id} value={rate.id}>{rate.name} ({formatPercent(rate.valueBps)})</option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            {numberField('indexRate', 'Index rate (%)')}
+            {numberField('spreadBps', 'Spread (bp)')}
+          </div>
+          <p className="text-xs text-gray-500">
+            {useLiveRate
+              ? (selectedIndex
+                ? `Live rate as of ${new Date(ratesAsOf || selectedIndex.asOf).toLocaleDateString()}`
+                : ratesLoaded ? 'No live rate for this index; enter it by hand' : 'Loading live rates…')
+              : (
+                <>
+                  Index rate set by hand.{' '}
+                  {selectedIndex && (
+                    <button onClick={() => setUseLiveRate(true)} className="text-cyan-400 hover:text-cyan-300">
+                      Use the live rate ({formatPercent(selectedIndex.valueBps)})
+                    </button>
+                  )}
+                </>
+              )}
+          </p>
+
+          <h2 className="text-lg font-semibold text-white pt-2">Constraints</h2>
+          <p className="text-xs text-gray-500 -mt-2">Leave a constraint empty to not apply it</p>
+          <div className="grid grid-cols-3 gap-3">
+            {numberField('maxLtv', 'Max LTV (%)')}
+            {numberField('minDscr', 'Min DSCR')}
+            {numberField('minDebtYield', 'Min DY (%)')}
+          </div>
+        </section>
+
+        <section className="lg:col-span-2 space-y-6">
+          {!result && !ratesLoaded && form.indexRate === '' ? (
+            <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 text-gray-400">
+              Loading live rates…
+            </div>
+          ) : !result ? (
+            <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4">
+              <p className="text-red-400 font-semibold mb-2">Can&apos;t size this loan</p>
+              <ul className="list-disc list-inside text-gray-300 text-sm">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  { label: 'Max loan', value: formatMoney(result.maxLoan) },
+                  { label: 'Binding constraint', value: CONSTRAINT_LABELS[result.bindingConstraint] },
+                  { label: 'Note rate', value: formatPercent(result.noteRateBps) },
+                  { label: 'Monthly payment', value: formatMoney(result.monthlyPayment) },
+                  { label: 'LTV', value: `${result.ltv.toFixed(1)}%` },
+                  { label: 'DSCR', value: formatRatio(result.dscr) },
+                  { label: 'Debt yield', value: Number.isFinite(result.debtYield) ? `${result.debtYield.toFixed(2)}%` : '—' },
+                  { label: `Balloon (year ${inputs.termYears})`, value: formatMoney(result.balloon) }
+                ].map(card => (
+                  <div key={card.label} className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4">
+                    <div className="text-xs text-gray-400">{card.label}</div>
+                    <div className="text-xl font-semibold text-white mt-1">{card.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4">
+                <h2 className="text-lg font-semibold text-white mb-3">Proceeds by constraint</h2>
+                <table className="w-full text-sm">
+                  <tbody>
+                    {result.constraints.map(c => (
+                      <tr key={c.constraint} className="border-b border-gray-700 last:border-0">
+                        <td className="py-2 text-gray-300">{CONSTRAINT_LABELS[c.constraint]}</td>
+                        <td className={`py-2 text-right ${c.constraint === result.bindingConstraint ? 'text-cyan-400 font-semibold' : 'text-gray-200'}`}>
+                          {formatMoney(c.maxLoan)}
+                          {c.constraint === result.bindingConstraint && <span className="ml-2 text-xs">binding</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 overflow-x-auto">
+                <h2 className="text-lg font-semibold text-white mb-3">Sensitivity to spread</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="py-2 font-medium">Spread</th>
+                      <th className="py-2 font-medium">Note rate</th>
+                      <th className="py-2 font-medium text-right">Max loan</th>
+                      <th className="py-2 font-medium text-right">Debt service</th>
+                      <th className="py-2 font-medium text-right">DSCR</th>
+                      <th className="py-2 font-medium text-right">Binding</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sensitivity.map(row => (
+                      <tr
+                        key={row.spreadBps}
+                        className={`border-t border-gray-700 ${row.spreadBps === inputs.spreadBps ? 'text-cyan-400' : 'text-gray-200'}`}
+                      >
+                        <td className="py-2">{row.spreadBps}bp</td>
+                        <td className="py-2">{formatPercent(row.noteRateBps)}</td>
+                        <td className="py-2 text-right">{formatMoney(row.maxLoan)}</td>
+                        <td className="py-2 text-right">{formatMoney(row.annualDebtService)}</td>
+                        <td className="py-2 text-right">{formatRatio(row.dscr)}</td>
+                        <td className="py-2 text-right">{CONSTRAINT_LABELS[row.bindingConstraint]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 overflow-x-auto">
+                <h2 className="text-lg font-semibold text-white mb-3">Payment schedule</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="py-2 font-medium">Year</th>
+                      <th className="py-2 font-medium text-right">Payments</th>
+                      <th className="py-2 font-medium text-right">Interest</th>
+                      <th className="py-2 font-medium text-right">Principal</th>
+                      <th className="py-2 font-medium text-right">Ending balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.schedule.map(row => (
+                      <tr key={row.year} className="border-t border-gray-700 text-gray-200">
+                        <td className="py-2">{row.year}</td>
+                        <td className="py-2 text-right">{formatMoney(row.payment)}</td>
+                        <td className="py-2 text-right">{formatMoney(row.interest)}</td>
+                        <td className="py-2 text-right">{formatMoney(row.principal)}</td>
+                        <td className="py-2 text-right">{formatMoney(row.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </Layout>
+  );
+}
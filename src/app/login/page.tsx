@@ -0,0 +1,133 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Layout from '../../components/Layout';
+
+interface SessionInfo {
+  user: { name: string; role: string } | null;
+  configured: boolean;
+  providers: { local: boolean; oidc: boolean };
+}
+
+/**
+ * Sign in with a local account or the configured OIDC provider
+ * Protected pages send users here with `next` set to where they were going
+ */
+export default function LoginPage() {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [next, setNext] = useState('/');
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setNext(params.get('next') || '/');
+    setError(params.get('error'));
+
+    fetch('/api/auth/session')
+      .then(response => response.json() as Promise<SessionInfo>)
+      .then(setSession)
+      .catch(err => console.error('Login: Error fetching session:', err));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to sign in');
+        return;
+      }
+      // A full navigation so the middleware sees the new session cookie
+      window.location.assign(next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (err) {
+      console.error('Login: Error signing in:', err);
+      setError('Failed to sign in. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setSession(current => current && { ...current, user: null });
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-md mx-auto bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+        <h1 className="text-2xl font-bold text-gray-100 mb-6">Sign In</h1>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-900/50 border border-red-700 rounded-md text-red-200 text-sm">{error}</div>
+        )}
+
+        {session && !session.configured && (
+          <div className="mb-4 p-3 bg-yellow-900/50 border border-yellow-700 rounded-md text-yellow-200 text-sm">
+            Sign-in is not configured on this server (AUTH_SECRET is not set).
+          </div>
+        )}
+
+        {session?.user && (
+          <div className="mb-4 text-gray-300 text-sm">
+            Signed in as <span className="font-medium text-gray-100">{session.user.name}</span> ({session.user.role}).{' '}
+            <button onClick={handleSignOut} className="text-cyan-400 hover:text-cyan-300">Sign out</button>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="username" className="block text-gray-300 text-sm font-medium mb-1">Username</label>
+            <input
+              id="username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="password" className="block text-gray-300 text-sm font-medium mb-1">Password</label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full bg-gray-700 text-white border border-gray-600 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Signing in...' : 'Sign In'}
+          </button>
+        </form>
+
+        {session?.providers.oidc && (
+          <a
+            href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+            className="block mt-4 w-full text-center px-4 py-2 bg-gray-700 text-gray-200 border border-gray-600 rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Sign in with SSO
+          </a>
+        )}
+      </div>
+    </Layout>
+  );
+}
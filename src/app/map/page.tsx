@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Article, State } from '../../types/article';
+import Layout from '../../components/Layout';
+import USMap from '../../components/USMap';
+import ArticleCard from '../../components/ArticleCard';
+import { newsService } from '../../services/newsService';
+
+const ARTICLES_PER_PAGE = 12;
+
+// Time window choices for the slider, in days
+const MIN_DAYS = 1;
+const MAX_DAYS = 30;
+const DEFAULT_DAYS = 7;
+
+/**
+ * Where news is clustering: article counts per state and metro over a time window,
+ * from the stored article history. Clicking a state or metro opens the home feed
+ * filtered to it (`/?region=Texas`, `/?metro=Dallas-Fort Worth`)
+ */
+export default function MapPage() {
+  const router = useRouter();
+  const [days, setDays] = useState(DEFAULT_DAYS);
+  // The slider value while it is being dragged; applied on release
+  const [pendingDays, setPendingDays] = useState(DEFAULT_DAYS);
+
+  const [articles, setArticles] = useState<Article[]>([]);
+  const [total, setTotal] = useState(0);
+  const [stateCounts, setStateCounts] = useState<Record<string, number>>({});
+  const [metroCounts, setMetroCounts] = useState<Record<string, number>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadArticles = useCallback(async () => {
+    setIsLoading(true);
+    setErrorMessage(null);
+
+    try {
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+      console.log('Map: Fetching articles with params:', { days, from });
+
+      const response = await newsService.getArticles({
+        history: true,
+        from,
+        sort: 'newest',
+        pageSize: ARTICLES_PER_PAGE
+      });
+
+      setArticles(response.articles);
+      setTotal(response.total);
+      setStateCounts(response.facets?.region || {});
+      setMetroCounts(response.facets?.metro || {});
+    } catch (error) {
+      console.error('Map: Error fetching articles:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load articles');
+      setArticles([]);
+      setTotal(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadArticles();
+  }, [loadArticles]);
+
+  const handleStateClick = (state: State) => {
+    router.push(`/?${new URLSearchParams({ region: state })}`);
+  };
+
+  const handleMetroClick = (metro: string) => {
+    router.push(`/?${new URLSearchParams({ metro })}`);
+  };
+
+  const applyDays = () => setDays(pendingDays);
+
+  return (
+    <Layout>
+      <header className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-100 mb-2">News Map</h1>
+        <p className="text-gray-400">
+          Articles published in the last {days} day{days === 1 ? '' : 's'} by state and metro.
+          Click a state or a metro to open its news feed.
+        </p>
+      </header>
+
+      <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 mb-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4 mb-4">
+          <label htmlFor="map-days" className="text-gray-300 font-medium mb-2 sm:mb-0">
+            Time window: last {pendingDays} day{pendingDays === 1 ? '' : 's'}
+          </label>
+          <input
+            id="map-days"
+            type="range"
+            min={MIN_DAYS}
+            max={MAX_DAYS}
+            value={pendingDays}
+            onChange={(e) => setPendingDays(Number(e.target.value))}
+            onMouseUp={applyDays}
+            onTouchEnd={applyDays}
+            onKeyUp={applyDays}
+            className="w-full sm:w-72 accent-cyan-500"
+          />
+        </div>
+
+        {errorMessage ? (
+          <div className="py-12 text-center">
+            <p className="text-lg text-red-400 font-semibold mb-2">Error loading the map</p>
+            <p className="text-gray-300">{errorMessage}</p>
+            <button
+              className="mt-6 px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors"
+              onClick={loadArticles}
+            >
+              Try Again
+            </button>
+          </div>
+        ) : (
+          <div className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+            <USMap
+              stateCounts={stateCounts}
+              metroCounts={metroCounts}
+              onStateClick={handleStateClick}
+              onMetroClick={handleMetroClick}
+            />
+            <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-400">
+              <span className="flex items-center">
+                <span className="inline-block w-16 h-3 rounded mr-2 bg-gradient-to-r from-cyan-500/20 to-cyan-500" aria-hidden="true"></span>
+                Articles per state
+              </span>
+              <span className="flex items-center">
+                <span className="inline-block w-3 h-3 rounded-full mr-2 bg-amber-500/75" aria-hidden="true"></span>
+                Articles per metro
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!errorMessage && (
+        <section className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-semibold text-gray-200">
+              All locations
+              <span className="ml-3 text-base font-normal text-gray-400">
+                {total} article{total === 1 ? '' : 's'}
+              </span>
+            </h2>
+          </div>
+          {articles.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {articles.map(article => (
+                <ArticleCard key={article.storyId || article.url} article={article} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400">{isLoading ? 'Loading articles...' : 'No articles in this time window.'}</p>
+          )}
+        </section>
+      )}
+    </Layout>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import Layout from '../../components/Layout';
+import { MarketSectorTabs } from '../../components/MarketSectorTabs';
+import type { PropertyType } from '../../../types/article';
+import type { MarketComparison, MarketComparisonRow } from '../../utils/scrapers/cre-market-data';
+import {
+  FUNDAMENTAL_METRICS,
+  FundamentalMetric,
+  MARKET_SECTORS,
+  METRIC_INFO,
+  isFundamentalMetric,
+  isMarketSector,
+  quarterLabel
+} from '../../utils/market-data/fundamentals';
+import { formatFigure, formatMetricChange } from '../../utils/market-data/format';
+
+// Metros are 'national' in the URL for the national figures
+const NATIONAL = 'national';
+
+// Bar colours for the compared quarters, oldest first (the latest is always the last)
+const QUARTER_COLORS = ['bg-gray-500', 'bg-indigo-400', 'bg-cyan-600', 'bg-blue-400', 'bg-teal-400', 'bg-cyan-400'];
+
+// Columns the table can be sorted by: the metro, a quarter's value, or the latest change
+type SortColumn = 'metro' | 'change' | string;
+
+const metroLabel = (metro: string | null) => metro || 'U.S.';
+const toMetroParam = (metro: string | null) => metro || NATIONAL;
+const fromMetroParam = (value: string) => (value.toLowerCase() === NATIONAL ? null : value);
+const sameMetro = (a: string | null, b: string | null) => (a || '').toLowerCase() === (b || '').toLowerCase();
+
+const FIELD_CLASS = 'bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white';
+
+/**
+ * Bars for each metro in each quarter, on one scale with a zero line (absorption can be negative)
+ */
+const ComparisonBars = ({ comparison, rows }: { comparison: MarketComparison; rows: MarketComparisonRow[] }) => {
+  const values = rows.flatMap(row => row.values.flatMap(value => (value ? [value.value] : [])));
+  if (values.length === 0) return null;
+
+  const min = Math.min(0, ...values);
+  const range = Math.max(0, ...values) - min || 1;
+  const zero = (-min / range) * 100;
+  const colors = QUARTER_COLORS.slice(-comparison.quarters.length);
+
+  return (
+    <div className="space-y-3">
+      {rows.map(row => (
+        <div key={toMetroParam(row.metro)} className="grid grid-cols-[8rem_1fr] gap-3 items-center">
+          <div className="text-sm text-gray-300 truncate" title={metroLabel(row.metro)}>{metroLabel(row.metro)}</div>
+          <div className="space-y-0.5">
+            {row.values.map((value, i) => (
+              <div key={comparison.quarters[i]} className="relative h-3">
+                {value && (
+                  <div
+                    className={`absolute h-3 rounded-sm ${colors[i % colors.length]}`}
+                    style={{
+                      left: `${value.value >= 0 ? zero : zero - (Math.abs(value.value) / range) * 100}%`,
+                      width: `${Math.max((Math.abs(value.value) / range) * 100, 0.5)}%`
+                    }}
+                    title={`${quarterLabel(comparison.quarters[i])}: ${formatFigure(value.value, comparison.unit)}`}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-4 text-xs text-gray-400 pt-2">
+        {comparison.quarters.map((quarter, i) => (
+          <span key={quarter} className="flex items-center">
+            <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${colors[i % colors.length]}`} />
+            {quarterLabel(quarter)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Market comparison: one metric for a sector across metros and quarters, as a
+ * sortable table and bar chart. The choices are kept in the URL, so a
+ * comparison can be shared as a link
+ */
+export default function MarketDataPage() {
+  const [sector, setSector] = useState<PropertyType>('office');
+  const [metric, setMetric] = useState<FundamentalMetric>('vacancyRate');
+  // null until picked: every metro with figures, and the latest four quarters
+  const [metros, setMetros] = useState<(string | null)[] | null>(null);
+  const [quarters, setQuarters] = useState<string[] | null>(null);
+  const [comparison, setComparison] = useState<MarketComparison | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sortColumn, setSortColumn] = useState<SortColumn>('metro');
+  const [sortDescending, setSortDescending] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  // Choices from the URL, once on load
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sectorParam = params.get('sector');
+    const metricParam = params.get('metric');
+    if (isMarketSector(sectorParam)) setSector(sectorParam);
+    if (isFundamentalMetric(metricParam)) setMetric(metricParam);
+    if (params.getAll('metro').length) setMetros(params.getAll('metro').map(fromMetroParam));
+    if (params.get('quarter')) setQuarters(params.get('quarter')!.split(','));
+    setLoaded(true);
+  }, []);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ sector, metric });
+    // One parameter per metro, since metro names can have commas in them
+    metros?.forEach(metro => params.append('metro', toMetroParam(metro)));
+    if (quarters) params.set('quarter', quarters.join(','));
+    return params;
+  }, [sector, metric, metros, quarters]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    // Keep the URL in step with the choices
+    window.history.replaceState(null, '', `${window.location.pathname}?${query}`);
+
+    let cancelled = false;
+    const fetchComparison = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/market-data/compare?${query}`, { cache: 'no-store' });
+        if (cancelled) return;
+        if (!response.ok) {
+          setError('Market data is unavailable right now');
+          return;
+        }
+        const data: MarketComparison = await response.json();
+        if (cancelled) return;
+        setComparison(data);
+        setError(null);
+      } catch (err) {
+        console.error('Market data: Error fetching comparison:', err);
+        if (!cancelled) setError('Market data is unavailable right now');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchComparison();
+    return () => {
+      cancelled = true;
+    };
+  }, [loaded, query]);
+
+  const changeSector = (next: PropertyType) => {
+    setSector(next);
+    // Metros and quarters differ between sectors
+    setMetros(null);
+    setQuarters(null);
+  };
+
+  const shownMetros = metros ?? comparison?.metros ?? [];
+  const shownQuarters = quarters ?? comparison?.quarters ?? [];
+
+  // At least one metro and quarter stay picked
+  const toggleMetro = (metro: string | null) => {
+    const isShown = shownMetros.some(shown => sameMetro(shown, metro));
+    if (isShown && shownMetros.length === 1) return;
+    setMetros(isShown ? shownMetros.filter(shown => !sameMetro(shown, metro)) : [...shownMetros, metro]);
+  };
+
+  const toggleQuarter = (quarter: string) => {
+    const isShown = shownQuarters.includes(quarter);
+    if (isShown && shownQuarters.length === 1) return;
+    setQuarters(isShown ? shownQuarters.filter(shown => shown !== quarter) : [...shownQuarters, quarter].sort());
+  };
+
+  const sortBy = (column: SortColumn) => {
+    if (column === sortColumn) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortColumn(column);
+      setSortDescending(column !== 'metro');
+    }
+  };
+
+  const sortedRows = useMemo(() => {
+    if (!comparison) return [];
+    const latest = comparison.quarters.length - 1;
+    const sortValue = (row: MarketComparisonRow): string | number | undefined => {
+      if (sortColumn === 'metro') return metroLabel(row.metro);
+      if (sortColumn === 'change') return row.values[latest]?.change;
+      return row.values[comparison.quarters.indexOf(sortColumn)]?.value;
+    };
+
+    return comparison.rows.slice().sort((a, b) => {
+      const [x, y] = [sortValue(a), sortValue(b)];
+      // Rows without a figure go last either way
+      if (x === undefined || y === undefined) return x === undefined ? (y === undefined ? 0 : 1) : -1;
+      const order = typeof x === 'string' ? x.localeCompare(String(y)) : x - Number(y);
+      return sortDescending ? -order : order;
+    });
+  }, [comparison, sortColumn, sortDescending]);
+
+  const sortHeader = (column: SortColumn, label: string, align: 'left' | 'right' = 'right') => (
+    <th className={`py-2 font-medium ${align === 'left' ? 'text-left' : 'text-right'}`}>
+      <button onClick={() => sortBy(column)} className="hover:text-white">
+        {label}{sortColumn === column ? (sortDescending ? ' ▼' : ' ▲') : ''}
+      </button>
+    </th>
+  );
+
+  const latestQuarter = comparison?.quarters[comparison.quarters.length - 1];
+  const info = METRIC_INFO[metric];
+
+  return (
+    <Layout>
+      <header className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-100 mb-2">Market Comparison</h1>
+        <p className="text-gray-400">
+          Compare a market fundamental across metros and quarters, from the imported market data.
+        </p>
+      </header>
+
+      <MarketSectorTabs sectors={MARKET_SECTORS} active={sector} onChange={changeSector} wrap />
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <section className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 space-y-4">
+          <label className="block">
+            <span className="block text-sm text-gray-300 mb-1">Metric</span>
+            <select
+              value={metric}
+              onChange={(e) => setMetric(e.target.value as FundamentalMetric)}
+              className={`w-full ${FIELD_CLASS}`}
+            >
+              {FUNDAMENTAL_METRICS.map(key => <option key={key} value={key}>{METRIC_INFO[key].name}</option>)}
+            </select>
+          </label>
+
+          {comparison && comparison.periods.length > 0 && (
+            <>
+              <fieldset>
+                <legend className="text-sm text-gray-300 mb-1">Quarters</legend>
+                <div className="grid grid-cols-2 gap-1">
+                  {comparison.periods.map(quarter => (
+                    <label key={quarter} className="flex items-center text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={shownQuarters.includes(quarter)}
+                        onChange={() => toggleQuarter(quarter)}
+                        className="mr-2"
+                      />
+                      {quarterLabel(quarter)}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <fieldset>
+                <legend className="text-sm text-gray-300 mb-1">Metros</legend>
+                <div className="space-y-1 max-h-72 overflow-y-auto">
+                  {comparison.metros.map(metro => (
+                    <label key={toMetroParam(metro)} className="flex items-center text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={shownMetros.some(shown => sameMetro(shown, metro))}
+                        onChange={() => toggleMetro(metro)}
+                        className="mr-2"
+                      />
+                      {metroLabel(metro)}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+            </>
+          )}
+        </section>
+
+        <section className="lg:col-span-3 space-y-6">
+          {error ? (
+            <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 text-red-400">{error}</div>
+          ) : !comparison ? (
+            <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 text-gray-400">
+              Loading market data…
+            </div>
+          ) : comparison.periods.length === 0 ? (
+            <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 text-gray-400">
+              No {info.name.toLowerCase()} figures have been imported for {comparison.sector.toLowerCase()} yet.
+            </div>
+          ) : (
+            <>
+              <div className={`bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 overflow-x-auto ${loading ? 'opacity-60' : ''}`}>
+                <h2 className="text-lg font-semibold text-white mb-3">
+                  {comparison.sector} {comparison.name}
+                  {comparison.unit !== '%' && <span className="text-sm font-normal text-gray-400 ml-2">({comparison.unit})</span>}
+                </h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400">
+                      {sortHeader('metro', 'Metro', 'left')}
+                      {comparison.quarters.map(quarter => (
+                        <th key={quarter} className="py-2 font-medium text-right">
+                          <button onClick={() => sortBy(quarter)} className="hover:text-white">
+                            {quarterLabel(quarter)}{sortColumn === quarter ? (sortDescending ? ' ▼' : ' ▲') : ''}
+                          </button>
+                        </th>
+                      ))}
+                      {latestQuarter && sortHeader('change', 'QoQ change')}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedRows.map(row => {
+                      const latest = row.values[row.values.length - 1];
+                      return (
+                        <tr key={toMetroParam(row.metro)} className="border-t border-gray-700 text-gray-200">
+                          <td className="py-2">{metroLabel(row.metro)}</td>
+                          {row.values.map((value, i) => (
+                            <td key={comparison.quarters[i]} className="py-2 text-right">
+                              {value ? formatFigure(value.value, value.unit) : '—'}
+                            </td>
+                          ))}
+                          <td className={`py-2 text-right ${
+                            latest?.isPositive === undefined ? 'text-gray-400' :
+                            latest.isPositive ? 'text-green-400' : 'text-red-400'
+                          }`}>
+                            {latest?.change !== undefined ? formatMetricChange(latest) : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className={`bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 ${loading ? 'opacity-60' : ''}`}>
+                <h2 className="text-lg font-semibold text-white mb-3">By metro</h2>
+                <ComparisonBars comparison={comparison} rows={sortedRows} />
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </Layout>
+  );
+}
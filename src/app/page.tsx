@@ -1,32 +1,72 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Article, Region } from '../types/article';
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Article, Region, SourceStatus } from '../types/article';
 import ArticleCard from '../components/ArticleCard';
-import SimplifiedRegionSelector from '../components/SimplifiedRegionSelector';
+import RegionSelector from '../components/RegionSelector';
+import SourceStatusBanner from '../components/SourceStatusBanner';
 import { getArticlesWithPagination } from '../utils/scraper';
 import Layout from '../components/Layout';
 import CommentFeed from '../components/CommentFeed';
 import { MarketRatesWidget } from '../components/MarketRatesWidget';
 import { CREMarketDashboard } from '../components/CREMarketDashboard';
+import { PROPERTY_TYPES, PROPERTY_TYPE_LABELS } from '../utils/classify/labels';
+import { resolveRegion } from '../utils/regions';
 
 const ARTICLES_PER_PAGE = 12; // Show 12 articles per page
 
+/**
+ * Regions in the URL, repeated (?region=Texas&region=Ohio) or comma-separated;
+ * "Washington, D.C." is kept whole and unknown names are dropped
+ */
+function getRegionParams(searchParams: URLSearchParams): Region[] {
+  return searchParams.getAll('region')
+    .flatMap(value => (resolveRegion(value) ? [value] : value.split(',')))
+    .map(value => resolveRegion(value))
+    .filter((region): region is Region => Boolean(region));
+}
+
+// useSearchParams() needs a Suspense boundary to prerender the page
 export default function Home() {
+  return (
+    <Suspense>
+      <HomeFeed />
+    </Suspense>
+  );
+}
+
+/**
+ * The news feed; the region and metro filters live in the URL
+ * (`/?region=Texas`, `/?metro=Dallas-Fort Worth`), so the map can link to them
+ */
+function HomeFeed() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
   // Core state
   const [articles, setArticles] = useState<Article[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isError, setIsError] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
+  const [sourceStatuses, setSourceStatuses] = useState<SourceStatus[]>([]);
   
   // Pagination and filtering state
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(ARTICLES_PER_PAGE);
   const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
-  const [selectedRegion, setSelectedRegion] = useState<Region>('All');
+  // Regions and states to show, and a metro (e.g. 'Dallas-Fort Worth'); empty for all
+  const selectedRegions = useMemo(() => getRegionParams(searchParams), [searchParams]);
+  const selectedMetro = searchParams.get('metro') || '';
+  // Article counts per region and state for the current filters
+  const [regionCounts, setRegionCounts] = useState<Record<string, number>>({});
   const [selectedSource, setSelectedSource] = useState<string>('');
-  // Search functionality removed for simplicity
+  // Property type, e.g. 'multifamily'; empty for all sectors
+  const [selectedSector, setSelectedSector] = useState<string>('');
+  // Submitted search and the text currently in the search box
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchInput, setSearchInput] = useState('');
 
   // Load articles with pagination and filters
   const loadArticles = useCallback(async () => {
@@ -39,16 +79,21 @@ export default function Home() {
       // This will fetch actual articles from the sources
       const useMockData = false;
       
-      const currentRegion = selectedRegion;
+      const currentRegions = selectedRegions;
+      const currentMetro = selectedMetro;
       const currentSource = selectedSource;
+      const currentSector = selectedSector;
       const currentPageValue = currentPage;
       const currentPageSizeValue = pageSize;
       
       console.log('Page: Fetching articles with params:', { 
         page: currentPageValue, 
         pageSize: currentPageSizeValue,
-        region: currentRegion,
+        region: currentRegions,
+        metro: currentMetro || undefined,
         source: currentSource || undefined,
+        sector: currentSector || undefined,
+        searchTerm: searchTerm || undefined,
         useMockData
       });
       
@@ -56,8 +101,11 @@ export default function Home() {
       const response = await getArticlesWithPagination({
         page: currentPageValue,
         pageSize: currentPageSizeValue,
-        region: currentRegion,
+        region: currentRegions,
+        metro: currentMetro || undefined,
         source: currentSource || undefined,
+        sector: currentSector || undefined,
+        searchTerm: searchTerm || undefined,
         useMockData: useMockData // Always use mock data
       });
       
@@ -65,6 +113,8 @@ export default function Home() {
       setArticles(response.articles);
       setTotalPages(response.totalPages);
       setTotalItems(response.total);
+      setSourceStatuses(response.sources || []);
+      setRegionCounts(response.facets?.region || {});
       
       // Adjust current page if it's beyond the available pages
       if (currentPageValue > response.totalPages && response.totalPages > 0) {
@@ -75,24 +125,46 @@ export default function Home() {
       setIsError(true);
       setErrorMessage(error instanceof Error ? error.message : 'Failed to load articles');
       setArticles([]);
+      setSourceStatuses([]);
     } finally {
       console.log('Page: Finished loading');
       setIsLoading(false);
     }
-  }, [currentPage, selectedRegion, selectedSource, pageSize]);
+  }, [currentPage, selectedRegions, selectedMetro, selectedSource, selectedSector, searchTerm, pageSize]);
 
   // Load articles when component mounts or dependencies change
   useEffect(() => {
     loadArticles();
   }, [loadArticles]);
   
+  // Put the region and metro filters in the URL, keeping any other params
+  const setLocationParams = ({ regions = selectedRegions, metro = selectedMetro }: { regions?: Region[]; metro?: string }) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete('region');
+    regions.forEach(region => params.append('region', region));
+    if (metro) {
+      params.set('metro', metro);
+    } else {
+      params.delete('metro');
+    }
+    const query = params.toString();
+    router.replace(query ? `/?${query}` : '/', { scroll: false });
+  };
+
   // Handle region change
-  const handleRegionChange = (region: Region) => {
-    console.log(`Changing region filter to: ${region}`);
-    setSelectedRegion(region);
+  const handleRegionsChange = (regions: Region[]) => {
+    console.log(`Changing region filter to: ${regions.join(', ') || 'All'}`);
+    setLocationParams({ regions });
     setCurrentPage(1); // Reset to first page when changing region
   };
 
+  // Handle search submit
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setCurrentPage(1);
+  };
+
   // Handle loading state
   if (isLoading) {
     return (
@@ -175,16 +247,26 @@ export default function Home() {
               Latest commercial real estate news from top industry sources
             </p>
           </header>
+          <SourceStatusBanner sources={sourceStatuses} />
           <div className="flex items-center justify-center py-12 bg-gray-800 rounded-lg shadow-md border border-gray-700 p-8">
             <div className="text-center">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 text-gray-500 mx-auto mb-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v1m2 13a2 2 0 01-2-2V7m2 13a2 2 0 002-2V9a2 2 0 00-2-2h-2m-4-3H9M7 16h6M7 8h6v4H7V8z" />
               </svg>
               <p className="text-lg text-gray-300 font-semibold mb-2">No Articles Found</p>
-              <p className="text-gray-400">There are currently no articles matching your filter criteria.</p>
+              <p className="text-gray-400">
+                {searchTerm
+                  ? <>No articles match &ldquo;{searchTerm}&rdquo; with the current filters.</>
+                  : 'There are currently no articles matching your filter criteria.'}
+              </p>
               <button 
                 className="mt-6 px-4 py-2 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 transition-colors"
                 onClick={() => {
+                  setSearchTerm('');
+                  setSearchInput('');
+                  setSelectedSource('');
+                  setSelectedSector('');
+                  setLocationParams({ regions: [], metro: '' });
                   setCurrentPage(1);
                   loadArticles();
                 }}
@@ -214,10 +296,26 @@ export default function Home() {
         <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 mb-8">
           <div className="flex flex-col lg:flex-row justify-between items-center space-y-4 lg:space-y-0">
             <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-4 items-center">
-              <SimplifiedRegionSelector
-                selectedRegion={selectedRegion}
-                onRegionChange={handleRegionChange}
+              <RegionSelector
+                selectedRegions={selectedRegions}
+                onRegionsChange={handleRegionsChange}
+                counts={regionCounts}
               />
+
+              {/* Metro filter, set from the news map */}
+              {selectedMetro && (
+                <button
+                  onClick={() => {
+                    setLocationParams({ metro: '' });
+                    setCurrentPage(1);
+                  }}
+                  aria-label={`Clear the ${selectedMetro} filter`}
+                  className="flex items-center bg-cyan-900 text-cyan-200 border border-cyan-800 text-sm rounded-lg px-3 py-2.5 hover:bg-cyan-800 transition-colors"
+                >
+                  {selectedMetro}
+                  <span className="ml-2" aria-hidden="true">&times;</span>
+                </button>
+              )}
               
               {/* Source Filter */}
               <div>
@@ -235,19 +333,71 @@ export default function Home() {
                   <option value="connectcre">ConnectCRE</option>
                 </select>
               </div>
+              
+              {/* Sector Filter */}
+              <div>
+                <select
+                  value={selectedSector}
+                  onChange={(e) => {
+                    setSelectedSector(e.target.value);
+                    setCurrentPage(1);
+                  }}
+                  aria-label="Sector"
+                  className="bg-gray-700 border border-gray-600 text-gray-300 text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5"
+                >
+                  <option value="">All Sectors</option>
+                  {PROPERTY_TYPES.map(type => (
+                    <option key={type} value={type}>{PROPERTY_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
             </div>
             
-            {/* Search Box Removed */}
+            {/* Search Box */}
+            <form onSubmit={handleSearch} className="flex w-full lg:w-auto" role="search">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder='Search articles, e.g. multifamily or "cap rates"'
+                aria-label="Search articles"
+                className="bg-gray-700 border border-gray-600 text-gray-300 text-sm rounded-l-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full lg:w-80 p-2.5"
+              />
+              <button
+                type="submit"
+                className="px-4 bg-cyan-600 text-white text-sm rounded-r-lg hover:bg-cyan-700 transition-colors"
+              >
+                Search
+              </button>
+            </form>
           </div>
           
           {/* Results Summary */}
           <div className="mt-4 pt-4 border-t border-gray-700">
             <div className="text-sm text-gray-400">
               Showing {articles.length} of {totalItems} articles
+              {searchTerm && (
+                <>
+                  {' '}matching &ldquo;{searchTerm}&rdquo;{' '}
+                  <button
+                    className="text-cyan-400 hover:text-cyan-300"
+                    onClick={() => {
+                      setSearchTerm('');
+                      setSearchInput('');
+                      setCurrentPage(1);
+                    }}
+                  >
+                    Clear search
+                  </button>
+                </>
+              )}
             </div>
           </div>
         </div>
         
+        {/* Sources that failed or are serving cached articles */}
+        <SourceStatusBanner sources={sourceStatuses} />
+        
         {/* Main content area with sidebar */}
         <div className="grid grid-cols-1 lg:grid-cols-7 gap-6">
           {/* Main content - Articles by Region */}
@@ -267,7 +417,7 @@ export default function Home() {
                   </h2>
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6">
                     {regionArticles.map((article) => (
-                      <ArticleCard key={article.url} article={article} />
+                      <ArticleCard key={article.storyId || article.url} article={article} />
                     ))}
                   </div>
                 </section>
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import apiTracker from '../utils/apiTracker';
+import type { MetricsSummary } from '../utils/metrics';
 
 interface StatCardProps {
   title: string;
@@ -48,7 +48,7 @@ const StatsCard: React.FC<StatCardProps> = ({ title, value, change, isPositive =
 
 const BarChart: React.FC<{ data: ChartData }> = ({ data }) => {
   // Find the maximum value to normalize bar heights
-  const maxValue = Math.max(...data.values);
+  const maxValue = Math.max(0, ...data.values);
   
   return (
     <div className="w-full">
@@ -69,75 +69,68 @@ const BarChart: React.FC<{ data: ChartData }> = ({ data }) => {
         })}
       </div>
       <div className="mt-4 text-center text-xs text-gray-400">
-        Last 7 days
+        Last {data.values.length} days
       </div>
     </div>
   );
 };
 
+/**
+ * Change between two periods, e.g. "12% increase"
+ */
+function describeChange(current: number, previous: number): { change?: string; isPositive: boolean } {
+  if (previous === 0) return { isPositive: true };
+  const percentage = Math.round(((current - previous) / previous) * 100);
+  return {
+    change: `${Math.abs(percentage)}% ${percentage >= 0 ? 'increase' : 'decrease'}`,
+    isPositive: percentage >= 0
+  };
+}
+
 export default function AdminDashboard() {
-  // State for API stats
-  const [apiStats, setApiStats] = useState({
-    totalRequests: 0,
-    errorRate: 0,
-    requestsChange: { percentage: 0, isPositive: true },
-    activeSources: 0,
-    requestsByDay: { labels: [] as string[], values: [] as number[] },
-    sourceDistribution: { labels: [] as string[], values: [] as number[] }
-  });
+  const [summary, setSummary] = useState<MetricsSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  // Load API stats on component mount
+  // Load metrics on mount and then every 30 seconds
   useEffect(() => {
-    // Function to update stats
-    const updateStats = () => {
-      if (typeof window === 'undefined') return;
-      
-      const stats = apiTracker.getStats();
-      const errorRate = apiTracker.getErrorRate();
-      const requestsChange = apiTracker.getRequestsChange(7);
-      const requestsByDay = apiTracker.getRecentRequests(7);
-      
-      // Calculate active sources
-      const sourcesWithRequests = Object.keys(stats.requestsBySource).length;
-      
-      // Calculate source distribution
-      const sourceLabels = Object.keys(stats.requestsBySource);
-      const sourceValues: number[] = [];
-      
-      if (stats.totalRequests > 0) {
-        sourceLabels.forEach(source => {
-          const percentage = Math.round((stats.requestsBySource[source] / stats.totalRequests) * 100);
-          sourceValues.push(percentage);
-        });
-      }
-      
-      setApiStats({
-        totalRequests: stats.totalRequests,
-        errorRate: Number(errorRate.toFixed(1)),
-        requestsChange,
-        activeSources: sourcesWithRequests,
-        requestsByDay,
-        sourceDistribution: {
-          labels: sourceLabels,
-          values: sourceValues
+    const updateStats = async () => {
+      try {
+        const response = await fetch('/api/admin/metrics?days=14', { cache: 'no-store' });
+        if (!response.ok) {
+          throw new Error(`Failed to load metrics: ${response.status}`);
         }
-      });
+        setSummary(await response.json());
+        setError(null);
+      } catch (err) {
+        console.error('Error loading metrics:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
     };
     
-    // Update stats immediately and then every 5 seconds
     updateStats();
-    const interval = setInterval(updateStats, 5000);
+    const interval = setInterval(updateStats, 30000);
     
     // Cleanup interval on unmount
     return () => clearInterval(interval);
   }, []);
   
+  // Compare the last 7 days with the 7 before them
+  const days = summary?.sourceRequestsByDay || [];
+  const lastWeek = days.slice(-7);
+  const previousWeek = days.slice(-14, -7);
+  const weekTotal = (week: typeof days, field: 'requests' | 'errors') => week.reduce((total, day) => total + day[field], 0);
+  const errorRate = (week: typeof days) => {
+    const requests = weekTotal(week, 'requests');
+    return requests > 0 ? (weekTotal(week, 'errors') / requests) * 100 : 0;
+  };
+  const requestsChange = describeChange(weekTotal(lastWeek, 'requests'), weekTotal(previousWeek, 'requests'));
+  const errorRateChange = describeChange(errorRate(lastWeek), errorRate(previousWeek));
+  
   // Stats cards data
   const stats = [
     {
-      title: 'Total Articles',
-      value: '1,248', // This is still mock data as we don't track article count
-      change: '12% increase',
+      title: 'Articles Scraped',
+      value: (summary?.totals.articles || 0).toLocaleString(),
       isPositive: true,
       icon: (
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-cyan-400" viewBox="0 0 20 20" fill="currentColor">
@@ -147,7 +140,9 @@ export default function AdminDashboard() {
     },
     {
       title: 'Active Sources',
-      value: apiStats.activeSources.toString(),
+      // Sources with at least one successful request
+      value: (summary?.sources.filter(source => source.requests > source.errors).length || 0).toString(),
+      isPositive: true,
       icon: (
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-green-400" viewBox="0 0 20 20" fill="currentColor">
           <path fillRule="evenodd" d="M2 5a2 2 0 012-2h12a2 2 0 012 2v10a2 2 0 01-2 2H4a2 2 0 01-2-2V5zm3.293 1.293a1 1 0 011.414 0l3 3a1 1 0 010 1.414l-3 3a1 1 0 01-1.414-1.414L7.586 10 5.293 7.707a1 1 0 010-1.414zM11 12a1 1 0 100 2h3a1 1 0 100-2h-3z" clipRule="evenodd" />
@@ -155,10 +150,9 @@ export default function AdminDashboard() {
       )
     },
     {
-      title: 'API Requests',
-      value: apiStats.totalRequests.toLocaleString(),
-      change: apiStats.requestsChange.percentage > 0 ? `${apiStats.requestsChange.percentage}% ${apiStats.requestsChange.isPositive ? 'increase' : 'decrease'}` : undefined,
-      isPositive: apiStats.requestsChange.isPositive,
+      title: 'Source Requests (7 days)',
+      value: weekTotal(lastWeek, 'requests').toLocaleString(),
+      ...requestsChange,
       icon: (
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
           <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-2 0c0 .993-.241 1.929-.668 2.754l-1.524-1.525a3.997 3.997 0 00.078-2.183l1.562-1.562C15.802 8.249 16 9.1 16 10zm-5.165 3.913l1.58 1.58A5.98 5.98 0 0110 16a5.976 5.976 0 01-2.516-.552l1.562-1.562a4.006 4.006 0 001.789.027zm-4.677-2.796a4.002 4.002 0 01-.041-2.08l-.08.08-1.53-1.533A5.98 5.98 0 004 10c0 .954.223 1.856.619 2.657l1.54-1.54zm1.088-6.45A5.974 5.974 0 0110 4c.954 0 1.856.223 2.657.619l-1.54 1.54a4.002 4.002 0 00-2.346.033L7.246 4.668zM12 10a2 2 0 11-4 0 2 2 0 014 0z" clipRule="evenodd" />
@@ -166,10 +160,11 @@ export default function AdminDashboard() {
       )
     },
     {
-      title: 'Error Rate',
-      value: `${apiStats.errorRate}%`,
-      change: apiStats.requestsChange.percentage > 0 ? '0.3% decrease' : undefined,
-      isPositive: true,
+      title: 'Error Rate (7 days)',
+      value: `${errorRate(lastWeek).toFixed(1)}%`,
+      change: errorRateChange.change,
+      // A falling error rate is good
+      isPositive: !errorRateChange.isPositive,
       icon: (
         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-400" viewBox="0 0 20 20" fill="currentColor">
           <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
@@ -178,11 +173,20 @@ export default function AdminDashboard() {
     }
   ];
   
-  // Use real API request data for the chart
-  const articlesByDay: ChartData = apiStats.requestsByDay;
+  const requestsByDay: ChartData = {
+    labels: lastWeek.map(day => new Date(`${day.day}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' })),
+    values: lastWeek.map(day => day.requests)
+  };
+  const maxArticles = Math.max(0, ...(summary?.sources || []).map(source => source.articles));
   
   return (
     <div className="space-y-8">
+      {error && (
+        <div className="bg-red-900/30 border border-red-700 text-red-300 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {stats.map((stat, index) => (
@@ -200,32 +204,61 @@ export default function AdminDashboard() {
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
-          <h3 className="text-lg font-semibold text-gray-200 mb-4">Articles by Day</h3>
-          <BarChart data={articlesByDay} />
+          <h3 className="text-lg font-semibold text-gray-200 mb-4">Source Requests by Day</h3>
+          <BarChart data={requestsByDay} />
         </div>
         
         <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
           <h3 className="text-lg font-semibold text-gray-200 mb-4">Articles by Source</h3>
-          <div className="flex items-center justify-center h-32">
-            {/* Simple pie chart visualization */}
-            <div className="relative w-32 h-32">
-              <div className="absolute inset-0 rounded-full bg-cyan-600" style={{ clipPath: 'polygon(50% 50%, 100% 50%, 100% 0, 0 0, 0 100%, 100% 100%, 100% 50%)' }}></div>
-              <div className="absolute inset-0 rounded-full bg-green-500" style={{ clipPath: 'polygon(50% 50%, 100% 50%, 100% 0, 0 0, 0 35%)' }}></div>
-              <div className="absolute inset-0 flex items-center justify-center">
-                <div className="w-20 h-20 rounded-full bg-gray-800"></div>
-              </div>
-            </div>
-          </div>
-          <div className="mt-4 flex justify-center space-x-6">
-            {apiStats.sourceDistribution.labels.map((label, index) => (
-              <div key={label} className="flex items-center">
-                <span className={`inline-block w-3 h-3 rounded-full mr-2 ${index === 0 ? 'bg-cyan-600' : index === 1 ? 'bg-green-500' : 'bg-blue-500'}`}></span>
-                <span className="text-sm text-gray-400">{label} ({apiStats.sourceDistribution.values[index]}%)</span>
+          <div className="space-y-3">
+            {(summary?.sources || []).map(source => (
+              <div key={source.source}>
+                <div className="flex justify-between text-sm text-gray-400 mb-1">
+                  <span>{source.source}</span>
+                  <span>
+                    {source.articles.toLocaleString()} articles
+                    {source.errors > 0 && <span className="text-red-400"> · {source.errors} errors</span>}
+                  </span>
+                </div>
+                <div className="w-full h-2 bg-gray-700 rounded">
+                  <div
+                    className="h-2 bg-cyan-600 rounded"
+                    style={{ width: `${maxArticles > 0 ? (source.articles / maxArticles) * 100 : 0}%` }}
+                  ></div>
+                </div>
               </div>
             ))}
+            {summary?.sources.length === 0 && (
+              <p className="text-sm text-gray-400">No source requests recorded yet</p>
+            )}
           </div>
         </div>
       </div>
+
+      {/* API Routes */}
+      <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-6">
+        <h3 className="text-lg font-semibold text-gray-200 mb-4">API Requests by Route</h3>
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+              <th className="py-2">Route</th>
+              <th className="py-2">Requests</th>
+              <th className="py-2">Server Errors</th>
+              <th className="py-2">Avg Time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-700 text-gray-300">
+            {(summary?.routes || []).map(route => (
+              <tr key={`${route.method} ${route.route}`}>
+                <td className="py-2 font-mono">{route.method} {route.route}</td>
+                <td className="py-2">{route.requests.toLocaleString()}</td>
+                <td className={`py-2 ${route.errors > 0 ? 'text-red-400' : ''}`}>{route.errors}</td>
+                <td className="py-2">{route.averageDurationMs !== undefined ? `${route.averageDurationMs} ms` : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
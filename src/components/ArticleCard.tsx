@@ -1,14 +1,26 @@
 import { useState } from 'react';
+import Image from 'next/image';
 import { Article } from '../../types/article';
 import useCommentStore from '../store/commentStore';
 import CommentModal from './CommentModal';
+import { PROPERTY_TYPE_LABELS, DEAL_TYPE_LABELS } from '../utils/classify/labels';
 
 interface ArticleCardProps {
     article: Article;
 }
 
+// Render a search snippet, turning <mark></mark> around matches into highlighted spans
+// Split on the markers rather than injecting HTML, so article text is always escaped
+const renderSnippet = (snippet: string) =>
+    snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+        index % 2 === 1
+            ? <mark key={index} className="bg-cyan-900 text-cyan-100 rounded px-0.5">{part}</mark>
+            : part
+    );
+
 export default function ArticleCard({ article }: ArticleCardProps) {
     const [isCommentModalOpen, setIsCommentModalOpen] = useState(false);
+    const [imageFailed, setImageFailed] = useState(false);
     const { getCommentCountByArticle } = useCommentStore();
     
     // Format the source name for display
@@ -17,6 +29,10 @@ export default function ArticleCard({ article }: ArticleCardProps) {
     // Get the comment count for this article
     const commentCount = getCommentCountByArticle(article.url);
     
+    // Search matches, if this card is a search result
+    const titleHighlight = article.highlights?.find(highlight => highlight.field === 'title');
+    const textHighlight = article.highlights?.find(highlight => highlight.field !== 'title');
+    
     // Get a background color class based on the region for dark mode
     const getRegionColorClass = (region: string): string => {
         switch(region) {
@@ -40,8 +56,31 @@ export default function ArticleCard({ article }: ArticleCardProps) {
     return (
         <>
             <div className="h-full bg-gray-800 border border-gray-700 rounded-lg p-5 flex flex-col shadow-md hover:shadow-lg transition-all duration-200 hover:border-cyan-800">
+                {/* Lead image from the article page, hidden if it fails to load; not optimized, as it can come from any publisher's host */}
+                {article.imageUrl && !imageFailed && (
+                    <a href={article.url} target="_blank" rel="noopener noreferrer" className="block relative h-40 -mx-5 -mt-5 mb-4" tabIndex={-1}>
+                        <Image
+                            src={article.imageUrl}
+                            alt=""
+                            fill
+                            unoptimized
+                            sizes="(min-width: 768px) 33vw, 100vw"
+                            referrerPolicy="no-referrer"
+                            className="object-cover rounded-t-lg bg-gray-700"
+                            onError={() => setImageFailed(true)}
+                        />
+                    </a>
+                )}
+                
                 <div className="flex items-start justify-between mb-3">
-                    <span className="text-sm font-medium text-gray-400">{sourceDisplay}</span>
+                    <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-400">{sourceDisplay}</span>
+                        {article.provenance === 'sample' && (
+                            <span className="text-xs font-medium py-0.5 px-1.5 rounded bg-gray-700 text-yellow-300" title="Sample data, not a real article">
+                                Sample
+                            </span>
+                        )}
+                    </div>
                     <div className="flex items-center space-x-2">
                         <span className="text-xs font-medium text-gray-400">{article.publishedDate}</span>
                         <span className={`text-xs font-medium py-1 px-2 rounded ${getRegionColorClass(article.region)}`}>
@@ -57,16 +96,74 @@ export default function ArticleCard({ article }: ArticleCardProps) {
                     className="block group"
                 >
                     <h3 className="text-lg font-semibold text-gray-200 mb-3 group-hover:text-cyan-400 transition-colors">
-                        {article.title}
+                        {titleHighlight ? renderSnippet(titleHighlight.snippet) : article.title}
                     </h3>
                 </a>
                 
+                {textHighlight ? (
+                    <p className="text-sm text-gray-400 mb-3">
+                        {renderSnippet(textHighlight.snippet)}
+                    </p>
+                ) : article.summary && (
+                    <p className="text-sm text-gray-400 mb-3 line-clamp-3">
+                        {article.summary}
+                    </p>
+                )}
+                
+                {/* Sector and deal tags from the classifier */}
+                {((article.propertyTypes?.length ?? 0) > 0 || (article.dealTypes?.length ?? 0) > 0) && (
+                    <div className="flex flex-wrap gap-1.5 mb-3 text-xs">
+                        {article.propertyTypes?.map(type => (
+                            <span key={type} className="py-0.5 px-1.5 rounded bg-cyan-950 text-cyan-300">
+                                {PROPERTY_TYPE_LABELS[type]}
+                            </span>
+                        ))}
+                        {article.dealTypes?.map(type => (
+                            <span key={type} className="py-0.5 px-1.5 rounded bg-gray-700 text-gray-300">
+                                {DEAL_TYPE_LABELS[type]}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                
+                {(article.author || article.section) && (
+                    <p className="text-xs text-gray-500 mb-3">
+                        {article.author && <>By {article.author}</>}
+                        {article.author && article.section && ' · '}
+                        {article.section}
+                    </p>
+                )}
+                
+                {/* Other sources covering the same story */}
+                {article.alsoCoveredBy && article.alsoCoveredBy.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs text-gray-400">
+                        <span>Also covered by</span>
+                        {article.alsoCoveredBy.map(coverage => (
+                            <a
+                                key={coverage.url}
+                                href={coverage.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                title={coverage.title}
+                                className="font-medium py-0.5 px-1.5 rounded bg-gray-700 text-gray-200 hover:bg-cyan-900 hover:text-cyan-100 transition-colors"
+                            >
+                                {coverage.source}
+                            </a>
+                        ))}
+                    </div>
+                )}
+                
                 <div className="text-sm text-gray-400 mt-auto flex justify-between items-center">
                     <div className="flex items-center">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
                         </svg>
-                        <span>{article.publishedDate}</span>
+                        <time
+                            dateTime={article.publishedAt}
+                            title={article.dateConfidence === 'approximate' ? 'Approximate publish date' : undefined}
+                        >
+                            {article.dateConfidence === 'approximate' && '~'}{article.publishedDate}
+                        </time>
                     </div>
                     
                     <button 
@@ -7,17 +7,16 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
+import type { PropertyType } from '../../types/article';
 import { CREMarketWidget } from './CREMarketWidget';
+import { MarketSectorTabs } from './MarketSectorTabs';
+
+// Sectors with a tab in the sidebar; the comparison page has them all
+const DASHBOARD_SECTORS: PropertyType[] = ['office', 'industrial', 'retail', 'multifamily'];
 
 export const CREMarketDashboard = () => {
-  const [activeSector, setActiveSector] = useState<'office' | 'industrial' | 'retail' | 'multifamily'>('office');
-  
-  const sectors = [
-    { id: 'office', name: 'Office', icon: '🏢' },
-    { id: 'industrial', name: 'Industrial', icon: '🏭' },
-    { id: 'retail', name: 'Retail', icon: '🛍️' },
-    { id: 'multifamily', name: 'Multifamily', icon: '🏘️' }
-  ] as const;
+  const [activeSector, setActiveSector] = useState<PropertyType>('office');
 
   return (
     <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 mb-6">
@@ -25,24 +24,13 @@ export const CREMarketDashboard = () => {
         <span className="mr-2">📊</span> CRE Market Dashboard
       </h3>
       
-      <div className="flex justify-between mb-4">
-        {sectors.map((sector) => (
-          <button
-            key={sector.id}
-            onClick={() => setActiveSector(sector.id)}
-            className={`px-2 py-1 text-sm rounded-md flex items-center flex-1 mx-0.5 justify-center ${
-              activeSector === sector.id
-                ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
-                : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
-            }`}
-          >
-            <span className="mr-1">{sector.icon}</span>
-            {sector.name}
-          </button>
-        ))}
-      </div>
+      <MarketSectorTabs sectors={DASHBOARD_SECTORS} active={activeSector} onChange={setActiveSector} />
       
       <CREMarketWidget sector={activeSector} />
+
+      <Link href={`/market-data?sector=${activeSector}`} className="text-xs text-blue-400 hover:text-blue-300">
+        Compare metros and quarters →
+      </Link>
     </div>
   );
 };
@@ -29,6 +29,24 @@ export default function Layout({ children }: LayoutProps) {
                 >
                   Home
                 </Link>
+                <Link 
+                  href="/map" 
+                  className="px-3 py-2 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                >
+                  Map
+                </Link>
+                <Link 
+                  href="/market-data" 
+                  className="px-3 py-2 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                >
+                  Market Data
+                </Link>
+                <Link 
+                  href="/loan-sizing" 
+                  className="px-3 py-2 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                >
+                  Loan Sizing
+                </Link>
                 <Link 
                   href="/admin" 
                   className="px-3 py-2 rounded-md text-sm font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
@@ -71,6 +89,27 @@ export default function Layout({ children }: LayoutProps) {
               >
                 Home
               </Link>
+              <Link 
+                href="/map" 
+                className="block px-3 py-2 rounded-md text-base font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                onClick={() => setIsMobileMenuOpen(false)}
+              >
+                Map
+              </Link>
+              <Link 
+                href="/market-data" 
+                className="block px-3 py-2 rounded-md text-base font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                onClick={() => setIsMobileMenuOpen(false)}
+              >
+                Market Data
+              </Link>
+              <Link 
+                href="/loan-sizing" 
+                className="block px-3 py-2 rounded-md text-base font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
+                onClick={() => setIsMobileMenuOpen(false)}
+              >
+                Loan Sizing
+              </Link>
               <Link 
                 href="/admin" 
                 className="block px-3 py-2 rounded-md text-base font-medium text-gray-300 hover:bg-gray-700 hover:text-white"
@@ -1,90 +1,289 @@
 /**
  * Market Rates Widget
- * 
- * Displays current market rates in a sidebar widget
+ *
+ * Displays current market rates in a sidebar widget, with a sparkline of each
+ * rate's recent history and the treasury and SOFR swap curves on a chosen date
+ * against a comparison date
  */
 
 'use client';
 
 import { useEffect, useState } from 'react';
 import { ArrowDownIcon, ArrowUpIcon, ArrowRightIcon } from '@heroicons/react/20/solid';
+import type { MarketRate, MarketRatesResult, RateChanges, RateCurves, RateSeries } from '../utils/rates';
 
-interface MarketRate {
-  name: string;
-  value: string;
-  change?: string;
-  isPositive?: boolean;
-}
+// Series shown in the widget, in order (others the provider returns are left out)
+const WIDGET_RATE_IDS = ['treasury-10y', 'sofr-swap-10y', 'sofr', 'prime', 'treasury-30y'];
 
-// Static market rate data (empty: rely on API)
-const MARKET_RATES: MarketRate[] = [];
+// Days of history in the sparklines
+const SPARKLINE_DAYS = 90;
+
+const CURVE_LABELS: Record<string, string> = {
+  'treasury': 'Treasuries',
+  'sofr-swap': 'SOFR Swaps'
+};
+
+/**
+ * Basis points as a percentage, e.g. 435 -> '4.35%'
+ */
+const formatPercent = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+const formatChange = (bps: number) => `${bps > 0 ? '+' : ''}${bps}bp`;
+
+/**
+ * A date N days before today, YYYY-MM-DD
+ */
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Day, week, month and year changes for the tooltip
+ */
+const describeChanges = (changes: RateChanges | undefined) => {
+  if (!changes) return undefined;
+  const parts = [
+    changes.day !== undefined ? `1D ${formatChange(changes.day)}` : null,
+    changes.week !== undefined ? `1W ${formatChange(changes.week)}` : null,
+    changes.month !== undefined ? `1M ${formatChange(changes.month)}` : null,
+    changes.year !== undefined ? `1Y ${formatChange(changes.year)}` : null
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : undefined;
+};
+
+/**
+ * Inline line chart of a series' values
+ */
+const Sparkline = ({ values }: { values: number[] }) => {
+  if (values.length < 2) return null;
+
+  const width = 60;
+  const height = 16;
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map((value, i) => `${(i / (values.length - 1)) * width},${height - ((value - min) / range) * height}`)
+    .join(' ');
+  const rising = values[values.length - 1] >= values[0];
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="mr-2 overflow-visible" aria-hidden="true">
+      <polyline points={points} fill="none" strokeWidth={1.5}
+        className={rising ? 'stroke-red-400' : 'stroke-green-400'} />
+    </svg>
+  );
+};
+
+/**
+ * One curve on a date (solid) and on the comparison date (dashed)
+ */
+const CurveChart = ({ points }: { points: RateCurves['curves'][number]['points'] }) => {
+  if (points.length === 0) {
+    return <div className="text-xs text-gray-500">No observations on this date</div>;
+  }
+
+  const width = 240;
+  const height = 90;
+  const pad = 4;
+  const values = points.flatMap(point => point.compareBps !== undefined ? [point.valueBps, point.compareBps] : [point.valueBps]);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const x = (i: number) => pad + (points.length === 1 ? 0 : (i / (points.length - 1)) * (width - pad * 2));
+  const y = (bps: number) => pad + (height - pad * 2) - ((bps - min) / range) * (height - pad * 2);
+  const line = (pick: (point: typeof points[number]) => number | undefined) => points
+    .map((point, i) => ({ i, bps: pick(point) }))
+    .filter((point): point is { i: number; bps: number } => point.bps !== undefined)
+    .map(point => `${x(point.i)},${y(point.bps)}`)
+    .join(' ');
+
+  return (
+    <div>
+      <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+        <polyline points={line(point => point.compareBps)} fill="none" strokeWidth={1.5} strokeDasharray="4 3" className="stroke-gray-500" />
+        <polyline points={line(point => point.valueBps)} fill="none" strokeWidth={2} className="stroke-blue-400" />
+        {points.map((point, i) => (
+          <circle key={point.tenor} cx={x(i)} cy={y(point.valueBps)} r={2} className="fill-blue-400">
+            <title>
+              {`${point.tenor}: ${formatPercent(point.valueBps)}${point.compareBps !== undefined ? ` (was ${formatPercent(point.compareBps)})` : ''}`}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+        {points.map(point => <span key={point.tenor}>{point.tenor}</span>)}
+      </div>
+    </div>
+  );
+};
 
 export const MarketRatesWidget = () => {
-  const DISABLE_MARKET_RATES = true;
-  if (DISABLE_MARKET_RATES) return null;
-  // Use static data instead of fetching from API
-  const [rates, setRates] = useState<MarketRate[]>(MARKET_RATES);
+  const [result, setResult] = useState<MarketRatesResult | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [history, setHistory] = useState<RateSeries[]>([]);
+  const [showCurves, setShowCurves] = useState(false);
+  const [curves, setCurves] = useState<RateCurves | null>(null);
+  const [curveDate, setCurveDate] = useState('');
+  // null until picked (about a month before the curve date); '' compares with nothing
+  const [compareDate, setCompareDate] = useState<string | null>(null);
 
   useEffect(() => {
     const fetchRates = async () => {
       try {
         const res = await fetch('/api/market-rates', { cache: 'no-store' });
-        if (!res.ok) return;
-        const data: Array<{ name: string; value: string }> = await res.json();
-        if (Array.isArray(data) && data.length > 0) {
-          const mapped: MarketRate[] = data.map((r) => ({ name: r.name, value: r.value }));
-          setRates(mapped);
+        if (!res.ok) {
+          setFailed(true);
+          return;
         }
-      } catch (_) {
-        // ignore and keep static fallback
+        setResult(await res.json());
+      } catch {
+        setFailed(true);
+      }
+    };
+    const fetchHistory = async () => {
+      try {
+        const params = new URLSearchParams({ name: WIDGET_RATE_IDS.join(','), from: daysAgo(SPARKLINE_DAYS) });
+        const res = await fetch(`/api/market-rates/history?${params}`, { cache: 'no-store' });
+        if (res.ok) setHistory((await res.json()).series);
+      } catch {
+        // Sparklines are optional
       }
     };
     fetchRates();
+    fetchHistory();
   }, []);
 
-  // Display all rates (API-driven)
-  const displayRates = rates;
+  useEffect(() => {
+    if (!showCurves) return;
+    const fetchCurves = async () => {
+      try {
+        const params = new URLSearchParams();
+        if (curveDate) params.set('date', curveDate);
+        if (compareDate) params.set('compare', compareDate);
+        const res = await fetch(`/api/market-rates/curve?${params}`, { cache: 'no-store' });
+        if (!res.ok) return;
+        const data: RateCurves = await res.json();
+        setCurves(data);
+
+        // Compare with about a month earlier until a date is picked
+        if (compareDate === null && data.date && data.days.length > 1) {
+          const monthBefore = new Date(new Date(`${data.date}T00:00:00Z`).getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+          setCompareDate(data.days.filter(day => day <= monthBefore).pop() || data.days[0]);
+        }
+      } catch {
+        // ignore and keep the last curves
+      }
+    };
+    fetchCurves();
+  }, [showCurves, curveDate, compareDate]);
+
+  const displayRates = WIDGET_RATE_IDS
+    .map(id => result?.rates.find(rate => rate.id === id))
+    .filter((rate): rate is MarketRate => rate !== undefined);
+  const asOf = displayRates.length > 0
+    ? displayRates.map(rate => rate.asOf).sort().slice(-1)[0]
+    : null;
 
   return (
     <div className="bg-gray-800 rounded-lg shadow-md border border-gray-700 p-4 mb-6">
       <h3 className="text-lg font-semibold mb-3 text-white flex items-center">
         <span className="mr-2">📈</span> Market Rates
       </h3>
-      
+
       <div className="space-y-2">
         {displayRates.length === 0 && (
-          <div className="text-sm text-gray-400">Loading market rates…</div>
+          <div className="text-sm text-gray-400">
+            {failed || result ? 'Market rates are unavailable right now' : 'Loading market rates…'}
+          </div>
         )}
-        {displayRates.map((rate) => (
-          <div key={rate.name} className="flex justify-between items-center py-1 border-b border-gray-700 last:border-0">
-            <span className="text-sm font-medium text-gray-300">{rate.name}</span>
-            <div className="flex items-center">
-              <span className="font-semibold text-white mr-2">{rate.value}</span>
-              {rate.change && (
-                <span className={`text-xs flex items-center ${
-                  rate.change === '0.00' ? 'text-gray-500' : 
-                  rate.isPositive ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
-                }`}>
-                  {rate.isPositive ? (
-                    rate.change === '0.00' ? (
+        {displayRates.map((rate) => {
+          const change = rate.changes?.day;
+          const series = history.find(s => s.id === rate.id);
+          return (
+            <div key={rate.id} className="flex justify-between items-center py-1 border-b border-gray-700 last:border-0"
+              title={describeChanges(rate.changes)}>
+              <span className="text-sm font-medium text-gray-300">{rate.name}</span>
+              <div className="flex items-center">
+                {series && <Sparkline values={series.points.map(point => point.valueBps)} />}
+                <span className="font-semibold text-white mr-2">{formatPercent(rate.valueBps)}</span>
+                {change !== undefined && (
+                  <span className={`text-xs flex items-center ${
+                    change === 0 ? 'text-gray-500' :
+                    change > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                  }`}>
+                    {change === 0 ? (
                       <ArrowRightIcon className="h-3 w-3 mr-1" />
-                    ) : (
+                    ) : change > 0 ? (
                       <ArrowUpIcon className="h-3 w-3 mr-1" />
-                    )
-                  ) : (
-                    <ArrowDownIcon className="h-3 w-3 mr-1" />
-                  )}
-                  {rate.change}
-                </span>
-              )}
+                    ) : (
+                      <ArrowDownIcon className="h-3 w-3 mr-1" />
+                    )}
+                    {Math.abs(change)}bp
+                  </span>
+                )}
+              </div>
             </div>
-          </div>
-        ))}
-      </div>
-      
-      <div className="text-xs text-gray-400 mt-3 text-right">
-        Source: Market Data as of {new Date().toLocaleDateString()}
+          );
+        })}
       </div>
+
+      {displayRates.length > 0 && (
+        <button
+          onClick={() => setShowCurves(!showCurves)}
+          className="text-xs text-blue-400 hover:text-blue-300 mt-3"
+        >
+          {showCurves ? 'Hide curves' : 'Show curves'}
+        </button>
+      )}
+
+      {showCurves && curves && (
+        <div className="mt-3 space-y-4">
+          {curves.days.length === 0 ? (
+            <div className="text-xs text-gray-500">No rate history yet</div>
+          ) : (
+            <>
+              <div className="flex gap-2 text-xs">
+                <label className="flex-1 text-gray-400">
+                  Date
+                  <select
+                    value={curves.date || ''}
+                    onChange={(e) => setCurveDate(e.target.value)}
+                    className="block w-full mt-1 bg-gray-700 text-white rounded px-1 py-0.5"
+                  >
+                    {curves.days.slice().reverse().map(day => <option key={day} value={day}>{day}</option>)}
+                  </select>
+                </label>
+                <label className="flex-1 text-gray-400">
+                  Compare with
+                  <select
+                    value={curves.compare || ''}
+                    onChange={(e) => setCompareDate(e.target.value)}
+                    className="block w-full mt-1 bg-gray-700 text-white rounded px-1 py-0.5"
+                  >
+                    <option value="">None</option>
+                    {curves.days.slice().reverse().map(day => <option key={day} value={day}>{day}</option>)}
+                  </select>
+                </label>
+              </div>
+              {curves.curves.map(curve => (
+                <div key={curve.kind}>
+                  <div className="text-xs font-medium text-gray-300 mb-1">{CURVE_LABELS[curve.kind]}</div>
+                  <CurveChart points={curve.points} />
+                </div>
+              ))}
+              <div className="flex gap-3 text-[10px] text-gray-500">
+                <span className="flex items-center"><span className="inline-block w-3 h-0.5 bg-blue-400 mr-1" />{curves.date}</span>
+                {curves.compare && (
+                  <span className="flex items-center"><span className="inline-block w-3 border-t border-dashed border-gray-500 mr-1" />{curves.compare}</span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {result && asOf && (
+        <div className="text-xs text-gray-400 mt-3 text-right">
+          Source: {result.provider === 'file' ? 'Local rates file' : 'Chatham Financial'} as of {new Date(asOf).toLocaleDateString()}
+        </div>
+      )}
     </div>
   );
 };
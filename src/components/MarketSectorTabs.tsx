@@ -0,0 +1,49 @@
+/**
+ * Market Sector Tabs
+ *
+ * Sector picker shared by the CRE market dashboard and the market comparison page
+ */
+
+'use client';
+
+import type { PropertyType } from '../../types/article';
+import { PROPERTY_TYPE_LABELS } from '../utils/classify/labels';
+
+export const SECTOR_ICONS: Record<PropertyType, string> = {
+  office: '🏢',
+  industrial: '🏭',
+  retail: '🛍️',
+  multifamily: '🏘️',
+  hospitality: '🏨',
+  'data-center': '🖥️',
+  'life-science': '🧪',
+  'self-storage': '📦',
+  land: '🌱'
+};
+
+interface MarketSectorTabsProps {
+  sectors: readonly PropertyType[];
+  active: PropertyType;
+  onChange: (sector: PropertyType) => void;
+  // Let the tabs wrap onto more lines instead of sharing one
+  wrap?: boolean;
+}
+
+export const MarketSectorTabs = ({ sectors, active, onChange, wrap = false }: MarketSectorTabsProps) => (
+  <div className={`flex mb-4 ${wrap ? 'flex-wrap gap-2' : 'justify-between'}`}>
+    {sectors.map((sector) => (
+      <button
+        key={sector}
+        onClick={() => onChange(sector)}
+        className={`px-2 py-1 text-sm rounded-md flex items-center justify-center ${wrap ? '' : 'flex-1 mx-0.5'} ${
+          active === sector
+            ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+            : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+        }`}
+      >
+        <span className="mr-1">{SECTOR_ICONS[sector]}</span>
+        {PROPERTY_TYPE_LABELS[sector]}
+      </button>
+    ))}
+  </div>
+);
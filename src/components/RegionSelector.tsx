@@ -1,51 +1,85 @@
 'use client';
 
-import { Region } from '../../types/article';
+import { Region, State } from '../../types/article';
 import { regionGroups } from '../utils/regions';
 
 interface RegionSelectorProps {
-    regions: Region[];
-    selectedRegion: Region | 'all';
-    onRegionChange: (region: Region | 'all') => void;
+    // Empty means all regions
+    selectedRegions: Region[];
+    onRegionsChange: (regions: Region[]) => void;
+    // Article counts per region and state (the API's region facet)
+    counts?: Record<string, number>;
 }
 
-export default function RegionSelector({ regions, selectedRegion, onRegionChange }: RegionSelectorProps) {
+/**
+ * Multi-select of region groups and their states
+ * A selected region group includes its states, so they show as checked
+ */
+export default function RegionSelector({ selectedRegions, onRegionsChange, counts = {} }: RegionSelectorProps) {
+    const isSelected = (region: Region) => selectedRegions.includes(region);
+
+    const toggle = (region: Region) => {
+        if (isSelected(region)) {
+            onRegionsChange(selectedRegions.filter(selected => selected !== region));
+            return;
+        }
+        // Selecting a region group replaces any of its states that were picked one by one
+        const group = regionGroups.find(candidate => candidate.name === region);
+        const others = group
+            ? selectedRegions.filter(selected => !group.states.includes(selected as State))
+            : selectedRegions;
+        onRegionsChange([...others, region]);
+    };
+
+    const label = selectedRegions.length === 0
+        ? 'All Regions'
+        : selectedRegions.length <= 2 ? selectedRegions.join(', ') : `${selectedRegions.length} regions`;
+
+    const option = (region: Region, { implied = false, bold = false } = {}) => (
+        <label key={region} className={`flex items-center justify-between px-2 py-1 rounded hover:bg-gray-600 ${implied ? 'opacity-60' : 'cursor-pointer'}`}>
+            <span className="flex items-center">
+                <input
+                    type="checkbox"
+                    checked={implied || isSelected(region)}
+                    disabled={implied}
+                    onChange={() => toggle(region)}
+                    className="mr-2 accent-cyan-500"
+                />
+                <span className={bold ? 'font-medium text-gray-200' : 'text-gray-300'}>{region}</span>
+            </span>
+            <span className="ml-3 text-xs text-gray-400">{counts[region] || 0}</span>
+        </label>
+    );
+
     return (
         <div className="flex flex-col sm:flex-row sm:items-center sm:space-x-4">
-            <label htmlFor="region-select" className="text-gray-300 font-medium mb-2 sm:mb-0">
+            <span className="text-gray-300 font-medium mb-2 sm:mb-0">
                 Filter by Region:
-            </label>
-            <select
-                id="region-select"
-                value={selectedRegion}
-                onChange={(e) => onRegionChange(e.target.value as Region | 'all')}
-                className="bg-gray-700 text-white border border-gray-600 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent hover:bg-gray-600 transition-colors"
-            >
-                <option value="all">All Regions</option>
-                <option value="National">National</option>
-                
-                {/* Major Regions */}
-                <optgroup label="Major Regions">
-                    {regionGroups.map((group) => (
-                        <option key={group.name} value={group.name}>
-                            {group.name}
-                        </option>
+            </span>
+            <details className="relative">
+                <summary className="list-none cursor-pointer bg-gray-700 text-white border border-gray-600 rounded-lg px-4 py-2 hover:bg-gray-600 transition-colors">
+                    {label}
+                </summary>
+                <div className="absolute z-20 mt-2 w-72 max-h-96 overflow-y-auto bg-gray-700 border border-gray-600 rounded-lg shadow-lg p-2 text-sm">
+                    <button
+                        type="button"
+                        onClick={() => onRegionsChange([])}
+                        disabled={selectedRegions.length === 0}
+                        className="w-full text-left px-2 py-1 text-cyan-400 hover:text-cyan-300 disabled:text-gray-500"
+                    >
+                        All Regions
+                    </button>
+                    {option('National', { bold: true })}
+                    {regionGroups.map(group => (
+                        <div key={group.name} className="mt-1">
+                            {option(group.name, { bold: true })}
+                            <div className="ml-5">
+                                {[...group.states].sort().map(state => option(state, { implied: isSelected(group.name) }))}
+                            </div>
+                        </div>
                     ))}
-                </optgroup>
-
-                {/* Note: Subregions feature removed due to type compatibility */}
-
-                {/* Individual States */}
-                <optgroup label="Individual States">
-                    {regionGroups.flatMap(group => group.states)
-                        .sort()
-                        .map(state => (
-                            <option key={state} value={state}>
-                                {state}
-                            </option>
-                        ))}
-                </optgroup>
-            </select>
+                </div>
+            </details>
         </div>
     );
 }
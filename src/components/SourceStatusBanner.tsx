@@ -0,0 +1,62 @@
+'use client';
+
+import { SourceStatus } from '../../types/article';
+
+interface SourceStatusBannerProps {
+    sources: SourceStatus[];
+}
+
+// Format the time a stale source last scraped successfully
+const formatLastSuccess = (lastSuccessAt?: string): string => {
+    if (!lastSuccessAt) return 'an earlier scrape';
+    return new Date(lastSuccessAt).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+    });
+};
+
+/**
+ * Lists sources that are unavailable, only serving cached articles, or not yet scraped
+ * Renders nothing when every source scraped successfully
+ */
+export default function SourceStatusBanner({ sources }: SourceStatusBannerProps) {
+    const failed = sources.filter(source => source.status === 'failed');
+    const stale = sources.filter(source => source.status === 'stale');
+    const pending = sources.filter(source => source.status === 'pending');
+
+    if (failed.length === 0 && stale.length === 0 && pending.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-2 mb-6" role="status">
+            {failed.map(source => (
+                <div
+                    key={source.source}
+                    className="bg-red-900/40 border border-red-800 text-red-200 text-sm rounded-lg px-4 py-2"
+                    title={source.error}
+                >
+                    <span className="font-semibold">{source.source} unavailable</span>
+                    {source.error && <span className="text-red-300"> &mdash; {source.error}</span>}
+                </div>
+            ))}
+            {stale.map(source => (
+                <div
+                    key={source.source}
+                    className="bg-yellow-900/40 border border-yellow-800 text-yellow-200 text-sm rounded-lg px-4 py-2"
+                    title={source.error}
+                >
+                    <span className="font-semibold">{source.source}</span> could not be refreshed;
+                    showing articles from {formatLastSuccess(source.lastSuccessAt)}
+                </div>
+            ))}
+            {pending.length > 0 && (
+                <div className="bg-gray-800 border border-gray-700 text-gray-300 text-sm rounded-lg px-4 py-2">
+                    Waiting for the first scrape of {pending.map(source => source.source).join(', ')}
+                </div>
+            )}
+        </div>
+    );
+}
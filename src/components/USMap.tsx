@@ -0,0 +1,125 @@
+'use client';
+
+import { State } from '../../types/article';
+import { METROS } from '../utils/geography/gazetteer';
+import { STATE_TILES, MAP_COLUMNS, MAP_ROWS, getMetroPosition } from '../utils/geography/map-layout';
+
+interface USMapProps {
+    // Article counts per state and per metro (the API's region and metro facets)
+    stateCounts: Record<string, number>;
+    metroCounts: Record<string, number>;
+    selectedState?: State | null;
+    selectedMetro?: string | null;
+    onStateClick: (state: State) => void;
+    onMetroClick: (metro: string) => void;
+}
+
+// Tile size and the gap between tiles, in SVG units
+const TILE = 64;
+const GAP = 4;
+
+const EMPTY_FILL = '#374151';
+const STATE_FILL = '#06b6d4';
+const METRO_FILL = '#f59e0b';
+
+/**
+ * Choropleth of article counts per state on a tile grid, with a bubble per metro
+ * States are shaded by their share of the busiest state's count; bubble area
+ * follows the metro's count
+ */
+export default function USMap({ stateCounts, metroCounts, selectedState, selectedMetro, onStateClick, onMetroClick }: USMapProps) {
+    const states = Object.entries(STATE_TILES) as [State, typeof STATE_TILES[State]][];
+    const maxStateCount = Math.max(1, ...states.map(([state]) => stateCounts[state] || 0));
+    const maxMetroCount = Math.max(1, ...Object.values(metroCounts));
+    const metros = METROS.filter(metro => metroCounts[metro.name]);
+
+    const onKey = (action: () => void) => (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            action();
+        }
+    };
+
+    return (
+        <svg
+            viewBox={`0 0 ${MAP_COLUMNS * TILE} ${MAP_ROWS * TILE}`}
+            className="w-full h-auto"
+            role="group"
+            aria-label="Article counts by state and metro"
+        >
+            {states.map(([state, tile]) => {
+                const count = stateCounts[state] || 0;
+                const isSelected = state === selectedState;
+                return (
+                    <g
+                        key={state}
+                        role="button"
+                        tabIndex={0}
+                        aria-pressed={isSelected}
+                        aria-label={`${state}: ${count} articles`}
+                        onClick={() => onStateClick(state)}
+                        onKeyDown={onKey(() => onStateClick(state))}
+                        className="cursor-pointer focus:outline-none"
+                    >
+                        <title>{`${state}: ${count} article${count === 1 ? '' : 's'}`}</title>
+                        <rect
+                            x={tile.column * TILE + GAP / 2}
+                            y={tile.row * TILE + GAP / 2}
+                            width={TILE - GAP}
+                            height={TILE - GAP}
+                            rx={6}
+                            fill={count > 0 ? STATE_FILL : EMPTY_FILL}
+                            fillOpacity={count > 0 ? 0.2 + 0.8 * (count / maxStateCount) : 1}
+                            stroke={isSelected ? '#ffffff' : '#1f2937'}
+                            strokeWidth={isSelected ? 3 : 1}
+                        />
+                        <text
+                            x={tile.column * TILE + 8}
+                            y={tile.row * TILE + 18}
+                            className="fill-gray-100 text-[13px] font-semibold pointer-events-none"
+                        >
+                            {tile.abbreviation}
+                        </text>
+                        {count > 0 && (
+                            <text
+                                x={(tile.column + 1) * TILE - 8}
+                                y={(tile.row + 1) * TILE - 8}
+                                textAnchor="end"
+                                className="fill-gray-200 text-[11px] pointer-events-none"
+                            >
+                                {count}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+
+            {metros.map(metro => {
+                const count = metroCounts[metro.name];
+                const { x, y } = getMetroPosition(metro);
+                const isSelected = metro.name === selectedMetro;
+                return (
+                    <circle
+                        key={metro.name}
+                        cx={x * TILE}
+                        cy={y * TILE}
+                        r={4 + 12 * Math.sqrt(count / maxMetroCount)}
+                        fill={METRO_FILL}
+                        fillOpacity={0.75}
+                        stroke={isSelected ? '#ffffff' : '#78350f'}
+                        strokeWidth={isSelected ? 3 : 1}
+                        role="button"
+                        tabIndex={0}
+                        aria-pressed={isSelected}
+                        aria-label={`${metro.name}: ${count} articles`}
+                        onClick={() => onMetroClick(metro.name)}
+                        onKeyDown={onKey(() => onMetroClick(metro.name))}
+                        className="cursor-pointer focus:outline-none"
+                    >
+                        <title>{`${metro.name}: ${count} article${count === 1 ? '' : 's'}`}</title>
+                    </circle>
+                );
+            })}
+        </svg>
+    );
+}
@@ -25,17 +25,124 @@ if (!ENABLE_SOURCES.includes('bisnow')) {
 const RATE_LIMIT_DEFAULT = Number(process.env.RATE_LIMIT_DEFAULT || '10');
 const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
 
-// Rate limiting configuration (requests per minute)
-const RATE_LIMIT_RPM = {
+// Strict mode never serves synthesized sample articles, even when scraping fails
+// Set STRICT_MODE=false to allow mock data fallbacks during development
+const STRICT_MODE = process.env.STRICT_MODE !== 'false';
+// How long the last successful scrape of a source is kept for serving as stale
+const STALE_ARTICLES_TTL_HOURS = Number(process.env.STALE_ARTICLES_TTL_HOURS || '24');
+
+// Persistent article history ('sqlite', 'redis', 'postgres' or 'none')
+const ARTICLE_STORE = (process.env.ARTICLE_STORE || 'sqlite') as 'sqlite' | 'redis' | 'postgres' | 'none';
+const SQLITE_PATH = process.env.SQLITE_PATH || 'data/articles.db';
+const DATABASE_URL = process.env.DATABASE_URL || 'postgres://localhost:5432/crenews';
+
+// Background ingestion
+// 'scheduled': a scheduler scrapes into the article store and /api/scrape only reads the store
+// 'inline': /api/scrape scrapes on the request (the old behaviour)
+const INGEST_MODE = (process.env.INGEST_MODE || 'scheduled') as 'scheduled' | 'inline';
+// Run the scheduler inside the Next server; set to false when running `npm run worker` instead
+const INGEST_IN_SERVER = process.env.INGEST_IN_SERVER !== 'false';
+const INGEST_JITTER_SECONDS = Number(process.env.INGEST_JITTER_SECONDS || '60');
+const INGEST_STATE_DIR = process.env.INGEST_STATE_DIR || 'data/ingest';
+
+// Minutes between scheduled scrapes of each source (keyed by source id)
+const INGEST_INTERVAL_DEFAULT = Number(process.env.INGEST_INTERVAL_DEFAULT || '30');
+const INGEST_INTERVAL_MINUTES: Record<string, number> = {
+  default: INGEST_INTERVAL_DEFAULT,
+  bisnow: Number(process.env.INGEST_INTERVAL_BISNOW || INGEST_INTERVAL_DEFAULT),
+  globest: Number(process.env.INGEST_INTERVAL_GLOBEST || INGEST_INTERVAL_DEFAULT),
+  connectcre: Number(process.env.INGEST_INTERVAL_CONNECTCRE || INGEST_INTERVAL_DEFAULT),
+  credaily: Number(process.env.INGEST_INTERVAL_CREDAILY || INGEST_INTERVAL_DEFAULT),
+  rebusiness: Number(process.env.INGEST_INTERVAL_REBUSINESS || INGEST_INTERVAL_DEFAULT)
+};
+
+// HTTP fixture recording/replay for offline scraper runs ('off', 'record' or 'replay')
+const FIXTURE_MODE = (process.env.FIXTURE_MODE || 'off') as 'off' | 'record' | 'replay';
+const FIXTURES_DIR = process.env.FIXTURES_DIR || 'fixtures/http';
+
+// Fetch each new article's own page once for its summary, image, byline and body
+const ENRICH_ARTICLES = process.env.ENRICH_ARTICLES !== 'false';
+
+// Per-source circuit breaker: consecutive failed runs, runs with no articles, or runs
+// yielding under CIRCUIT_ANOMALY_RATIO of the usual count that take a source out of
+// rotation for CIRCUIT_COOLDOWN_MINUTES (the last good articles are served meanwhile)
+const CIRCUIT_FAILURE_THRESHOLD = Number(process.env.CIRCUIT_FAILURE_THRESHOLD || '3');
+const CIRCUIT_EMPTY_RUN_THRESHOLD = Number(process.env.CIRCUIT_EMPTY_RUN_THRESHOLD || '2');
+const CIRCUIT_ANOMALY_THRESHOLD = Number(process.env.CIRCUIT_ANOMALY_THRESHOLD || '2');
+const CIRCUIT_ANOMALY_RATIO = Number(process.env.CIRCUIT_ANOMALY_RATIO || '0.1');
+const CIRCUIT_COOLDOWN_MINUTES = Number(process.env.CIRCUIT_COOLDOWN_MINUTES || '30');
+
+// Authentication for /admin and mutating API routes
+// Sessions are signed with AUTH_SECRET; nobody can sign in until it is set
+const AUTH_SECRET = process.env.AUTH_SECRET || '';
+const AUTH_SESSION_HOURS = Number(process.env.AUTH_SESSION_HOURS || '12');
+// Local users with hashed passwords (add them with `npm run auth:add-user`)
+const AUTH_USERS_FILE = process.env.AUTH_USERS_FILE || 'data/auth/users.json';
+// Optional OIDC provider, used when the issuer and client id are set
+const AUTH_OIDC_ISSUER = process.env.AUTH_OIDC_ISSUER || '';
+const AUTH_OIDC_CLIENT_ID = process.env.AUTH_OIDC_CLIENT_ID || '';
+const AUTH_OIDC_CLIENT_SECRET = process.env.AUTH_OIDC_CLIENT_SECRET || '';
+const AUTH_OIDC_SCOPES = process.env.AUTH_OIDC_SCOPES || 'openid profile email';
+// Claim holding the user's role(s); users without a known role get AUTH_OIDC_DEFAULT_ROLE
+const AUTH_OIDC_ROLE_CLAIM = process.env.AUTH_OIDC_ROLE_CLAIM || 'roles';
+const AUTH_OIDC_DEFAULT_ROLE = process.env.AUTH_OIDC_DEFAULT_ROLE || 'reader';
+
+// Other origins allowed to call protected API routes with credentials (comma-separated)
+const CORS_ALLOWED_ORIGINS = (process.env.CORS_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+// Bearer token required by /api/metrics (Prometheus scrapes); open when empty
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+// Crawl compliance: audit log of crawl decisions, robots.txt snapshots and domain policies
+const COMPLIANCE_DIR = process.env.COMPLIANCE_DIR || 'data/compliance';
+// Crawl a site whose robots.txt can't be fetched (network error or 5xx); refused by default
+const COMPLIANCE_ALLOW_WITHOUT_ROBOTS = process.env.COMPLIANCE_ALLOW_WITHOUT_ROBOTS === 'true';
+
+// Market rates: providers tried in order until one returns rates
+// ('chatham-json', 'chatham-html', 'file'; see utils/rates)
+const RATES_PROVIDERS = (process.env.RATES_PROVIDERS || 'chatham-json,chatham-html,file')
+  .split(',')
+  .map(provider => provider.trim())
+  .filter(Boolean);
+// CSV or JSON file of rates served by the 'file' provider (for offline use)
+const RATES_FILE = process.env.RATES_FILE || 'data/rates.csv';
+const RATES_CACHE_MINUTES = Number(process.env.RATES_CACHE_MINUTES || '15');
+
+// Rate limiting configuration (requests per minute), keyed by source id like ENABLE_SOURCES
+// The limit applies to each host the source is served from (see utils/http)
+const RATE_LIMIT_RPM: Record<string, number> = {
   default: RATE_LIMIT_DEFAULT,
-  Bisnow: Number(process.env.RATE_LIMIT_BISNOW || '5'),
-  REBusiness: Number(process.env.RATE_LIMIT_REBUSINESS || '5'),
-  GlobeSt: Number(process.env.RATE_LIMIT_GLOBEST || '5'),
-  ConnectCRE: Number(process.env.RATE_LIMIT_CONNECTCRE || '5'),
-  CREDaily: Number(process.env.RATE_LIMIT_CREDAILY || '5'),
-  CommercialSearch: Number(process.env.RATE_LIMIT_COMMERCIALSEARCH || '5')
+  bisnow: Number(process.env.RATE_LIMIT_BISNOW || '5'),
+  rebusiness: Number(process.env.RATE_LIMIT_REBUSINESS || '5'),
+  globest: Number(process.env.RATE_LIMIT_GLOBEST || '5'),
+  connectcre: Number(process.env.RATE_LIMIT_CONNECTCRE || '5'),
+  credaily: Number(process.env.RATE_LIMIT_CREDAILY || '5'),
+  commercialsearch: Number(process.env.RATE_LIMIT_COMMERCIALSEARCH || '5')
 };
 
+// Politeness policy for every outgoing scraper request
+// Requests in flight at once to a single host
+const HTTP_MAX_CONCURRENCY_PER_HOST = Number(process.env.HTTP_MAX_CONCURRENCY_PER_HOST || '1');
+// Requests allowed to a single host per UTC day
+const HTTP_DAILY_BUDGET_DEFAULT = Number(process.env.HTTP_DAILY_BUDGET_DEFAULT || '500');
+// Per-host overrides as JSON, e.g. {"www.bisnow.com":{"rpm":3,"concurrency":1,"dailyBudget":200}}
+const HTTP_HOST_POLICIES = parseHostPolicies(process.env.HTTP_HOST_POLICIES);
+// Retry-After waits up to this long are waited out; longer ones pause the host until then
+const HTTP_MAX_RETRY_WAIT_SECONDS = Number(process.env.HTTP_MAX_RETRY_WAIT_SECONDS || '30');
+
+function parseHostPolicies(value: string | undefined): Record<string, { rpm?: number; concurrency?: number; dailyBudget?: number }> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error('HTTP_HOST_POLICIES is not valid JSON, ignoring it');
+    return {};
+  }
+}
+
 // Export configuration as a single object
 const CONFIG = {
   USE_MOCK_DATA,
@@ -45,12 +152,51 @@ const CONFIG = {
   ENABLE_SOURCES,
   RATE_LIMIT_DEFAULT,
   RATE_LIMIT_RPM,
+  HTTP_MAX_CONCURRENCY_PER_HOST,
+  HTTP_DAILY_BUDGET_DEFAULT,
+  HTTP_HOST_POLICIES,
+  HTTP_MAX_RETRY_WAIT_SECONDS,
   LOG_LEVEL,
+  STRICT_MODE,
+  STALE_ARTICLES_TTL_HOURS,
+  ARTICLE_STORE,
+  SQLITE_PATH,
+  DATABASE_URL,
+  INGEST_MODE,
+  INGEST_IN_SERVER,
+  INGEST_JITTER_SECONDS,
+  INGEST_STATE_DIR,
+  INGEST_INTERVAL_MINUTES,
+  FIXTURE_MODE,
+  FIXTURES_DIR,
+  ENRICH_ARTICLES,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_EMPTY_RUN_THRESHOLD,
+  CIRCUIT_ANOMALY_THRESHOLD,
+  CIRCUIT_ANOMALY_RATIO,
+  CIRCUIT_COOLDOWN_MINUTES,
+  AUTH_SECRET,
+  AUTH_SESSION_HOURS,
+  AUTH_USERS_FILE,
+  AUTH_OIDC_ISSUER,
+  AUTH_OIDC_CLIENT_ID,
+  AUTH_OIDC_CLIENT_SECRET,
+  AUTH_OIDC_SCOPES,
+  AUTH_OIDC_ROLE_CLAIM,
+  AUTH_OIDC_DEFAULT_ROLE,
+  CORS_ALLOWED_ORIGINS,
+  METRICS_TOKEN,
+  COMPLIANCE_DIR,
+  COMPLIANCE_ALLOW_WITHOUT_ROBOTS,
+  RATES_PROVIDERS,
+  RATES_FILE,
+  RATES_CACHE_MINUTES,
 };
 
 console.log('CONFIG loaded:', { 
   USE_MOCK_DATA, 
   USE_REDIS,
+  STRICT_MODE,
   ENABLE_SOURCES, 
   SCRAPE_CACHE_DURATION_MINUTES,
   // Don't log sensitive data like REDIS_URL
@@ -17,11 +17,14 @@ const CONFIG = {
   // Redis configuration (for caching)
   REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
   
-  // Rate limiting (requests per minute per domain)
+  // Rate limiting (requests per minute per host), keyed by source id as in src/config.ts
   RATE_LIMIT_RPM: {
     default: Number(process.env.RATE_LIMIT_DEFAULT || '10'),
     bisnow: Number(process.env.RATE_LIMIT_BISNOW || '5'),
-    rebusiness: Number(process.env.RATE_LIMIT_REBUSINESS || '5')
+    rebusiness: Number(process.env.RATE_LIMIT_REBUSINESS || '5'),
+    globest: Number(process.env.RATE_LIMIT_GLOBEST || '5'),
+    connectcre: Number(process.env.RATE_LIMIT_CONNECTCRE || '5'),
+    credaily: Number(process.env.RATE_LIMIT_CREDAILY || '5')
   },
   
   // Logging level
@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import { importDataset } from './utils/market-data';
+
+/**
+ * Import a quarterly market fundamentals dataset into the configured store
+ *
+ * Usage: npm run market-data:import -- <file.csv|file.json> [source]
+ * The source defaults to the file name
+ */
+async function importMarketData() {
+  const [file, source] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage: npm run market-data:import -- <file.csv|file.json> [source]');
+    process.exit(1);
+  }
+
+  const content = fs.readFileSync(file, 'utf8');
+  const format = file.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  const result = await importDataset(content, source || path.basename(file), format);
+
+  for (const problem of result.problems) {
+    console.warn(`Row ${problem.row}: ${problem.reason}`);
+  }
+  console.log(`Imported ${result.observations.length} figures from ${result.rows} rows`);
+  process.exit(0);
+}
+
+importMarketData().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,13 @@
+/**
+ * Next.js server startup hook
+ * Starts the ingestion scheduler inside the server unless a separate worker runs it
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { default: CONFIG } = await import('./config');
+  if (CONFIG.INGEST_MODE !== 'scheduled' || !CONFIG.INGEST_IN_SERVER) return;
+
+  const { ingestionScheduler } = await import('./utils/ingest');
+  ingestionScheduler.start();
+}
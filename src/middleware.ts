@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequiredRole, isAllowedOrigin } from './utils/auth/access';
+import { getRequestSession } from './utils/auth/session';
+import { hasRole } from './utils/auth/roles';
+
+// Headers for API routes anyone may read from any origin
+const PUBLIC_CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+  'Access-Control-Allow-Headers': 'X-Requested-With, Content-Type'
+};
+
+/**
+ * Access control
+ *
+ * /admin and mutating API routes need a signed-in user with the right role (see
+ * getRequiredRole). Those routes, and sign-in itself, use the session cookie, so
+ * they only accept requests from this site or CORS_ALLOWED_ORIGINS; other API
+ * routes stay open to any origin for reading
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+  const origin = request.headers.get('origin');
+
+  // A preflight is checked as the request it announces
+  const method = request.method === 'OPTIONS'
+    ? request.headers.get('access-control-request-method') || 'GET'
+    : request.method;
+  const requiredRole = getRequiredRole(pathname, method);
+  const credentialed = requiredRole !== null || pathname.startsWith('/api/auth/');
+
+  if (credentialed && !isAllowedOrigin(origin, request.url)) {
+    return NextResponse.json({ error: 'Origin not allowed' }, { status: 403 });
+  }
+
+  const corsHeaders = credentialed ? getCredentialedCorsHeaders(origin, request.url) : PUBLIC_CORS_HEADERS;
+  if (isApi && request.method === 'OPTIONS') {
+    return new NextResponse(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (requiredRole) {
+    const session = await getRequestSession(request);
+
+    if (!session || !hasRole(session.role, requiredRole)) {
+      if (isApi) {
+        return session
+          ? NextResponse.json({ error: `This needs the ${requiredRole} role` }, { status: 403, headers: corsHeaders })
+          : NextResponse.json({ error: 'Sign in required' }, { status: 401, headers: corsHeaders });
+      }
+
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('next', `${pathname}${search}`);
+      if (session) {
+        loginUrl.searchParams.set('error', `This page needs the ${requiredRole} role`);
+      }
+      return NextResponse.redirect(loginUrl);
+    }
+  }
+
+  const response = NextResponse.next();
+  if (isApi) {
+    Object.entries(corsHeaders).forEach(([key, value]) => response.headers.set(key, value));
+  }
+  return response;
+}
+
+/**
+ * CORS headers for a cookie-authenticated route: only an allowed other origin is named
+ */
+function getCredentialedCorsHeaders(origin: string | null, requestUrl: string): Record<string, string> {
+  const headers: Record<string, string> = { Vary: 'Origin' };
+  if (origin && origin !== new URL(requestUrl).origin) {
+    headers['Access-Control-Allow-Origin'] = origin;
+    headers['Access-Control-Allow-Credentials'] = 'true';
+    headers['Access-Control-Allow-Methods'] = 'GET,POST,PUT,PATCH,DELETE,OPTIONS';
+    headers['Access-Control-Allow-Headers'] = 'X-Requested-With, Content-Type';
+  }
+  return headers;
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/:path*']
+};
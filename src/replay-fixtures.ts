@@ -0,0 +1,120 @@
+import { Article } from '../types/article';
+import { DeclarativeScraper } from './utils/scrapers/declarative-scraper';
+import { sourceDefinitions } from './utils/scrapers/definitions';
+import {
+  getRecordedPages,
+  loadSnapshot,
+  replaySource,
+  saveSnapshot
+} from './utils/scrapers/fixture-replay';
+import { setFixtureMode } from './utils/fixtures';
+
+/**
+ * Scraper regression check against recorded fixtures
+ *
+ * Usage:
+ *   npm run fixtures:replay            compare scraper output with the saved snapshots
+ *   npm run fixtures:replay -- --update rewrite the snapshots from the current parsers
+ *   npm run fixtures:record            fetch live pages, save them as fixtures and snapshots
+ *
+ * Pass source ids (e.g. `globest`) to limit the run to those sources. A source
+ * without any recorded listing page fails the check
+ */
+/**
+ * Describe the differences between two article lists, keyed by URL
+ */
+function diffArticles(expected: Article[], actual: Article[]): string[] {
+  const differences: string[] = [];
+  const expectedByUrl = new Map(expected.map(article => [article.url, article]));
+  const actualByUrl = new Map(actual.map(article => [article.url, article]));
+
+  for (const [url, article] of expectedByUrl) {
+    const current = actualByUrl.get(url);
+    if (!current) {
+      differences.push(`  - missing: ${url}`);
+      continue;
+    }
+
+    for (const key of new Set([...Object.keys(article), ...Object.keys(current)])) {
+      const before = article[key as keyof Article];
+      const after = current[key as keyof Article];
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        differences.push(`  ~ ${url}\n      ${key}: ${JSON.stringify(before)} -> ${JSON.stringify(after)}`);
+      }
+    }
+  }
+
+  for (const url of actualByUrl.keys()) {
+    if (!expectedByUrl.has(url)) {
+      differences.push(`  + unexpected: ${url}`);
+    }
+  }
+
+  if (differences.length === 0 && expected.some((article, index) => article.url !== actual[index]?.url)) {
+    differences.push('  order of articles changed');
+  }
+
+  return differences;
+}
+
+async function replayFixtures() {
+  const args = process.argv.slice(2);
+  const record = args.includes('--record');
+  const update = record || args.includes('--update');
+  const onlyIds = args.filter(arg => !arg.startsWith('--'));
+
+  setFixtureMode(record ? 'record' : 'replay');
+
+  const definitions = sourceDefinitions.filter(
+    definition => onlyIds.length === 0 || onlyIds.includes(definition.id)
+  );
+
+  let failures = 0;
+
+  for (const definition of definitions) {
+    const recordedPages = getRecordedPages(definition);
+
+    let articles: Article[];
+    try {
+      articles = record
+        ? await new DeclarativeScraper(definition).scrapeUncached()
+        : await replaySource(definition);
+    } catch (error) {
+      console.log(`${definition.name}: ${error instanceof Error ? error.message : String(error)}`);
+      failures++;
+      continue;
+    }
+
+    if (update) {
+      saveSnapshot(definition.id, articles);
+      console.log(`${definition.name}: saved snapshot with ${articles.length} articles`);
+      continue;
+    }
+
+    const expected = loadSnapshot(definition.id);
+    if (!expected) {
+      console.log(`${definition.name}: no snapshot, run with --update to create one`);
+      failures++;
+      continue;
+    }
+
+    const differences = diffArticles(expected, articles);
+    if (differences.length === 0) {
+      console.log(`${definition.name}: OK (${articles.length} articles from ${recordedPages.length} of ${definition.listingPages.length} listing pages)`);
+    } else {
+      console.log(`${definition.name}: output differs from snapshot`);
+      differences.forEach(difference => console.log(difference));
+      failures++;
+    }
+  }
+
+  if (failures > 0) {
+    console.log(`\n${failures} source(s) failed`);
+    process.exit(1);
+  }
+}
+
+replayFixtures().catch(error => {
+  console.error('Fixture replay failed:', error);
+  process.exit(1);
+});
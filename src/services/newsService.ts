@@ -1,12 +1,30 @@
-import { Article } from '../../types/article';
+import { Article, SourceStatus } from '../../types/article';
+
+export type ArticleSort = 'firstSeen' | 'newest' | 'oldest' | 'source';
 
 export type ArticleParams = {
   page?: number;
   pageSize?: number;
-  region?: string;
-  source?: string;
+  // One value or a list (matches any)
+  region?: string | string[];
+  source?: string | string[];
+  // Property types (e.g. 'multifamily') and deal types (e.g. 'refinance')
+  sector?: string | string[];
+  dealType?: string | string[];
+  // Metro names or aliases (e.g. 'Dallas-Fort Worth' or 'DFW')
+  metro?: string | string[];
+  sort?: ArticleSort;
+  // Publish date bounds (ISO dates or timestamps)
+  from?: string;
+  to?: string;
+  // Cursor from a previous response, to get only articles that are new since then
+  since?: string;
   searchTerm?: string;
   useMockData?: boolean;
+  // Page through the stored article history, optionally limited to when articles were seen
+  history?: boolean;
+  seenFrom?: string;
+  seenTo?: string;
 };
 
 export type ArticleResponse = {
@@ -15,8 +33,22 @@ export type ArticleResponse = {
   page: number;
   pageSize: number;
   totalPages: number;
+  // Per-source status (ok, stale or failed) from the scrape that produced these articles
+  sources?: SourceStatus[];
+  // Article counts per source, region (including states) and metro for the current filters
+  facets?: {
+    source: Record<string, number>;
+    region: Record<string, number>;
+    metro?: Record<string, number>;
+  };
+  // Pass as `since` on a later request to get only newer articles
+  cursor?: string;
 };
 
+// Single or multi-value param as a list
+const toList = (value?: string | string[]): string[] =>
+  Array.isArray(value) ? value : value ? [value] : [];
+
 /**
  * Service for fetching news articles
  * This abstraction layer isolates the API calls from the UI components
@@ -39,9 +71,19 @@ class NewsService {
       
       if (params.page) queryParams.append('page', params.page.toString());
       if (params.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-      if (params.region && params.region !== 'All') queryParams.append('region', params.region);
-      if (params.source) queryParams.append('source', params.source);
+      toList(params.region).filter(region => region !== 'All').forEach(region => queryParams.append('region', region));
+      toList(params.source).forEach(source => queryParams.append('source', source));
+      toList(params.sector).forEach(sector => queryParams.append('sector', sector));
+      toList(params.dealType).forEach(dealType => queryParams.append('dealType', dealType));
+      toList(params.metro).forEach(metro => queryParams.append('metro', metro));
+      if (params.sort) queryParams.append('sort', params.sort);
+      if (params.from) queryParams.append('from', params.from);
+      if (params.to) queryParams.append('to', params.to);
+      if (params.since) queryParams.append('since', params.since);
       if (params.searchTerm) queryParams.append('searchTerm', params.searchTerm);
+      if (params.history) queryParams.append('history', 'true');
+      if (params.seenFrom) queryParams.append('seenFrom', params.seenFrom);
+      if (params.seenTo) queryParams.append('seenTo', params.seenTo);
       
       const queryString = queryParams.toString() ? `?${queryParams.toString()}` : '';
       const url = `${this.baseUrl}${queryString}`;
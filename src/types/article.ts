@@ -1,14 +1,14 @@
 export type State = 
   | 'Alabama' | 'Alaska' | 'Arizona' | 'Arkansas' | 'California'
-  | 'Connecticut' | 'Delaware' | 'Florida' | 'Georgia' | 'Hawaii'
-  | 'Illinois' | 'Indiana' | 'Iowa' | 'Kansas' | 'Kentucky'
-  | 'Louisiana' | 'Maine' | 'Maryland' | 'Massachusetts' | 'Michigan'
-  | 'Minnesota' | 'Mississippi' | 'Missouri' | 'Nebraska' | 'Nevada'
-  | 'New Hampshire' | 'New Jersey' | 'New Mexico' | 'New York'
-  | 'North Carolina' | 'North Dakota' | 'Ohio' | 'Oklahoma' | 'Oregon'
-  | 'Pennsylvania' | 'Rhode Island' | 'South Carolina' | 'South Dakota'
-  | 'Tennessee' | 'Texas' | 'Utah' | 'Vermont' | 'Virginia' | 'Washington'
-  | 'West Virginia' | 'Washington, D.C.';
+  | 'Colorado' | 'Connecticut' | 'Delaware' | 'Florida' | 'Georgia'
+  | 'Hawaii' | 'Idaho' | 'Illinois' | 'Indiana' | 'Iowa' | 'Kansas'
+  | 'Kentucky' | 'Louisiana' | 'Maine' | 'Maryland' | 'Massachusetts'
+  | 'Michigan' | 'Minnesota' | 'Mississippi' | 'Missouri' | 'Montana'
+  | 'Nebraska' | 'Nevada' | 'New Hampshire' | 'New Jersey' | 'New Mexico'
+  | 'New York' | 'North Carolina' | 'North Dakota' | 'Ohio' | 'Oklahoma'
+  | 'Oregon' | 'Pennsylvania' | 'Rhode Island' | 'South Carolina'
+  | 'South Dakota' | 'Tennessee' | 'Texas' | 'Utah' | 'Vermont' | 'Virginia'
+  | 'Washington' | 'West Virginia' | 'Wisconsin' | 'Wyoming' | 'Washington, D.C.';
 
 export type Region = 
   | 'All'
@@ -25,12 +25,91 @@ export interface RegionGroup {
     states: State[];
 }
 
+// Where an article came from: scraped just now, served from a previous
+// scrape, or synthesized sample data (never served in strict mode)
+export type ArticleProvenance = 'live' | 'cached' | 'sample';
+
+// How precise an article's publishedAt is: 'exact' has a time of day,
+// 'day' is a calendar date, 'approximate' was inferred from the URL or a
+// relative phrase like "2 hours ago", 'unknown' means no date was found
+export type DateConfidence = 'exact' | 'day' | 'approximate' | 'unknown';
+
+// Asset classes an article can be about
+export type PropertyType =
+  | 'office' | 'industrial' | 'retail' | 'multifamily' | 'hospitality'
+  | 'data-center' | 'life-science' | 'self-storage' | 'land';
+
+// Kinds of deal an article can report; 'distress' covers defaults and foreclosures
+export type DealType = 'sale' | 'refinance' | 'lease' | 'development' | 'distress' | 'fund-raise';
+
+// A place an article mentions, resolved up the metro -> state -> region hierarchy.
+// confidence is 0-1: how sure the extractor is that the mention means this place
+export interface ArticleLocation {
+  // The text as it appeared, e.g. "DFW" or "Brickell"
+  mention: string;
+  metro?: string;
+  submarket?: string;
+  state?: State;
+  region: Region;
+  confidence: number;
+}
+
+// A snippet of an article field matching a search, with matches wrapped in <mark></mark>
+export interface SearchHighlight {
+  field: 'title' | 'summary' | 'body';
+  snippet: string;
+}
+
+// Another source's article about the same story
+export interface RelatedCoverage {
+  title: string;
+  url: string;
+  source: string;
+  publishedAt?: string;
+}
+
 export interface Article {
   title: string;
   url: string;
   source: string;
   publishedDate: string;
+  // Normalized publish date (ISO-8601), used for sorting and date filters
+  publishedAt?: string;
+  dateConfidence?: DateConfidence;
   region: Region;
   summary?: string;
   imageUrl?: string;
+  // Asset classes and deal kinds, tagged at ingestion
+  propertyTypes?: PropertyType[];
+  dealTypes?: DealType[];
+  // Places mentioned in the title and summary, most confident first
+  locations?: ArticleLocation[];
+  // Byline and section as published on the article page
+  author?: string;
+  section?: string;
+  // Extracted article body text, when available
+  body?: string;
+  // When the article page was fetched for its details (ISO timestamp)
+  enrichedAt?: string;
+  provenance?: ArticleProvenance;
+  // When the article store first and last saw this article (ISO timestamps)
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+  // Matching snippets when the article is a search result
+  highlights?: SearchHighlight[];
+  // Articles about the same story share a storyId; the primary article lists the others
+  storyId?: string;
+  alsoCoveredBy?: RelatedCoverage[];
+}
+
+// Health of a news source for the current response
+// 'pending' means the scheduler has not scraped the source yet
+export type SourceState = 'ok' | 'stale' | 'failed' | 'pending';
+
+export interface SourceStatus {
+  source: string;
+  status: SourceState;
+  articleCount: number;
+  error?: string;
+  lastSuccessAt?: string;
 }
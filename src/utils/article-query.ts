@@ -0,0 +1,183 @@
+/**
+ * In-memory article querying
+ *
+ * Applies an ArticleQuery (filters, sort, facets, paging) to a list of
+ * articles - used for freshly scraped articles and stores without a query
+ * language. The SQL stores implement the same semantics in their queries
+ */
+import { Article } from '../../types/article';
+import type { ArticleQuery, ArticleFacets, ArticleSort } from './repository/article-repository';
+import { toFilterList, resolveSeenFrom, resolveSeenTo } from './repository/article-repository';
+import { compareByPublishedAt } from './dates';
+import { expandRegionFilter, getArticleRegions } from './regions';
+import { groupStories, mergeStory } from './dedup';
+
+type FacetField = keyof ArticleFacets;
+
+export interface ArticleQueryResult<T extends Article> {
+  articles: T[];
+  total: number;
+  facets?: ArticleFacets;
+}
+
+/**
+ * Filter, sort and page a list of articles
+ * Articles sharing a storyId are one story: it is kept if any of its articles passes
+ * the filters (so filtering by source finds every source that covered it), then merged
+ * into its primary article
+ */
+export function queryArticles<T extends Article>(articles: T[], query: ArticleQuery = {}): ArticleQueryResult<T> {
+  const filtered = groupStories(articles)
+    .filter(story => story.some(article => matchesQuery(article, query)))
+    .map(mergeStory);
+  // Without a sort the given order is kept (e.g. search relevance)
+  const matching = query.sort ? sortArticles(filtered, query.sort) : filtered;
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? matching.length;
+
+  return {
+    articles: matching.slice(offset, offset + limit),
+    total: matching.length,
+    ...(query.facets && { facets: countFacets(articles, query) })
+  };
+}
+
+/**
+ * Whether an article passes every filter in the query
+ * @param ignore Filter to skip, used when counting that field's facet
+ */
+export function matchesQuery(article: Article, query: ArticleQuery, ignore?: FacetField): boolean {
+  const sources = ignore === 'source' ? [] : toFilterList(query.source);
+  if (sources.length > 0 && !sources.some(source => article.source.toLowerCase().includes(source))) {
+    return false;
+  }
+
+  const regions = ignore === 'region' ? [] : expandRegionFilter(toFilterList(query.region));
+  if (
+    regions.length > 0 &&
+    !regions.includes(article.region.toLowerCase()) &&
+    !article.locations?.some(location => location.state && regions.includes(location.state.toLowerCase()))
+  ) {
+    return false;
+  }
+
+  const propertyTypes = toFilterList(query.propertyType);
+  if (propertyTypes.length > 0 && !article.propertyTypes?.some(type => propertyTypes.includes(type))) {
+    return false;
+  }
+
+  const dealTypes = toFilterList(query.dealType);
+  if (dealTypes.length > 0 && !article.dealTypes?.some(type => dealTypes.includes(type))) {
+    return false;
+  }
+
+  const metros = ignore === 'metro' ? [] : toFilterList(query.metro);
+  if (metros.length > 0 && !article.locations?.some(location => location.metro && metros.includes(location.metro.toLowerCase()))) {
+    return false;
+  }
+
+  if (query.seenFrom && (!article.lastSeenAt || article.lastSeenAt < resolveSeenFrom(query.seenFrom))) {
+    return false;
+  }
+  if (query.seenTo && (!article.firstSeenAt || article.firstSeenAt > resolveSeenTo(query.seenTo))) {
+    return false;
+  }
+
+  if (query.publishedFrom && (!article.publishedAt || article.publishedAt < resolveSeenFrom(query.publishedFrom))) {
+    return false;
+  }
+  if (query.publishedTo && (!article.publishedAt || article.publishedAt > resolveSeenTo(query.publishedTo))) {
+    return false;
+  }
+
+  if (query.firstSeenAfter) {
+    // Freshly scraped articles have not been stamped by the store, so fall back to their publish date
+    const seenAt = article.firstSeenAt || article.publishedAt;
+    if (!seenAt || seenAt <= resolveSeenFrom(query.firstSeenAfter)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Sort a copy of the articles
+ */
+export function sortArticles<T extends Article>(articles: T[], sort: ArticleSort = 'firstSeen'): T[] {
+  const sorted = [...articles];
+
+  switch (sort) {
+    case 'newest':
+      return sorted.sort(compareByPublishedAt);
+    case 'oldest':
+      return sorted.sort((a, b) => {
+        if (!a.publishedAt || !b.publishedAt) return compareByPublishedAt(a, b);
+        return a.publishedAt.localeCompare(b.publishedAt);
+      });
+    case 'source':
+      return sorted.sort((a, b) => a.source.localeCompare(b.source) || compareByPublishedAt(a, b));
+    case 'firstSeen':
+    default:
+      return sorted.sort((a, b) => (b.firstSeenAt || '').localeCompare(a.firstSeenAt || ''));
+  }
+}
+
+/**
+ * Count matching stories per source, region and metro
+ * A story counts once towards every value any of its matching articles has
+ */
+export function countFacets(articles: Article[], query: ArticleQuery): ArticleFacets {
+  const facets: ArticleFacets = { source: {}, region: {}, metro: {} };
+  const count = (counts: Record<string, number>, values: Iterable<string>) => {
+    for (const value of new Set(values)) {
+      counts[value] = (counts[value] || 0) + 1;
+    }
+  };
+
+  for (const story of groupStories(articles)) {
+    count(facets.source, story
+      .filter(article => matchesQuery(article, query, 'source'))
+      .map(article => article.source));
+    count(facets.region, story
+      .filter(article => matchesQuery(article, query, 'region'))
+      .flatMap(article => getArticleRegions(article)));
+    count(facets.metro, story
+      .filter(article => matchesQuery(article, query, 'metro'))
+      .flatMap(article => (article.locations || []).flatMap(location => (location.metro ? [location.metro] : []))));
+  }
+
+  return facets;
+}
+
+/**
+ * Article counts per region, state and region group; an article counts once
+ * towards every region it belongs to, so a region group's count includes its states
+ */
+export function countRegions(articles: Pick<Article, 'region' | 'locations'>[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const article of articles) {
+    for (const region of getArticleRegions(article)) {
+      counts[region] = (counts[region] || 0) + 1;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Cursor for "what's new since my last visit" - an opaque encoding of a timestamp
+ */
+export function encodeCursor(timestamp: Date = new Date()): string {
+  return btoa(timestamp.toISOString()).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a cursor from encodeCursor, returning its ISO timestamp or null if it is invalid
+ */
+export function decodeCursor(cursor: string): string | null {
+  try {
+    const decoded = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const timestamp = new Date(decoded);
+    return /^\d{4}-\d{2}-\d{2}T/.test(decoded) && !isNaN(timestamp.getTime()) ? timestamp.toISOString() : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Which routes need which role, and which origins may call them
+ * Used by the middleware, so this must not depend on Node-only modules
+ */
+import CONFIG from '../../config';
+import { Role } from './roles';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * The role a request needs, or null if anyone may make it
+ * - /admin pages and /api/admin routes need an admin
+ * - Other API requests that change something (POST, PUT, PATCH, DELETE) need an editor
+ * - Signing in and out is open to everyone
+ */
+export function getRequiredRole(pathname: string, method: string): Role | null {
+  if (pathname.startsWith('/api/auth/')) return null;
+  if (isUnder(pathname, '/admin') || isUnder(pathname, '/api/admin')) return 'admin';
+  if (pathname.startsWith('/api/') && !READ_METHODS.includes(method.toUpperCase())) return 'editor';
+  return null;
+}
+
+/**
+ * Whether a request from this origin may call a protected route with the user's cookies
+ * Requests without an Origin header (same-origin navigation, curl) are allowed
+ */
+export function isAllowedOrigin(origin: string | null, requestUrl: string): boolean {
+  if (!origin) return true;
+  return origin === new URL(requestUrl).origin || CONFIG.CORS_ALLOWED_ORIGINS.includes(origin);
+}
+
+function isUnder(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
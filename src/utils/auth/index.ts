@@ -0,0 +1,40 @@
+/**
+ * Authentication
+ *
+ * Local username/password users and an optional OIDC provider both end in the
+ * same signed session cookie, which carries the user's role (reader, editor or
+ * admin). The middleware checks it on /admin and on API routes that change
+ * something (see access.ts)
+ */
+import { isOidcConfigured } from './oidc';
+
+export { ROLES, isRole, hasRole } from './roles';
+export type { Role } from './roles';
+export {
+  SESSION_COOKIE,
+  createSessionToken,
+  readSessionToken,
+  getRequestSession,
+  getCookie,
+  sessionCookieOptions
+} from './session';
+export type { Session, SessionUser } from './session';
+export { getRequiredRole, isAllowedOrigin } from './access';
+export { authenticateLocalUser, saveLocalUser, hasLocalUsers } from './local-users';
+export { OIDC_COOKIE, isOidcConfigured, startOidcLogin, finishOidcLogin } from './oidc';
+export type { OidcLoginState } from './oidc';
+
+/**
+ * Sign-in methods that are available
+ */
+export function getAuthProviders(): { local: boolean; oidc: boolean } {
+  return { local: true, oidc: isOidcConfigured() };
+}
+
+/**
+ * A same-site path to return to after signing in, so `next` can't send users elsewhere
+ */
+export function getSafeRedirect(next: string | null | undefined): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) return '/';
+  return next;
+}
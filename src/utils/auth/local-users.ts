@@ -0,0 +1,120 @@
+/**
+ * Local username/password accounts
+ *
+ * Users are kept in CONFIG.AUTH_USERS_FILE with scrypt password hashes
+ * ("scrypt$<salt>$<hash>", both base64). Add or update users with
+ * `npm run auth:add-user -- <username> <role>`
+ */
+import fs from 'fs';
+import path from 'path';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { Role, isRole } from './roles';
+import { SessionUser } from './session';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 12;
+
+export interface LocalUser {
+  username: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type UsersFile = Record<string, LocalUser>;
+
+function getUsersPath(): string {
+  return path.resolve(CONFIG.AUTH_USERS_FILE);
+}
+
+function loadUsers(): UsersFile {
+  try {
+    return JSON.parse(fs.readFileSync(getUsersPath(), 'utf8')) as UsersFile;
+  } catch {
+    return {};
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Checked against when the username is unknown, so a miss takes as long as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * The user with these credentials, or null if the username or password is wrong
+ */
+export async function authenticateLocalUser(username: string, password: string): Promise<SessionUser | null> {
+  const user = loadUsers()[username.trim().toLowerCase()];
+
+  if (!user || !isRole(user.role)) {
+    dummyHash ??= hashPassword('not a real password');
+    await verifyPassword(password, await dummyHash);
+    return null;
+  }
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  return { id: user.username, name: user.name, role: user.role, provider: 'local' };
+}
+
+/**
+ * Create a user, or change an existing user's password and role
+ */
+export async function saveLocalUser(username: string, password: string, role: Role, name = username): Promise<LocalUser> {
+  const key = username.trim().toLowerCase();
+  if (!/^[a-z0-9._@-]+$/.test(key)) {
+    throw new Error('Usernames may only contain letters, digits and . _ @ -');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const users = loadUsers();
+  const now = new Date().toISOString();
+  const user: LocalUser = {
+    username: key,
+    name,
+    role,
+    passwordHash: await hashPassword(password),
+    createdAt: users[key]?.createdAt || now,
+    updatedAt: now
+  };
+  users[key] = user;
+
+  fs.mkdirSync(path.dirname(getUsersPath()), { recursive: true });
+  // Write then rename so readers never see a half-written file; only the owner may read it
+  const tempPath = `${getUsersPath()}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(users, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, getUsersPath());
+
+  logger.info({ event: 'auth_user_saved', user: key, role });
+  return user;
+}
+
+/**
+ * Whether any local users exist
+ */
+export function hasLocalUsers(): boolean {
+  return Object.keys(loadUsers()).length > 0;
+}
@@ -0,0 +1,135 @@
+/**
+ * Generic OpenID Connect sign-in
+ *
+ * Authorization code flow with PKCE against CONFIG.AUTH_OIDC_ISSUER. The user's
+ * claims come from the provider's userinfo endpoint, and their role from
+ * CONFIG.AUTH_OIDC_ROLE_CLAIM (a role name or a list of them)
+ */
+import CONFIG from '../../config';
+import logger from '../logger';
+import { ROLES, Role, isRole } from './roles';
+import { SessionUser, toBase64Url } from './session';
+
+export const OIDC_COOKIE = 'crenews_oidc';
+
+interface OidcDiscovery {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+/**
+ * What the callback needs to finish a sign-in, kept in a short-lived cookie
+ */
+export interface OidcLoginState {
+  state: string;
+  verifier: string;
+  // Where to send the user afterwards
+  next: string;
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+export function isOidcConfigured(): boolean {
+  return Boolean(CONFIG.AUTH_OIDC_ISSUER && CONFIG.AUTH_OIDC_CLIENT_ID);
+}
+
+function getDiscovery(): Promise<OidcDiscovery> {
+  discovery ??= (async () => {
+    const url = `${CONFIG.AUTH_OIDC_ISSUER.replace(/\/$/, '')}/.well-known/openid-configuration`;
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed: ${response.status} from ${url}`);
+    }
+    return await response.json() as OidcDiscovery;
+  })().catch(error => {
+    // Try again on the next sign-in
+    discovery = null;
+    throw error;
+  });
+  return discovery;
+}
+
+/**
+ * The provider URL to send the user to, and the state to keep until they come back
+ */
+export async function startOidcLogin(redirectUri: string, next: string): Promise<{ url: string; loginState: OidcLoginState }> {
+  const { authorization_endpoint } = await getDiscovery();
+  const state = randomToken();
+  const verifier = randomToken();
+  const challenge = toBase64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', CONFIG.AUTH_OIDC_CLIENT_ID);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', CONFIG.AUTH_OIDC_SCOPES);
+  url.searchParams.set('state', state);
+  url.searchParams.set('code_challenge', challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), loginState: { state, verifier, next } };
+}
+
+/**
+ * Exchange the authorization code for the signed-in user
+ */
+export async function finishOidcLogin(code: string, verifier: string, redirectUri: string): Promise<SessionUser> {
+  const { token_endpoint, userinfo_endpoint } = await getDiscovery();
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    client_id: CONFIG.AUTH_OIDC_CLIENT_ID,
+    code_verifier: verifier,
+    ...(CONFIG.AUTH_OIDC_CLIENT_SECRET && { client_secret: CONFIG.AUTH_OIDC_CLIENT_SECRET })
+  });
+  const tokenResponse = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  });
+  if (!tokenResponse.ok) {
+    throw new Error(`OIDC token exchange failed: ${tokenResponse.status}`);
+  }
+  const { access_token } = await tokenResponse.json() as { access_token?: string };
+  if (!access_token) {
+    throw new Error('OIDC token response had no access token');
+  }
+
+  const userinfoResponse = await fetch(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${access_token}` }
+  });
+  if (!userinfoResponse.ok) {
+    throw new Error(`OIDC userinfo request failed: ${userinfoResponse.status}`);
+  }
+  const claims = await userinfoResponse.json() as Record<string, unknown>;
+  if (typeof claims.sub !== 'string') {
+    throw new Error('OIDC userinfo had no subject');
+  }
+
+  const user: SessionUser = {
+    id: claims.sub,
+    name: [claims.name, claims.preferred_username, claims.email].find(value => typeof value === 'string') as string || claims.sub,
+    role: getRoleFromClaims(claims),
+    provider: 'oidc'
+  };
+  logger.info({ event: 'auth_oidc_login', user: user.id, role: user.role });
+  return user;
+}
+
+/**
+ * The highest known role in the role claim, or the default role
+ */
+function getRoleFromClaims(claims: Record<string, unknown>): Role {
+  const value = claims[CONFIG.AUTH_OIDC_ROLE_CLAIM];
+  const claimed = (Array.isArray(value) ? value : [value]).filter(isRole);
+  const highest = [...ROLES].reverse().find(role => claimed.includes(role));
+  if (highest) return highest;
+  return isRole(CONFIG.AUTH_OIDC_DEFAULT_ROLE) ? CONFIG.AUTH_OIDC_DEFAULT_ROLE : 'reader';
+}
+
+function randomToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
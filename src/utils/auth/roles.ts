@@ -0,0 +1,18 @@
+/**
+ * User roles, from least to most privileged
+ * Each role can do everything the roles before it can
+ */
+export const ROLES = ['reader', 'editor', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a user with `role` may do what `required` allows
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
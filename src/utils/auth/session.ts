@@ -0,0 +1,127 @@
+/**
+ * Signed session cookies
+ *
+ * A session is the signed-in user and an expiry, encoded as JSON and signed with
+ * HMAC-SHA256 under CONFIG.AUTH_SECRET. Only Web Crypto is used so the middleware
+ * (which may run on the edge runtime) can verify sessions too
+ */
+import CONFIG from '../../config';
+import { Role, isRole } from './roles';
+
+export const SESSION_COOKIE = 'crenews_session';
+
+export interface SessionUser {
+  // Username for local users, the subject claim for OIDC users
+  id: string;
+  name: string;
+  role: Role;
+  provider: 'local' | 'oidc';
+}
+
+export interface Session extends SessionUser {
+  expiresAt: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!CONFIG.AUTH_SECRET) {
+    throw new Error('AUTH_SECRET is not set, so sessions cannot be signed');
+  }
+  signingKey ??= crypto.subtle.importKey(
+    'raw',
+    encoder.encode(CONFIG.AUTH_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+  return signingKey;
+}
+
+/**
+ * Sign a session for the user, valid for CONFIG.AUTH_SESSION_HOURS
+ */
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const session: Session = {
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    provider: user.provider,
+    expiresAt: new Date(Date.now() + CONFIG.AUTH_SESSION_HOURS * 60 * 60 * 1000).toISOString()
+  };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The session in a token, or null if it is malformed, forged or expired
+ */
+export async function readSessionToken(token: string | undefined): Promise<Session | null> {
+  if (!token || !CONFIG.AUTH_SECRET) return null;
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(decoder.decode(fromBase64Url(payload))) as Session;
+    if (!isRole(session.role) || !(Date.parse(session.expiresAt) > Date.now())) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Cookie attributes for the session cookie
+ */
+export function sessionCookieOptions(maxAgeSeconds = CONFIG.AUTH_SESSION_HOURS * 60 * 60) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: maxAgeSeconds
+  };
+}
+
+/**
+ * The value of a cookie in a request's Cookie header
+ */
+export function getCookie(request: Request, name: string): string | undefined {
+  const header = request.headers.get('cookie') || '';
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * The session of the user making a request, if any
+ */
+export async function getRequestSession(request: Request): Promise<Session | null> {
+  return await readSessionToken(getCookie(request, SESSION_COOKIE));
+}
+
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
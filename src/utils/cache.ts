@@ -132,6 +132,49 @@ export class CacheAdapter {
       });
     }
   }
+
+  /**
+   * Remove cached items
+   * @param keyPrefix Only remove keys starting with this, e.g. "scraper:GlobeSt:" (default everything)
+   * @returns Number of keys removed
+   */
+  async clear(keyPrefix = ''): Promise<number> {
+    const fullPrefix = this.prefix + keyPrefix;
+    let removed = 0;
+
+    try {
+      if (CONFIG.USE_REDIS && !CONFIG.USE_MOCK_DATA) {
+        const client = await getRedisClient();
+        if (client) {
+          for await (const keys of client.scanIterator({ MATCH: `${fullPrefix}*`, COUNT: 100 })) {
+            if (keys.length > 0) {
+              removed += await client.del(keys);
+            }
+          }
+        }
+      }
+
+      let memoryRemoved = 0;
+      for (const key of this.memoryCache.keys()) {
+        if (key.startsWith(fullPrefix)) {
+          this.memoryCache.delete(key);
+          memoryRemoved++;
+        }
+      }
+      // Redis keys are mirrored in memory, so don't count them twice
+      removed = Math.max(removed, memoryRemoved);
+
+      logger.info({ event: 'cache_cleared', prefix: fullPrefix, removed });
+      return removed;
+    } catch (error) {
+      logger.error({
+        event: 'cache_clear_error',
+        prefix: fullPrefix,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+  }
 }
 
 // Export a singleton instance
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Article } from '../../types/article';
+
+// Breaker state goes to a scratch directory, read by CONFIG when it is first imported
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'circuit-breaker-'));
+process.env.INGEST_STATE_DIR = stateDir;
+
+const { default: CONFIG } = await import('../config');
+const { circuitBreakers } = await import('./circuit-breaker');
+const { PolitenessError } = await import('./http');
+const { BaseScraper } = await import('./scrapers/base-scraper');
+
+const SOURCE = 'Test Source';
+
+/**
+ * Open the breaker and let its cooldown pass
+ */
+function openWithCooldownPassed(): void {
+  for (let run = 0; run < CONFIG.CIRCUIT_FAILURE_THRESHOLD; run++) {
+    circuitBreakers.recordFailure(SOURCE, new Error('HTTP 500'));
+  }
+  const health = circuitBreakers.getHealth(SOURCE);
+  expect(health.state).toBe('open');
+
+  const statePath = path.join(stateDir, 'circuit-breakers.json');
+  const state = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+  state[SOURCE].retryAt = new Date(Date.now() - 1000).toISOString();
+  fs.writeFileSync(statePath, JSON.stringify(state));
+}
+
+class ThrowingScraper extends BaseScraper {
+  public readonly name = SOURCE;
+  public readonly baseUrl = 'https://example.com';
+  public attempts = 0;
+
+  constructor(private readonly error: Error) {
+    super();
+  }
+
+  protected async scrapeSource(): Promise<Article[]> {
+    this.attempts++;
+    throw this.error;
+  }
+}
+
+beforeEach(() => {
+  circuitBreakers.reset(SOURCE);
+});
+
+afterAll(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe('circuitBreakers', () => {
+  it('lets one trial through after the cooldown and reopens if it fails', () => {
+    openWithCooldownPassed();
+
+    const trial = circuitBreakers.beforeRequest(SOURCE);
+    expect(trial.allowed).toBe(true);
+    expect(trial.health.state).toBe('half-open');
+
+    circuitBreakers.recordFailure(SOURCE, new Error('HTTP 500'));
+    expect(circuitBreakers.getHealth(SOURCE).state).toBe('open');
+    expect(circuitBreakers.beforeRequest(SOURCE).allowed).toBe(false);
+  });
+
+  it('refuses other scrapes while the trial runs', () => {
+    openWithCooldownPassed();
+    expect(circuitBreakers.beforeRequest(SOURCE).allowed).toBe(true);
+
+    const other = circuitBreakers.beforeRequest(SOURCE);
+    expect(other.allowed).toBe(false);
+    expect(other.health.state).toBe('half-open');
+
+    circuitBreakers.recordSuccess(SOURCE, 10);
+    expect(circuitBreakers.beforeRequest(SOURCE).allowed).toBe(true);
+  });
+
+  it('lets a new trial through once the last one is long overdue', () => {
+    openWithCooldownPassed();
+    circuitBreakers.beforeRequest(SOURCE);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 60 * 60 * 1000);
+    try {
+      expect(circuitBreakers.beforeRequest(SOURCE).allowed).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('returns a released trial to open, keeping the trial slot', () => {
+    openWithCooldownPassed();
+    circuitBreakers.beforeRequest(SOURCE);
+
+    circuitBreakers.releaseTrial(SOURCE);
+    expect(circuitBreakers.getHealth(SOURCE).state).toBe('open');
+
+    // The cooldown has already passed, so the next scrape is the trial
+    const next = circuitBreakers.beforeRequest(SOURCE);
+    expect(next.allowed).toBe(true);
+    expect(next.health.state).toBe('half-open');
+  });
+
+  it('leaves a closed breaker alone when releasing a trial', () => {
+    circuitBreakers.releaseTrial(SOURCE);
+    expect(circuitBreakers.getHealth(SOURCE).state).toBe('closed');
+  });
+});
+
+describe('BaseScraper with a half-open breaker', () => {
+  it('serves the last good articles while another scrape is the trial', async () => {
+    openWithCooldownPassed();
+    circuitBreakers.beforeRequest(SOURCE);
+    const scraper = new ThrowingScraper(new Error('HTTP 500'));
+
+    const result = await scraper.getArticlesWithStatus({ refresh: true });
+    expect(scraper.attempts).toBe(0);
+    expect(result.status.error).toMatch(/trial scrape is in progress/);
+  });
+
+  it('does not leave the breaker half-open when politeness limits stop the trial', async () => {
+    openWithCooldownPassed();
+    const scraper = new ThrowingScraper(new PolitenessError('Host paused', 'example.com'));
+
+    const result = await scraper.getArticlesWithStatus({ refresh: true });
+    expect(scraper.attempts).toBe(1);
+    expect(result.status.status).toBe('failed');
+
+    const health = circuitBreakers.getHealth(SOURCE);
+    expect(health.state).toBe('open');
+    expect(health.consecutiveFailures).toBe(CONFIG.CIRCUIT_FAILURE_THRESHOLD);
+  });
+
+  it('reopens the breaker when the trial itself fails', async () => {
+    openWithCooldownPassed();
+    const scraper = new ThrowingScraper(new Error('HTTP 500'));
+
+    await scraper.getArticlesWithStatus({ refresh: true });
+    await scraper.getArticlesWithStatus({ refresh: true });
+
+    // The second call is skipped: the failed trial restarted the cooldown
+    expect(scraper.attempts).toBe(1);
+    expect(circuitBreakers.getHealth(SOURCE).state).toBe('open');
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Per-source circuit breaker and health score
+ *
+ * A source that keeps failing, keeps returning no articles, or suddenly returns
+ * a fraction of its usual yield (usually a markup change breaking the parser) is
+ * taken out of rotation for a cooldown. While its breaker is open the last good
+ * articles are served instead. After the cooldown one trial scrape is let through
+ * (half-open): if it is healthy the breaker closes, otherwise it opens again.
+ * Other scrapes are refused while the trial runs.
+ *
+ * The scheduler may run in a separate worker process, so breaker state is kept
+ * on disk under CONFIG.INGEST_STATE_DIR, next to the ingestion state, and
+ * changed under a lock
+ */
+import fs from 'fs';
+import path from 'path';
+import CONFIG from '../config';
+import logger from './logger';
+import { withFileLock } from './file-lock';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+// How a single scrape went
+export type RunOutcome = 'ok' | 'error' | 'empty' | 'anomaly';
+
+/**
+ * Breaker state and recent history of a single source
+ */
+export interface SourceHealth {
+  source: string;
+  state: BreakerState;
+  // 0-100, the share of recent runs that were healthy
+  score: number;
+  consecutiveFailures: number;
+  consecutiveEmptyRuns: number;
+  consecutiveAnomalies: number;
+  // Moving average of articles per healthy run
+  averageYield?: number;
+  // Most recent last
+  recentOutcomes: RunOutcome[];
+  lastOutcome?: RunOutcome;
+  lastRunAt?: string;
+  lastError?: string;
+  // Why and when the breaker last opened, and when it lets a trial scrape through
+  reason?: string;
+  openedAt?: string;
+  retryAt?: string;
+  // When the half-open trial scrape was let through
+  trialStartedAt?: string;
+}
+
+/**
+ * Whether a scrape may go ahead
+ */
+export interface BreakerDecision {
+  allowed: boolean;
+  health: SourceHealth;
+}
+
+// Runs kept for the health score
+const RECENT_RUNS = 20;
+
+// Healthy runs needed before a low yield counts as an anomaly
+const MIN_BASELINE_RUNS = 3;
+
+// Weight of the latest run in the moving average yield
+const YIELD_SMOOTHING = 0.3;
+
+// A trial that has not reported back after this long is assumed lost (e.g. its process crashed)
+const TRIAL_TIMEOUT_MS = 15 * 60 * 1000;
+
+function getStatePath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'circuit-breakers.json');
+}
+
+function getLockPath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'circuit-breakers.lock');
+}
+
+function loadState(): Record<string, SourceHealth> {
+  try {
+    return JSON.parse(fs.readFileSync(getStatePath(), 'utf8')) as Record<string, SourceHealth>;
+  } catch {
+    return {};
+  }
+}
+
+function emptyHealth(source: string): SourceHealth {
+  return {
+    source,
+    state: 'closed',
+    score: 100,
+    consecutiveFailures: 0,
+    consecutiveEmptyRuns: 0,
+    consecutiveAnomalies: 0,
+    recentOutcomes: []
+  };
+}
+
+/**
+ * Circuit breakers for all sources, keyed by source name
+ */
+class CircuitBreakerRegistry {
+  /**
+   * Current health of a source
+   */
+  getHealth(source: string): SourceHealth {
+    return loadState()[source] || emptyHealth(source);
+  }
+
+  /**
+   * Health of every source that has run, or of the given sources
+   */
+  getAllHealth(sources?: string[]): SourceHealth[] {
+    const state = loadState();
+    return (sources || Object.keys(state)).map(source => state[source] || emptyHealth(source));
+  }
+
+  /**
+   * Check whether a source may be scraped now
+   * An open breaker whose cooldown has passed moves to half-open and lets this scrape
+   * through as the trial; until the trial is recorded or released, other scrapes are refused
+   */
+  beforeRequest(source: string): BreakerDecision {
+    let allowed = true;
+
+    const health = this.update(source, current => {
+      if (current.state === 'closed') {
+        return current;
+      }
+      if (current.state === 'open' && current.retryAt && Date.parse(current.retryAt) > Date.now()) {
+        allowed = false;
+        return current;
+      }
+      if (
+        current.state === 'half-open' &&
+        current.trialStartedAt &&
+        Date.now() - Date.parse(current.trialStartedAt) < TRIAL_TIMEOUT_MS
+      ) {
+        allowed = false;
+        return current;
+      }
+
+      logger.info({ event: 'circuit_half_open', site: source });
+      return { ...current, state: 'half-open', trialStartedAt: new Date().toISOString() };
+    });
+
+    return { allowed, health };
+  }
+
+  /**
+   * Record a scrape that returned articles (possibly none)
+   * @returns The outcome: 'empty' or 'anomaly' if the yield looks broken, otherwise 'ok'
+   */
+  recordSuccess(source: string, articleCount: number): RunOutcome {
+    let outcome: RunOutcome = 'ok';
+
+    this.update(source, health => {
+      outcome = this.classifyYield(health, articleCount);
+
+      if (outcome !== 'ok') {
+        const reason = outcome === 'empty'
+          ? 'returned no articles'
+          : `returned ${articleCount} articles, usually ~${Math.round(health.averageYield || 0)}`;
+        return this.withProblem(health, outcome, reason);
+      }
+
+      if (health.state !== 'closed') {
+        logger.info({ event: 'circuit_closed', site: source, articleCount });
+      }
+      return {
+        ...this.withOutcome(health, 'ok'),
+        state: 'closed',
+        consecutiveFailures: 0,
+        consecutiveEmptyRuns: 0,
+        consecutiveAnomalies: 0,
+        averageYield: health.averageYield === undefined
+          ? articleCount
+          : health.averageYield + YIELD_SMOOTHING * (articleCount - health.averageYield),
+        lastError: undefined,
+        reason: undefined,
+        openedAt: undefined,
+        retryAt: undefined,
+        trialStartedAt: undefined
+      };
+    });
+
+    return outcome;
+  }
+
+  /**
+   * Record a scrape that threw
+   */
+  recordFailure(source: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.update(source, health => this.withProblem(health, 'error', message));
+  }
+
+  /**
+   * Give back a half-open trial that ended without telling us anything about the source
+   * (e.g. our own politeness limits stopped it): the breaker goes back to open with its
+   * cooldown already passed, so the next scrape is the trial instead
+   */
+  releaseTrial(source: string): void {
+    this.update(source, health => {
+      if (health.state !== 'half-open') return health;
+
+      logger.info({ event: 'circuit_trial_released', site: source });
+      return { ...health, state: 'open', trialStartedAt: undefined };
+    });
+  }
+
+  /**
+   * Close a source's breaker and forget its history
+   */
+  reset(source: string): SourceHealth {
+    const health = this.update(source, () => emptyHealth(source));
+    logger.info({ event: 'circuit_reset', site: source });
+    return health;
+  }
+
+  private classifyYield(health: SourceHealth, articleCount: number): RunOutcome {
+    if (articleCount === 0) return 'empty';
+
+    const baselineRuns = health.recentOutcomes.filter(outcome => outcome === 'ok').length;
+    if (
+      baselineRuns >= MIN_BASELINE_RUNS &&
+      health.averageYield !== undefined &&
+      articleCount < health.averageYield * CONFIG.CIRCUIT_ANOMALY_RATIO
+    ) {
+      return 'anomaly';
+    }
+    return 'ok';
+  }
+
+  /**
+   * Count a failed, empty or anomalous run and open the breaker if a threshold is reached
+   * A failed half-open trial opens it again straight away
+   */
+  private withProblem(health: SourceHealth, outcome: Exclude<RunOutcome, 'ok'>, reason: string): SourceHealth {
+    const updated: SourceHealth = {
+      ...this.withOutcome(health, outcome),
+      consecutiveFailures: outcome === 'error' ? health.consecutiveFailures + 1 : 0,
+      consecutiveEmptyRuns: outcome === 'empty' ? health.consecutiveEmptyRuns + 1 : 0,
+      consecutiveAnomalies: outcome === 'anomaly' ? health.consecutiveAnomalies + 1 : 0,
+      lastError: reason
+    };
+
+    const shouldOpen = health.state === 'half-open'
+      || updated.consecutiveFailures >= CONFIG.CIRCUIT_FAILURE_THRESHOLD
+      || updated.consecutiveEmptyRuns >= CONFIG.CIRCUIT_EMPTY_RUN_THRESHOLD
+      || updated.consecutiveAnomalies >= CONFIG.CIRCUIT_ANOMALY_THRESHOLD;
+
+    if (shouldOpen) {
+      const now = Date.now();
+      updated.state = 'open';
+      updated.reason = reason;
+      updated.openedAt = new Date(now).toISOString();
+      updated.retryAt = new Date(now + CONFIG.CIRCUIT_COOLDOWN_MINUTES * 60 * 1000).toISOString();
+      updated.trialStartedAt = undefined;
+
+      logger.warn({
+        event: 'circuit_opened',
+        site: health.source,
+        outcome,
+        reason,
+        retryAt: updated.retryAt
+      });
+    }
+
+    return updated;
+  }
+
+  private withOutcome(health: SourceHealth, outcome: RunOutcome): SourceHealth {
+    const recentOutcomes = [...health.recentOutcomes, outcome].slice(-RECENT_RUNS);
+    return {
+      ...health,
+      recentOutcomes,
+      lastOutcome: outcome,
+      lastRunAt: new Date().toISOString(),
+      score: Math.round(100 * recentOutcomes.filter(recent => recent === 'ok').length / recentOutcomes.length)
+    };
+  }
+
+  /**
+   * Change a source's health under the state lock, so the server and the worker
+   * never act on, or overwrite, each other's stale copy
+   * @returns The new health (as changed, even if it could not be saved)
+   */
+  private update(source: string, change: (health: SourceHealth) => SourceHealth): SourceHealth {
+    try {
+      return withFileLock(getLockPath(), () => {
+        const state = loadState();
+        const current = state[source] || emptyHealth(source);
+        const health = change(current);
+        if (health === current) return health;
+        state[source] = health;
+
+        // Write then rename so readers never see a half-written file
+        const tempPath = `${getStatePath()}.${process.pid}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+        fs.renameSync(tempPath, getStatePath());
+        return health;
+      });
+    } catch (error) {
+      logger.error({
+        event: 'circuit_state_write_failed',
+        site: source,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return change(this.getHealth(source));
+    }
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
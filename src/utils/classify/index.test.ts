@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { classifyArticle, withClassification } from '.';
+
+describe('classifyArticle', () => {
+  it('takes the asset class and deal type from the URL category', () => {
+    expect(classifyArticle({
+      url: 'https://www.bisnow.com/national/news/multifamily/some-story-123',
+      title: 'Quarterly Update'
+    })).toMatchObject({ propertyTypes: ['multifamily'] });
+
+    expect(classifyArticle({
+      url: 'https://www.bisnow.com/national/news/construction-development/some-story-456',
+      title: 'Office Tower Update'
+    })).toEqual({ propertyTypes: ['office'], dealTypes: ['development'] });
+  });
+
+  it.each([
+    ['Blackstone Buys Last-Mile Warehouse Portfolio', ['industrial'], ['sale']],
+    ['Owner Hands Back Downtown Office Tower', ['office'], ['distress']],
+    ['Grocer Inks Lease At Shopping Center', ['retail'], ['lease']],
+    ['Developer Breaks Ground On Hotel And Apartments', ['multifamily', 'hospitality'], ['development']],
+    ['Manager Closes Its Third Fund For Data Centers', ['data-center'], ['fund-raise']]
+  ])('tags %s from keywords', (title, propertyTypes, dealTypes) => {
+    expect(classifyArticle({ url: 'https://www.globest.com/2025/05/05/story/', title })).toEqual({ propertyTypes, dealTypes });
+  });
+
+  it('reads the summary and section as well as the title', () => {
+    expect(classifyArticle({
+      url: 'https://www.connectcre.com/stories/story/',
+      title: 'Big Deal Closes In Phoenix',
+      summary: 'The buyer refinanced the self-storage portfolio with a CMBS loan.'
+    })).toEqual({ propertyTypes: ['self-storage'], dealTypes: ['refinance'] });
+  });
+
+  it('lists tags in a stable order whatever order they matched in', () => {
+    const { propertyTypes } = classifyArticle({
+      url: 'https://www.globest.com/2025/05/05/story/',
+      title: 'Retail, Office And Industrial Portfolio Sold'
+    });
+    expect(propertyTypes).toEqual(['office', 'industrial', 'retail']);
+  });
+});
+
+describe('withClassification', () => {
+  it('only classifies articles that have not been tagged yet', () => {
+    const article = {
+      title: 'Warehouse Sold',
+      url: 'https://www.globest.com/2025/05/05/warehouse-sold/',
+      publishedDate: '',
+      source: 'GlobeSt',
+      region: 'National' as const
+    };
+    expect(withClassification(article)).toMatchObject({ propertyTypes: ['industrial'], dealTypes: ['sale'] });
+
+    const tagged = { ...article, propertyTypes: [], dealTypes: [] };
+    expect(withClassification(tagged)).toBe(tagged);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Article classification
+ *
+ * Tags every article with the asset classes it is about and the kinds of deal
+ * it reports. Three layers, most reliable first: the source's URL category,
+ * keyword rules over the title, summary and section, and a small naive Bayes
+ * model for articles the rules leave untagged
+ */
+import { Article, DealType, PropertyType } from '../../../types/article';
+import { PROPERTY_TYPES, DEAL_TYPES } from './labels';
+import {
+  URL_PROPERTY_CATEGORIES,
+  URL_DEAL_CATEGORIES,
+  URL_DEAL_HINTS,
+  PROPERTY_KEYWORDS,
+  DEAL_KEYWORDS
+} from './rules';
+import { propertyModel, dealModel } from './model';
+
+export { PROPERTY_TYPES, DEAL_TYPES, PROPERTY_TYPE_LABELS, DEAL_TYPE_LABELS } from './labels';
+
+export interface Classification {
+  propertyTypes: PropertyType[];
+  dealTypes: DealType[];
+}
+
+// The model only tags an article the rules left untagged when it is this sure
+const MIN_MODEL_PROBABILITY = 0.4;
+
+/**
+ * Classify an article from its URL, title, summary and section
+ */
+export function classifyArticle(article: Pick<Article, 'url' | 'title' | 'summary' | 'section'>): Classification {
+  const categories = getUrlCategories(article.url);
+  const text = [article.title, article.summary, article.section].filter(Boolean).join('. ');
+
+  const propertyTypes = new Set<PropertyType>(
+    categories.flatMap(category => URL_PROPERTY_CATEGORIES[category] || [])
+  );
+  PROPERTY_TYPES
+    .filter(type => PROPERTY_KEYWORDS[type].test(text))
+    .forEach(type => propertyTypes.add(type));
+
+  if (propertyTypes.size === 0) {
+    const [best] = propertyModel.predict(text);
+    if (best && best.probability >= MIN_MODEL_PROBABILITY) propertyTypes.add(best.label);
+  }
+
+  const dealTypes = new Set<DealType>(
+    categories.flatMap(category => URL_DEAL_CATEGORIES[category] || [])
+  );
+  DEAL_TYPES
+    .filter(type => DEAL_KEYWORDS[type].test(text))
+    .forEach(type => dealTypes.add(type));
+
+  if (dealTypes.size === 0) {
+    // A hinting category (e.g. capital markets) means there is a deal, so take the model's best guess
+    const hints = categories.flatMap(category => URL_DEAL_HINTS[category] || []);
+    const [best] = dealModel.predict(text, hints.length > 0 ? hints : undefined);
+    if (best && (hints.length > 0 || best.probability >= MIN_MODEL_PROBABILITY)) dealTypes.add(best.label);
+  }
+
+  // Keep the tags in a stable order
+  return {
+    propertyTypes: PROPERTY_TYPES.filter(type => propertyTypes.has(type)),
+    dealTypes: DEAL_TYPES.filter(type => dealTypes.has(type))
+  };
+}
+
+/**
+ * Tag articles at ingestion
+ */
+export function classifyArticles<T extends Article>(articles: T[]): T[] {
+  return articles.map(article => ({ ...article, ...classifyArticle(article) }));
+}
+
+/**
+ * Tag an article stored or cached before classification existed
+ */
+export function withClassification<T extends Article>(article: T): T {
+  if (article.propertyTypes && article.dealTypes) return article;
+  return { ...article, ...classifyArticle(article) };
+}
+
+/**
+ * Lowercased URL path segments, e.g. ['national', 'news', 'multifamily', 'some-story-123']
+ */
+function getUrlCategories(url: string): string[] {
+  try {
+    return new URL(url).pathname.toLowerCase().split('/').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
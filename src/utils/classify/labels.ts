@@ -0,0 +1,29 @@
+import { DealType, PropertyType } from '../../../types/article';
+
+/**
+ * Display names for the classifier's tags
+ * Kept apart from the rules and model so client components can import them
+ */
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  office: 'Office',
+  industrial: 'Industrial',
+  retail: 'Retail',
+  multifamily: 'Multifamily',
+  hospitality: 'Hospitality',
+  'data-center': 'Data Center',
+  'life-science': 'Life Science',
+  'self-storage': 'Self-Storage',
+  land: 'Land'
+};
+
+export const DEAL_TYPE_LABELS: Record<DealType, string> = {
+  sale: 'Sale',
+  refinance: 'Financing',
+  lease: 'Lease',
+  development: 'Development',
+  distress: 'Distress',
+  'fund-raise': 'Fund Raise'
+};
+
+export const PROPERTY_TYPES = Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[];
+export const DEAL_TYPES = Object.keys(DEAL_TYPE_LABELS) as DealType[];
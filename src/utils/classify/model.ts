@@ -0,0 +1,155 @@
+import { DealType, PropertyType } from '../../../types/article';
+
+/**
+ * Multinomial naive Bayes text classifier
+ *
+ * A small offline model trained on the labelled headlines below. It backs up the
+ * keyword rules for headlines that only hint at a sector or deal through
+ * vocabulary like "units", "keys", "square feet" or "megawatts"
+ */
+export class NaiveBayesClassifier<Label extends string> {
+  private labelCounts: Map<Label, number> = new Map();
+  private termCounts: Map<Label, Map<string, number>> = new Map();
+  private totalTerms: Map<Label, number> = new Map();
+  private vocabulary: Set<string> = new Set();
+  private documents = 0;
+
+  constructor(examples: [Label, string][]) {
+    for (const [label, text] of examples) {
+      this.train(label, text);
+    }
+  }
+
+  train(label: Label, text: string): void {
+    this.documents++;
+    this.labelCounts.set(label, (this.labelCounts.get(label) || 0) + 1);
+
+    const counts = this.termCounts.get(label) || new Map<string, number>();
+    for (const term of tokenize(text)) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+      this.totalTerms.set(label, (this.totalTerms.get(label) || 0) + 1);
+      this.vocabulary.add(term);
+    }
+    this.termCounts.set(label, counts);
+  }
+
+  /**
+   * Probability of each label for the text, most likely first
+   * Terms the model has never seen are ignored; with none left the result is empty
+   * @param labels Only consider these labels
+   */
+  predict(text: string, labels: Label[] = [...this.labelCounts.keys()]): { label: Label; probability: number }[] {
+    const terms = tokenize(text).filter(term => this.vocabulary.has(term));
+    if (terms.length === 0 || labels.length === 0) return [];
+
+    const logScores = labels.map(label => {
+      const counts = this.termCounts.get(label) || new Map<string, number>();
+      const denominator = (this.totalTerms.get(label) || 0) + this.vocabulary.size;
+      let score = Math.log((this.labelCounts.get(label) || 0) + 1) - Math.log(this.documents + labels.length);
+      for (const term of terms) {
+        score += Math.log(((counts.get(term) || 0) + 1) / denominator);
+      }
+      return score;
+    });
+
+    // Softmax over the log scores
+    const max = Math.max(...logScores);
+    const exps = logScores.map(score => Math.exp(score - max));
+    const sum = exps.reduce((total, value) => total + value, 0);
+
+    return labels
+      .map((label, index) => ({ label, probability: exps[index] / sum }))
+      .sort((a, b) => b.probability - a.probability);
+  }
+}
+
+// Words that carry no signal about sector or deal
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'its', 'new', 'of', 'on',
+  'or', 'the', 'to', 'with'
+]);
+
+/**
+ * Lowercased words without numbers or stop words, with plural "s" dropped
+ * so "300-unit" and "units" both count as "unit"
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+const PROPERTY_EXAMPLES: [PropertyType, string][] = [
+  ['office', 'Tower in Midtown signs law firm for 120,000 square feet across four floors'],
+  ['office', 'Downtown vacancy hits record as companies shrink footprints and return-to-work stalls'],
+  ['office', 'Class A trophy building in the CBD draws tech tenant amid flight to quality'],
+  ['office', 'Suburban campus sold at a steep discount as hybrid work weighs on values'],
+  ['office', 'Landlords offer bigger concessions and free rent to fill empty floors'],
+  ['industrial', 'Amazon takes 1 million square feet near the port as e-commerce demand holds'],
+  ['industrial', 'Last-mile facility with 36-foot clear heights and dock doors trades hands'],
+  ['industrial', 'Inland Empire big-box vacancy rises as speculative supply delivers'],
+  ['industrial', 'Third-party logistics firm expands truck terminal footprint in Dallas'],
+  ['industrial', 'Cross-dock and outdoor storage sites draw investor interest near interstate'],
+  ['retail', 'Anchored center lands supermarket and fitness tenant as foot traffic recovers'],
+  ['retail', 'Big-box store closures open space for discount chains and pickleball'],
+  ['retail', 'Net lease investors chase drive-thru pads and quick-service restaurants'],
+  ['retail', 'Neighborhood center occupancy climbs as inline shop rents rise'],
+  ['multifamily', 'Developer delivers 300 units with rooftop pool as rent growth slows'],
+  ['multifamily', 'Garden-style community of 248 units trades in Sun Belt market'],
+  ['multifamily', 'Renters face concessions as new lease-up supply floods Austin'],
+  ['multifamily', 'LIHTC deal preserves workforce units for low-income households'],
+  ['multifamily', 'Luxury high-rise with 412 residences opens to renters downtown'],
+  ['hospitality', 'Boutique property with 180 keys changes hands as RevPAR recovers'],
+  ['hospitality', 'Marriott-flagged select-service portfolio sold amid travel rebound'],
+  ['hospitality', 'Occupancy and ADR climb for upscale rooms as business travel returns'],
+  ['hospitality', 'Branded residences and rooms planned for beachfront tower'],
+  ['data-center', 'Operator plans 300-megawatt campus as AI demand strains the power grid'],
+  ['data-center', 'Utility power constraints slow new server farm capacity in Northern Virginia'],
+  ['data-center', 'Cloud provider leases 48 MW of capacity in Phoenix'],
+  ['data-center', 'Digital infrastructure investors pour billions into powered shells'],
+  ['life-science', 'Pharma company leases research and development space in Cambridge'],
+  ['life-science', 'Wet lab and R&D buildings face oversupply in Boston and San Diego'],
+  ['life-science', 'Drug developer anchors innovation campus near university'],
+  ['self-storage', 'Climate-controlled storage units acquired by public REIT'],
+  ['self-storage', 'Extra Space and CubeSmart chase street rates as move-ins slow'],
+  ['self-storage', 'Conversion of vacant big box to storage lockers approved'],
+  ['land', 'Homebuilder acquires master-planned community lots for single-family homes'],
+  ['land', 'Farmland near the city rezoned for mixed-use entitlement'],
+  ['land', 'Entitled site sold to developer for future tower'],
+  ['land', 'Greenfield tract along the highway draws bids from builders']
+];
+
+const DEAL_EXAMPLES: [DealType, string][] = [
+  ['sale', 'Investor pays $85 million for Phoenix portfolio in off-market trade'],
+  ['sale', 'REIT picks up suburban assets at a 7% cap rate'],
+  ['sale', 'Private buyer lands trophy tower from institutional seller'],
+  ['sale', 'Family office scoops up medical buildings for $40 million'],
+  ['sale', 'Joint venture takes control of shopping center for $62 million'],
+  ['refinance', 'Owner lands $200 million senior debt package from life company'],
+  ['refinance', 'Agency debt from Fannie Mae and Freddie Mac backs apartment portfolio'],
+  ['refinance', 'Debt fund provides floating-rate bridge capital ahead of maturity'],
+  ['refinance', 'Borrowers face maturity wall as interest rates stay high'],
+  ['refinance', 'Bank originates construction-to-perm facility for sponsor'],
+  ['lease', 'Law firm signs 15-year deal for three floors downtown'],
+  ['lease', 'Retailer takes 40,000 square feet in anchored center'],
+  ['lease', 'Tech company expands footprint and extends term at headquarters'],
+  ['lease', 'Manufacturer commits to 500,000-square-foot build-to-suit'],
+  ['development', 'Developer unveils plans for 40-story mixed-use tower'],
+  ['development', 'City council approves entitlements for waterfront project'],
+  ['development', 'Crews pour foundation for speculative warehouse project'],
+  ['development', 'Mixed-use project secures permits and starts vertical work'],
+  ['distress', 'Lender takes back tower after borrower misses payments'],
+  ['distress', 'Loan sent to workout as occupancy plunges and debt matures'],
+  ['distress', 'Note sale prices office debt at steep discount'],
+  ['distress', 'Owner walks away and turns keys over to lender'],
+  ['fund-raise', 'Private equity firm wraps up $1.2 billion opportunistic vehicle'],
+  ['fund-raise', 'Manager secures investor commitments for value-add strategy'],
+  ['fund-raise', 'Pension funds commit capital to real estate credit strategy'],
+  ['fund-raise', 'Sponsor hits hard cap for its latest closed-end vehicle']
+];
+
+export const propertyModel = new NaiveBayesClassifier<PropertyType>(PROPERTY_EXAMPLES);
+export const dealModel = new NaiveBayesClassifier<DealType>(DEAL_EXAMPLES);
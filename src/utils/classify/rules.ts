@@ -0,0 +1,66 @@
+import { DealType, PropertyType } from '../../../types/article';
+
+/**
+ * Bisnow files stories under a category path, e.g. /national/news/multifamily/...
+ */
+export const URL_PROPERTY_CATEGORIES: Record<string, PropertyType> = {
+  office: 'office',
+  industrial: 'industrial',
+  retail: 'retail',
+  multifamily: 'multifamily',
+  'student-housing': 'multifamily',
+  'senior-housing': 'multifamily',
+  'affordable-housing': 'multifamily',
+  hotel: 'hospitality',
+  hospitality: 'hospitality',
+  'data-center': 'data-center',
+  'data-centers': 'data-center',
+  'life-sciences': 'life-science',
+  'life-science': 'life-science',
+  'self-storage': 'self-storage',
+  land: 'land'
+};
+
+export const URL_DEAL_CATEGORIES: Record<string, DealType> = {
+  'construction-development': 'development',
+  construction: 'development',
+  development: 'development',
+  distress: 'distress',
+  leasing: 'lease'
+};
+
+/**
+ * Categories that narrow the deal type without settling it: capital markets
+ * stories are sales, financings or fund raises, and the model picks which
+ */
+export const URL_DEAL_HINTS: Record<string, DealType[]> = {
+  'capital-markets': ['sale', 'refinance', 'fund-raise'],
+  investment: ['sale', 'fund-raise']
+};
+
+/**
+ * Phrases that mark an article as being about an asset class
+ */
+export const PROPERTY_KEYWORDS: Record<PropertyType, RegExp> = {
+  office: /\b(office|offices|coworking|co-working|workplace|headquarters)\b/i,
+  industrial: /\b(industrial|warehouses?|logistics|distribution (center|facility|hub)|fulfillment center|cold storage|manufacturing (plant|facility)|flex space)\b/i,
+  retail: /\b(retail|retailers?|shopping (center|mall)s?|malls?|grocery|grocery-anchored|strip center|storefronts?|outlet center)\b/i,
+  multifamily: /\b(multifamily|multi-family|apartments?|rental housing|build-to-rent|student housing|senior housing|affordable housing)\b/i,
+  hospitality: /\b(hotels?|hospitality|resorts?|motels?|lodging)\b/i,
+  'data-center': /\b(data (center|centre)s?|datacenters?|hyperscale|colocation)\b/i,
+  'life-science': /\b(life sciences?|lab space|laboratory|labs|biotech)\b/i,
+  'self-storage': /\b(self-storage|self storage|storage facilit(y|ies))\b/i,
+  land: /\b(acres?|land (sale|deal|purchase|acquisition|site|parcel)s?|vacant land|raw land|development site|parcels?)\b/i
+};
+
+/**
+ * Phrases that mark the kind of deal an article reports
+ */
+export const DEAL_KEYWORDS: Record<DealType, RegExp> = {
+  sale: /\b(sells?|sold|sale|acquires?|acquired|acquisition|buys?|bought|purchases?|purchased|trades?|changes hands|portfolio deal)\b/i,
+  refinance: /\b(refinanc\w*|refi|recapitaliz\w*|loans?|lenders?|financing|mortgages?|cmbs|bridge debt|construction debt)\b/i,
+  lease: /\b(leases?|leased|leasing|subleases?|tenants?|renews? (its )?lease|relocat\w+|inks?)\b/i,
+  development: /\b(develops?|developing|developments?|redevelop\w*|construction|breaks? ground|groundbreaking|tops? out|topping out|rezoning|conversions?|proposed|plans? for)\b/i,
+  distress: /\b(foreclos\w*|distress\w*|defaults?|defaulted|special servic\w*|bankrupt\w*|receivership|receiver|delinquen\w*|workout|auction|hands back|loan modification)\b/i,
+  'fund-raise': /\b(fundrais\w*|capital raise|raises? \$?[\d.]+ ?[mb]\w*|closes? (its |a )?(\w+ )?fund|fund close|new fund|launch(es|ed)? (an? )?(\$?[\d.]+ ?[mb]\w* )?(\w+ )?fund|raised \$?[\d.]+ ?[mb]\w*)\b/i
+};
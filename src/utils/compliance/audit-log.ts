@@ -0,0 +1,139 @@
+/**
+ * Crawl audit log
+ *
+ * Every crawl decision is appended to a JSON Lines file per UTC day under
+ * CONFIG.COMPLIANCE_DIR/audit, along with the robots.txt it was made under:
+ * each distinct robots.txt is kept in COMPLIANCE_DIR/robots/<host>/<sha256>.txt,
+ * so an entry's `robotsHash` shows exactly what the file said at the time.
+ * Files are only ever appended to, and several processes can write at once
+ */
+import fs from 'fs';
+import path from 'path';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { PolicyType } from './domain-policy';
+
+/**
+ * Whether a URL may be crawled, and why
+ */
+export interface CrawlDecision {
+  url: string;
+  host: string;
+  decision: 'allowed' | 'denied';
+  // What decided it, e.g. "robots.txt: Disallow: /private/ (line 4)" or "policy: deny"
+  rule: string;
+  // The domain policy in effect, if any
+  policy?: PolicyType;
+  // sha256 of the robots.txt in effect; unset when the site has none
+  robotsHash?: string;
+}
+
+export interface CrawlAuditEntry extends CrawlDecision {
+  at: string;
+  // Response status, when the URL was fetched
+  status?: number;
+  // Why the fetch failed, when it did
+  error?: string;
+}
+
+export interface AuditLogQuery {
+  // Entries from the last this many days (default 30)
+  days?: number;
+  host?: string;
+  decision?: CrawlDecision['decision'];
+  // Newest first, at most this many (default all)
+  limit?: number;
+}
+
+function getAuditDir(): string {
+  return path.resolve(CONFIG.COMPLIANCE_DIR, 'audit');
+}
+
+function getSnapshotPath(host: string, hash: string): string {
+  return path.resolve(CONFIG.COMPLIANCE_DIR, 'robots', host.replace(/[^a-z0-9.-]/gi, '_'), `${hash}.txt`);
+}
+
+/**
+ * Append a decision (and the fetch it led to, if any) to today's log
+ */
+export function recordCrawl(entry: Omit<CrawlAuditEntry, 'at'>): void {
+  const at = new Date().toISOString();
+  try {
+    fs.mkdirSync(getAuditDir(), { recursive: true });
+    fs.appendFileSync(path.join(getAuditDir(), `${at.slice(0, 10)}.jsonl`), `${JSON.stringify({ at, ...entry })}\n`);
+  } catch (error) {
+    logger.error({
+      event: 'crawl_audit_write_failed',
+      url: entry.url,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Keep a copy of a robots.txt, once per distinct content
+ */
+export function saveRobotsSnapshot(host: string, hash: string, content: string): void {
+  const snapshotPath = getSnapshotPath(host, hash);
+  if (fs.existsSync(snapshotPath)) return;
+
+  try {
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, content);
+    logger.info({ event: 'robots_snapshot_saved', host, hash });
+  } catch (error) {
+    logger.error({
+      event: 'robots_snapshot_write_failed',
+      host,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * A saved robots.txt, or null if there is no snapshot with that hash
+ */
+export function readRobotsSnapshot(host: string, hash: string): string | null {
+  if (!/^[a-f0-9]{64}$/.test(hash)) return null;
+  try {
+    return fs.readFileSync(getSnapshotPath(host, hash), 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Logged entries, newest first
+ */
+export function readAuditLog({ days = 30, host, decision, limit }: AuditLogQuery = {}): CrawlAuditEntry[] {
+  const firstDay = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  let files: string[];
+  try {
+    files = fs.readdirSync(getAuditDir())
+      .filter(file => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file) && file.slice(0, 10) >= firstDay)
+      .sort()
+      .reverse();
+  } catch {
+    return [];
+  }
+
+  const entries: CrawlAuditEntry[] = [];
+  for (const file of files) {
+    const lines = fs.readFileSync(path.join(getAuditDir(), file), 'utf8').split('\n').filter(Boolean).reverse();
+    for (const line of lines) {
+      let entry: CrawlAuditEntry;
+      try {
+        entry = JSON.parse(line) as CrawlAuditEntry;
+      } catch {
+        // A line cut short by a crash
+        continue;
+      }
+      if (host && entry.host !== host) continue;
+      if (decision && entry.decision !== decision) continue;
+
+      entries.push(entry);
+      if (limit && entries.length >= limit) return entries;
+    }
+  }
+  return entries;
+}
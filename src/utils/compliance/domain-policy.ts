@@ -0,0 +1,106 @@
+/**
+ * Crawl policy per publisher domain
+ *
+ * Admins record what a publisher's terms allow: `allow`, `deny`, or
+ * `require-permission` (crawled only once permission has been granted).
+ * A policy for a domain also covers its subdomains. Domains without one are
+ * crawled as robots.txt allows
+ */
+import fs from 'fs';
+import path from 'path';
+import CONFIG from '../../config';
+
+export const POLICY_TYPES = ['allow', 'deny', 'require-permission'] as const;
+export type PolicyType = typeof POLICY_TYPES[number];
+
+export interface DomainPolicy {
+  // e.g. 'bisnow.com'
+  domain: string;
+  policy: PolicyType;
+  // Why, e.g. the terms clause or who granted permission and where it is filed
+  notes?: string;
+  // For require-permission: whether the publisher has granted it
+  permissionGranted?: boolean;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+function getPolicyPath(): string {
+  return path.resolve(CONFIG.COMPLIANCE_DIR, 'domain-policies.json');
+}
+
+export function isPolicyType(value: unknown): value is PolicyType {
+  return typeof value === 'string' && (POLICY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Every recorded policy, sorted by domain
+ */
+export function getDomainPolicies(): DomainPolicy[] {
+  try {
+    const policies = JSON.parse(fs.readFileSync(getPolicyPath(), 'utf8')) as DomainPolicy[];
+    return policies.sort((a, b) => a.domain.localeCompare(b.domain));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The policy covering a host, the most specific domain first
+ */
+export function getPolicyForHost(host: string): DomainPolicy | undefined {
+  return getDomainPolicies()
+    .filter(policy => host === policy.domain || host.endsWith(`.${policy.domain}`))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+}
+
+/**
+ * Add or replace the policy for a domain
+ */
+export function saveDomainPolicy(policy: Omit<DomainPolicy, 'updatedAt'>): DomainPolicy {
+  const domain = normalizeDomain(policy.domain);
+  if (!domain) {
+    throw new Error(`Invalid domain: ${policy.domain}`);
+  }
+
+  const saved: DomainPolicy = { ...policy, domain, updatedAt: new Date().toISOString() };
+  writePolicies([...getDomainPolicies().filter(existing => existing.domain !== domain), saved]);
+  return saved;
+}
+
+/**
+ * Remove a domain's policy
+ * @returns Whether there was one
+ */
+export function deleteDomainPolicy(domain: string): boolean {
+  const policies = getDomainPolicies();
+  const remaining = policies.filter(policy => policy.domain !== normalizeDomain(domain));
+  writePolicies(remaining);
+  return remaining.length < policies.length;
+}
+
+/**
+ * 'https://www.Bisnow.com/news' or 'www.bisnow.com' -> 'bisnow.com'
+ */
+export function normalizeDomain(value: string): string {
+  const host = value.includes('://') ? safeHostname(value) : value.split('/')[0];
+  const domain = host.trim().toLowerCase().replace(/^www\./, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : '';
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function writePolicies(policies: DomainPolicy[]): void {
+  const policyPath = getPolicyPath();
+  fs.mkdirSync(path.dirname(policyPath), { recursive: true });
+  // Write then rename so readers never see a half-written file
+  const tempPath = `${policyPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(policies, null, 2));
+  fs.renameSync(tempPath, policyPath);
+}
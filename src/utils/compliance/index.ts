@@ -0,0 +1,250 @@
+/**
+ * Legal compliance module for web scraping
+ *
+ * Decides whether a URL may be crawled from the publisher's domain policy
+ * (see domain-policy.ts) and its robots.txt (see robots.ts), and keeps an audit
+ * log of the decisions (see audit-log.ts). The shared HTTP client checks every
+ * request here and logs it with the rule it was allowed under; refusals found by
+ * a scraper's own canCrawl() or isAllowedByTerms() check are logged there
+ */
+import logger from '../logger';
+import CONFIG from '../../config';
+import { getFixtureMode } from '../fixtures';
+import { RobotsTxt, getGroupFor, matchRule, parseRobotsTxt } from './robots';
+import { getPolicyForHost } from './domain-policy';
+import { CrawlDecision, recordCrawl, saveRobotsSnapshot } from './audit-log';
+
+export * from './domain-policy';
+export * from './audit-log';
+export { getComplianceReport } from './report';
+export type { ComplianceReport, PublisherReport } from './report';
+
+/**
+ * Fetched robots.txt with expiration
+ */
+interface RobotsCacheEntry {
+  // Null when the site has no robots.txt or it could not be fetched
+  robots: RobotsTxt | null;
+  // Status of a missing robots.txt (e.g. 404), which allows everything
+  missingStatus?: number;
+  // Why robots.txt could not be fetched
+  error?: string;
+  expiry: number; // Unix timestamp
+}
+
+/**
+ * Robot rules cache (host -> robots.txt)
+ * We cache these to avoid constantly re-fetching robots.txt
+ */
+const robotsCache: Map<string, RobotsCacheEntry> = new Map();
+
+/**
+ * Cache expiry time for robots.txt (24 hours)
+ */
+const ROBOTS_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * How soon to try again after robots.txt could not be fetched
+ */
+const ROBOTS_RETRY_TTL = 10 * 60 * 1000;
+
+/**
+ * Our crawler's user agent: robots.txt is checked for it, and the HTTP client
+ * sends it on every request
+ */
+export const USER_AGENT = 'CRENewsLite/1.0';
+
+/**
+ * Extract host from URL
+ */
+function getHostFromUrl(url: string): string {
+  try {
+    const parsedUrl = new URL(url);
+    return parsedUrl.hostname;
+  } catch (error) {
+    logger.error({ 
+      event: 'url_parse_error', 
+      url, 
+      error: error instanceof Error ? error.message : String(error)
+    });
+    // Default to the original URL to be safe
+    return url;
+  }
+}
+
+function isLocalHost(host: string): boolean {
+  return host.includes('localhost') || host.includes('127.0.0.1');
+}
+
+/**
+ * Fetch and parse a host's robots.txt, using the cache when possible
+ * robots.txt is fetched directly rather than through the HTTP client, which
+ * itself needs the rules from here. If it cannot be fetched again, the last
+ * copy stays in use
+ */
+async function getRobots(host: string): Promise<RobotsCacheEntry> {
+  const cached = robotsCache.get(host);
+  if (cached && cached.expiry > Date.now()) {
+    return cached;
+  }
+  
+  logger.info({ event: 'fetching_robots_txt', host });
+  
+  let entry: RobotsCacheEntry;
+  try {
+    const response = await fetch(`https://${host}/robots.txt`, {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(10000)
+    });
+    
+    if (response.ok) {
+      const content = await response.text();
+      const robots = parseRobotsTxt(content);
+      saveRobotsSnapshot(host, robots.hash, content);
+      entry = { robots, expiry: Date.now() + ROBOTS_CACHE_TTL };
+    } else if (response.status >= 400 && response.status < 500) {
+      // A missing robots.txt allows everything
+      entry = { robots: null, missingStatus: response.status, expiry: Date.now() + ROBOTS_CACHE_TTL };
+    } else {
+      throw new Error(`robots.txt returned ${response.status}`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn({ event: 'robots_txt_fetch_failed', host, error: message });
+    entry = cached?.robots
+      ? { ...cached, expiry: Date.now() + ROBOTS_RETRY_TTL }
+      : { robots: null, error: message, expiry: Date.now() + ROBOTS_RETRY_TTL };
+  }
+  
+  robotsCache.set(host, entry);
+  return entry;
+}
+
+/**
+ * What the domain policy says about a host, or null if it allows crawling
+ */
+function checkPolicy(url: string, host: string): CrawlDecision | null {
+  const policy = getPolicyForHost(host);
+  if (policy?.policy === 'deny') {
+    return { url, host, decision: 'denied', rule: `policy: deny (${policy.domain})`, policy: policy.policy };
+  }
+  if (policy?.policy === 'require-permission' && !policy.permissionGranted) {
+    return { url, host, decision: 'denied', rule: `policy: require-permission, not granted (${policy.domain})`, policy: policy.policy };
+  }
+  return null;
+}
+
+/**
+ * Decide whether a URL may be crawled, and under which rule
+ * Denied if the domain policy forbids it, robots.txt disallows it, or robots.txt
+ * cannot be fetched (unless COMPLIANCE_ALLOW_WITHOUT_ROBOTS is set)
+ */
+export async function evaluateCrawl(url: string): Promise<CrawlDecision> {
+  const host = getHostFromUrl(url);
+  
+  try {
+    // Skip check for localhost/development
+    if (isLocalHost(host)) {
+      return { url, host, decision: 'allowed', rule: 'local address' };
+    }
+    
+    const refused = checkPolicy(url, host);
+    if (refused) return refused;
+    const policy = getPolicyForHost(host)?.policy;
+    
+    // Replayed responses never touch the site, so there is nothing to check
+    if (getFixtureMode() === 'replay') {
+      return { url, host, decision: 'allowed', rule: 'fixture replay', policy };
+    }
+    
+    const { robots, missingStatus, error } = await getRobots(host);
+    if (!robots) {
+      if (missingStatus) {
+        return { url, host, decision: 'allowed', rule: `robots.txt: none (${missingStatus})`, policy };
+      }
+      return CONFIG.COMPLIANCE_ALLOW_WITHOUT_ROBOTS
+        ? { url, host, decision: 'allowed', rule: `robots.txt unavailable (${error}), allowed by COMPLIANCE_ALLOW_WITHOUT_ROBOTS`, policy }
+        : { url, host, decision: 'denied', rule: `robots.txt unavailable (${error})`, policy };
+    }
+    
+    const rule = matchRule(getGroupFor(robots, USER_AGENT), url);
+    return {
+      url,
+      host,
+      decision: rule?.type === 'disallow' ? 'denied' : 'allowed',
+      rule: rule
+        ? `robots.txt: ${rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${rule.pattern} (line ${rule.line})`
+        : 'robots.txt: no rule matches',
+      policy,
+      robotsHash: robots.hash
+    };
+  } catch (error) {
+    // Be conservative - if we encounter an error while checking, don't crawl
+    return { url, host, decision: 'denied', rule: `error: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Check if we can crawl a URL based on the domain policy and robots.txt rules
+ * Refusals are written to the audit log
+ * @param url The URL to check
+ * @returns {Promise<boolean>} Whether the URL is allowed to be scraped
+ */
+export async function canCrawl(url: string): Promise<boolean> {
+  const decision = await evaluateCrawl(url);
+  
+  if (decision.decision === 'denied') {
+    logger.warn({ event: 'crawl_denied', url, rule: decision.rule });
+    recordCrawl(decision);
+    return false;
+  }
+  
+  logger.debug({ event: 'robots_check_result', url, allowed: true, rule: decision.rule });
+  return true;
+}
+
+/**
+ * Crawl-delay robots.txt asks of us for a URL's host
+ * @returns Seconds to wait between requests, 0 if none is set
+ */
+export async function getCrawlDelay(url: string): Promise<number> {
+  const host = getHostFromUrl(url);
+  if (getFixtureMode() === 'replay' || isLocalHost(host)) {
+    return 0;
+  }
+  
+  const { robots } = await getRobots(host);
+  return (robots && getGroupFor(robots, USER_AGENT)?.crawlDelay) || 0;
+}
+
+/**
+ * Legal notice about the scraped content
+ * Include this in UI where scraped content is displayed
+ */
+export const LEGAL_NOTICE = `
+Articles shown are for personal use only. 
+Content is property of the original publishers.
+Links direct to original sources for full articles.
+`;
+
+/**
+ * Check if a domain is allowed per its terms of service, as recorded in the
+ * domain policy. Refusals are written to the audit log
+ */
+export function isAllowedByTerms(url: string): boolean {
+  const host = getHostFromUrl(url);
+  const refused = checkPolicy(url, host);
+  
+  if (refused) {
+    logger.warn({
+      event: 'tos_violation',
+      url,
+      domain: host,
+      reason: refused.rule
+    });
+    recordCrawl(refused);
+    return false;
+  }
+  
+  return true;
+}
@@ -0,0 +1,89 @@
+/**
+ * Compliance report: what was fetched from each publisher and under which rules
+ */
+import { sourceDefinitions } from '../scrapers/definitions';
+import { CrawlAuditEntry, readAuditLog } from './audit-log';
+import { DomainPolicy, getPolicyForHost } from './domain-policy';
+
+export interface PublisherReport {
+  host: string;
+  // Source name, when the host belongs to a known source
+  publisher?: string;
+  policy?: DomainPolicy;
+  // Requests sent, and URLs refused
+  fetched: number;
+  denied: number;
+  // Responses by status; 'error' when no response came back
+  statuses: Record<string, number>;
+  // How often each rule decided, e.g. {"robots.txt: no rule matches": 120}
+  rules: Record<string, number>;
+  // Each robots.txt in effect during the period
+  robotsSnapshots: { hash: string; firstSeen: string; lastSeen: string }[];
+  lastFetchedAt?: string;
+  lastDeniedAt?: string;
+}
+
+export interface ComplianceReport {
+  from: string;
+  to: string;
+  publishers: PublisherReport[];
+}
+
+/**
+ * Summarize the audit log of the last `days` days per host
+ */
+export function getComplianceReport(days = 30): ComplianceReport {
+  const entries = readAuditLog({ days });
+  const byHost = new Map<string, CrawlAuditEntry[]>();
+  entries.forEach(entry => byHost.set(entry.host, [...(byHost.get(entry.host) || []), entry]));
+
+  const publishers = [...byHost.entries()].map(([host, hostEntries]) => {
+    const report: PublisherReport = {
+      host,
+      publisher: getPublisherName(host),
+      policy: getPolicyForHost(host),
+      fetched: 0,
+      denied: 0,
+      statuses: {},
+      rules: {},
+      robotsSnapshots: []
+    };
+
+    // Entries are newest first
+    for (const entry of [...hostEntries].reverse()) {
+      report.rules[entry.rule] = (report.rules[entry.rule] || 0) + 1;
+
+      if (entry.decision === 'denied') {
+        report.denied++;
+        report.lastDeniedAt = entry.at;
+      } else {
+        report.fetched++;
+        report.lastFetchedAt = entry.at;
+        const status = entry.status !== undefined ? String(entry.status) : 'error';
+        report.statuses[status] = (report.statuses[status] || 0) + 1;
+      }
+
+      if (entry.robotsHash) {
+        const snapshot = report.robotsSnapshots.find(existing => existing.hash === entry.robotsHash);
+        if (snapshot) {
+          snapshot.lastSeen = entry.at;
+        } else {
+          report.robotsSnapshots.push({ hash: entry.robotsHash, firstSeen: entry.at, lastSeen: entry.at });
+        }
+      }
+    }
+
+    return report;
+  }).sort((a, b) => (b.fetched + b.denied) - (a.fetched + a.denied));
+
+  return {
+    from: new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+    to: new Date().toISOString().slice(0, 10),
+    publishers
+  };
+}
+
+function getPublisherName(host: string): string | undefined {
+  const bareHost = host.replace(/^www\./, '');
+  return sourceDefinitions.find(definition => new URL(definition.baseUrl).hostname.replace(/^www\./, '') === bareHost)?.name;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getGroupFor, hashRobotsTxt, matchRule, parseRobotsTxt } from './robots';
+
+const ROBOTS_TXT = [
+  '# Example robots.txt',
+  'User-agent: Googlebot',
+  'User-agent: Bingbot',
+  'Disallow: /',
+  '',
+  'User-agent: *',
+  'Crawl-delay: 5',
+  'Disallow: /search',
+  'Disallow: /*.pdf$',
+  'Disallow: /news/private/',
+  'Allow: /news/private/press-releases/',
+  'Allow: /search', // Same length as the Disallow: the Allow wins
+  'Disallow: /caf%C3%A9/',
+  '',
+  'User-agent: CRENewsLite',
+  'Disallow: /members/'
+].join('\n');
+
+const robots = parseRobotsTxt(ROBOTS_TXT);
+
+function decide(url: string, userAgent = '*'): string | undefined {
+  const rule = matchRule(getGroupFor(robots, userAgent), url);
+  return rule && `${rule.type} ${rule.pattern} (line ${rule.line})`;
+}
+
+describe('parseRobotsTxt', () => {
+  it('groups consecutive user agents and keeps the line of each rule', () => {
+    expect(robots.groups).toHaveLength(3);
+    expect(robots.groups[0]).toEqual({
+      userAgents: ['googlebot', 'bingbot'],
+      rules: [{ type: 'disallow', pattern: '/', line: 4 }]
+    });
+    expect(robots.groups[1].crawlDelay).toBe(5);
+    expect(robots.hash).toBe(hashRobotsTxt(ROBOTS_TXT));
+  });
+
+  it('ignores rules before any user agent and empty Disallow lines', () => {
+    const { groups } = parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:\n');
+    expect(groups).toEqual([{ userAgents: ['*'], rules: [] }]);
+  });
+});
+
+describe('getGroupFor', () => {
+  it('prefers the group naming our product over *', () => {
+    expect(getGroupFor(robots, 'CRENewsLite/1.0')?.userAgents).toEqual(['crenewslite']);
+    expect(getGroupFor(robots, 'OtherBot/2.0')?.userAgents).toEqual(['*']);
+    expect(getGroupFor(parseRobotsTxt('User-agent: Googlebot\nDisallow: /\n'), 'OtherBot/2.0')).toBeUndefined();
+  });
+});
+
+describe('matchRule', () => {
+  it.each([
+    ['https://x.com/news/story', undefined],
+    ['https://x.com/search?q=office', 'allow /search (line 12)'],
+    ['https://x.com/news/private/memo', 'disallow /news/private/ (line 10)'],
+    ['https://x.com/news/private/press-releases/q2', 'allow /news/private/press-releases/ (line 11)'],
+    ['https://x.com/reports/q2.pdf', 'disallow /*.pdf$ (line 9)'],
+    ['https://x.com/reports/q2.pdf?download=1', undefined],
+    ['https://x.com/caf%C3%A9/menu', 'disallow /caf%C3%A9/ (line 13)']
+  ])('decides %s', (url, decision) => {
+    expect(decide(url)).toBe(decision);
+  });
+
+  it('only applies the rules of the group that matched', () => {
+    expect(decide('https://x.com/members/login', 'CRENewsLite/1.0')).toBe('disallow /members/ (line 16)');
+    expect(decide('https://x.com/news/private/memo', 'CRENewsLite/1.0')).toBeUndefined();
+    expect(matchRule(undefined, 'https://x.com/anything')).toBeUndefined();
+  });
+});
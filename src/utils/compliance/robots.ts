@@ -0,0 +1,123 @@
+/**
+ * robots.txt parsing and matching
+ *
+ * Follows RFC 9309: the group for our user agent (or `*`) applies, the longest
+ * matching Allow or Disallow pattern wins, and Allow wins a tie. Rules keep the
+ * line they came from so a crawl decision can cite it
+ */
+import crypto from 'crypto';
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  pattern: string;
+  // 1-based line in robots.txt
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  // Seconds
+  crawlDelay?: number;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  // sha256 of the file as fetched
+  hash: string;
+}
+
+/**
+ * Hash identifying a robots.txt snapshot
+ */
+export function hashRobotsTxt(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // Consecutive user-agent lines share one group
+  let collectingAgents = false;
+
+  content.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon === -1) return;
+
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      return;
+    }
+
+    collectingAgents = false;
+    if (!current) return;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ type: field, pattern: value, line: index + 1 });
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay > 0) current.crawlDelay = delay;
+    }
+  });
+
+  return { groups, hash: hashRobotsTxt(content) };
+}
+
+/**
+ * The group that applies to a user agent, e.g. 'CRENewsLite/1.0'
+ */
+export function getGroupFor(robots: RobotsTxt, userAgent: string): RobotsGroup | undefined {
+  const product = userAgent.split('/')[0].toLowerCase();
+  return robots.groups.find(group => group.userAgents.includes(product)) ||
+    robots.groups.find(group => group.userAgents.includes('*'));
+}
+
+/**
+ * The rule deciding a URL, or undefined if none matches (allowed)
+ */
+export function matchRule(group: RobotsGroup | undefined, url: string): RobotsRule | undefined {
+  if (!group) return undefined;
+
+  const { pathname, search } = new URL(url);
+  const target = decodeSafely(pathname + search);
+  let best: RobotsRule | undefined;
+
+  for (const rule of group.rules) {
+    if (!patternToRegExp(rule.pattern).test(target)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.type === 'allow')
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = decodeSafely(anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+function decodeSafely(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
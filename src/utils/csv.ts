@@ -0,0 +1,54 @@
+/**
+ * CSV helpers shared by the file imports (rates, market fundamentals)
+ */
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Rows of a CSV file with a header line, keyed by lowercased header
+ * Blank lines and lines starting with # are skipped, as are empty fields
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const headers = splitCsvLine(lines[0]).map(header => header.toLowerCase());
+  return lines.slice(1).map(line => {
+    const fields = splitCsvLine(line);
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      if (fields[i]) row[header] = fields[i];
+    });
+    return row;
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatDisplayDate, normalizeDate, withPublishedAt } from './dates';
+
+const NOW = new Date('2025-05-06T15:30:00.000Z');
+
+describe('normalizeDate', () => {
+  it.each([
+    ['2025-05-06T10:00:00-04:00', '2025-05-06T14:00:00.000Z', 'exact'],
+    ['2025-05-06', '2025-05-06T00:00:00.000Z', 'day'],
+    ['By Jane Doe | May 06, 2025', '2025-05-06T00:00:00.000Z', 'day'],
+    ['September 6, 2025', '2025-09-06T00:00:00.000Z', 'day'],
+    ['Sept. 6th, 2025', '2025-09-06T00:00:00.000Z', 'day'],
+    ['6 May 2025', '2025-05-06T00:00:00.000Z', 'day'],
+    ['05/06/2025', '2025-05-06T00:00:00.000Z', 'day'],
+    ['2 hours ago', '2025-05-06T13:30:00.000Z', 'approximate'],
+    ['an hour ago', '2025-05-06T14:30:00.000Z', 'approximate'],
+    ['yesterday', '2025-05-05T00:00:00.000Z', 'approximate'],
+    ['3 days ago', '2025-05-03T15:30:00.000Z', 'approximate']
+  ])('reads %s', (text, publishedAt, dateConfidence) => {
+    expect(normalizeDate({ text }, undefined, NOW)).toEqual({ publishedAt, dateConfidence });
+  });
+
+  it('falls back to JSON-LD, then to a date in the URL', () => {
+    expect(normalizeDate({ text: 'Updated recently', jsonLd: '2025-05-01T08:00:00Z' }, undefined, NOW))
+      .toEqual({ publishedAt: '2025-05-01T08:00:00.000Z', dateConfidence: 'exact' });
+    expect(normalizeDate({ text: '', url: 'https://www.globest.com/2025/04/30/some-deal/' }, undefined, NOW))
+      .toEqual({ publishedAt: '2025-04-30T00:00:00.000Z', dateConfidence: 'approximate' });
+  });
+
+  it('only tries the given formats, in order', () => {
+    expect(normalizeDate({ text: '2 hours ago' }, ['iso', 'month-day-year'], NOW).dateConfidence).toBe('unknown');
+    expect(normalizeDate({ text: '', url: 'https://x.com/2025/04/30/a' }, ['iso'], NOW).dateConfidence).toBe('unknown');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(normalizeDate({ text: 'February 30, 2025' }, undefined, NOW)).toEqual({ publishedAt: null, dateConfidence: 'unknown' });
+    expect(normalizeDate({ text: '13/01/2025' }, undefined, NOW).dateConfidence).toBe('unknown');
+    expect(normalizeDate({ text: 'Unknown' }, undefined, NOW).dateConfidence).toBe('unknown');
+  });
+});
+
+describe('withPublishedAt', () => {
+  it('normalizes articles saved before dates were normalized, leaving others alone', () => {
+    const legacy = { title: 'T', url: 'https://x.com/a', publishedDate: 'May 06, 2025', source: 'X', region: 'National' as const };
+    expect(withPublishedAt(legacy)).toMatchObject({ publishedAt: '2025-05-06T00:00:00.000Z', dateConfidence: 'day' });
+
+    const normalized = { ...legacy, dateConfidence: 'unknown' as const };
+    expect(withPublishedAt(normalized)).toBe(normalized);
+  });
+});
+
+describe('formatDisplayDate', () => {
+  it('formats a publishedAt in UTC', () => {
+    expect(formatDisplayDate('2025-05-06T23:30:00.000Z')).toBe('May 06, 2025');
+    expect(formatDisplayDate(undefined)).toBe('Unknown');
+  });
+});
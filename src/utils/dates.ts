@@ -0,0 +1,276 @@
+/**
+ * Publish date normalization
+ *
+ * Turns the date formats found across sources into an ISO-8601 publishedAt
+ * plus a confidence level, so articles can be sorted and filtered by date
+ * no matter where they came from
+ */
+import type { CheerioAPI } from 'cheerio';
+import { Article, DateConfidence } from '../../types/article';
+
+export type { DateConfidence } from '../../types/article';
+
+/**
+ * Supported date formats, tried in the order given
+ * - 'iso': "2025-05-06" or "2025-05-06T10:00:00Z" (e.g. a <time datetime> attribute)
+ * - 'json-ld': a JSON-LD datePublished found for the article on the page
+ * - 'pipe-separated': "Author | May 06, 2025"
+ * - 'month-day-year': "May 6, 2025" / "September 6, 2025" / "6 May 2025"
+ * - 'numeric': "05/06/2025" (US month/day order)
+ * - 'relative': "2 hours ago", "yesterday", "3 days ago"
+ * - 'url-path': a /YYYY/MM/DD/ segment in the article URL
+ */
+export type DateFormat = 'iso' | 'json-ld' | 'pipe-separated' | 'month-day-year' | 'numeric' | 'relative' | 'url-path';
+
+export const ALL_DATE_FORMATS: DateFormat[] = [
+  'iso', 'json-ld', 'pipe-separated', 'month-day-year', 'numeric', 'relative', 'url-path'
+];
+
+export interface NormalizedDate {
+  publishedAt: string | null;
+  dateConfidence: DateConfidence;
+}
+
+export interface DateInput {
+  // Date text or attribute value scraped from the page
+  text?: string;
+  url?: string;
+  // datePublished from JSON-LD
+  jsonLd?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const UNKNOWN: NormalizedDate = { publishedAt: null, dateConfidence: 'unknown' };
+
+/**
+ * Normalize a publish date using the given formats in order
+ * @param now Reference time for relative phrases
+ */
+export function normalizeDate(
+  input: DateInput,
+  formats: DateFormat[] = ALL_DATE_FORMATS,
+  now: Date = new Date()
+): NormalizedDate {
+  const text = (input.text || '').replace(/\s+/g, ' ').trim();
+
+  for (const format of formats) {
+    const result = parseFormat(format, text, input, now);
+    if (result) return result;
+  }
+
+  return UNKNOWN;
+}
+
+function parseFormat(format: DateFormat, text: string, input: DateInput, now: Date): NormalizedDate | null {
+  switch (format) {
+    case 'iso':
+      return parseIsoDate(text);
+    case 'json-ld':
+      return input.jsonLd ? parseIsoDate(input.jsonLd) : null;
+    case 'pipe-separated':
+      return text.includes('|') ? parseMonthDayYear(text.split('|').pop() || '') : null;
+    case 'month-day-year':
+      return parseMonthDayYear(text);
+    case 'numeric':
+      return parseNumericDate(text);
+    case 'relative':
+      return parseRelativeDate(text, now);
+    case 'url-path':
+      return input.url ? parseUrlDate(input.url) : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * "2025-05-06" (day) or "2025-05-06T10:00:00-04:00" (exact)
+ */
+export function parseIsoDate(text: string): NormalizedDate | null {
+  const match = text.match(/(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?/);
+  if (!match) return null;
+
+  if (match[4]) {
+    const parsed = new Date(match[0].replace(' ', 'T'));
+    if (!isNaN(parsed.getTime())) {
+      return { publishedAt: parsed.toISOString(), dateConfidence: 'exact' };
+    }
+  }
+
+  return fromParts(Number(match[1]), Number(match[2]), Number(match[3]), 'day');
+}
+
+/**
+ * "May 6, 2025", "September 06 2025", "Sept. 6, 2025" or "6 May 2025"
+ */
+export function parseMonthDayYear(text: string): NormalizedDate | null {
+  const monthFirst = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i);
+  if (monthFirst) {
+    return fromParts(Number(monthFirst[3]), MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, Number(monthFirst[2]), 'day');
+  }
+
+  const dayFirst = text.match(/\b(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})\b/i);
+  if (dayFirst) {
+    return fromParts(Number(dayFirst[3]), MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1, Number(dayFirst[1]), 'day');
+  }
+
+  return null;
+}
+
+/**
+ * "05/06/2025" or "5-6-2025" in US month/day order
+ */
+export function parseNumericDate(text: string): NormalizedDate | null {
+  const match = text.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{4})\b/);
+  return match ? fromParts(Number(match[3]), Number(match[1]), Number(match[2]), 'day') : null;
+}
+
+/**
+ * "just now", "5 minutes ago", "2 hours ago", "today", "yesterday", "3 days ago", "1 week ago"
+ */
+export function parseRelativeDate(text: string, now: Date = new Date()): NormalizedDate | null {
+  const lower = text.toLowerCase();
+
+  if (/\bjust now\b/.test(lower)) {
+    return { publishedAt: now.toISOString(), dateConfidence: 'approximate' };
+  }
+  if (/\btoday\b/.test(lower)) {
+    return startOfDay(now, 0);
+  }
+  if (/\byesterday\b/.test(lower)) {
+    return startOfDay(now, 1);
+  }
+
+  const match = lower.match(/\b(\d+|an?|one)\s+(minute|min|hour|hr|day|week|month)s?\s+ago\b/);
+  if (!match) return null;
+
+  const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+  const unitMs: Record<string, number> = {
+    minute: 60 * 1000,
+    min: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    hr: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+    month: 30 * 24 * 60 * 60 * 1000
+  };
+
+  return {
+    publishedAt: new Date(now.getTime() - amount * unitMs[match[2]]).toISOString(),
+    dateConfidence: 'approximate'
+  };
+}
+
+/**
+ * A /YYYY/MM/DD/ segment in an article URL
+ */
+export function parseUrlDate(url: string): NormalizedDate | null {
+  const match = url.match(/\/(\d{4})\/(\d{2})\/(\d{2})(?:\/|$)/);
+  return match ? fromParts(Number(match[1]), Number(match[2]), Number(match[3]), 'approximate') : null;
+}
+
+/**
+ * Collect datePublished values from a page's JSON-LD, keyed by article URL
+ * Handles single objects, arrays, @graph and ItemList entries
+ */
+export function extractJsonLdDates($: CheerioAPI): Map<string, string> {
+  const dates = new Map<string, string>();
+
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') return;
+
+    const record = node as Record<string, unknown>;
+    const url = typeof record.url === 'string' ? record.url
+      : typeof record['@id'] === 'string' ? record['@id'] as string
+      : null;
+    if (url && typeof record.datePublished === 'string') {
+      dates.set(url, record.datePublished);
+    }
+
+    Object.values(record).forEach(value => {
+      if (value && typeof value === 'object') visit(value);
+    });
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      visit(JSON.parse($(element).text()));
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  });
+
+  return dates;
+}
+
+/**
+ * Format a publishedAt for display, e.g. "May 06, 2025"
+ */
+export function formatDisplayDate(publishedAt: string | null | undefined): string {
+  if (!publishedAt) return 'Unknown';
+
+  const date = new Date(publishedAt);
+  if (isNaN(date.getTime())) return 'Unknown';
+
+  return `${MONTH_NAMES[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, '0')}, ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Fill in publishedAt for articles scraped before dates were normalized
+ * (e.g. from an older cache or the article store)
+ */
+export function withPublishedAt(article: Article): Article {
+  if (article.dateConfidence) return article;
+
+  const text = article.publishedDate === 'Unknown' ? '' : article.publishedDate;
+  const { publishedAt, dateConfidence } = normalizeDate({ text, url: article.url });
+  return {
+    ...article,
+    ...(publishedAt && { publishedAt }),
+    dateConfidence
+  };
+}
+
+/**
+ * Sort comparator: newest first, undated articles last
+ */
+export function compareByPublishedAt(a: Article, b: Article): number {
+  if (!a.publishedAt || !b.publishedAt) {
+    return (a.publishedAt ? 0 : 1) - (b.publishedAt ? 0 : 1);
+  }
+  return b.publishedAt.localeCompare(a.publishedAt);
+}
+
+/**
+ * Whether an article was published within [from, to]
+ * Undated articles are excluded whenever a bound is given
+ */
+export function isPublishedWithin(article: Article, from?: string, to?: string): boolean {
+  if (!from && !to) return true;
+  if (!article.publishedAt) return false;
+
+  const publishedAt = new Date(article.publishedAt).getTime();
+  if (from && publishedAt < new Date(from).getTime()) return false;
+  if (to && publishedAt > new Date(to).getTime()) return false;
+  return true;
+}
+
+function fromParts(year: number, month: number, day: number, dateConfidence: DateConfidence): NormalizedDate | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1990 || year > 2100) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject dates that rolled over, e.g. Feb 30
+  if (date.getUTCDate() !== day) return null;
+
+  return { publishedAt: date.toISOString(), dateConfidence };
+}
+
+function startOfDay(now: Date, daysAgo: number): NormalizedDate {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysAgo));
+  return { publishedAt: date.toISOString(), dateConfidence: 'approximate' };
+}
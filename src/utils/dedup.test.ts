@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import type { Article } from '../../types/article';
+import { assignStoryIds, dedupeArticles, groupStories, mergeStory } from './dedup';
+import { queryArticles } from './article-query';
+
+function article(overrides: Partial<Article> & Pick<Article, 'title' | 'url' | 'source'>): Article {
+  return {
+    publishedDate: '',
+    publishedAt: '2025-05-05T00:00:00.000Z',
+    region: 'National',
+    ...overrides
+  };
+}
+
+const bisnow = article({
+  title: 'Blackstone Buys $710M Last-Mile Industrial Portfolio From Link',
+  url: 'https://www.bisnow.com/national/news/industrial/blackstone-last-mile-portfolio',
+  source: 'Bisnow',
+  region: 'Texas',
+  publishedAt: '2025-05-04T00:00:00.000Z'
+});
+const globest = article({
+  title: 'Blackstone Acquires Last-Mile Industrial Portfolio for $710M',
+  url: 'https://www.globest.com/2025/05/05/blackstone-acquires-last-mile-industrial-portfolio/',
+  source: 'GlobeSt',
+  summary: 'The portfolio spans 40 buildings.'
+});
+const unrelated = article({
+  title: 'Manhattan Office Leasing Tops 10M SF in First Quarter',
+  url: 'https://www.credaily.com/news/office/manhattan-office-leasing',
+  source: 'CREDaily',
+  region: 'New York'
+});
+
+describe('dedupeArticles', () => {
+  it('merges the same story from several sources into its first-published article', () => {
+    const stories = dedupeArticles([globest, unrelated, bisnow]);
+
+    expect(stories).toHaveLength(2);
+    const [story] = stories;
+    expect(story.url).toBe(bisnow.url);
+    expect(story.storyId).toMatch(/^[0-9a-f]{12}$/);
+    expect(story.alsoCoveredBy).toEqual([
+      { title: globest.title, url: globest.url, source: 'GlobeSt', publishedAt: globest.publishedAt }
+    ]);
+    expect(stories[1].alsoCoveredBy).toBeUndefined();
+  });
+
+  it('merges articles with the same canonical URL, keeping the fields either has', () => {
+    const stories = dedupeArticles([
+      { ...globest, summary: undefined, url: `${globest.url}?utm_source=newsletter` },
+      { ...globest, url: globest.url.replace('https://www.', 'http://') }
+    ]);
+
+    expect(stories).toHaveLength(1);
+    expect(stories[0].summary).toBe(globest.summary);
+    expect(stories[0].alsoCoveredBy).toBeUndefined();
+  });
+
+  it('keeps short headlines that differ in their key word apart', () => {
+    const stories = dedupeArticles([
+      article({ title: 'Multifamily Sales Drop in Q1', url: 'https://a.com/multifamily-sales', source: 'A' }),
+      article({ title: 'Industrial Sales Drop in Q1', url: 'https://b.com/industrial-sales', source: 'B' })
+    ]);
+
+    expect(stories).toHaveLength(2);
+  });
+
+  it('keeps dated articles published more than a few days apart apart', () => {
+    const stories = dedupeArticles([bisnow, { ...globest, publishedAt: '2025-05-20T00:00:00.000Z' }]);
+
+    expect(stories).toHaveLength(2);
+  });
+});
+
+describe('assignStoryIds', () => {
+  it('tags every article of a story with the same id, keeping them apart', () => {
+    const tagged = assignStoryIds([bisnow, unrelated, globest]);
+
+    expect(tagged).toHaveLength(3);
+    expect(tagged[0].storyId).toBe(tagged[2].storyId);
+    expect(tagged[1].storyId).not.toBe(tagged[0].storyId);
+
+    // The same articles again give the same ids
+    expect(assignStoryIds([bisnow, unrelated, globest]).map(a => a.storyId)).toEqual(tagged.map(a => a.storyId));
+  });
+
+  it('groups and merges tagged articles into the same stories as dedupeArticles', () => {
+    const merged = groupStories(assignStoryIds([globest, unrelated, bisnow])).map(mergeStory);
+
+    expect(merged).toEqual(dedupeArticles([globest, unrelated, bisnow]));
+  });
+
+  it('treats articles without a storyId as stories of their own', () => {
+    expect(groupStories([bisnow, globest])).toEqual([[bisnow], [globest]]);
+  });
+});
+
+describe('queryArticles with stories', () => {
+  const tagged = assignStoryIds([bisnow, globest, unrelated]);
+
+  it('finds a story by any source that covered it', () => {
+    const { articles, total } = queryArticles(tagged, { source: ['globest'] });
+
+    expect(total).toBe(1);
+    expect(articles[0].url).toBe(bisnow.url);
+    expect(articles[0].alsoCoveredBy?.map(coverage => coverage.source)).toEqual(['GlobeSt']);
+  });
+
+  it('finds a story by the region of any of its articles', () => {
+    const { articles } = queryArticles(tagged, { region: ['National'] });
+
+    expect(articles.map(story => story.url)).toEqual([bisnow.url]);
+  });
+
+  it('counts a story once for each source and region that covered it', () => {
+    const { total, facets } = queryArticles(tagged, { facets: true });
+
+    expect(total).toBe(2);
+    expect(facets?.source).toEqual({ Bisnow: 1, GlobeSt: 1, CREDaily: 1 });
+    expect(facets?.region).toMatchObject({ National: 1, Texas: 1, South: 1, 'New York': 1, Northeast: 1 });
+  });
+});
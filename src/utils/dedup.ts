@@ -0,0 +1,261 @@
+/**
+ * Cross-source duplicate detection
+ *
+ * Sources often cover the same deal under slightly different headlines.
+ * Articles are first merged by canonical URL, then titles are compared with
+ * TF-IDF cosine similarity and near-duplicates are clustered into one story
+ */
+import crypto from 'crypto';
+import { Article, RelatedCoverage } from '../../types/article';
+import { canonicalizeUrl } from './url';
+
+export interface DedupOptions {
+  // Minimum title similarity (0-1) for two articles to be the same story
+  threshold?: number;
+  // Titles must also share this many words, so short headlines that differ in
+  // one key word ("Multifamily Sales Drop" vs "Industrial Sales Drop") stay apart
+  minSharedTerms?: number;
+  // Only cluster dated articles published within this many days of each other
+  maxDaysApart?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.5;
+const DEFAULT_MIN_SHARED_TERMS = 4;
+const DEFAULT_MAX_DAYS_APART = 3;
+
+// Words too common in CRE headlines to say anything about the story
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is',
+  'it', 'its', 'new', 'of', 'on', 'or', 's', 'says', 'than', 'that', 'the', 'their', 'this', 'to',
+  'up', 'was', 'what', 'will', 'with'
+]);
+
+type TermVector = Map<string, number>;
+
+// The last clustering, reused while the same articles come in again (i.e. until the next scrape or ingest run)
+let lastClustering: { key: string; storyIds: Map<string, string> } | null = null;
+
+/**
+ * Merge articles with the same canonical URL and cluster near-duplicate stories
+ * Returns one primary article per story (in the order stories first appear), each
+ * with a storyId and the other sources' coverage in alsoCoveredBy
+ */
+export function dedupeArticles(articles: Article[], options: DedupOptions = {}): Article[] {
+  return groupStories(assignStoryIds(articles, options)).map(mergeStory);
+}
+
+/**
+ * Merge articles with the same canonical URL and tag every article with the id of its story
+ * Articles are kept apart so filters can match any source that covered a story; merge
+ * them for display with groupStories and mergeStory. Comparing every pair of titles is
+ * quadratic, so the result is reused until the articles change
+ */
+export function assignStoryIds<T extends Article>(articles: T[], options: DedupOptions = {}): T[] {
+  const unique = mergeByUrl(articles);
+  const urls = unique.map(article => canonicalizeUrl(article.url));
+
+  const key = crypto
+    .createHash('sha1')
+    .update(JSON.stringify(options))
+    .update(unique.map((article, index) => `${urls[index]}\t${article.title}\t${article.publishedAt || ''}`).join('\n'))
+    .digest('hex');
+  if (lastClustering?.key !== key) {
+    lastClustering = { key, storyIds: clusterStories(unique, urls, options) };
+  }
+
+  const storyIds = lastClustering.storyIds;
+  return unique.map((article, index) => ({ ...article, storyId: storyIds.get(urls[index]) }));
+}
+
+/**
+ * Group articles by storyId, in the order stories first appear
+ * Articles without a storyId are each a story of their own
+ */
+export function groupStories<T extends Article>(articles: T[]): T[][] {
+  const stories = new Map<string, T[]>();
+  for (const article of articles) {
+    const key = article.storyId || `url:${article.url}`;
+    stories.set(key, [...(stories.get(key) || []), article]);
+  }
+  return [...stories.values()];
+}
+
+/**
+ * Story id of every article, keyed by canonical URL
+ */
+function clusterStories(unique: Article[], urls: string[], options: DedupOptions): Map<string, string> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const minSharedTerms = options.minSharedTerms ?? DEFAULT_MIN_SHARED_TERMS;
+  const maxDaysApart = options.maxDaysApart ?? DEFAULT_MAX_DAYS_APART;
+
+  const vectors = buildTfIdfVectors(unique.map(article => tokenize(article.title)));
+
+  // Union-find over every pair of similar titles
+  const parent = unique.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      if (!publishedClose(unique[i], unique[j], maxDaysApart)) continue;
+      if (countShared(vectors[i], vectors[j]) < minSharedTerms) continue;
+      if (cosineSimilarity(vectors[i], vectors[j]) >= threshold) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const clusters = new Map<number, Article[]>();
+  unique.forEach((article, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) || []), article]);
+  });
+
+  const storyIds = new Map<string, string>();
+  for (const cluster of clusters.values()) {
+    const [primary] = rankStory(cluster);
+    const storyId = crypto
+      .createHash('sha1')
+      .update(canonicalizeUrl(primary.url))
+      .digest('hex')
+      .slice(0, 12);
+    for (const article of cluster) {
+      storyIds.set(canonicalizeUrl(article.url), storyId);
+    }
+  }
+  return storyIds;
+}
+
+/**
+ * Keep the first article for each canonical URL, filling in fields it is missing
+ */
+function mergeByUrl<T extends Article>(articles: T[]): T[] {
+  const byUrl = new Map<string, T>();
+
+  for (const article of articles) {
+    const key = canonicalizeUrl(article.url);
+    const existing = byUrl.get(key);
+    byUrl.set(key, existing ? { ...article, ...stripEmpty(existing) } : article);
+  }
+
+  return [...byUrl.values()];
+}
+
+function stripEmpty(article: Article): Partial<Article> {
+  return Object.fromEntries(
+    Object.entries(article).filter(([, value]) => value !== undefined && value !== '' && value !== 'Unknown')
+  );
+}
+
+/**
+ * Merge a story's articles into its primary article, with the rest as related coverage
+ */
+export function mergeStory<T extends Article>(story: T[]): T {
+  const [primary, ...others] = rankStory(story);
+
+  const alsoCoveredBy: RelatedCoverage[] = others.map(article => ({
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    ...(article.publishedAt && { publishedAt: article.publishedAt })
+  }));
+
+  return {
+    ...primary,
+    ...(alsoCoveredBy.length > 0 && { alsoCoveredBy })
+  };
+}
+
+/**
+ * A story's articles with the primary first
+ * The primary is the first to publish, preferring articles with a summary and image on ties
+ */
+function rankStory<T extends Article>(story: T[]): T[] {
+  return [...story].sort((a, b) =>
+    (a.publishedAt || '9999').localeCompare(b.publishedAt || '9999') ||
+    completeness(b) - completeness(a)
+  );
+}
+
+function completeness(article: Article): number {
+  return (article.summary ? 1 : 0) + (article.imageUrl ? 1 : 0);
+}
+
+/**
+ * Undated articles can cluster with anything; dated ones only within the window
+ */
+function publishedClose(a: Article, b: Article, maxDaysApart: number): boolean {
+  if (!a.publishedAt || !b.publishedAt) return true;
+  const daysApart = Math.abs(new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return daysApart <= maxDaysApart;
+}
+
+/**
+ * Lowercased title words without punctuation or stop words, with plural "s" dropped
+ * "$2.8B" and "2.8B" both become "2.8b"
+ */
+function tokenize(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/[^\p{L}\p{N}.\s]+/gu, ' ')
+    .replace(/\.(?!\d)/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Unit-length TF-IDF vectors, with document frequencies taken from this batch of titles
+ */
+function buildTfIdfVectors(documents: string[][]): TermVector[] {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  return documents.map(terms => {
+    const vector: TermVector = new Map();
+    for (const term of terms) {
+      vector.set(term, (vector.get(term) || 0) + 1);
+    }
+
+    let norm = 0;
+    for (const [term, count] of vector) {
+      const idf = Math.log((documents.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1;
+      const weight = count * idf;
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+
+    norm = Math.sqrt(norm);
+    for (const [term, weight] of vector) {
+      vector.set(term, norm > 0 ? weight / norm : 0);
+    }
+    return vector;
+  });
+}
+
+function cosineSimilarity(a: TermVector, b: TermVector): number {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  for (const [term, weight] of smaller) {
+    dot += weight * (larger.get(term) || 0);
+  }
+  return dot;
+}
+
+function countShared(a: TermVector, b: TermVector): number {
+  let shared = 0;
+  for (const term of a.keys()) {
+    if (b.has(term)) shared++;
+  }
+  return shared;
+}
@@ -0,0 +1,224 @@
+/**
+ * Article page extraction
+ *
+ * Pulls the details a listing page doesn't show from an article's own page:
+ * Open Graph / Twitter meta tags, the JSON-LD NewsArticle, the byline and
+ * section, the lead image and a readability-style extract of the body text
+ */
+import * as cheerio from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode } from 'domhandler';
+
+/**
+ * Details found on an article page; every field is optional
+ */
+export interface ArticleDetails {
+  title?: string;
+  summary?: string;
+  imageUrl?: string;
+  author?: string;
+  section?: string;
+  // Raw datePublished from JSON-LD or the article:published_time meta tag
+  datePublished?: string;
+  body?: string;
+}
+
+// JSON-LD types that describe the article itself
+const ARTICLE_TYPES = ['NewsArticle', 'Article', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'BlogPosting'];
+
+// Page furniture that never holds article text
+const BOILERPLATE = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'form', 'button',
+  'nav', 'header', 'footer', 'aside', '[role="navigation"]', '[aria-hidden="true"]',
+  '[class*="share"]', '[class*="social"]', '[class*="related"]', '[class*="newsletter"]',
+  '[class*="comment"]', '[class*="advert"]', '[class*="promo"]', '[class*="subscribe"]'
+].join(', ');
+
+// Paragraphs shorter than this are captions, bylines or buttons rather than body text
+const MIN_PARAGRAPH_LENGTH = 40;
+const MAX_BODY_LENGTH = 20000;
+const MAX_SUMMARY_LENGTH = 300;
+
+/**
+ * Extract article details from a page's HTML
+ * @param url The page URL, used to resolve relative image links
+ */
+export function extractArticleDetails(html: string, url: string): ArticleDetails {
+  const $ = cheerio.load(html);
+  const jsonLd = findJsonLdArticle($);
+
+  const meta = (...names: string[]): string | undefined => {
+    for (const name of names) {
+      const content = $(`meta[property="${name}"], meta[name="${name}"]`).first().attr('content');
+      if (content?.trim()) return cleanText(content);
+    }
+    return undefined;
+  };
+
+  // Read the headline and byline before the body extract strips headers from the page
+  const heading = cleanText($('h1').first().text()) || undefined;
+  const byline = bylineText($);
+  const body = (jsonLd && textValue(jsonLd.articleBody)) || extractBody($);
+
+  const details: ArticleDetails = {
+    title: meta('og:title', 'twitter:title') || textValue(jsonLd?.headline) || heading,
+    summary: meta('og:description', 'twitter:description') || textValue(jsonLd?.description) || meta('description')
+      || (body ? truncate(body.split('\n\n')[0], MAX_SUMMARY_LENGTH) : undefined),
+    imageUrl: resolveUrl(meta('og:image', 'og:image:url', 'twitter:image', 'twitter:image:src') || imageValue(jsonLd?.image), url),
+    author: authorValue(jsonLd?.author) || meta('author', 'article:author', 'parsely-author') || byline,
+    section: textValue(jsonLd?.articleSection) || meta('article:section', 'parsely-section'),
+    datePublished: textValue(jsonLd?.datePublished) || meta('article:published_time', 'datePublished'),
+    body: body ? body.slice(0, MAX_BODY_LENGTH) : undefined
+  };
+
+  // Author meta tags sometimes hold a profile URL instead of a name
+  if (details.author && /^https?:\/\//.test(details.author)) {
+    delete details.author;
+  }
+
+  return Object.fromEntries(
+    Object.entries(details).filter(([, value]) => value)
+  ) as ArticleDetails;
+}
+
+/**
+ * The first JSON-LD node describing an article, looking inside @graph arrays
+ */
+function findJsonLdArticle($: CheerioAPI): Record<string, unknown> | null {
+  let found: Record<string, unknown> | null = null;
+
+  const visit = (node: unknown): void => {
+    if (found || !node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    const record = node as Record<string, unknown>;
+    const types = ([] as unknown[]).concat(record['@type']);
+    if (types.some(type => typeof type === 'string' && ARTICLE_TYPES.includes(type))) {
+      found = record;
+      return;
+    }
+    visit(record['@graph']);
+  };
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      visit(JSON.parse($(element).text()));
+    } catch {
+      // Ignore malformed JSON-LD
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Readability-style body extract
+ * Scores each container by the paragraphs directly inside it (longer text scores
+ * more, link-heavy text less) and returns the paragraphs of the best one
+ */
+function extractBody($: CheerioAPI): string | undefined {
+  $(BOILERPLATE).remove();
+
+  const scores = new Map<AnyNode, number>();
+  $('p').each((_, paragraph) => {
+    const text = cleanText($(paragraph).text());
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const linkText = cleanText($(paragraph).find('a').text()).length;
+    const score = (1 + Math.min(text.length / 100, 3)) * (1 - linkText / text.length);
+
+    const parent = paragraph.parent;
+    if (parent) {
+      scores.set(parent, (scores.get(parent) || 0) + score);
+      // Paragraphs are often wrapped one level deeper than the article container
+      if (parent.parent) {
+        scores.set(parent.parent, (scores.get(parent.parent) || 0) + score / 2);
+      }
+    }
+  });
+
+  let best: AnyNode | null = null;
+  let bestScore = 0;
+  for (const [node, score] of scores) {
+    // Prefer the semantic article element when it scores about as well
+    const adjusted = $(node).is('article, [itemprop="articleBody"]') ? score * 1.25 : score;
+    if (adjusted > bestScore) {
+      best = node;
+      bestScore = adjusted;
+    }
+  }
+  if (!best) return undefined;
+
+  const paragraphs = $(best)
+    .find('p, blockquote')
+    .map((_, element) => cleanText($(element).text()))
+    .get()
+    .filter(text => text.length >= MIN_PARAGRAPH_LENGTH);
+
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : undefined;
+}
+
+/**
+ * Byline text from common markup when there is no structured author
+ */
+function bylineText($: CheerioAPI): string | undefined {
+  const byline = cleanText($('[rel="author"], [itemprop="author"], .byline, .author-name').first().text());
+  const name = byline.replace(/^by\s+/i, '');
+  return name && name.length <= 100 ? name : undefined;
+}
+
+/**
+ * Author names from a JSON-LD author (a string, a Person, or a list of either)
+ */
+function authorValue(value: unknown): string | undefined {
+  const names = ([] as unknown[])
+    .concat(value ?? [])
+    .map(author => (typeof author === 'string' ? author : textValue((author as Record<string, unknown>)?.name)))
+    .filter((name): name is string => Boolean(name));
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+/**
+ * Image URL from a JSON-LD image (a URL, an ImageObject, or a list of either)
+ */
+function imageValue(value: unknown): string | undefined {
+  const image = Array.isArray(value) ? value[0] : value;
+  if (typeof image === 'string') return image;
+  if (image && typeof image === 'object') {
+    return textValue((image as Record<string, unknown>).url);
+  }
+  return undefined;
+}
+
+/**
+ * A JSON-LD text value as plain text (the first entry of a list)
+ */
+function textValue(value: unknown): string | undefined {
+  const text = Array.isArray(value) ? value[0] : value;
+  if (typeof text !== 'string') return undefined;
+  // Some publishers put HTML in JSON-LD strings
+  const plain = /<[a-z/]/i.test(text) ? cheerio.load(text, null, false).text() : text;
+  return cleanText(plain) || undefined;
+}
+
+function resolveUrl(value: string | undefined, base: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value, base).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.lastIndexOf(' ', maxLength - 1);
+  return `${text.slice(0, cut > 0 ? cut : maxLength - 1)}…`;
+}
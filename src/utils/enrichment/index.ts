@@ -0,0 +1,246 @@
+import { Article, DateConfidence } from '../../../types/article';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { cache } from '../cache';
+import { canCrawl, isAllowedByTerms } from '../compliance';
+import { httpClient } from '../http';
+import { getArticleRepository } from '../repository';
+import { getArticleKey } from '../repository/article-repository';
+import { normalizeDate, formatDisplayDate } from '../dates';
+import { searchIndex } from '../search';
+import { classifyArticle } from '../classify';
+import { locateArticle } from '../geography';
+import { extractArticleDetails, ArticleDetails } from './extract';
+
+export { extractArticleDetails } from './extract';
+export type { ArticleDetails } from './extract';
+
+// How long the card details of an enriched article are cached
+const DETAILS_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Which publish dates are more precise than others
+const CONFIDENCE_RANK: Record<DateConfidence, number> = {
+  unknown: 0,
+  approximate: 1,
+  day: 2,
+  exact: 3
+};
+
+/**
+ * The enriched fields cards show, cached so articles served from a scrape
+ * snapshot (rather than the article store) get them too. The body is only
+ * kept in the store and the search index
+ */
+type CardDetails = Pick<
+  Article,
+  | 'summary' | 'imageUrl' | 'author' | 'section' | 'publishedDate' | 'publishedAt' | 'dateConfidence'
+  | 'propertyTypes' | 'dealTypes' | 'locations' | 'enrichedAt'
+>;
+
+/**
+ * Article Enricher
+ *
+ * Background queue that fetches each new article's own page once - through the
+ * source's rate limiter and only where robots.txt and the terms allow it - and
+ * stores the summary, lead image, byline, section and body text it finds
+ * alongside the article
+ */
+class ArticleEnricher {
+  private pending: Map<string, Article> = new Map();
+  private inFlight: Set<string> = new Set();
+  private draining: Promise<void> | null = null;
+
+  /**
+   * Queue articles for enrichment; already enriched articles are skipped when their turn comes
+   */
+  enqueue(articles: Article[]): void {
+    if (!CONFIG.ENRICH_ARTICLES) return;
+
+    for (const article of articles) {
+      const key = getArticleKey(article);
+      if (article.provenance === 'sample' || article.enrichedAt || this.inFlight.has(key)) continue;
+      this.pending.set(key, article);
+    }
+
+    if (!this.draining && this.pending.size > 0) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+  }
+
+  /**
+   * Resolves once the queue is empty
+   */
+  async idle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  /**
+   * Fetch an article's page and store its details
+   * Returns the enriched article, or null if it was already enriched or could not be fetched
+   */
+  async enrich(article: Article): Promise<Article | null> {
+    const key = getArticleKey(article);
+    if (await this.isEnriched(key)) return null;
+
+    if (!isAllowedByTerms(article.url) || !(await canCrawl(article.url))) {
+      logger.info({ event: 'enrichment_skipped', site: article.source, url: article.url, reason: 'disallowed' });
+      // Record the attempt so the page is not checked again
+      await this.save(article, {});
+      return null;
+    }
+
+    try {
+      const response = await httpClient.fetch(article.url);
+
+      if (!response.ok) {
+        logger.warn({ event: 'enrichment_fetch_failed', site: article.source, url: article.url, status: response.status });
+        // Server errors may clear up, so only give up on pages that are gone or refused
+        if (response.status < 500) {
+          await this.save(article, {});
+        }
+        return null;
+      }
+
+      const details = extractArticleDetails(await response.text(), article.url);
+      const enriched = await this.save(article, details);
+
+      logger.debug({
+        event: 'article_enriched',
+        site: article.source,
+        url: article.url,
+        fields: Object.keys(details)
+      });
+      return enriched;
+    } catch (error) {
+      logger.error({
+        event: 'enrichment_failed',
+        site: article.source,
+        url: article.url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      const batch = [...this.pending.entries()];
+      this.pending.clear();
+      batch.forEach(([key]) => this.inFlight.add(key));
+
+      // Each source has its own rate limiter, so different sources are fetched side by side
+      await Promise.allSettled(batch.map(async ([key, article]) => {
+        try {
+          await this.enrich(article);
+        } finally {
+          this.inFlight.delete(key);
+        }
+      }));
+    }
+  }
+
+  private async isEnriched(key: string): Promise<boolean> {
+    if (await cache.get(detailsCacheKey(key))) return true;
+
+    try {
+      const stored = await getArticleRepository()?.findByUrl(key);
+      return Boolean(stored?.enrichedAt);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Merge the details into the article and write it to the cache, the store and the search index
+   */
+  private async save(article: Article, details: ArticleDetails): Promise<Article> {
+    const detailed = applyDetails(article, details, new Date().toISOString());
+    // The summary and section give the classifier and the locator more to go on than the headline
+    const enriched = { ...detailed, ...classifyArticle(detailed), locations: locateArticle(detailed) };
+    const key = getArticleKey(article);
+
+    await cache.set(detailsCacheKey(key), JSON.stringify(toCardDetails(enriched)), DETAILS_TTL_SECONDS);
+
+    try {
+      const repository = getArticleRepository();
+      const stored = await repository?.findByUrl(key);
+      if (repository && stored) {
+        // Keep lastSeenAt: fetching the page is not seeing the article in a listing again
+        await repository.upsertMany([enriched], new Date(stored.lastSeenAt));
+      }
+    } catch (error) {
+      logger.error({
+        event: 'article_store_write_failed',
+        site: article.source,
+        url: article.url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    searchIndex.addOrUpdate([enriched]);
+    return enriched;
+  }
+}
+
+/**
+ * Fill in an article from its page details
+ * Listing fields win for the summary and image; the page wins for everything else,
+ * and its publish date replaces the listing's when it is more precise
+ */
+function applyDetails(article: Article, details: ArticleDetails, enrichedAt: string): Article {
+  const date = normalizeDate({ jsonLd: details.datePublished }, ['json-ld']);
+  const moreExact = Boolean(date.publishedAt) &&
+    CONFIDENCE_RANK[date.dateConfidence] > CONFIDENCE_RANK[article.dateConfidence || 'unknown'];
+
+  return {
+    ...article,
+    ...(!article.summary && details.summary && { summary: details.summary }),
+    ...(!article.imageUrl && details.imageUrl && { imageUrl: details.imageUrl }),
+    ...(details.author && { author: details.author }),
+    ...(details.section && { section: details.section }),
+    ...(details.body && { body: details.body }),
+    ...(moreExact && {
+      publishedAt: date.publishedAt!,
+      dateConfidence: date.dateConfidence,
+      publishedDate: formatDisplayDate(date.publishedAt)
+    }),
+    enrichedAt
+  };
+}
+
+function toCardDetails(article: Article): CardDetails {
+  const {
+    summary, imageUrl, author, section, publishedDate, publishedAt, dateConfidence, propertyTypes, dealTypes, locations,
+    enrichedAt
+  } = article;
+  return {
+    summary, imageUrl, author, section, publishedDate, publishedAt, dateConfidence, propertyTypes, dealTypes, locations,
+    enrichedAt
+  };
+}
+
+function detailsCacheKey(key: string): string {
+  return `article-details:${key}`;
+}
+
+// Export a singleton instance
+export const articleEnricher = new ArticleEnricher();
+
+/**
+ * Add the cached details of already enriched articles
+ * Articles read from the store have them already; this covers freshly scraped
+ * and snapshot articles, which only carry what the listing page showed
+ */
+export async function withArticleDetails(articles: Article[]): Promise<Article[]> {
+  if (!CONFIG.ENRICH_ARTICLES) return articles;
+
+  return await Promise.all(articles.map(async article => {
+    if (article.enrichedAt) return article;
+    const cached = await cache.get(detailsCacheKey(getArticleKey(article)));
+    return cached ? { ...article, ...(JSON.parse(cached) as CardDetails) } : article;
+  }));
+}
@@ -0,0 +1,93 @@
+/**
+ * Lock files shared between processes
+ *
+ * The server and the worker both write state under CONFIG.INGEST_STATE_DIR.
+ * A lock is a file created exclusively, so only one process holds it at a time;
+ * one older than its stale window is assumed to belong to a crashed process
+ */
+import fs from 'fs';
+import path from 'path';
+
+// Locks around a single read and write of a state file
+const STATE_LOCK_STALE_MS = 10 * 1000;
+const STATE_LOCK_WAIT_MS = 2000;
+const STATE_LOCK_RETRY_MS = 10;
+
+/**
+ * Run a read-modify-write of a state file while holding its lock
+ * Processes take turns, so one can't overwrite another's update between its
+ * read and its write. Waits a couple of seconds for the lock, then throws
+ */
+export function withFileLock<T>(lockPath: string, update: () => T): T {
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const deadline = Date.now() + STATE_LOCK_WAIT_MS;
+  while (!acquireLock(lockPath, STATE_LOCK_STALE_MS)) {
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for ${lockPath}`);
+    }
+    sleepSync(STATE_LOCK_RETRY_MS);
+  }
+
+  try {
+    return update();
+  } finally {
+    releaseLock(lockPath);
+  }
+}
+
+/**
+ * Create a lock file, taking it over if it is older than staleMs
+ * @returns false if another process holds a live lock
+ */
+export function acquireLock(lockPath: string, staleMs: number): boolean {
+  if (tryCreateLock(lockPath)) {
+    return true;
+  }
+
+  // Lock exists - take it over only if it is stale
+  let age = Infinity;
+  try {
+    age = Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch {
+    // Released in the meantime
+  }
+  if (age <= staleMs) {
+    return false;
+  }
+
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Already gone
+  }
+  return tryCreateLock(lockPath);
+}
+
+export function releaseLock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch {
+    // Already released
+  }
+}
+
+/**
+ * Create the lock file, failing if it already exists
+ */
+function tryCreateLock(lockPath: string): boolean {
+  try {
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: process.pid, at: new Date().toISOString() }), { flag: 'wx' });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    return false;
+  }
+}
+
+/**
+ * Block for a few milliseconds (state files are read and written synchronously)
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,130 @@
+/**
+ * HTTP fixture recording and replay
+ *
+ * Lets scrapers run offline against saved responses. In 'record' mode every
+ * response fetched through fetchWithFixtures() is written to the fixtures
+ * directory; in 'replay' mode responses are served from there and the
+ * network is never touched
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import logger from './logger';
+import CONFIG from '../config';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * A recorded HTTP response
+ */
+export interface Fixture {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  recordedAt: string;
+}
+
+/**
+ * Raised in replay mode when no fixture exists for a URL
+ */
+export class MissingFixtureError extends Error {
+  constructor(public readonly url: string, public readonly fixturePath: string) {
+    super(`No recorded fixture for ${url} (expected ${fixturePath})`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+// Mode can be overridden at runtime (e.g. by a replay script)
+let currentMode: FixtureMode = CONFIG.FIXTURE_MODE;
+let currentDir: string = CONFIG.FIXTURES_DIR;
+
+/**
+ * Switch fixture mode and optionally the fixtures directory
+ */
+export function setFixtureMode(mode: FixtureMode, dir?: string): void {
+  currentMode = mode;
+  if (dir) currentDir = dir;
+  logger.info({ event: 'fixture_mode_set', mode, dir: currentDir });
+}
+
+export function getFixtureMode(): FixtureMode {
+  return currentMode;
+}
+
+/**
+ * Path of the fixture file for a URL: <dir>/<host>/<sha1 of url>.json
+ */
+export function getFixturePath(url: string): string {
+  const host = new URL(url).hostname;
+  const hash = crypto.createHash('sha1').update(url).digest('hex');
+  return path.resolve(currentDir, host, `${hash}.json`);
+}
+
+/**
+ * Save a fixture to disk
+ */
+export function saveFixture(fixture: Fixture): string {
+  const fixturePath = getFixturePath(fixture.url);
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  return fixturePath;
+}
+
+/**
+ * Load a fixture from disk, or null if none was recorded
+ */
+export function loadFixture(url: string): Fixture | null {
+  const fixturePath = getFixturePath(url);
+  if (!fs.existsSync(fixturePath)) return null;
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as Fixture;
+}
+
+/**
+ * Drop-in replacement for fetch() that records or replays responses
+ */
+export async function fetchWithFixtures(url: string, init?: RequestInit): Promise<Response> {
+  if (currentMode === 'replay') {
+    const fixture = loadFixture(url);
+    if (!fixture) {
+      throw new MissingFixtureError(url, getFixturePath(url));
+    }
+
+    logger.debug({ event: 'fixture_replayed', url });
+    return new Response(fixture.body, {
+      status: fixture.status,
+      statusText: fixture.statusText,
+      headers: fixture.headers
+    });
+  }
+
+  const response = await fetch(url, init);
+
+  if (currentMode === 'record') {
+    const body = await response.text();
+    const fixturePath = saveFixture({
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: {
+        'content-type': response.headers.get('content-type') || 'text/html',
+        // Kept so a recorded redirect is followed on replay too
+        ...(response.headers.has('location') && { location: response.headers.get('location')! })
+      },
+      body,
+      recordedAt: new Date().toISOString()
+    });
+
+    logger.info({ event: 'fixture_recorded', url, path: fixturePath, bytes: body.length });
+
+    // The body has been consumed, so hand back a fresh Response
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+
+  return response;
+}
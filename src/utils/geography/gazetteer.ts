@@ -0,0 +1,463 @@
+import { State } from '../../../types/article';
+
+/**
+ * Offline gazetteer of US metros (MSAs) and the submarkets CRE news names them by
+ *
+ * Names are matched case-sensitively as whole words, so aliases are proper nouns
+ * only - place names that are also common headline words ("Mobile", "Reading",
+ * "Midtown") are left out
+ */
+export interface MetroEntry {
+  // Display name, also used for the metro filter, e.g. "Dallas-Fort Worth"
+  name: string;
+  // Principal state of the metro
+  state: State;
+  // Latitude and longitude of the principal city, for plotting
+  coordinates: [number, number];
+  // Principal cities and other names for the whole metro
+  aliases: string[];
+  // Well-known submarkets; a mention is recorded with the submarket name
+  submarkets?: string[];
+  // Names shared with places elsewhere ("Portland", "Columbus"): matched with low
+  // confidence unless the metro's state is mentioned too
+  ambiguous?: string[];
+  // States of the names above that lie outside the metro's principal state,
+  // e.g. Jersey City in the New York metro is in New Jersey
+  placeStates?: Record<string, State>;
+}
+
+export const METROS: MetroEntry[] = [
+  {
+    name: 'New York',
+    state: 'New York',
+    coordinates: [40.71, -74.01],
+    aliases: ['New York City', 'NYC', 'New York', 'Newark', 'Jersey City', 'Hoboken'],
+    submarkets: ['Manhattan', 'Brooklyn', 'Queens', 'The Bronx', 'Bronx', 'Staten Island', 'Long Island', 'Westchester', 'Hudson Yards', 'Lower Manhattan'],
+    placeStates: { Newark: 'New Jersey', 'Jersey City': 'New Jersey', Hoboken: 'New Jersey' }
+  },
+  {
+    name: 'Los Angeles',
+    state: 'California',
+    coordinates: [34.05, -118.24],
+    aliases: ['Los Angeles', 'L.A.', 'Long Beach', 'Anaheim', 'Irvine', 'SoCal'],
+    submarkets: ['Downtown LA', 'Santa Monica', 'Hollywood', 'Burbank', 'Pasadena', 'Culver City', 'El Segundo', 'San Fernando Valley'],
+    ambiguous: ['Orange County']
+  },
+  {
+    name: 'Chicago',
+    state: 'Illinois',
+    coordinates: [41.88, -87.63],
+    aliases: ['Chicago', 'Chicagoland', 'Naperville', 'Schaumburg', 'Joliet'],
+    submarkets: ['Fulton Market', "O'Hare", 'West Loop', 'River North']
+  },
+  {
+    name: 'Dallas-Fort Worth',
+    state: 'Texas',
+    coordinates: [32.78, -96.8],
+    aliases: ['Dallas-Fort Worth', 'Dallas-Ft. Worth', 'DFW', 'Dallas', 'Fort Worth', 'Plano', 'Frisco', 'Irving', 'McKinney', 'Denton'],
+    submarkets: ['Uptown Dallas', 'Las Colinas', 'Legacy West']
+  },
+  {
+    name: 'Houston',
+    state: 'Texas',
+    coordinates: [29.76, -95.37],
+    aliases: ['Houston', 'The Woodlands', 'Sugar Land', 'Katy'],
+    submarkets: ['Energy Corridor']
+  },
+  {
+    name: 'Washington, D.C.',
+    state: 'Washington, D.C.',
+    coordinates: [38.91, -77.04],
+    aliases: ['Washington, D.C.', 'Washington D.C.', 'Washington, DC', 'Washington DC', 'D.C.', 'DC'],
+    submarkets: ['Tysons', 'Reston', 'Bethesda', 'Northern Virginia', 'NoVA', 'Navy Yard', 'NoMa', 'Capitol Hill'],
+    placeStates: { Tysons: 'Virginia', Reston: 'Virginia', 'Northern Virginia': 'Virginia', NoVA: 'Virginia', Bethesda: 'Maryland' }
+  },
+  {
+    name: 'South Florida',
+    state: 'Florida',
+    coordinates: [25.9, -80.2],
+    aliases: ['South Florida', 'Miami', 'Fort Lauderdale', 'Ft. Lauderdale', 'West Palm Beach', 'Palm Beach', 'Boca Raton', 'Miami-Dade', 'Broward'],
+    submarkets: ['Brickell', 'Wynwood', 'Doral', 'Coral Gables', 'Miami Beach']
+  },
+  {
+    name: 'Philadelphia',
+    state: 'Pennsylvania',
+    coordinates: [39.95, -75.17],
+    aliases: ['Philadelphia', 'Philly', 'Camden'],
+    submarkets: ['King of Prussia', 'University City'],
+    placeStates: { Camden: 'New Jersey' }
+  },
+  {
+    name: 'Atlanta',
+    state: 'Georgia',
+    coordinates: [33.75, -84.39],
+    aliases: ['Atlanta', 'ATL', 'Alpharetta', 'Marietta'],
+    submarkets: ['Buckhead', 'Midtown Atlanta', 'Perimeter Center']
+  },
+  {
+    name: 'Phoenix',
+    state: 'Arizona',
+    coordinates: [33.45, -112.07],
+    aliases: ['Phoenix', 'Scottsdale', 'Tempe', 'Chandler', 'Goodyear'],
+    ambiguous: ['Glendale']
+  },
+  {
+    name: 'Boston',
+    state: 'Massachusetts',
+    coordinates: [42.36, -71.06],
+    aliases: ['Boston', 'Greater Boston'],
+    submarkets: ['Back Bay', 'Seaport District', 'Kendall Square', 'Somerville'],
+    ambiguous: ['Cambridge']
+  },
+  {
+    name: 'Inland Empire',
+    state: 'California',
+    coordinates: [34.06, -117.3],
+    aliases: ['Inland Empire', 'San Bernardino', 'Rancho Cucamonga', 'Fontana'],
+    ambiguous: ['Riverside', 'Ontario']
+  },
+  {
+    name: 'San Francisco',
+    state: 'California',
+    coordinates: [37.77, -122.42],
+    aliases: ['San Francisco', 'Bay Area', 'Oakland', 'East Bay'],
+    submarkets: ['SoMa', 'Mission Bay']
+  },
+  {
+    name: 'San Jose',
+    state: 'California',
+    coordinates: [37.34, -121.89],
+    aliases: ['San Jose', 'Silicon Valley', 'Santa Clara', 'Palo Alto', 'Mountain View', 'Sunnyvale', 'Cupertino']
+  },
+  {
+    name: 'Detroit',
+    state: 'Michigan',
+    coordinates: [42.33, -83.05],
+    aliases: ['Detroit', 'Ann Arbor', 'Dearborn']
+  },
+  {
+    name: 'Seattle',
+    state: 'Washington',
+    coordinates: [47.61, -122.33],
+    aliases: ['Seattle', 'Puget Sound', 'Tacoma', 'Redmond'],
+    submarkets: ['South Lake Union'],
+    ambiguous: ['Bellevue', 'Everett']
+  },
+  {
+    name: 'Minneapolis-St. Paul',
+    state: 'Minnesota',
+    coordinates: [44.98, -93.27],
+    aliases: ['Minneapolis-St. Paul', 'Minneapolis', 'Twin Cities', 'St. Paul', 'Saint Paul']
+  },
+  {
+    name: 'San Diego',
+    state: 'California',
+    coordinates: [32.72, -117.16],
+    aliases: ['San Diego', 'Carlsbad', 'Chula Vista']
+  },
+  {
+    name: 'Tampa Bay',
+    state: 'Florida',
+    coordinates: [27.95, -82.46],
+    aliases: ['Tampa Bay', 'Tampa', 'St. Petersburg', 'Clearwater']
+  },
+  {
+    name: 'Denver',
+    state: 'Colorado',
+    coordinates: [39.74, -104.99],
+    aliases: ['Denver', 'Boulder'],
+    ambiguous: ['Aurora']
+  },
+  {
+    name: 'Baltimore',
+    state: 'Maryland',
+    coordinates: [39.29, -76.61],
+    aliases: ['Baltimore']
+  },
+  {
+    name: 'St. Louis',
+    state: 'Missouri',
+    coordinates: [38.63, -90.2],
+    aliases: ['St. Louis', 'Saint Louis']
+  },
+  {
+    name: 'Orlando',
+    state: 'Florida',
+    coordinates: [28.54, -81.38],
+    aliases: ['Orlando', 'Kissimmee']
+  },
+  {
+    name: 'Charlotte',
+    state: 'North Carolina',
+    coordinates: [35.23, -80.84],
+    aliases: ['Charlotte']
+  },
+  {
+    name: 'San Antonio',
+    state: 'Texas',
+    coordinates: [29.42, -98.49],
+    aliases: ['San Antonio']
+  },
+  {
+    name: 'Portland',
+    state: 'Oregon',
+    coordinates: [45.52, -122.68],
+    aliases: ['Beaverton'],
+    ambiguous: ['Portland']
+  },
+  {
+    name: 'Sacramento',
+    state: 'California',
+    coordinates: [38.58, -121.49],
+    aliases: ['Sacramento']
+  },
+  {
+    name: 'Pittsburgh',
+    state: 'Pennsylvania',
+    coordinates: [40.44, -80.0],
+    aliases: ['Pittsburgh']
+  },
+  {
+    name: 'Austin',
+    state: 'Texas',
+    coordinates: [30.27, -97.74],
+    aliases: ['Austin', 'Round Rock']
+  },
+  {
+    name: 'Las Vegas',
+    state: 'Nevada',
+    coordinates: [36.17, -115.14],
+    aliases: ['Las Vegas', 'Vegas'],
+    ambiguous: ['Henderson']
+  },
+  {
+    name: 'Cincinnati',
+    state: 'Ohio',
+    coordinates: [39.1, -84.51],
+    aliases: ['Cincinnati']
+  },
+  {
+    name: 'Kansas City',
+    state: 'Missouri',
+    coordinates: [39.1, -94.58],
+    aliases: ['Kansas City']
+  },
+  {
+    name: 'Columbus',
+    state: 'Ohio',
+    coordinates: [39.96, -83.0],
+    aliases: [],
+    ambiguous: ['Columbus']
+  },
+  {
+    name: 'Indianapolis',
+    state: 'Indiana',
+    coordinates: [39.77, -86.16],
+    aliases: ['Indianapolis', 'Indy']
+  },
+  {
+    name: 'Cleveland',
+    state: 'Ohio',
+    coordinates: [41.5, -81.69],
+    aliases: ['Cleveland', 'Akron']
+  },
+  {
+    name: 'Nashville',
+    state: 'Tennessee',
+    coordinates: [36.16, -86.78],
+    aliases: ['Nashville'],
+    ambiguous: ['Franklin']
+  },
+  {
+    name: 'Hampton Roads',
+    state: 'Virginia',
+    coordinates: [36.85, -76.29],
+    aliases: ['Hampton Roads', 'Virginia Beach'],
+    ambiguous: ['Norfolk', 'Chesapeake']
+  },
+  {
+    name: 'Providence',
+    state: 'Rhode Island',
+    coordinates: [41.82, -71.41],
+    aliases: ['Providence']
+  },
+  {
+    name: 'Jacksonville',
+    state: 'Florida',
+    coordinates: [30.33, -81.66],
+    aliases: ['Jacksonville']
+  },
+  {
+    name: 'Milwaukee',
+    state: 'Wisconsin',
+    coordinates: [43.04, -87.91],
+    aliases: ['Milwaukee']
+  },
+  {
+    name: 'Raleigh-Durham',
+    state: 'North Carolina',
+    coordinates: [35.78, -78.64],
+    aliases: ['Raleigh-Durham', 'Raleigh', 'Durham', 'Research Triangle', 'Chapel Hill']
+  },
+  {
+    name: 'Oklahoma City',
+    state: 'Oklahoma',
+    coordinates: [35.47, -97.52],
+    aliases: ['Oklahoma City', 'OKC']
+  },
+  {
+    name: 'Memphis',
+    state: 'Tennessee',
+    coordinates: [35.15, -90.05],
+    aliases: ['Memphis']
+  },
+  {
+    name: 'Richmond',
+    state: 'Virginia',
+    coordinates: [37.54, -77.44],
+    aliases: [],
+    ambiguous: ['Richmond']
+  },
+  {
+    name: 'Louisville',
+    state: 'Kentucky',
+    coordinates: [38.25, -85.76],
+    aliases: ['Louisville']
+  },
+  {
+    name: 'New Orleans',
+    state: 'Louisiana',
+    coordinates: [29.95, -90.07],
+    aliases: ['New Orleans', 'NOLA']
+  },
+  {
+    name: 'Salt Lake City',
+    state: 'Utah',
+    coordinates: [40.76, -111.89],
+    aliases: ['Salt Lake City', 'Salt Lake', 'Provo', 'Lehi']
+  },
+  {
+    name: 'Hartford',
+    state: 'Connecticut',
+    coordinates: [41.76, -72.67],
+    aliases: ['Hartford', 'Stamford', 'New Haven']
+  },
+  {
+    name: 'Buffalo',
+    state: 'New York',
+    coordinates: [42.89, -78.88],
+    aliases: ['Buffalo']
+  },
+  {
+    name: 'Birmingham',
+    state: 'Alabama',
+    coordinates: [33.52, -86.8],
+    aliases: [],
+    ambiguous: ['Birmingham']
+  },
+  {
+    name: 'Rochester',
+    state: 'New York',
+    coordinates: [43.16, -77.61],
+    aliases: [],
+    ambiguous: ['Rochester']
+  },
+  {
+    name: 'Grand Rapids',
+    state: 'Michigan',
+    coordinates: [42.96, -85.67],
+    aliases: ['Grand Rapids']
+  },
+  {
+    name: 'Tucson',
+    state: 'Arizona',
+    coordinates: [32.22, -110.97],
+    aliases: ['Tucson']
+  },
+  {
+    name: 'Honolulu',
+    state: 'Hawaii',
+    coordinates: [21.31, -157.86],
+    aliases: ['Honolulu', 'Oahu']
+  },
+  {
+    name: 'Tulsa',
+    state: 'Oklahoma',
+    coordinates: [36.15, -95.99],
+    aliases: ['Tulsa']
+  },
+  {
+    name: 'Omaha',
+    state: 'Nebraska',
+    coordinates: [41.26, -95.93],
+    aliases: ['Omaha']
+  },
+  {
+    name: 'Albuquerque',
+    state: 'New Mexico',
+    coordinates: [35.08, -106.65],
+    aliases: ['Albuquerque']
+  },
+  {
+    name: 'Boise',
+    state: 'Idaho',
+    coordinates: [43.62, -116.2],
+    aliases: ['Boise']
+  },
+  {
+    name: 'Charleston',
+    state: 'South Carolina',
+    coordinates: [32.78, -79.93],
+    aliases: [],
+    ambiguous: ['Charleston']
+  },
+  {
+    name: 'Greenville',
+    state: 'South Carolina',
+    coordinates: [34.85, -82.4],
+    aliases: ['Spartanburg'],
+    ambiguous: ['Greenville']
+  },
+  {
+    name: 'Knoxville',
+    state: 'Tennessee',
+    coordinates: [35.96, -83.92],
+    aliases: ['Knoxville']
+  },
+  {
+    name: 'El Paso',
+    state: 'Texas',
+    coordinates: [31.76, -106.49],
+    aliases: ['El Paso']
+  },
+  {
+    name: 'Baton Rouge',
+    state: 'Louisiana',
+    coordinates: [30.45, -91.19],
+    aliases: ['Baton Rouge']
+  },
+  {
+    name: 'Des Moines',
+    state: 'Iowa',
+    coordinates: [41.59, -93.62],
+    aliases: ['Des Moines']
+  },
+  {
+    name: 'Anchorage',
+    state: 'Alaska',
+    coordinates: [61.22, -149.9],
+    aliases: ['Anchorage']
+  },
+  {
+    name: 'Fresno',
+    state: 'California',
+    coordinates: [36.74, -119.79],
+    aliases: ['Fresno']
+  }
+];
+
+/**
+ * State names that usually mean something else in headlines
+ * ("Washington" is more often the capital, or the federal government)
+ */
+export const AMBIGUOUS_STATE_NAMES: State[] = ['Washington'];
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { extractLocations, locateArticle } from './index';
+import { getArticleRegions } from '../regions';
+
+describe('extractLocations', () => {
+  it('uses a spelled-out state after a city to pick the place', () => {
+    expect(extractLocations('Hotel sells in Portland, Maine')).toEqual([
+      { mention: 'Maine', state: 'Maine', region: 'Northeast', confidence: 0.8 }
+    ]);
+    expect(extractLocations('Hotel sells in Portland, Oregon')).toEqual([
+      { mention: 'Portland', metro: 'Portland', state: 'Oregon', region: 'West', confidence: 1 }
+    ]);
+  });
+
+  it('still reads the abbreviated form', () => {
+    const [location] = extractLocations('Hotel sells in Portland, ME');
+    expect(location).toMatchObject({ state: 'Maine', confidence: 0.8 });
+    expect(location.metro).toBeUndefined();
+  });
+
+  it('keeps a suburb\'s own state apart from its metro\'s', () => {
+    expect(extractLocations('Jersey City tower refinanced')).toEqual([
+      { mention: 'Jersey City', metro: 'New York', state: 'New Jersey', region: 'Northeast', confidence: 0.9 }
+    ]);
+    expect(extractLocations('Jersey City, NJ tower refinanced')[0]).toMatchObject({ metro: 'New York', state: 'New Jersey', confidence: 1 });
+  });
+
+  it('records places on both sides of a state line separately', () => {
+    const locations = extractLocations('Landlord trades Manhattan office for Jersey City lab');
+    expect(locations.map(location => location.state)).toEqual(['New York', 'New Jersey']);
+    expect(locations.every(location => location.metro === 'New York')).toBe(true);
+  });
+});
+
+describe('locateArticle', () => {
+  it('puts a Jersey City article in New Jersey for region filters', () => {
+    const locations = locateArticle({ title: 'Developer tops out 40-story Jersey City rental' });
+    const regions = getArticleRegions({ region: 'National', locations });
+    expect(regions).toContain('New Jersey');
+    expect(regions).not.toContain('New York');
+  });
+});
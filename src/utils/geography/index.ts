@@ -0,0 +1,304 @@
+/**
+ * Article geography
+ *
+ * Finds the places an article mentions using the bundled metro gazetteer and
+ * the state list, and resolves each one up the metro -> state -> region
+ * hierarchy with a confidence score. State abbreviations are only read in the
+ * "City, ST" form, since bare ones ("LA", "IN", "OR") are mostly ordinary words.
+ * A location's state is the place's own, which for a suburb across a state line
+ * (Jersey City in the New York metro) differs from the metro's principal state
+ */
+import { Article, ArticleLocation, Region, State } from '../../../types/article';
+import { stateAbbreviations, getRegionForState } from '../regions';
+import { METROS, MetroEntry, AMBIGUOUS_STATE_NAMES } from './gazetteer';
+
+export { METROS } from './gazetteer';
+export type { MetroEntry } from './gazetteer';
+
+// Locations below this confidence are dropped
+const MIN_CONFIDENCE = 0.5;
+
+// How sure a single mention is, by how it was matched
+const CONFIDENCE = {
+  // "City, ST" where the city is in the gazetteer under that state
+  confirmed: 1,
+  metro: 0.9,
+  state: 0.8,
+  // Shared place name, when its state is mentioned too
+  ambiguousConfirmed: 0.95,
+  ambiguous: 0.5,
+  ambiguousState: 0.4
+};
+
+// Each repeated mention of a place adds this much, up to 1
+const REPEAT_BONUS = 0.05;
+
+// Mentions only in the summary count for a little less than ones in the title
+const SUMMARY_WEIGHT = 0.9;
+
+type MatchKind = 'metro' | 'submarket' | 'ambiguous' | 'state' | 'ambiguousState';
+
+interface Place {
+  phrase: string;
+  kind: MatchKind;
+  // The state the place itself is in
+  state: State;
+  metro?: MetroEntry;
+}
+
+interface Mention {
+  start: number;
+  end: number;
+  text: string;
+  place: Place;
+  // "City, ST" or "City, State" form with a matching state
+  confirmed?: boolean;
+}
+
+const PLACES: Place[] = [
+  ...METROS.flatMap(metro => {
+    const stateOf = (phrase: string) => metro.placeStates?.[phrase] ?? metro.state;
+    return [
+      ...metro.aliases.map(phrase => ({ phrase, kind: 'metro' as const, state: stateOf(phrase), metro })),
+      ...(metro.submarkets || []).map(phrase => ({ phrase, kind: 'submarket' as const, state: stateOf(phrase), metro })),
+      ...(metro.ambiguous || []).map(phrase => ({ phrase, kind: 'ambiguous' as const, state: stateOf(phrase), metro }))
+    ];
+  }),
+  ...Object.values(stateAbbreviations)
+    .filter(state => state !== 'Washington, D.C.')
+    .map(state => ({
+      phrase: state,
+      kind: AMBIGUOUS_STATE_NAMES.includes(state) ? 'ambiguousState' as const : 'state' as const,
+      state
+    })),
+  { phrase: 'Washington State', kind: 'state', state: 'Washington' },
+  { phrase: 'Washington state', kind: 'state', state: 'Washington' }
+];
+
+const PLACE_PATTERNS = PLACES.map(place => ({
+  place,
+  pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(place.phrase)}(?![\\p{L}\\p{N}])`, 'gu')
+}));
+
+// "Springfield, MO" or "Boise, ID"
+const CITY_STATE_PATTERN = /(?<![\p{L}\p{N}])((?:[A-Z][\p{L}.'-]*\s){0,2}[A-Z][\p{L}.'-]*),\s([A-Z]{2})(?![\p{L}\p{N}])/gu;
+
+// Metro names and aliases by lowercase name, for resolving filter values
+const METRO_LOOKUP = new Map<string, string>(
+  METROS.flatMap(metro =>
+    [metro.name, ...metro.aliases, ...(metro.ambiguous || [])].map(name => [name.toLowerCase(), metro.name] as [string, string])
+  )
+);
+
+/**
+ * All locations mentioned in a piece of text, most confident first
+ * @param weight Scales the confidence of every mention, e.g. for text less telling than a headline
+ */
+export function extractLocations(text: string, weight = 1): ArticleLocation[] {
+  const mentions = findMentions(text);
+  const mentionedStates = new Set(
+    mentions.filter(mention => mention.place.kind === 'state' || mention.confirmed).map(mention => mention.place.state)
+  );
+
+  const locations = new Map<string, { location: ArticleLocation; start: number; count: number }>();
+
+  for (const mention of mentions) {
+    const { place } = mention;
+    const confidence = mentionConfidence(mention, mentionedStates) * weight;
+    const key = place.metro ? `metro:${place.metro.name}:${place.state}` : `state:${place.state}`;
+    const existing = locations.get(key);
+
+    if (existing) {
+      existing.count++;
+      existing.location.confidence = Math.max(existing.location.confidence, confidence);
+      if (place.kind === 'submarket' && !existing.location.submarket) {
+        existing.location.submarket = place.phrase;
+      }
+      continue;
+    }
+
+    locations.set(key, {
+      location: {
+        mention: mention.text,
+        ...(place.metro && { metro: place.metro.name }),
+        ...(place.kind === 'submarket' && { submarket: place.phrase }),
+        state: place.state,
+        region: getRegionForState(place.state),
+        confidence
+      },
+      start: mention.start,
+      count: 1
+    });
+  }
+
+  const entries = [...locations.values()].map(entry => ({
+    ...entry,
+    location: {
+      ...entry.location,
+      confidence: round(Math.min(1, entry.location.confidence + REPEAT_BONUS * (entry.count - 1)))
+    }
+  }));
+
+  // A state is implied by any metro in it
+  const metroStates = new Set(entries.filter(entry => entry.location.metro).map(entry => entry.location.state));
+
+  return entries
+    .filter(entry => entry.location.confidence >= MIN_CONFIDENCE)
+    .filter(entry => entry.location.metro || !metroStates.has(entry.location.state))
+    .sort((a, b) => b.location.confidence - a.location.confidence || a.start - b.start)
+    .map(entry => entry.location);
+}
+
+/**
+ * Locations an article's title and summary mention
+ */
+export function locateArticle(article: Pick<Article, 'title' | 'summary'>): ArticleLocation[] {
+  // Extract from both at once so a state in one can confirm a city in the other
+  const text = article.summary ? `${article.title}\n${article.summary}` : article.title;
+  const titleKeys = new Set(extractLocations(article.title).map(locationKey));
+
+  return extractLocations(text)
+    .map(location => titleKeys.has(locationKey(location))
+      ? location
+      : { ...location, confidence: round(location.confidence * SUMMARY_WEIGHT) })
+    .filter(location => location.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Locate articles at ingestion
+ */
+export function locateArticles<T extends Article>(articles: T[]): T[] {
+  return articles.map(article => ({ ...article, locations: locateArticle(article) }));
+}
+
+/**
+ * Locate an article stored or cached before locations existed
+ */
+export function withLocations<T extends Article>(article: T): T {
+  if (article.locations) return article;
+  return { ...article, locations: locateArticle(article) };
+}
+
+/**
+ * The region of the most confident location in the text, or 'National'
+ */
+export function detectRegion(text: string): Region {
+  const [location] = extractLocations(text);
+  return location ? location.region : 'National';
+}
+
+/**
+ * Canonical metro name for a metro name or alias (any case), e.g. "dfw" -> "Dallas-Fort Worth"
+ */
+export function resolveMetro(name: string): string | undefined {
+  return METRO_LOOKUP.get(name.trim().toLowerCase());
+}
+
+/**
+ * Place names in the text, longest first where they overlap
+ * ("Kansas City" over "Kansas", "West Virginia" over "Virginia")
+ */
+function findMentions(text: string): Mention[] {
+  const candidates: Mention[] = [];
+
+  for (const { place, pattern } of PLACE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      candidates.push({ start: match.index!, end: match.index! + match[0].length, text: match[0], place });
+    }
+  }
+
+  for (const match of text.matchAll(CITY_STATE_PATTERN)) {
+    const state = stateAbbreviations[match[2]];
+    if (!state) continue;
+
+    // Headlines are title case, so the capitalized words before the comma may not all be
+    // the city: take the longest trailing run of them that is a known place in the state
+    const words = match[1].split(/\s/);
+    const end = match.index! + match[0].length;
+    let city = words[words.length - 1];
+    let place: Place | undefined;
+    for (let count = words.length; count > 0 && !place; count--) {
+      const name = words.slice(-count).join(' ');
+      place = PLACES.find(candidate => candidate.metro && candidate.state === state && candidate.phrase === name);
+      if (place) city = name;
+    }
+
+    const mentionText = `${city}, ${match[2]}`;
+    candidates.push({
+      start: end - mentionText.length,
+      end,
+      text: mentionText,
+      place: place || { phrase: mentionText, kind: 'state', state },
+      confirmed: true
+    });
+  }
+
+  const kept: Mention[] = [];
+  candidates
+    .sort((a, b) =>
+      (b.end - b.start) - (a.end - a.start) ||
+      Number(Boolean(b.place.metro)) - Number(Boolean(a.place.metro)) ||
+      a.start - b.start
+    )
+    .forEach(candidate => {
+      if (!kept.some(mention => candidate.start < mention.end && mention.start < candidate.end)) {
+        kept.push(candidate);
+      }
+    });
+
+  return applyStateQualifiers(text, kept.sort((a, b) => a.start - b.start));
+}
+
+/**
+ * "City, State" with the state spelled out ("Portland, Maine"): the state says which
+ * place the city is. A city in that state is confirmed; one elsewhere is dropped,
+ * leaving the state, which counts as confirmed
+ */
+function applyStateQualifiers(text: string, mentions: Mention[]): Mention[] {
+  const dropped = new Set<Mention>();
+
+  mentions.forEach((mention, index) => {
+    const qualifier = mentions[index + 1];
+    if (!mention.place.metro || mention.confirmed || !qualifier || qualifier.place.metro || qualifier.confirmed) return;
+    if (!/^,\s*$/.test(text.slice(mention.end, qualifier.start))) return;
+
+    if (qualifier.place.state === mention.place.state) {
+      mention.confirmed = true;
+    } else {
+      dropped.add(mention);
+    }
+    qualifier.confirmed = true;
+  });
+
+  return mentions.filter(mention => !dropped.has(mention));
+}
+
+function mentionConfidence(mention: Mention, mentionedStates: Set<State>): number {
+  const { place } = mention;
+  if (mention.confirmed) return place.metro ? CONFIDENCE.confirmed : CONFIDENCE.state;
+
+  switch (place.kind) {
+    case 'metro':
+    case 'submarket':
+      return CONFIDENCE.metro;
+    case 'state':
+      return CONFIDENCE.state;
+    case 'ambiguous':
+      return mentionedStates.has(place.state) ? CONFIDENCE.ambiguousConfirmed : CONFIDENCE.ambiguous;
+    case 'ambiguousState':
+      return CONFIDENCE.ambiguousState;
+  }
+}
+
+function locationKey(location: ArticleLocation): string {
+  return location.metro ? `metro:${location.metro}:${location.state}` : `state:${location.state}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,97 @@
+import { State } from '../../../types/article';
+import { MetroEntry } from './gazetteer';
+
+/**
+ * Tile grid map of the US
+ *
+ * Every state (and D.C.) is one square tile placed roughly where it lies, so
+ * small northeastern states get as much room as large western ones and the map
+ * needs no geometry beyond this table. Metros are placed inside their state's
+ * tile from their coordinates
+ */
+export interface StateTile {
+  abbreviation: string;
+  column: number;
+  row: number;
+  // Rough bounding box: south, north, west, east
+  bounds: [number, number, number, number];
+}
+
+export const MAP_COLUMNS = 11;
+export const MAP_ROWS = 8;
+
+export const STATE_TILES: Record<State, StateTile> = {
+  'Alaska': { abbreviation: 'AK', column: 0, row: 0, bounds: [51.0, 71.4, -170.0, -130.0] },
+  'Maine': { abbreviation: 'ME', column: 10, row: 0, bounds: [43.06, 47.46, -71.08, -66.95] },
+  'Wisconsin': { abbreviation: 'WI', column: 5, row: 1, bounds: [42.49, 47.08, -92.89, -86.25] },
+  'Vermont': { abbreviation: 'VT', column: 9, row: 1, bounds: [42.73, 45.02, -73.44, -71.46] },
+  'New Hampshire': { abbreviation: 'NH', column: 10, row: 1, bounds: [42.7, 45.3, -72.56, -70.6] },
+  'Washington': { abbreviation: 'WA', column: 0, row: 2, bounds: [45.54, 49.0, -124.76, -116.92] },
+  'Idaho': { abbreviation: 'ID', column: 1, row: 2, bounds: [42.0, 49.0, -117.2, -111.0] },
+  'Montana': { abbreviation: 'MT', column: 2, row: 2, bounds: [44.36, 49.0, -116.05, -104.04] },
+  'North Dakota': { abbreviation: 'ND', column: 3, row: 2, bounds: [45.94, 49.0, -104.05, -96.55] },
+  'Minnesota': { abbreviation: 'MN', column: 4, row: 2, bounds: [43.5, 49.4, -97.2, -89.5] },
+  'Illinois': { abbreviation: 'IL', column: 5, row: 2, bounds: [37.0, 42.5, -91.5, -87.5] },
+  'Michigan': { abbreviation: 'MI', column: 6, row: 2, bounds: [41.7, 48.3, -90.4, -82.4] },
+  'New York': { abbreviation: 'NY', column: 8, row: 2, bounds: [40.5, 45.0, -79.76, -71.86] },
+  'Massachusetts': { abbreviation: 'MA', column: 9, row: 2, bounds: [41.24, 42.89, -73.5, -69.93] },
+  'Oregon': { abbreviation: 'OR', column: 0, row: 3, bounds: [41.99, 46.29, -124.57, -116.46] },
+  'Nevada': { abbreviation: 'NV', column: 1, row: 3, bounds: [35.0, 42.0, -120.0, -114.04] },
+  'Wyoming': { abbreviation: 'WY', column: 2, row: 3, bounds: [41.0, 45.0, -111.06, -104.05] },
+  'South Dakota': { abbreviation: 'SD', column: 3, row: 3, bounds: [42.48, 45.94, -104.06, -96.44] },
+  'Iowa': { abbreviation: 'IA', column: 4, row: 3, bounds: [40.4, 43.5, -96.6, -90.1] },
+  'Indiana': { abbreviation: 'IN', column: 5, row: 3, bounds: [37.8, 41.76, -88.1, -84.8] },
+  'Ohio': { abbreviation: 'OH', column: 6, row: 3, bounds: [38.4, 41.98, -84.82, -80.52] },
+  'Pennsylvania': { abbreviation: 'PA', column: 7, row: 3, bounds: [39.72, 42.27, -80.52, -74.69] },
+  'New Jersey': { abbreviation: 'NJ', column: 8, row: 3, bounds: [38.93, 41.36, -75.56, -73.89] },
+  'Connecticut': { abbreviation: 'CT', column: 9, row: 3, bounds: [41.0, 42.05, -73.7, -71.8] },
+  'Rhode Island': { abbreviation: 'RI', column: 10, row: 3, bounds: [41.15, 42.02, -71.86, -71.12] },
+  'California': { abbreviation: 'CA', column: 0, row: 4, bounds: [32.5, 42.0, -124.4, -114.1] },
+  'Utah': { abbreviation: 'UT', column: 1, row: 4, bounds: [37.0, 42.0, -114.05, -109.04] },
+  'Colorado': { abbreviation: 'CO', column: 2, row: 4, bounds: [37.0, 41.0, -109.1, -102.0] },
+  'Nebraska': { abbreviation: 'NE', column: 3, row: 4, bounds: [40.0, 43.0, -104.05, -95.3] },
+  'Missouri': { abbreviation: 'MO', column: 4, row: 4, bounds: [36.0, 40.6, -95.77, -89.1] },
+  'Kentucky': { abbreviation: 'KY', column: 5, row: 4, bounds: [36.5, 39.15, -89.6, -81.96] },
+  'West Virginia': { abbreviation: 'WV', column: 6, row: 4, bounds: [37.2, 40.64, -82.64, -77.72] },
+  'Virginia': { abbreviation: 'VA', column: 7, row: 4, bounds: [36.54, 39.47, -83.68, -75.24] },
+  'Maryland': { abbreviation: 'MD', column: 8, row: 4, bounds: [37.9, 39.72, -79.49, -75.05] },
+  'Delaware': { abbreviation: 'DE', column: 9, row: 4, bounds: [38.45, 39.84, -75.79, -75.05] },
+  'Arizona': { abbreviation: 'AZ', column: 1, row: 5, bounds: [31.3, 37.0, -114.8, -109.0] },
+  'New Mexico': { abbreviation: 'NM', column: 2, row: 5, bounds: [31.33, 37.0, -109.05, -103.0] },
+  'Kansas': { abbreviation: 'KS', column: 3, row: 5, bounds: [37.0, 40.0, -102.05, -94.6] },
+  'Arkansas': { abbreviation: 'AR', column: 4, row: 5, bounds: [33.0, 36.5, -94.6, -89.6] },
+  'Tennessee': { abbreviation: 'TN', column: 5, row: 5, bounds: [34.98, 36.68, -90.31, -81.65] },
+  'North Carolina': { abbreviation: 'NC', column: 6, row: 5, bounds: [33.84, 36.59, -84.32, -75.46] },
+  'South Carolina': { abbreviation: 'SC', column: 7, row: 5, bounds: [32.03, 35.22, -83.35, -78.54] },
+  'Washington, D.C.': { abbreviation: 'DC', column: 8, row: 5, bounds: [38.79, 39.0, -77.12, -76.91] },
+  'Oklahoma': { abbreviation: 'OK', column: 3, row: 6, bounds: [33.6, 37.0, -103.0, -94.43] },
+  'Louisiana': { abbreviation: 'LA', column: 4, row: 6, bounds: [29.0, 33.0, -94.04, -89.0] },
+  'Mississippi': { abbreviation: 'MS', column: 5, row: 6, bounds: [30.2, 35.0, -91.65, -88.1] },
+  'Alabama': { abbreviation: 'AL', column: 6, row: 6, bounds: [30.2, 35.0, -88.5, -84.9] },
+  'Georgia': { abbreviation: 'GA', column: 7, row: 6, bounds: [30.36, 35.0, -85.6, -80.8] },
+  'Hawaii': { abbreviation: 'HI', column: 0, row: 7, bounds: [18.9, 22.2, -160.3, -154.8] },
+  'Texas': { abbreviation: 'TX', column: 3, row: 7, bounds: [25.84, 36.5, -106.65, -93.51] },
+  'Florida': { abbreviation: 'FL', column: 8, row: 7, bounds: [24.5, 31.0, -87.6, -80.0] }
+};
+
+/**
+ * Where a metro sits on the map, in tile units from the top left
+ * Positions are kept off the tile's edges so bubbles stay inside their state
+ */
+export function getMetroPosition(metro: Pick<MetroEntry, 'state' | 'coordinates'>): { x: number; y: number } {
+  const tile = STATE_TILES[metro.state];
+  const [south, north, west, east] = tile.bounds;
+  const [latitude, longitude] = metro.coordinates;
+
+  const across = clamp((longitude - west) / (east - west));
+  const down = clamp((north - latitude) / (north - south));
+
+  return {
+    x: tile.column + 0.2 + across * 0.6,
+    y: tile.row + 0.2 + down * 0.6
+  };
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
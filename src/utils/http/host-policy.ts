@@ -0,0 +1,41 @@
+/**
+ * Politeness policy per host
+ *
+ * A host's rate limit comes from HTTP_HOST_POLICIES if it is listed there,
+ * otherwise from RATE_LIMIT_RPM for the source served from that host
+ */
+import CONFIG from '../../config';
+import { sourceDefinitions } from '../scrapers/definitions';
+
+export interface HostPolicy {
+  host: string;
+  // Requests per minute
+  rpm: number;
+  // Requests in flight at once
+  concurrency: number;
+  // Requests per UTC day
+  dailyBudget: number;
+}
+
+/**
+ * The policy for a host, e.g. 'www.bisnow.com'
+ */
+export function getHostPolicy(host: string): HostPolicy {
+  const override = CONFIG.HTTP_HOST_POLICIES[host] || {};
+  const sourceId = getSourceIdForHost(host);
+
+  return {
+    host,
+    rpm: override.rpm || (sourceId && CONFIG.RATE_LIMIT_RPM[sourceId]) || CONFIG.RATE_LIMIT_RPM.default,
+    concurrency: override.concurrency || CONFIG.HTTP_MAX_CONCURRENCY_PER_HOST,
+    dailyBudget: override.dailyBudget || CONFIG.HTTP_DAILY_BUDGET_DEFAULT
+  };
+}
+
+/**
+ * Id of the source whose site is on this host, ignoring a leading www.
+ */
+function getSourceIdForHost(host: string): string | undefined {
+  const bareHost = host.replace(/^www\./, '');
+  return sourceDefinitions.find(definition => new URL(definition.baseUrl).hostname.replace(/^www\./, '') === bareHost)?.id;
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Request counts and the audit log go to a scratch directory, read by CONFIG when it is first imported
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'http-client-'));
+process.env.INGEST_STATE_DIR = path.join(stateDir, 'ingest');
+process.env.COMPLIANCE_DIR = path.join(stateDir, 'compliance');
+process.env.HTTP_HOST_POLICIES = JSON.stringify({
+  'a.example.com': { rpm: 6000 },
+  'b.example.com': { rpm: 6000 },
+  'c.example.com': { rpm: 6000, dailyBudget: 1 }
+});
+
+const { setFixtureMode } = await import('../fixtures');
+const { httpClient, CrawlDeniedError, RequestBudgetExceededError } = await import('.');
+const { USER_AGENT } = await import('../compliance');
+
+// What each fake site answers, by URL
+const routes: Record<string, () => Response> = {
+  'https://a.example.com/robots.txt': () => new Response('User-agent: *\nAllow: /\n'),
+  'https://b.example.com/robots.txt': () => new Response('User-agent: *\nDisallow: /private/\n'),
+  'https://c.example.com/robots.txt': () => new Response('', { status: 404 }),
+  'https://a.example.com/moved': () => new Response(null, { status: 302, headers: { location: '/article' } }),
+  'https://a.example.com/article': () => new Response('<html>article</html>'),
+  'https://a.example.com/offsite': () =>
+    new Response(null, { status: 301, headers: { location: 'https://b.example.com/private/page' } }),
+  'https://b.example.com/private/page': () => new Response('<html>private</html>'),
+  'https://c.example.com/page': () => new Response('<html>page</html>')
+};
+
+const requests: { url: string; init?: RequestInit }[] = [];
+
+beforeAll(() => {
+  setFixtureMode('off');
+  vi.stubGlobal('fetch', async (url: string, init?: RequestInit) => {
+    requests.push({ url, init });
+    const route = routes[url];
+    return route ? route() : new Response('Not found', { status: 404 });
+  });
+});
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  setFixtureMode('replay');
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe('httpClient', () => {
+  it('follows a redirect one checked hop at a time, as our own user agent', async () => {
+    const response = await httpClient.fetch('https://a.example.com/moved', {
+      headers: { 'User-Agent': 'Mozilla/5.0 (pretending)' }
+    });
+    expect(await response.text()).toBe('<html>article</html>');
+
+    const pages = requests.filter(request => !request.url.endsWith('/robots.txt'));
+    expect(pages.map(request => request.url)).toEqual(['https://a.example.com/moved', 'https://a.example.com/article']);
+    for (const page of pages) {
+      expect(page.init?.redirect).toBe('manual');
+      expect(new Headers(page.init?.headers).get('User-Agent')).toBe(USER_AGENT);
+    }
+  });
+
+  it('refuses a redirect to a page robots.txt disallows', async () => {
+    await expect(httpClient.fetch('https://a.example.com/offsite')).rejects.toBeInstanceOf(CrawlDeniedError);
+    expect(requests.map(request => request.url)).not.toContain('https://b.example.com/private/page');
+  });
+
+  it('stops at the daily budget', async () => {
+    expect((await httpClient.fetch('https://c.example.com/page')).status).toBe(200);
+    await expect(httpClient.fetch('https://c.example.com/page')).rejects.toBeInstanceOf(RequestBudgetExceededError);
+  });
+});
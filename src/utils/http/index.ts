@@ -0,0 +1,283 @@
+/**
+ * Shared HTTP client for scrapers
+ *
+ * Every request to a scraped site goes through httpClient.fetch(). Requests are
+ * queued per host rather than per scraper, so listing pages, article pages and
+ * enrichment all share one limit for a site:
+ * - at most `concurrency` requests in flight and `rpm` per minute (see host-policy.ts)
+ * - no closer together than the Crawl-delay in the site's robots.txt
+ * - a 429 or 503 pauses the host for its Retry-After (or a backoff when it sends none)
+ * - at most `dailyBudget` requests per UTC day (see request-budget.ts)
+ * - only URLs the domain policy and robots.txt allow, each logged to the
+ *   compliance audit log with the rule it was allowed under (see utils/compliance)
+ * - always as USER_AGENT, the crawler robots.txt was checked for
+ * - redirects are followed one hop at a time, each hop a request of its own
+ *   that goes through all of the above for its target's host
+ *
+ * Responses are recorded or replayed as fixtures (see CONFIG.FIXTURE_MODE);
+ * replayed requests never reach the site, so none of the limits apply to them
+ */
+import Bottleneck from 'bottleneck';
+import CONFIG from '../../config';
+import logger, { scraperLogger } from '../logger';
+import { fetchWithFixtures, getFixtureMode } from '../fixtures';
+import { USER_AGENT, evaluateCrawl, getCrawlDelay, recordCrawl } from '../compliance';
+import { HostPolicy, getHostPolicy } from './host-policy';
+import { getRequestsToday, reserveRequest } from './request-budget';
+
+export type { HostPolicy } from './host-policy';
+export { getRequestsToday, getAllRequestsToday } from './request-budget';
+
+/**
+ * A request refused by the politeness policy rather than by the site
+ */
+export class PolitenessError extends Error {
+  constructor(message: string, public readonly host: string) {
+    super(message);
+    this.name = 'PolitenessError';
+  }
+}
+
+/**
+ * Raised when a host's daily request budget is used up
+ */
+export class RequestBudgetExceededError extends PolitenessError {
+  constructor(host: string, public readonly budget: number) {
+    super(`Daily request budget of ${budget} for ${host} is used up`, host);
+    this.name = 'RequestBudgetExceededError';
+  }
+}
+
+/**
+ * Raised when the domain policy or robots.txt forbids fetching a URL
+ */
+export class CrawlDeniedError extends PolitenessError {
+  constructor(host: string, public readonly url: string, public readonly rule: string) {
+    super(`Not allowed to crawl ${url} (${rule})`, host);
+    this.name = 'CrawlDeniedError';
+  }
+}
+
+/**
+ * Raised when a host asked us to back off for longer than we will wait
+ */
+export class HostBackoffError extends PolitenessError {
+  constructor(host: string, public readonly retryAt: Date) {
+    super(`${host} asked us to back off until ${retryAt.toISOString()}`, host);
+    this.name = 'HostBackoffError';
+  }
+}
+
+export interface PoliteRequestInit extends RequestInit {
+  // Abort the request after this long, counted from when it leaves the queue
+  timeoutMs?: number;
+}
+
+interface HostState {
+  policy: HostPolicy;
+  limiter: Bottleneck;
+  crawlDelaySeconds: number;
+  crawlDelayCheckedAt: number;
+  // No requests before this time (ms), after a 429 or 503
+  pausedUntil: number;
+}
+
+// Backoff after a 429 or 503 without Retry-After, doubled for each retry
+const DEFAULT_BACKOFF_SECONDS = 30;
+
+// Retries of a request answered with 429 or 503
+const MAX_RETRIES = 2;
+
+// How often robots.txt is checked again for a changed Crawl-delay
+const CRAWL_DELAY_REFRESH_MS = 24 * 60 * 60 * 1000;
+
+// Redirects followed for one request
+const MAX_REDIRECTS = 5;
+
+/**
+ * Seconds to wait from a Retry-After header (delay in seconds or an HTTP date)
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim());
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+class HttpClient {
+  private hosts: Map<string, Promise<HostState>> = new Map();
+
+  /**
+   * Fetch a URL within its host's limits, following redirects
+   * @throws RequestBudgetExceededError, CrawlDeniedError or HostBackoffError when the
+   * policy refuses the request or a redirect
+   */
+  async fetch(url: string, init: PoliteRequestInit = {}): Promise<Response> {
+    let target = url;
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.fetchOnce(target, init);
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) {
+        return response;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+
+      await response.body?.cancel();
+      const next = new URL(location, target).toString();
+      logger.info({ event: 'http_redirect', url: target, location: next, status: response.status });
+      target = next;
+    }
+  }
+
+  /**
+   * Fetch a URL within its host's limits, without following redirects
+   */
+  private async fetchOnce(url: string, init: PoliteRequestInit): Promise<Response> {
+    const { timeoutMs, ...requestInit } = init;
+    // Redirects are followed by fetch() so each hop is checked
+    const withTimeout = (): RequestInit => ({
+      ...requestInit,
+      redirect: 'manual',
+      ...(timeoutMs && { signal: AbortSignal.timeout(timeoutMs) })
+    });
+
+    if (getFixtureMode() === 'replay') {
+      return await fetchWithFixtures(url, withTimeout());
+    }
+
+    const state = await this.getHostState(new URL(url).hostname);
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await state.limiter.schedule({ id: `${url}#${attempt}` }, () =>
+        this.send(state, url, withTimeout())
+      );
+      if (response.status !== 429 && response.status !== 503) {
+        return response;
+      }
+
+      const waitSeconds = parseRetryAfter(response.headers.get('retry-after')) ?? DEFAULT_BACKOFF_SECONDS * 2 ** attempt;
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + waitSeconds * 1000);
+      logger.warn({
+        event: 'host_backoff',
+        host: state.policy.host,
+        url,
+        status: response.status,
+        wait_seconds: waitSeconds
+      });
+
+      // Hand long waits back to the caller; the host stays paused meanwhile
+      if (attempt >= MAX_RETRIES || waitSeconds > CONFIG.HTTP_MAX_RETRY_WAIT_SECONDS) {
+        return response;
+      }
+      await response.body?.cancel();
+    }
+  }
+
+  /**
+   * The policy, today's request count and any pause of every host requested so far
+   */
+  async getHostStatuses(): Promise<(HostPolicy & { crawlDelaySeconds: number; requestsToday: number; pausedUntil?: string })[]> {
+    const states = await Promise.all(this.hosts.values());
+    return states.map(state => ({
+      ...state.policy,
+      crawlDelaySeconds: state.crawlDelaySeconds,
+      requestsToday: getRequestsToday(state.policy.host),
+      ...(state.pausedUntil > Date.now() && { pausedUntil: new Date(state.pausedUntil).toISOString() })
+    }));
+  }
+
+  /**
+   * Send a request once the limiter lets it through
+   * Pause, budget and compliance are checked here rather than when queueing,
+   * as all of them can change while the request waits
+   */
+  private async send(state: HostState, url: string, init: RequestInit): Promise<Response> {
+    const { host, dailyBudget } = state.policy;
+
+    const pause = state.pausedUntil - Date.now();
+    if (pause > CONFIG.HTTP_MAX_RETRY_WAIT_SECONDS * 1000) {
+      throw new HostBackoffError(host, new Date(state.pausedUntil));
+    }
+    if (pause > 0) {
+      await new Promise(resolve => setTimeout(resolve, pause));
+    }
+
+    const decision = await evaluateCrawl(url);
+    if (decision.decision === 'denied') {
+      recordCrawl(decision);
+      throw new CrawlDeniedError(host, url, decision.rule);
+    }
+
+    if (!reserveRequest(host, dailyBudget)) {
+      logger.warn({ event: 'request_budget_exceeded', host, url, budget: dailyBudget });
+      throw new RequestBudgetExceededError(host, dailyBudget);
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set('User-Agent', USER_AGENT);
+
+    try {
+      const response = await fetchWithFixtures(url, { ...init, headers });
+      recordCrawl({ ...decision, status: response.status });
+      return response;
+    } catch (error) {
+      recordCrawl({ ...decision, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Limiter and policy for a host, created on its first request
+   */
+  private async getHostState(host: string): Promise<HostState> {
+    let pending = this.hosts.get(host);
+    if (!pending) {
+      pending = this.createHostState(host);
+      this.hosts.set(host, pending);
+    }
+
+    const state = await pending;
+    if (Date.now() - state.crawlDelayCheckedAt > CRAWL_DELAY_REFRESH_MS) {
+      state.crawlDelayCheckedAt = Date.now();
+      state.crawlDelaySeconds = await getCrawlDelay(`https://${host}/`);
+      state.limiter.updateSettings({ minTime: this.getMinTime(state.policy, state.crawlDelaySeconds) });
+    }
+    return state;
+  }
+
+  private async createHostState(host: string): Promise<HostState> {
+    const policy = getHostPolicy(host);
+    const crawlDelaySeconds = await getCrawlDelay(`https://${host}/`);
+    const minTime = this.getMinTime(policy, crawlDelaySeconds);
+
+    const limiter = new Bottleneck({
+      maxConcurrent: policy.concurrency,
+      minTime,                              // Minimum time between requests
+      reservoir: policy.rpm,                // Start with a full reservoir of tokens
+      reservoirRefreshInterval: 60000,      // Refill the tokens every minute
+      reservoirRefreshAmount: policy.rpm
+    });
+
+    limiter.on('depleted', () => {
+      // Log when rate limit is reached for a host
+      scraperLogger.rateLimit(host, minTime);
+    });
+
+    logger.info({ event: 'host_policy', ...policy, crawl_delay_seconds: crawlDelaySeconds, min_time_ms: minTime });
+    return { policy, limiter, crawlDelaySeconds, crawlDelayCheckedAt: Date.now(), pausedUntil: 0 };
+  }
+
+  /**
+   * Milliseconds between requests: the rate limit or the Crawl-delay, whichever is slower
+   */
+  private getMinTime(policy: HostPolicy, crawlDelaySeconds: number): number {
+    return Math.max(Math.ceil(60000 / policy.rpm), crawlDelaySeconds * 1000);
+  }
+}
+
+// Export singleton instance
+export const httpClient = new HttpClient();
@@ -0,0 +1,89 @@
+/**
+ * Daily request budget per host
+ *
+ * Requests are counted per UTC day on disk under CONFIG.INGEST_STATE_DIR, so
+ * the server and the worker share one budget. The count is checked and taken
+ * under a lock, so the two can't both take the last request or lose each
+ * other's counts
+ */
+import fs from 'fs';
+import path from 'path';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { withFileLock } from '../file-lock';
+
+interface BudgetState {
+  // UTC date, YYYY-MM-DD
+  day: string;
+  // Requests made today, by host
+  requests: Record<string, number>;
+}
+
+function getStatePath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'request-budget.json');
+}
+
+function getLockPath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'request-budget.lock');
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function loadState(): BudgetState {
+  try {
+    const state = JSON.parse(fs.readFileSync(getStatePath(), 'utf8')) as BudgetState;
+    if (state.day === today()) return state;
+  } catch {
+    // No requests recorded yet
+  }
+  return { day: today(), requests: {} };
+}
+
+function saveState(state: BudgetState): void {
+  const statePath = getStatePath();
+  const tempPath = `${statePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tempPath, statePath);
+}
+
+/**
+ * Requests made to a host today
+ */
+export function getRequestsToday(host: string): number {
+  return loadState().requests[host] || 0;
+}
+
+/**
+ * Requests made today to every host that has had one
+ */
+export function getAllRequestsToday(): Record<string, number> {
+  return loadState().requests;
+}
+
+/**
+ * Count a request to a host if today's budget has room for it
+ * @returns false if the budget is used up
+ */
+export function reserveRequest(host: string, budget: number): boolean {
+  try {
+    return withFileLock(getLockPath(), () => {
+      const state = loadState();
+      const requests = state.requests[host] || 0;
+      if (requests >= budget) return false;
+
+      state.requests[host] = requests + 1;
+      saveState(state);
+      return true;
+    });
+  } catch (error) {
+    // Better to send an uncounted request than to stop scraping over a state file
+    logger.error({
+      event: 'request_budget_save_failed',
+      host,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return getRequestsToday(host) < budget;
+  }
+}
@@ -0,0 +1,42 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+
+// Locks go to a scratch directory, read by CONFIG when it is first imported
+const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-state-'));
+process.env.INGEST_STATE_DIR = stateDir;
+
+const { acquireSourceLock, releaseSourceLock } = await import('./ingest-state');
+
+afterEach(() => {
+  releaseSourceLock('bisnow');
+  vi.useRealTimers();
+});
+
+afterAll(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe('source locks', () => {
+  it('keeps a long run locked for as long as it lasts', () => {
+    vi.useFakeTimers();
+    expect(acquireSourceLock('bisnow')).toBe(true);
+
+    // Far past the stale window, but the heartbeat kept the lock fresh
+    vi.advanceTimersByTime(30 * 60 * 1000);
+    expect(acquireSourceLock('bisnow')).toBe(false);
+
+    releaseSourceLock('bisnow');
+    expect(acquireSourceLock('bisnow')).toBe(true);
+  });
+
+  it('takes over a lock its crashed holder stopped refreshing', () => {
+    const lockPath = path.join(stateDir, 'bisnow.lock');
+    fs.writeFileSync(lockPath, JSON.stringify({ pid: 0 }));
+    const lastRefreshed = new Date(Date.now() - 10 * 60 * 1000);
+    fs.utimesSync(lockPath, lastRefreshed, lastRefreshed);
+
+    expect(acquireSourceLock('bisnow')).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Ingestion state shared between the scheduler and the API
+ *
+ * The scheduler may run in a separate worker process, so run times and
+ * per-source locks are kept on disk under CONFIG.INGEST_STATE_DIR
+ */
+import fs from 'fs';
+import path from 'path';
+import { SourceState } from '../../../types/article';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { acquireLock, releaseLock, withFileLock } from '../file-lock';
+
+/**
+ * Schedule and last run of a single source
+ */
+export interface SourceSchedule {
+  id: string;
+  name: string;
+  intervalMinutes: number;
+  running: boolean;
+  nextRunAt?: string;
+  // When the last run started and finished
+  lastRunAt?: string;
+  lastFinishedAt?: string;
+  lastStatus?: SourceState;
+  lastError?: string;
+  lastArticleCount?: number;
+  // Start time of the last run that scraped successfully
+  lastSuccessAt?: string;
+}
+
+export type IngestState = Record<string, SourceSchedule>;
+
+// A source lock is refreshed this often while its run lasts, however long that is
+const LOCK_HEARTBEAT_MS = 30 * 1000;
+
+// A source lock not refreshed for this long is assumed to belong to a crashed process
+const LOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Heartbeats of the source locks this process holds, by source id
+const heartbeats = new Map<string, NodeJS.Timeout>();
+
+function getStatePath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'state.json');
+}
+
+function getLockPath(sourceId: string): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, `${sourceId}.lock`);
+}
+
+function getStateLockPath(): string {
+  return path.resolve(CONFIG.INGEST_STATE_DIR, 'state.lock');
+}
+
+/**
+ * Read the saved state (empty if nothing has run yet)
+ */
+export function loadIngestState(): IngestState {
+  try {
+    return JSON.parse(fs.readFileSync(getStatePath(), 'utf8')) as IngestState;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Save the state of one source, keeping the others
+ * Processes take turns under a lock, so one can't overwrite another's update
+ * between reading and writing the file
+ */
+export function saveSourceSchedule(schedule: SourceSchedule): void {
+  try {
+    withFileLock(getStateLockPath(), () => {
+      const state = loadIngestState();
+      state[schedule.id] = schedule;
+
+      // Write then rename so readers never see a half-written file
+      const tempPath = `${getStatePath()}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(state, null, 2));
+      fs.renameSync(tempPath, getStatePath());
+    });
+  } catch (error) {
+    logger.error({
+      event: 'ingest_state_write_failed',
+      site: schedule.name,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Take the per-source lock so only one process scrapes a source at a time
+ * The lock is kept fresh until it is released, so a slow run never looks stale
+ * @returns false if another process holds a live lock
+ */
+export function acquireSourceLock(sourceId: string): boolean {
+  const lockPath = getLockPath(sourceId);
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+  if (!acquireLock(lockPath, LOCK_TIMEOUT_MS)) {
+    return false;
+  }
+
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      fs.utimesSync(lockPath, now, now);
+    } catch (error) {
+      logger.error({
+        event: 'ingest_lock_refresh_failed',
+        site: sourceId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }, LOCK_HEARTBEAT_MS);
+  // The heartbeat alone shouldn't keep the process alive
+  heartbeat.unref();
+  heartbeats.set(sourceId, heartbeat);
+  return true;
+}
+
+export function releaseSourceLock(sourceId: string): void {
+  clearInterval(heartbeats.get(sourceId));
+  heartbeats.delete(sourceId);
+  releaseLock(getLockPath(sourceId));
+}
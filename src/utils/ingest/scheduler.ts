@@ -0,0 +1,242 @@
+import CONFIG from '../../config';
+import logger from '../logger';
+import { DeclarativeScraper } from '../scrapers/declarative-scraper';
+import { getEnabledDefinitions } from '../scrapers';
+import { SourceDefinition } from '../scrapers/source-definition';
+import {
+  SourceSchedule,
+  loadIngestState,
+  saveSourceSchedule,
+  acquireSourceLock,
+  releaseSourceLock
+} from './ingest-state';
+
+// Give up waiting on a run that takes longer than this; the source stays locked
+// until the scrape itself finishes
+const RUN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Ingestion Scheduler
+ *
+ * Scrapes each enabled source on its own interval (plus random jitter) and
+ * writes the results to the article store, so API requests never wait on
+ * scraping. Only one scrape per source runs at a time, across processes
+ */
+class IngestionScheduler {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private inFlight: Map<string, Promise<SourceSchedule>> = new Map();
+  private schedules: Map<string, SourceSchedule> = new Map();
+  private definitions: Map<string, SourceDefinition> = new Map();
+  private started = false;
+
+  /**
+   * Start scheduling every enabled source
+   * Sources that ran recently (e.g. before a restart) wait out the rest of their interval
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    const savedState = loadIngestState();
+
+    for (const definition of getEnabledDefinitions()) {
+      this.definitions.set(definition.id, definition);
+
+      const intervalMinutes = this.getIntervalMinutes(definition.id);
+      const saved = savedState[definition.id];
+      this.schedules.set(definition.id, {
+        ...saved,
+        id: definition.id,
+        name: definition.name,
+        intervalMinutes,
+        running: false
+      });
+
+      const lastRun = saved?.lastRunAt ? new Date(saved.lastRunAt).getTime() : 0;
+      const dueIn = Math.max(0, lastRun + intervalMinutes * 60 * 1000 - Date.now());
+      this.scheduleNext(definition.id, dueIn);
+    }
+
+    logger.info({
+      event: 'ingest_scheduler_started',
+      sources: [...this.definitions.keys()]
+    });
+  }
+
+  /**
+   * Stop scheduling; runs already in progress are left to finish
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.started = false;
+
+    logger.info({ event: 'ingest_scheduler_stopped' });
+  }
+
+  isRunning(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Scrape a source now
+   * If a scrape of the source is already running, its result is returned instead
+   * @param options.force Scrape even if the source's circuit breaker is open (e.g. after fixing its parser)
+   */
+  runNow(sourceId: string, options: { force?: boolean } = {}): Promise<SourceSchedule> {
+    const existing = this.inFlight.get(sourceId);
+    if (existing) return existing;
+
+    const run = this.runSource(sourceId, options).finally(() => {
+      this.inFlight.delete(sourceId);
+    });
+    this.inFlight.set(sourceId, run);
+    return run;
+  }
+
+  /**
+   * Schedules of all enabled sources, including ones run by another process
+   */
+  getStatus(): SourceSchedule[] {
+    const savedState = loadIngestState();
+
+    return getEnabledDefinitions().map(definition => {
+      const local = this.schedules.get(definition.id);
+      const saved = savedState[definition.id];
+      return {
+        ...saved,
+        ...local,
+        id: definition.id,
+        name: definition.name,
+        intervalMinutes: this.getIntervalMinutes(definition.id),
+        running: this.inFlight.has(definition.id) || Boolean(saved?.running)
+      };
+    });
+  }
+
+  private async runSource(sourceId: string, options: { force?: boolean }): Promise<SourceSchedule> {
+    const definition = this.definitions.get(sourceId)
+      || getEnabledDefinitions().find(candidate => candidate.id === sourceId);
+    if (!definition) {
+      throw new Error(`Unknown or disabled source: ${sourceId}`);
+    }
+
+    const schedule: SourceSchedule = this.schedules.get(sourceId) || {
+      ...loadIngestState()[sourceId],
+      id: sourceId,
+      name: definition.name,
+      intervalMinutes: this.getIntervalMinutes(sourceId),
+      running: false
+    };
+    this.schedules.set(sourceId, schedule);
+
+    if (!acquireSourceLock(sourceId)) {
+      logger.info({ event: 'ingest_run_skipped', site: definition.name, reason: 'already_running_elsewhere' });
+      return schedule;
+    }
+
+    const startedAt = new Date().toISOString();
+    schedule.running = true;
+    schedule.lastRunAt = startedAt;
+    saveSourceSchedule(schedule);
+
+    logger.info({ event: 'ingest_run_started', site: definition.name });
+
+    const scraper = new DeclarativeScraper(definition);
+    const scrape = scraper.getArticlesWithStatus({ refresh: true, force: options.force });
+    let timedOut = false;
+
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      const result = await Promise.race([
+        scrape,
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => {
+            timedOut = true;
+            reject(new Error(`Ingestion of ${definition.name} timed out`));
+          }, RUN_TIMEOUT_MS);
+        })
+      ]);
+
+      schedule.lastStatus = result.status.status;
+      schedule.lastError = result.status.error;
+      schedule.lastArticleCount = result.articles.length;
+      if (result.status.status === 'ok') {
+        schedule.lastSuccessAt = startedAt;
+      }
+    } catch (error) {
+      schedule.lastStatus = 'failed';
+      schedule.lastError = error instanceof Error ? error.message : String(error);
+      schedule.lastArticleCount = 0;
+    } finally {
+      clearTimeout(timeout);
+      schedule.running = false;
+      schedule.lastFinishedAt = new Date().toISOString();
+      saveSourceSchedule(schedule);
+
+      // A timed-out scrape is still running, so the next run can't start until it ends
+      if (timedOut) {
+        scrape
+          .catch(() => undefined)
+          .finally(() => {
+            releaseSourceLock(sourceId);
+            logger.info({ event: 'ingest_timed_out_run_settled', site: definition.name });
+          });
+      } else {
+        releaseSourceLock(sourceId);
+      }
+    }
+
+    logger.info({
+      event: 'ingest_run_finished',
+      site: definition.name,
+      status: schedule.lastStatus,
+      articles: schedule.lastArticleCount,
+      error: schedule.lastError
+    });
+
+    return schedule;
+  }
+
+  /**
+   * Set the timer for a source's next run
+   */
+  private scheduleNext(sourceId: string, delayMs: number): void {
+    const jitterMs = Math.random() * CONFIG.INGEST_JITTER_SECONDS * 1000;
+    const runInMs = delayMs + jitterMs;
+
+    const schedule = this.schedules.get(sourceId);
+    if (schedule) {
+      schedule.nextRunAt = new Date(Date.now() + runInMs).toISOString();
+      saveSourceSchedule(schedule);
+    }
+
+    clearTimeout(this.timers.get(sourceId));
+    const timer = setTimeout(async () => {
+      try {
+        await this.runNow(sourceId);
+      } catch (error) {
+        logger.error({
+          event: 'ingest_run_error',
+          source: sourceId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+
+      if (this.started) {
+        this.scheduleNext(sourceId, this.getIntervalMinutes(sourceId) * 60 * 1000);
+      }
+    }, runInMs);
+
+    this.timers.set(sourceId, timer);
+  }
+
+  private getIntervalMinutes(sourceId: string): number {
+    return CONFIG.INGEST_INTERVAL_MINUTES[sourceId] || CONFIG.INGEST_INTERVAL_MINUTES.default;
+  }
+}
+
+// Export a singleton instance
+export const ingestionScheduler = new IngestionScheduler();
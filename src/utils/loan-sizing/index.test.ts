@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LoanSizingError,
+  LoanSizingInputs,
+  loanConstant,
+  monthlyPayment,
+  paymentSchedule,
+  sizeLoan,
+  spreadSensitivity,
+  validateLoanInputs
+} from './index';
+
+// $1M NOI on a $16M property at a 6.00% note rate (4.25% index + 175 bps), 30-year amortization
+const inputs: LoanSizingInputs = {
+  noi: 1_000_000,
+  value: 16_000_000,
+  amortizationYears: 30,
+  termYears: 10,
+  index: 'treasury-10y',
+  indexRateBps: 425,
+  spreadBps: 175,
+  minDscr: 1.25,
+  maxLtv: 65,
+  minDebtYield: 8
+};
+
+// Annual debt service per dollar at 6.00% over 30 years
+const CONSTANT = 12 * 0.005 / (1 - Math.pow(1.005, -360));
+
+describe('monthlyPayment and loanConstant', () => {
+  it('charges only interest when interest-only', () => {
+    expect(monthlyPayment(1_000_000, 0.06, 0)).toBeCloseTo(5000, 6);
+    expect(loanConstant(0.06, 0)).toBeCloseTo(0.06, 10);
+  });
+
+  it('amortizes with a level payment', () => {
+    expect(monthlyPayment(1_000_000, 0.06, 30)).toBeCloseTo(5995.51, 2);
+    expect(loanConstant(0.06, 30)).toBeCloseTo(CONSTANT, 10);
+    expect(monthlyPayment(360_000, 0, 30)).toBe(1000);
+  });
+});
+
+describe('paymentSchedule', () => {
+  it('leaves the unamortized balance as the balloon', () => {
+    const schedule = paymentSchedule(1_000_000, 0.06, 30, 10);
+    const growth = Math.pow(1.005, 120);
+    const remaining = 1_000_000 * growth - monthlyPayment(1_000_000, 0.06, 30) * (growth - 1) / 0.005;
+
+    expect(schedule).toHaveLength(10);
+    expect(schedule[9].balance).toBeCloseTo(remaining, 4);
+    const repaid = schedule.reduce((sum, row) => sum + row.principal, 0);
+    expect(repaid + schedule[9].balance).toBeCloseTo(1_000_000, 4);
+  });
+
+  it('keeps the whole principal due when interest-only', () => {
+    const schedule = paymentSchedule(1_000_000, 0.06, 0, 5);
+    expect(schedule.every(row => row.principal === 0)).toBe(true);
+    expect(schedule[0].interest).toBeCloseTo(60_000, 6);
+    expect(schedule[4].balance).toBe(1_000_000);
+  });
+
+  it('stops part way through a year for a fractional term', () => {
+    const schedule = paymentSchedule(1_000_000, 0.06, 0, 2.5);
+    expect(schedule).toHaveLength(3);
+    expect(schedule[2].interest).toBeCloseTo(30_000, 6);
+  });
+});
+
+describe('sizeLoan', () => {
+  it('is bound by LTV', () => {
+    const result = sizeLoan(inputs);
+    expect(result.bindingConstraint).toBe('ltv');
+    expect(result.maxLoan).toBeCloseTo(10_400_000, 4);
+    expect(result.ltv).toBeCloseTo(65, 10);
+    expect(result.noteRateBps).toBe(600);
+    expect(result.constraints.map(c => c.constraint)).toEqual(['ltv', 'dscr', 'debtYield']);
+  });
+
+  it('is bound by DSCR', () => {
+    const result = sizeLoan({ ...inputs, maxLtv: 75 });
+    expect(result.bindingConstraint).toBe('dscr');
+    expect(result.maxLoan).toBeCloseTo(1_000_000 / 1.25 / CONSTANT, 4);
+    expect(result.dscr).toBeCloseTo(1.25, 10);
+    expect(result.annualDebtService).toBeCloseTo(800_000, 4);
+  });
+
+  it('is bound by debt yield', () => {
+    const result = sizeLoan({ ...inputs, maxLtv: 75, minDebtYield: 10 });
+    expect(result.bindingConstraint).toBe('debtYield');
+    expect(result.maxLoan).toBeCloseTo(10_000_000, 4);
+    expect(result.debtYield).toBeCloseTo(10, 10);
+  });
+
+  it('applies only the constraints given', () => {
+    const result = sizeLoan({ ...inputs, maxLtv: undefined, minDebtYield: undefined });
+    expect(result.bindingConstraint).toBe('dscr');
+    expect(result.constraints).toHaveLength(1);
+  });
+
+  it('reports the balloon at the end of the term', () => {
+    const amortizing = sizeLoan(inputs);
+    expect(amortizing.balloon).toBe(amortizing.schedule[9].balance);
+    expect(amortizing.balloon).toBeLessThan(amortizing.maxLoan);
+
+    const interestOnly = sizeLoan({ ...inputs, amortizationYears: 0 });
+    expect(interestOnly.balloon).toBeCloseTo(interestOnly.maxLoan, 6);
+    expect(interestOnly.monthlyPayment).toBeCloseTo(interestOnly.maxLoan * 0.005, 6);
+  });
+
+  it('rejects constraints of 0 instead of ignoring them', () => {
+    for (const constraint of ['maxLtv', 'minDscr', 'minDebtYield'] as const) {
+      expect(validateLoanInputs({ ...inputs, [constraint]: 0 })).toHaveLength(1);
+      expect(() => sizeLoan({ ...inputs, [constraint]: 0 })).toThrow(LoanSizingError);
+    }
+  });
+
+  it('needs at least one constraint', () => {
+    const problems = validateLoanInputs({ ...inputs, maxLtv: undefined, minDscr: undefined, minDebtYield: undefined });
+    expect(problems).toEqual(['Set at least one of max LTV, min DSCR and min debt yield']);
+  });
+});
+
+describe('spreadSensitivity', () => {
+  it('sizes at each spread around the chosen one, skipping negative spreads', () => {
+    const rows = spreadSensitivity({ ...inputs, spreadBps: 25 });
+    expect(rows.map(row => row.spreadBps)).toEqual([0, 25, 50, 75, 100, 125]);
+    expect(rows.map(row => row.noteRateBps)).toEqual([425, 450, 475, 500, 525, 550]);
+  });
+
+  it('shrinks the loan as the spread widens once DSCR binds', () => {
+    const rows = spreadSensitivity({ ...inputs, maxLtv: 75, minDebtYield: undefined });
+    for (let i = 1; i < rows.length; i++) {
+      expect(rows[i].maxLoan).toBeLessThan(rows[i - 1].maxLoan);
+      expect(rows[i].dscr).toBeCloseTo(1.25, 10);
+    }
+    expect(rows.find(row => row.spreadBps === 175)?.maxLoan).toBeCloseTo(sizeLoan({ ...inputs, maxLtv: 75, minDebtYield: undefined }).maxLoan, 6);
+  });
+
+  it('switches the binding constraint when rates rise', () => {
+    const rows = spreadSensitivity({ ...inputs, spreadBps: 100, minDebtYield: undefined }, [-100, 0, 100, 200]);
+    expect(rows[0].bindingConstraint).toBe('ltv');
+    expect(rows[rows.length - 1].bindingConstraint).toBe('dscr');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Loan sizing
+ *
+ * Sizes a fixed-rate loan the way originators do by hand: the note rate is an
+ * index (e.g. the 10-year treasury or SOFR swap) plus a spread, and the loan is
+ * the largest that meets every LTV, DSCR and debt-yield constraint. Pure
+ * functions with no I/O, so the calculator page runs them in the browser
+ */
+
+export type SizingConstraint = 'ltv' | 'dscr' | 'debtYield';
+
+export const CONSTRAINT_LABELS: Record<SizingConstraint, string> = {
+  ltv: 'Max LTV',
+  dscr: 'Min DSCR',
+  debtYield: 'Min debt yield'
+};
+
+export interface LoanSizingInputs {
+  // Annual net operating income, in dollars
+  noi: number;
+  // Property value, in dollars
+  value: number;
+  // Amortization period; 0 for interest-only
+  amortizationYears: number;
+  // Loan term, after which the remaining balance is due
+  termYears: number;
+  // Rate series the loan is priced over, e.g. 'treasury-10y'
+  index: string;
+  indexRateBps: number;
+  spreadBps: number;
+  // Constraints; leave out to not apply one (0 is rejected)
+  // Minimum debt service coverage, e.g. 1.25
+  minDscr?: number;
+  // Maximum loan-to-value, in percent, e.g. 65
+  maxLtv?: number;
+  // Minimum debt yield (NOI / loan), in percent, e.g. 8
+  minDebtYield?: number;
+}
+
+/**
+ * One year of the payment schedule
+ */
+export interface ScheduleRow {
+  year: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  // Balance at the end of the year
+  balance: number;
+}
+
+export interface LoanSizingResult {
+  noteRateBps: number;
+  maxLoan: number;
+  bindingConstraint: SizingConstraint;
+  // The largest loan each applied constraint allows
+  constraints: { constraint: SizingConstraint; maxLoan: number }[];
+  monthlyPayment: number;
+  annualDebtService: number;
+  // Metrics at the max loan
+  dscr: number;
+  ltv: number;
+  debtYield: number;
+  // Balance due at the end of the term
+  balloon: number;
+  schedule: ScheduleRow[];
+}
+
+export interface SensitivityRow {
+  spreadBps: number;
+  noteRateBps: number;
+  maxLoan: number;
+  bindingConstraint: SizingConstraint;
+  annualDebtService: number;
+  dscr: number;
+}
+
+/**
+ * Thrown when the inputs can't be sized (see validateLoanInputs)
+ */
+export class LoanSizingError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'LoanSizingError';
+  }
+}
+
+/**
+ * Everything wrong with the inputs; empty when they can be sized
+ */
+export function validateLoanInputs(inputs: LoanSizingInputs): string[] {
+  const problems: string[] = [];
+  const positive = (value: number) => Number.isFinite(value) && value > 0;
+
+  if (!positive(inputs.noi)) problems.push('NOI must be greater than 0');
+  if (!positive(inputs.value)) problems.push('Value must be greater than 0');
+  if (!Number.isFinite(inputs.amortizationYears) || inputs.amortizationYears < 0) {
+    problems.push('Amortization must be 0 (interest-only) or more years');
+  }
+  if (!positive(inputs.termYears)) problems.push('Term must be greater than 0');
+  if (!Number.isFinite(inputs.indexRateBps) || !Number.isFinite(inputs.spreadBps)) {
+    problems.push('Index rate and spread must be numbers');
+  } else if (inputs.indexRateBps + inputs.spreadBps <= 0) {
+    problems.push('Note rate must be greater than 0');
+  }
+  for (const [key, label] of [['minDscr', 'Min DSCR'], ['maxLtv', 'Max LTV'], ['minDebtYield', 'Min debt yield']] as const) {
+    const value = inputs[key];
+    if (value !== undefined && !Number.isFinite(value)) problems.push(`${label} must be a number`);
+  }
+  if (inputs.minDscr === undefined && inputs.maxLtv === undefined && inputs.minDebtYield === undefined) {
+    problems.push('Set at least one of max LTV, min DSCR and min debt yield');
+  }
+  // A constraint of 0 would allow no loan (LTV) or an unlimited one (DSCR, debt yield)
+  if (inputs.maxLtv !== undefined && (inputs.maxLtv <= 0 || inputs.maxLtv > 100)) {
+    problems.push('Max LTV must be greater than 0 and at most 100%');
+  }
+  if (inputs.minDscr !== undefined && inputs.minDscr <= 0) problems.push('Min DSCR must be greater than 0');
+  if (inputs.minDebtYield !== undefined && inputs.minDebtYield <= 0) problems.push('Min debt yield must be greater than 0');
+
+  return problems;
+}
+
+/**
+ * Monthly payment on a loan; interest only when amortizationYears is 0
+ * @param annualRate Note rate as a decimal, e.g. 0.065
+ */
+export function monthlyPayment(principal: number, annualRate: number, amortizationYears: number): number {
+  const monthlyRate = annualRate / 12;
+  if (amortizationYears === 0) return principal * monthlyRate;
+
+  const months = amortizationYears * 12;
+  if (monthlyRate === 0) return principal / months;
+  return principal * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months));
+}
+
+/**
+ * Annual debt service per dollar of loan
+ */
+export function loanConstant(annualRate: number, amortizationYears: number): number {
+  return monthlyPayment(1, annualRate, amortizationYears) * 12;
+}
+
+/**
+ * Year-by-year payments over the term (monthly payments summed per year)
+ */
+export function paymentSchedule(
+  principal: number,
+  annualRate: number,
+  amortizationYears: number,
+  termYears: number
+): ScheduleRow[] {
+  const payment = monthlyPayment(principal, annualRate, amortizationYears);
+  const monthlyRate = annualRate / 12;
+  const rows: ScheduleRow[] = [];
+  let balance = principal;
+
+  for (let year = 1; year <= Math.ceil(termYears); year++) {
+    const months = Math.min(12, Math.round(termYears * 12) - (year - 1) * 12);
+    const row: ScheduleRow = { year, payment: 0, interest: 0, principal: 0, balance };
+    for (let month = 0; month < months; month++) {
+      const interest = balance * monthlyRate;
+      const paid = Math.min(payment - interest, balance);
+      row.payment += interest + paid;
+      row.interest += interest;
+      row.principal += paid;
+      balance -= paid;
+    }
+    row.balance = Math.max(balance, 0);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * The largest loan meeting every constraint, and what it costs
+ * @throws LoanSizingError when the inputs are invalid
+ */
+export function sizeLoan(inputs: LoanSizingInputs): LoanSizingResult {
+  const problems = validateLoanInputs(inputs);
+  if (problems.length > 0) throw new LoanSizingError(problems);
+
+  const noteRateBps = inputs.indexRateBps + inputs.spreadBps;
+  const rate = noteRateBps / 10000;
+  const constant = loanConstant(rate, inputs.amortizationYears);
+
+  const constraints: LoanSizingResult['constraints'] = [];
+  if (inputs.maxLtv !== undefined) constraints.push({ constraint: 'ltv', maxLoan: inputs.value * inputs.maxLtv / 100 });
+  if (inputs.minDscr !== undefined) constraints.push({ constraint: 'dscr', maxLoan: inputs.noi / inputs.minDscr / constant });
+  if (inputs.minDebtYield !== undefined) constraints.push({ constraint: 'debtYield', maxLoan: inputs.noi / (inputs.minDebtYield / 100) });
+
+  const binding = constraints.reduce((lowest, c) => (c.maxLoan < lowest.maxLoan ? c : lowest));
+  const maxLoan = Math.max(binding.maxLoan, 0);
+  const schedule = paymentSchedule(maxLoan, rate, inputs.amortizationYears, inputs.termYears);
+  const annualDebtService = maxLoan * constant;
+
+  return {
+    noteRateBps,
+    maxLoan,
+    bindingConstraint: binding.constraint,
+    constraints,
+    monthlyPayment: monthlyPayment(maxLoan, rate, inputs.amortizationYears),
+    annualDebtService,
+    dscr: annualDebtService > 0 ? inputs.noi / annualDebtService : Infinity,
+    ltv: maxLoan / inputs.value * 100,
+    debtYield: maxLoan > 0 ? inputs.noi / maxLoan * 100 : Infinity,
+    balloon: schedule.length ? schedule[schedule.length - 1].balance : maxLoan,
+    schedule
+  };
+}
+
+/**
+ * Sizing at spreads around the chosen one
+ * @param offsetsBps Added to the spread; spreads that would be negative are skipped
+ */
+export function spreadSensitivity(inputs: LoanSizingInputs, offsetsBps = [-50, -25, 0, 25, 50, 75, 100]): SensitivityRow[] {
+  return offsetsBps
+    .map(offset => inputs.spreadBps + offset)
+    .filter(spreadBps => spreadBps >= 0)
+    .map(spreadBps => {
+      const result = sizeLoan({ ...inputs, spreadBps });
+      return {
+        spreadBps,
+        noteRateBps: result.noteRateBps,
+        maxLoan: result.maxLoan,
+        bindingConstraint: result.bindingConstraint,
+        annualDebtService: result.annualDebtService,
+        dscr: result.dscr
+      };
+    });
+}
+
+export { toSearchParams, fromSearchParams, DEFAULT_LOAN_INPUTS } from './share';
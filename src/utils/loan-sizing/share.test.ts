@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOAN_INPUTS, fromSearchParams, toSearchParams } from './share';
+import { validateLoanInputs } from './index';
+
+describe('share URLs', () => {
+  it('round-trips every input', () => {
+    const inputs = { ...DEFAULT_LOAN_INPUTS, index: 'sofr-swap-5y', indexRateBps: 412.5, amortizationYears: 0 };
+    const params = new URLSearchParams(toSearchParams(inputs).toString());
+    expect(fromSearchParams(params)).toEqual(inputs);
+  });
+
+  it('leaves out constraints that are not applied', () => {
+    const inputs = { ...DEFAULT_LOAN_INPUTS, minDebtYield: undefined };
+    const params = toSearchParams(inputs);
+    expect(params.get('dy')).toBe('');
+
+    const decoded = fromSearchParams(params);
+    expect('minDebtYield' in decoded).toBe(true);
+    expect(decoded.minDebtYield).toBeUndefined();
+  });
+
+  it('keeps a constraint of 0 so it is reported, not dropped', () => {
+    const decoded = fromSearchParams(new URLSearchParams('ltv=0'));
+    expect(decoded.maxLtv).toBe(0);
+    expect(validateLoanInputs({ ...DEFAULT_LOAN_INPUTS, ...decoded })).toEqual(['Max LTV must be greater than 0 and at most 100%']);
+  });
+
+  it('skips numbers that do not parse', () => {
+    expect(fromSearchParams(new URLSearchParams('noi=abc&value=&term=7'))).toEqual({ termYears: 7 });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Loan sizing inputs in a URL
+ *
+ * Every input has a short query parameter, so a sizing can be shared as a link.
+ * The index rate is included, so the link shows the same numbers after rates move
+ */
+import type { LoanSizingInputs } from './index';
+
+export const DEFAULT_LOAN_INPUTS: LoanSizingInputs = {
+  noi: 1_000_000,
+  value: 16_000_000,
+  amortizationYears: 30,
+  termYears: 10,
+  index: 'treasury-10y',
+  indexRateBps: 0,
+  spreadBps: 175,
+  minDscr: 1.25,
+  maxLtv: 65,
+  minDebtYield: 8
+};
+
+const PARAMS: Record<string, keyof LoanSizingInputs> = {
+  noi: 'noi',
+  value: 'value',
+  amort: 'amortizationYears',
+  term: 'termYears',
+  index: 'index',
+  rate: 'indexRateBps',
+  spread: 'spreadBps',
+  dscr: 'minDscr',
+  ltv: 'maxLtv',
+  dy: 'minDebtYield'
+};
+
+/**
+ * Query parameters for a set of inputs; constraints not applied (and numbers
+ * still being typed) are left empty
+ */
+export function toSearchParams(inputs: LoanSizingInputs): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [param, key] of Object.entries(PARAMS)) {
+    const value = inputs[key];
+    params.set(param, value === undefined || (typeof value === 'number' && !Number.isFinite(value)) ? '' : String(value));
+  }
+  return params;
+}
+
+/**
+ * Inputs found in query parameters; numbers that don't parse are left out
+ * A constraint given as empty comes back as undefined, i.e. not applied
+ */
+export function fromSearchParams(params: URLSearchParams): Partial<LoanSizingInputs> {
+  const inputs: Partial<LoanSizingInputs> = {};
+  const constraints: (keyof LoanSizingInputs)[] = ['minDscr', 'maxLtv', 'minDebtYield'];
+
+  for (const [param, key] of Object.entries(PARAMS)) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+
+    if (key === 'index') {
+      inputs.index = raw;
+      continue;
+    }
+    const value = Number(raw);
+    if (constraints.includes(key) && raw === '') {
+      (inputs as Record<string, number | undefined>)[key] = undefined;
+    } else if (raw !== '' && Number.isFinite(value)) {
+      (inputs as Record<string, number>)[key] = value;
+    }
+  }
+  return inputs;
+}
@@ -0,0 +1,31 @@
+/**
+ * Display formatting for market figures, shared by the market widget and the
+ * comparison page
+ */
+import type { MarketMetric } from '../scrapers/cre-market-data';
+
+/**
+ * A figure in its unit, e.g. 14.1%, 16.8M, $28.18
+ */
+export function formatFigure(value: number, unit: string): string {
+  if (unit === '%') return `${value.toFixed(1)}%`;
+  if (unit.startsWith('$')) {
+    const digits = Math.abs(value) >= 100 ? 0 : 2;
+    return `$${value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+  }
+  const size = Math.abs(value);
+  if (size >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (size >= 1e4) return `${(value / 1e3).toFixed(0)}K`;
+  return value.toLocaleString('en-US');
+}
+
+/**
+ * Quarter-over-quarter change: points for rates, percent for the rest
+ */
+export function formatMetricChange(metric: MarketMetric): string {
+  if (metric.change === undefined) return '';
+  const sign = (n: number) => (n > 0 ? '+' : '');
+  if (metric.unit === '%') return `${sign(metric.change)}${metric.change.toFixed(1)} pts`;
+  if (metric.changePercent !== undefined) return `${sign(metric.changePercent)}${metric.changePercent.toFixed(1)}%`;
+  return `${sign(metric.change)}${formatFigure(metric.change, metric.unit)}`;
+}
@@ -0,0 +1,278 @@
+/**
+ * Persistent market fundamentals
+ *
+ * Imported figures are kept one per sector, metro, quarter and metric, so a
+ * later dataset for the same quarter replaces only the metrics it has and older
+ * quarters stay as history. Lives in the same store as the articles (see
+ * CONFIG.ARTICLE_STORE)
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Pool } from 'pg';
+import { createClient } from 'redis';
+import CONFIG from '../../config';
+import logger from '../logger';
+import type { FundamentalMetric, FundamentalObservation, MarketSector } from './fundamentals';
+
+export interface FundamentalsQuery {
+  sectors?: MarketSector[];
+  // Only these metros (null for the national figures); matched ignoring case
+  metros?: (string | null)[];
+  metrics?: FundamentalMetric[];
+  // Inclusive range of quarters, e.g. '2024-Q1'
+  from?: string;
+  to?: string;
+}
+
+export interface FundamentalsStore {
+  // Save observations, replacing any for the same sector, metro, quarter and metric
+  save(observations: FundamentalObservation[]): Promise<void>;
+  // Matching observations, oldest quarter first
+  read(query: FundamentalsQuery): Promise<FundamentalObservation[]>;
+}
+
+// The national figures are stored under an empty metro
+const metroKey = (metro: string | null) => (metro || '').toLowerCase();
+
+function matchesQuery(observation: FundamentalObservation, query: FundamentalsQuery): boolean {
+  return (!query.sectors || query.sectors.includes(observation.sector)) &&
+    (!query.metros || query.metros.map(metroKey).includes(metroKey(observation.metro))) &&
+    (!query.metrics || query.metrics.includes(observation.metric)) &&
+    (!query.from || observation.quarter >= query.from) &&
+    (!query.to || observation.quarter <= query.to);
+}
+
+function byQuarter(a: FundamentalObservation, b: FundamentalObservation): number {
+  return a.quarter.localeCompare(b.quarter) ||
+    a.sector.localeCompare(b.sector) ||
+    (a.metro || '').localeCompare(b.metro || '') ||
+    a.metric.localeCompare(b.metric);
+}
+
+/**
+ * SQL conditions for a query, with numbered ($1) or positional (?) placeholders
+ */
+function buildWhere(query: FundamentalsQuery, numbered: boolean): { where: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const placeholder = () => numbered ? `$${params.length}` : '?';
+
+  const addList = (column: string, values: string[] | undefined) => {
+    if (!values) return;
+    const placeholders = values.map(value => {
+      params.push(value);
+      return placeholder();
+    });
+    conditions.push(placeholders.length ? `${column} IN (${placeholders.join(', ')})` : 'FALSE');
+  };
+
+  addList('sector', query.sectors);
+  addList('LOWER(metro)', query.metros?.map(metroKey));
+  addList('metric', query.metrics);
+  if (query.from) {
+    params.push(query.from);
+    conditions.push(`quarter >= ${placeholder()}`);
+  }
+  if (query.to) {
+    params.push(query.to);
+    conditions.push(`quarter <= ${placeholder()}`);
+  }
+
+  return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+interface ObservationRow {
+  sector: string;
+  metro: string;
+  quarter: string;
+  metric: string;
+  value: number;
+  source: string;
+  imported_at: string;
+}
+
+function fromRow(row: ObservationRow): FundamentalObservation {
+  return {
+    sector: row.sector as MarketSector,
+    metro: row.metro || null,
+    quarter: row.quarter,
+    metric: row.metric as FundamentalMetric,
+    value: Number(row.value),
+    source: row.source,
+    importedAt: row.imported_at
+  };
+}
+
+const ORDER_BY = 'ORDER BY quarter, sector, metro, metric';
+
+class SqliteFundamentalsStore implements FundamentalsStore {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS market_fundamentals (
+        sector TEXT NOT NULL,
+        metro TEXT NOT NULL,
+        quarter TEXT NOT NULL,
+        metric TEXT NOT NULL,
+        value REAL NOT NULL,
+        source TEXT NOT NULL,
+        imported_at TEXT NOT NULL,
+        PRIMARY KEY (sector, metro, quarter, metric)
+      );
+      CREATE INDEX IF NOT EXISTS market_fundamentals_quarter ON market_fundamentals (quarter);
+    `);
+  }
+
+  async save(observations: FundamentalObservation[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO market_fundamentals (sector, metro, quarter, metric, value, source, imported_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      for (const o of observations) {
+        upsert.run(o.sector, o.metro || '', o.quarter, o.metric, o.value, o.source, o.importedAt);
+      }
+    })();
+  }
+
+  async read(query: FundamentalsQuery): Promise<FundamentalObservation[]> {
+    const { where, params } = buildWhere(query, false);
+    const rows = this.db.prepare(`SELECT * FROM market_fundamentals ${where} ${ORDER_BY}`)
+      .all(...params) as ObservationRow[];
+    return rows.map(fromRow);
+  }
+}
+
+class PostgresFundamentalsStore implements FundamentalsStore {
+  private readonly pool: Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+  }
+
+  async save(observations: FundamentalObservation[]): Promise<void> {
+    await this.ensureSchema();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const o of observations) {
+        await client.query(
+          `INSERT INTO market_fundamentals (sector, metro, quarter, metric, value, source, imported_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           ON CONFLICT (sector, metro, quarter, metric) DO UPDATE SET
+             value = EXCLUDED.value, source = EXCLUDED.source, imported_at = EXCLUDED.imported_at`,
+          [o.sector, o.metro || '', o.quarter, o.metric, o.value, o.source, o.importedAt]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async read(query: FundamentalsQuery): Promise<FundamentalObservation[]> {
+    await this.ensureSchema();
+    const { where, params } = buildWhere(query, true);
+    const result = await this.pool.query<ObservationRow>(`SELECT * FROM market_fundamentals ${where} ${ORDER_BY}`, params);
+    return result.rows.map(fromRow);
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS market_fundamentals (
+          sector TEXT NOT NULL,
+          metro TEXT NOT NULL,
+          quarter TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          value DOUBLE PRECISION NOT NULL,
+          source TEXT NOT NULL,
+          imported_at TEXT NOT NULL,
+          PRIMARY KEY (sector, metro, quarter, metric)
+        );
+        CREATE INDEX IF NOT EXISTS market_fundamentals_quarter ON market_fundamentals (quarter);
+      `).then(() => undefined);
+    }
+    return this.schemaReady;
+  }
+}
+
+/**
+ * Redis keeps the fundamentals in one hash, one field per sector, metro, quarter and metric
+ */
+class RedisFundamentalsStore implements FundamentalsStore {
+  private readonly client: ReturnType<typeof createClient>;
+  private connected: Promise<unknown> | null = null;
+  private readonly key: string;
+
+  constructor(url: string, prefix = 'crenews:') {
+    this.client = createClient({ url });
+    this.client.on('error', (err) => {
+      logger.error({ event: 'market_fundamentals_redis_error', error: err.message });
+    });
+    this.key = `${prefix}market-fundamentals`;
+  }
+
+  async save(observations: FundamentalObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+    await this.connect();
+    const fields: Record<string, string> = {};
+    for (const o of observations) {
+      fields[`${o.sector}:${metroKey(o.metro)}:${o.quarter}:${o.metric}`] = JSON.stringify(o);
+    }
+    await this.client.hSet(this.key, fields);
+  }
+
+  async read(query: FundamentalsQuery): Promise<FundamentalObservation[]> {
+    await this.connect();
+    const fields = await this.client.hGetAll(this.key);
+    return Object.values(fields)
+      .map(value => JSON.parse(String(value)) as FundamentalObservation)
+      .filter(observation => matchesQuery(observation, query))
+      .sort(byQuarter);
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connected) {
+      this.connected = this.client.connect();
+    }
+    return this.connected;
+  }
+}
+
+let store: FundamentalsStore | null = null;
+
+/**
+ * Get the fundamentals store for the configured article store (created on first use)
+ * Returns null when ARTICLE_STORE is 'none'; nothing can be imported then
+ */
+export function getFundamentalsStore(): FundamentalsStore | null {
+  if (store || CONFIG.ARTICLE_STORE === 'none') {
+    return store;
+  }
+
+  switch (CONFIG.ARTICLE_STORE) {
+    case 'redis':
+      store = new RedisFundamentalsStore(CONFIG.REDIS_URL);
+      break;
+    case 'postgres':
+      store = new PostgresFundamentalsStore(CONFIG.DATABASE_URL);
+      break;
+    default:
+      store = new SqliteFundamentalsStore(CONFIG.SQLITE_PATH);
+  }
+  return store;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMetro, normalizeQuarter, previousQuarter, quarterLabel } from './fundamentals';
+
+describe('normalizeQuarter', () => {
+  it.each(['2025-Q2', '2025Q2', '2025 q2', 'Q2 2025', 'Q2-25', 'Q2 - 25', '2Q25', '2Q 2025'])('reads %s', label => {
+    expect(normalizeQuarter(label)).toBe('2025-Q2');
+  });
+
+  it.each(['2025-Q5', 'Q0 2025', 'Spring 2025', '2025', '', null, undefined])('rejects %j', label => {
+    expect(normalizeQuarter(label)).toBeNull();
+  });
+});
+
+describe('previousQuarter and quarterLabel', () => {
+  it('step back across a year and format for display', () => {
+    expect(previousQuarter('2025-Q1')).toBe('2024-Q4');
+    expect(previousQuarter('2025-Q3')).toBe('2025-Q2');
+    expect(quarterLabel('2025-Q2')).toBe('Q2 2025');
+  });
+});
+
+describe('normalizeMetro', () => {
+  it('treats national names as no metro', () => {
+    expect(normalizeMetro('')).toBeNull();
+    expect(normalizeMetro('National')).toBeNull();
+    expect(normalizeMetro('U.S.')).toBeNull();
+    expect(normalizeMetro(' Dallas-Fort Worth ')).toBe('Dallas-Fort Worth');
+  });
+});
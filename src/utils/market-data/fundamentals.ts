@@ -0,0 +1,114 @@
+/**
+ * Market fundamentals: the quarterly figures (vacancy, absorption, rents...)
+ * tracked for each property sector, nationally or for a metro
+ */
+
+import type { PropertyType } from '../../../types/article';
+import { PROPERTY_TYPES } from '../classify/labels';
+
+// Sectors are the asset classes articles are tagged with
+export type MarketSector = PropertyType;
+export const MARKET_SECTORS: readonly MarketSector[] = PROPERTY_TYPES;
+
+export const FUNDAMENTAL_METRICS = [
+  'vacancyRate', 'absorption', 'askingRent', 'deliveries', 'capRate', 'inventory', 'underConstruction'
+] as const;
+export type FundamentalMetric = typeof FUNDAMENTAL_METRICS[number];
+
+export interface MetricInfo {
+  name: string;
+  // Whether a rise is good news for owners; left out when neither
+  higherIsBetter?: boolean;
+  // Rates are compared in percentage points, everything else in percent
+  isRate?: boolean;
+}
+
+export const METRIC_INFO: Record<FundamentalMetric, MetricInfo> = {
+  vacancyRate: { name: 'Vacancy Rate', higherIsBetter: false, isRate: true },
+  absorption: { name: 'Net Absorption', higherIsBetter: true },
+  askingRent: { name: 'Asking Rent', higherIsBetter: true },
+  deliveries: { name: 'Deliveries' },
+  capRate: { name: 'Cap Rate', higherIsBetter: false, isRate: true },
+  inventory: { name: 'Inventory' },
+  underConstruction: { name: 'Under Construction' }
+};
+
+/**
+ * One metric for one sector, metro and quarter
+ */
+export interface FundamentalObservation {
+  sector: MarketSector;
+  // Metro name, e.g. 'Dallas-Fort Worth'; null for the national figure
+  metro: string | null;
+  // Quarter, e.g. '2025-Q2'
+  quarter: string;
+  metric: FundamentalMetric;
+  // Percent for rates, dollars for rents and square feet, units or rooms for space (see metricUnit)
+  value: number;
+  // Dataset the figure came from, e.g. 'cbre-2025q2.csv'
+  source: string;
+  importedAt: string;
+}
+
+export function isMarketSector(value: unknown): value is MarketSector {
+  return typeof value === 'string' && (MARKET_SECTORS as readonly string[]).includes(value);
+}
+
+export function isFundamentalMetric(value: unknown): value is FundamentalMetric {
+  return typeof value === 'string' && (FUNDAMENTAL_METRICS as readonly string[]).includes(value);
+}
+
+/**
+ * Unit a metric is kept in for a sector: apartments are counted in units and
+ * hotels in rooms (asking rent is the average daily rate), the rest in square feet
+ */
+export function metricUnit(metric: FundamentalMetric, sector: MarketSector): string {
+  switch (metric) {
+    case 'vacancyRate':
+    case 'capRate':
+      return '%';
+    case 'askingRent':
+      return sector === 'multifamily' ? '$/unit/mo' : sector === 'hospitality' ? '$/room/night' : '$/sq ft/yr';
+    default:
+      return sector === 'multifamily' ? 'units' : sector === 'hospitality' ? 'rooms' : 'sq ft';
+  }
+}
+
+/**
+ * Canonical form of a quarter label, or null if it isn't one
+ * '2025-Q2', '2025Q2', 'Q2 2025', 'Q2-25', 'Q2 - 25' and '2Q25' all give '2025-Q2'
+ */
+export function normalizeQuarter(label: string | undefined | null): string | null {
+  const text = (label || '').trim().toUpperCase();
+  const match = text.match(/^(\d{4})\s*-?\s*Q([1-4])$/) ||
+    text.match(/^Q([1-4])\s*-?\s*(\d{2}|\d{4})$/) ||
+    text.match(/^([1-4])Q\s*-?\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const [year, quarter] = match[1].length === 4 ? [match[1], match[2]] : [match[2], match[1]];
+  return `${year.length === 2 ? `20${year}` : year}-Q${quarter}`;
+}
+
+/**
+ * The quarter before a canonical quarter, e.g. '2025-Q1' -> '2024-Q4'
+ */
+export function previousQuarter(quarter: string): string {
+  const [year, q] = [Number(quarter.slice(0, 4)), Number(quarter.slice(-1))];
+  return q === 1 ? `${year - 1}-Q4` : `${year}-Q${q - 1}`;
+}
+
+/**
+ * A canonical quarter for display, e.g. '2025-Q2' -> 'Q2 2025'
+ */
+export function quarterLabel(quarter: string): string {
+  return `${quarter.slice(5)} ${quarter.slice(0, 4)}`;
+}
+
+/**
+ * Canonical metro name; null for the national figure ('', 'National', 'U.S.'...)
+ */
+export function normalizeMetro(name: string | undefined | null): string | null {
+  const metro = (name || '').trim().replace(/\s+/g, ' ');
+  if (/^(|national|nationwide|us|u\.s\.?|usa|united states)$/i.test(metro)) return null;
+  return metro;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormat, parseDataset, parseFigure } from './import';
+
+describe('parseFigure', () => {
+  it.each([
+    ['$28.18', 28.18],
+    ['14.1%', 14.1],
+    ['16,809,000', 16809000],
+    ['5.2M', 5200000],
+    ['750k', 750000],
+    ['(1.2M)', -1200000],
+    ['-410,000', -410000],
+    [6.8, 6.8]
+  ])('reads %j', (value, figure) => {
+    expect(parseFigure(value)).toBeCloseTo(figure);
+  });
+
+  it.each(['n/a', '', '12 units', null, Number.POSITIVE_INFINITY])('returns null for %j', value => {
+    expect(parseFigure(value)).toBeNull();
+  });
+});
+
+describe('parseDataset', () => {
+  const csv = [
+    'Property Type,Market,Period,Vacancy Rate,Net Absorption,Asking Rent,Cap Rate',
+    'office,,2025-Q2,14.1%,"16,809,000",$28.18,',
+    'Apartments,DFW,Q2 25,5.2%,"(1,200)",,',
+    'bowling,,2025-Q2,1%,,,',
+    'industrial,,Spring 2025,6%,,,',
+    'retail,Phoenix,2025-Q2,n/a,,$24.10,'
+  ].join('\n');
+
+  it('reads loosely named columns, national rows and metro aliases', () => {
+    const { observations, rows } = parseDataset(csv, 'test.csv');
+
+    expect(rows).toBe(5);
+    expect(observations.map(({ sector, metro, quarter, metric, value }) => ({ sector, metro, quarter, metric, value })))
+      .toEqual([
+        { sector: 'office', metro: null, quarter: '2025-Q2', metric: 'vacancyRate', value: 14.1 },
+        { sector: 'office', metro: null, quarter: '2025-Q2', metric: 'absorption', value: 16809000 },
+        { sector: 'office', metro: null, quarter: '2025-Q2', metric: 'askingRent', value: 28.18 },
+        { sector: 'multifamily', metro: 'Dallas-Fort Worth', quarter: '2025-Q2', metric: 'vacancyRate', value: 5.2 },
+        { sector: 'multifamily', metro: 'Dallas-Fort Worth', quarter: '2025-Q2', metric: 'absorption', value: -1200 },
+        { sector: 'retail', metro: 'Phoenix', quarter: '2025-Q2', metric: 'askingRent', value: 24.1 }
+      ]);
+    expect(observations.every(observation => observation.source === 'test.csv')).toBe(true);
+  });
+
+  it('reports rows it skipped or only partly read', () => {
+    expect(parseDataset(csv, 'test.csv').problems).toEqual([
+      { row: 3, reason: 'Unknown sector "bowling"' },
+      { row: 4, reason: 'Unrecognised quarter "Spring 2025"' },
+      { row: 5, reason: 'Left out unreadable vacancyRate "n/a"' }
+    ]);
+  });
+
+  it('reads JSON rows, bare or under "rows"', () => {
+    const rows = [{ sector: 'industrial', metro: 'National', quarter: '2025Q1', vacancyRate: '7.0%' }];
+
+    for (const content of [JSON.stringify(rows), JSON.stringify({ rows })]) {
+      expect(detectFormat(content)).toBe('json');
+      expect(parseDataset(content, 'test.json').observations).toMatchObject([
+        { sector: 'industrial', metro: null, quarter: '2025-Q1', metric: 'vacancyRate', value: 7 }
+      ]);
+    }
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Market fundamentals datasets
+ *
+ * A dataset has one row per sector, metro and quarter, with a column per metric:
+ *
+ *   sector,metro,quarter,vacancy,absorption,asking_rent,deliveries,cap_rate
+ *   office,,2025-Q2,14.1%,"16,809,000",$28.18,"5,870,000",6.8%
+ *   office,Dallas-Fort Worth,2025-Q2,18.2%,"1,250,000",$31.40,"410,000",7.1%
+ *
+ * The JSON form is an array of the same fields (or `{ "rows": [...] }`). Column
+ * names are matched loosely (vacancy_rate, Vacancy Rate and vacancyRate are the
+ * same), a blank metro is the national figure, metro aliases known to the
+ * gazetteer are resolved (DFW is Dallas-Fort Worth) and metrics left blank are not
+ * touched. Values may carry $, %, commas and a K/M/B suffix
+ */
+import { parseCsv } from '../csv';
+import { resolveMetro } from '../geography';
+import {
+  FundamentalMetric,
+  FundamentalObservation,
+  MARKET_SECTORS,
+  MarketSector,
+  normalizeMetro,
+  normalizeQuarter
+} from './fundamentals';
+
+export type DatasetFormat = 'csv' | 'json';
+
+export interface ParsedDataset {
+  observations: FundamentalObservation[];
+  // Rows read, including ones with problems
+  rows: number;
+  // Rows (1-based) that were skipped or only partly read, and why
+  problems: { row: number; reason: string }[];
+}
+
+// Column names (lowercase, letters and digits only) for each field
+const COLUMNS: Record<string, 'sector' | 'metro' | 'quarter' | FundamentalMetric> = {
+  sector: 'sector',
+  propertytype: 'sector',
+  metro: 'metro',
+  market: 'metro',
+  msa: 'metro',
+  quarter: 'quarter',
+  period: 'quarter',
+  vacancy: 'vacancyRate',
+  vacancyrate: 'vacancyRate',
+  absorption: 'absorption',
+  netabsorption: 'absorption',
+  askingrent: 'askingRent',
+  grossaskingrent: 'askingRent',
+  rent: 'askingRent',
+  deliveries: 'deliveries',
+  completions: 'deliveries',
+  completedconstruction: 'deliveries',
+  caprate: 'capRate',
+  inventory: 'inventory',
+  underconstruction: 'underConstruction'
+};
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Sector names (as column keys): each sector's own name, plus other names for some
+const SECTOR_NAMES: Record<string, MarketSector> = {
+  ...Object.fromEntries(MARKET_SECTORS.map(sector => [columnKey(sector), sector])),
+  apartment: 'multifamily',
+  apartments: 'multifamily',
+  multihousing: 'multifamily',
+  hotel: 'hospitality',
+  hotels: 'hospitality',
+  lodging: 'hospitality',
+  datacenters: 'data-center',
+  lifesciences: 'life-science',
+  storage: 'self-storage'
+};
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9 };
+
+/**
+ * A figure as a number: '$28.18', '14.1%', '16,809,000', '5.2M', '(1.2M)'
+ */
+export function parseFigure(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.replace(/[$,%\s]/g, '');
+  const match = text.match(/^(\()?(-?\d+(?:\.\d+)?)([kmb])?\)?$/i);
+  if (!match) return null;
+
+  const number = Number(match[2]) * (match[3] ? MULTIPLIERS[match[3].toLowerCase()] : 1);
+  return match[1] ? -number : number;
+}
+
+/**
+ * The metro a dataset or request means: the gazetteer name when it knows the
+ * metro ("DFW" -> "Dallas-Fort Worth"), otherwise the name as given; null for national
+ */
+export function resolveMarketMetro(name: string | undefined | null): string | null {
+  const metro = normalizeMetro(name);
+  return metro && (resolveMetro(metro) || metro);
+}
+
+/**
+ * Whether content looks like JSON rather than CSV
+ */
+export function detectFormat(content: string): DatasetFormat {
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+}
+
+/**
+ * Read a dataset into observations, without saving them
+ * @param source Recorded with every observation, e.g. the file name
+ */
+export function parseDataset(content: string, source: string, format: DatasetFormat = detectFormat(content)): ParsedDataset {
+  let rows: Record<string, unknown>[];
+  if (format === 'json') {
+    const data = JSON.parse(content) as Record<string, unknown>[] | { rows?: Record<string, unknown>[] };
+    rows = Array.isArray(data) ? data : data.rows || [];
+  } else {
+    rows = parseCsv(content);
+  }
+
+  const importedAt = new Date().toISOString();
+  const result: ParsedDataset = { observations: [], rows: rows.length, problems: [] };
+
+  rows.forEach((row, i) => {
+    const fields: Partial<Record<string, unknown>> = {};
+    for (const [name, value] of Object.entries(row)) {
+      const field = COLUMNS[columnKey(name)];
+      if (field && value !== '' && value !== null && value !== undefined) fields[field] = value;
+    }
+
+    const sector = SECTOR_NAMES[columnKey(String(fields.sector || ''))];
+    const quarter = normalizeQuarter(String(fields.quarter || ''));
+    if (!sector) {
+      result.problems.push({ row: i + 1, reason: `Unknown sector "${fields.sector ?? ''}"` });
+      return;
+    }
+    if (!quarter) {
+      result.problems.push({ row: i + 1, reason: `Unrecognised quarter "${fields.quarter ?? ''}"` });
+      return;
+    }
+
+    const metro = resolveMarketMetro(typeof fields.metro === 'string' ? fields.metro : '');
+    const before = result.observations.length;
+    const bad: string[] = [];
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (field === 'sector' || field === 'metro' || field === 'quarter') continue;
+      const figure = parseFigure(value);
+      if (figure === null) {
+        bad.push(`${field} "${value}"`);
+        continue;
+      }
+      result.observations.push({
+        sector,
+        metro,
+        quarter,
+        metric: field as FundamentalMetric,
+        value: figure,
+        source,
+        importedAt
+      });
+    }
+
+    if (bad.length > 0) {
+      result.problems.push({ row: i + 1, reason: `Left out unreadable ${bad.join(', ')}` });
+    } else if (result.observations.length === before) {
+      result.problems.push({ row: i + 1, reason: 'No metrics' });
+    }
+  });
+
+  return result;
+}
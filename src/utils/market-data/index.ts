@@ -0,0 +1,61 @@
+/**
+ * Market fundamentals
+ *
+ * Quarterly vacancy, absorption, rents, deliveries and cap rates by sector,
+ * nationally and by metro, imported from datasets (see import.ts) and kept with
+ * their quarter history. Read through creMarketData, which adds the
+ * quarter-over-quarter comparisons
+ */
+import logger from '../logger';
+import { getFundamentalsStore, FundamentalsQuery } from './fundamentals-store';
+import { DatasetFormat, ParsedDataset, parseDataset } from './import';
+import type { FundamentalObservation } from './fundamentals';
+
+export type { MarketSector, FundamentalMetric, FundamentalObservation, MetricInfo } from './fundamentals';
+export {
+  MARKET_SECTORS,
+  FUNDAMENTAL_METRICS,
+  METRIC_INFO,
+  isMarketSector,
+  isFundamentalMetric,
+  metricUnit,
+  normalizeQuarter,
+  previousQuarter,
+  quarterLabel,
+  normalizeMetro
+} from './fundamentals';
+export type { FundamentalsQuery, FundamentalsStore } from './fundamentals-store';
+export { getFundamentalsStore } from './fundamentals-store';
+export type { DatasetFormat, ParsedDataset } from './import';
+export { parseDataset, parseFigure, detectFormat, resolveMarketMetro } from './import';
+
+/**
+ * Read a dataset and save its figures
+ * @throws when there is no store to save to (ARTICLE_STORE=none) or the dataset can't be parsed
+ */
+export async function importDataset(content: string, source: string, format?: DatasetFormat): Promise<ParsedDataset> {
+  const store = getFundamentalsStore();
+  if (!store) {
+    throw new Error('Market fundamentals need a store; ARTICLE_STORE is none');
+  }
+
+  const parsed = parseDataset(content, source, format);
+  await store.save(parsed.observations);
+
+  logger.info({
+    event: 'market_fundamentals_imported',
+    source,
+    rows: parsed.rows,
+    observations: parsed.observations.length,
+    problems: parsed.problems.length
+  });
+  return parsed;
+}
+
+/**
+ * Stored figures matching a query; none when there is no store
+ */
+export async function getFundamentals(query: FundamentalsQuery): Promise<FundamentalObservation[]> {
+  const store = getFundamentalsStore();
+  return store ? store.read(query) : [];
+}
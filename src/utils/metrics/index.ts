@@ -0,0 +1,261 @@
+/**
+ * Server-side metrics
+ *
+ * One registry for scrapes of each source and for requests to each API route,
+ * persisted in the article store so the admin dashboard and Prometheus see the
+ * totals of every process. Read them at /api/admin/metrics (a summary for the
+ * dashboard) or /api/metrics (Prometheus text format)
+ */
+import { MetricsRegistry, MetricDefinition } from './registry';
+import { MetricRow, getMetricsStore } from './metrics-store';
+
+export type { MetricDefinition } from './registry';
+export type { MetricRow } from './metrics-store';
+
+export const SOURCE_REQUESTS = 'crenews_source_requests_total';
+export const SOURCE_DURATION = 'crenews_source_request_duration_seconds';
+export const SOURCE_ARTICLES = 'crenews_source_articles_total';
+export const HTTP_REQUESTS = 'crenews_http_requests_total';
+export const HTTP_DURATION = 'crenews_http_request_duration_seconds';
+
+export const metrics = new MetricsRegistry(getMetricsStore);
+
+metrics.define({
+  name: SOURCE_REQUESTS,
+  help: 'Requests to external sources (scrapes and data feeds) by outcome',
+  type: 'counter',
+  labelNames: ['source', 'status']
+});
+metrics.define({
+  name: SOURCE_DURATION,
+  help: 'Time taken by requests to external sources',
+  type: 'histogram',
+  labelNames: ['source'],
+  buckets: [0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+});
+metrics.define({
+  name: SOURCE_ARTICLES,
+  help: 'Articles returned by scrapes',
+  type: 'counter',
+  labelNames: ['source']
+});
+metrics.define({
+  name: HTTP_REQUESTS,
+  help: 'API requests by route, method and response status',
+  type: 'counter',
+  labelNames: ['route', 'method', 'status']
+});
+metrics.define({
+  name: HTTP_DURATION,
+  help: 'Time taken to answer API requests',
+  type: 'histogram',
+  labelNames: ['route', 'method'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+});
+
+/**
+ * Count a request to an external source
+ * @param durationMs How long it took, if known
+ * @param articleCount Articles it returned, for scrapes
+ */
+export function recordSourceRequest(
+  source: string,
+  status: 'ok' | 'error',
+  { durationMs, articleCount }: { durationMs?: number; articleCount?: number } = {}
+): void {
+  metrics.increment(SOURCE_REQUESTS, { source, status });
+  if (durationMs !== undefined) {
+    metrics.observe(SOURCE_DURATION, { source }, durationMs / 1000);
+  }
+  if (articleCount) {
+    metrics.increment(SOURCE_ARTICLES, { source }, articleCount);
+  }
+}
+
+/**
+ * Wrap an API route handler to count its requests by status and time them
+ * @param route The route's path pattern, e.g. '/api/market-data/[sector]'
+ */
+export function withRouteMetrics<A extends unknown[], R extends Response>(
+  route: string,
+  handler: (request: Request, ...rest: A) => Promise<R>
+): (request: Request, ...rest: A) => Promise<R> {
+  return async (request: Request, ...rest: A): Promise<R> => {
+    const startTime = Date.now();
+    let status = 500;
+
+    try {
+      const response = await handler(request, ...rest);
+      status = response.status;
+      return response;
+    } finally {
+      metrics.increment(HTTP_REQUESTS, { route, method: request.method, status: String(status) });
+      metrics.observe(HTTP_DURATION, { route, method: request.method }, (Date.now() - startTime) / 1000);
+    }
+  };
+}
+
+/**
+ * All metrics in the Prometheus text exposition format, summed over days
+ */
+export async function toPrometheusText(): Promise<string> {
+  const totals = new Map<string, { name: string; labels: Record<string, string>; value: number }>();
+  for (const row of await metrics.read()) {
+    const key = `${row.name}|${JSON.stringify(row.labels)}`;
+    const existing = totals.get(key);
+    if (existing) {
+      existing.value += row.value;
+    } else {
+      totals.set(key, { name: row.name, labels: row.labels, value: row.value });
+    }
+  }
+
+  const lines: string[] = [];
+  for (const definition of metrics.getDefinitions()) {
+    lines.push(`# HELP ${definition.name} ${definition.help}`);
+    lines.push(`# TYPE ${definition.name} ${definition.type}`);
+
+    const seriesNames = definition.type === 'histogram'
+      ? [`${definition.name}_bucket`, `${definition.name}_sum`, `${definition.name}_count`]
+      : [definition.name];
+    const series = [...totals.values()]
+      .filter(total => seriesNames.includes(total.name))
+      .sort((a, b) =>
+        seriesKey(a.labels, definition).localeCompare(seriesKey(b.labels, definition)) ||
+        seriesNames.indexOf(a.name) - seriesNames.indexOf(b.name) ||
+        bucketOrder(a.labels.le) - bucketOrder(b.labels.le)
+      );
+
+    for (const total of series) {
+      lines.push(`${total.name}${formatLabels(total.labels, definition)} ${total.value}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Request counts for the admin dashboard
+ */
+export interface MetricsSummary {
+  sources: {
+    source: string;
+    requests: number;
+    errors: number;
+    articles: number;
+    averageDurationMs?: number;
+  }[];
+  routes: {
+    route: string;
+    method: string;
+    requests: number;
+    // Responses with a 5xx status
+    errors: number;
+    statuses: Record<string, number>;
+    averageDurationMs?: number;
+  }[];
+  // Requests to sources per day, oldest first
+  sourceRequestsByDay: { day: string; requests: number; errors: number }[];
+  totals: {
+    sourceRequests: number;
+    sourceErrors: number;
+    articles: number;
+    apiRequests: number;
+  };
+}
+
+/**
+ * Totals per source and per route, and source requests for each of the last `days` days
+ */
+export async function getMetricsSummary(days = 14): Promise<MetricsSummary> {
+  const rows = await metrics.read();
+  const sum = (filter: (row: MetricRow) => boolean) => rows.filter(filter).reduce((total, row) => total + row.value, 0);
+
+  const sourceNames = [...new Set(rows.filter(row => row.name === SOURCE_REQUESTS).map(row => row.labels.source))].sort();
+  const sources = sourceNames.map(source => {
+    const count = sum(row => row.name === `${SOURCE_DURATION}_count` && row.labels.source === source);
+    const duration = sum(row => row.name === `${SOURCE_DURATION}_sum` && row.labels.source === source);
+    return {
+      source,
+      requests: sum(row => row.name === SOURCE_REQUESTS && row.labels.source === source),
+      errors: sum(row => row.name === SOURCE_REQUESTS && row.labels.source === source && row.labels.status === 'error'),
+      articles: sum(row => row.name === SOURCE_ARTICLES && row.labels.source === source),
+      ...(count > 0 && { averageDurationMs: Math.round((duration / count) * 1000) })
+    };
+  });
+
+  const routeKeys = new Map<string, { route: string; method: string }>();
+  rows.filter(row => row.name === HTTP_REQUESTS).forEach(row => {
+    routeKeys.set(`${row.labels.method} ${row.labels.route}`, { route: row.labels.route, method: row.labels.method });
+  });
+  const routes = [...routeKeys.values()].map(({ route, method }) => {
+    const matches = (row: MetricRow) => row.labels.route === route && row.labels.method === method;
+    const statuses: Record<string, number> = {};
+    rows.filter(row => row.name === HTTP_REQUESTS && matches(row)).forEach(row => {
+      statuses[row.labels.status] = (statuses[row.labels.status] || 0) + row.value;
+    });
+    const count = sum(row => row.name === `${HTTP_DURATION}_count` && matches(row));
+    const duration = sum(row => row.name === `${HTTP_DURATION}_sum` && matches(row));
+    return {
+      route,
+      method,
+      requests: Object.values(statuses).reduce((total, value) => total + value, 0),
+      errors: Object.entries(statuses).filter(([status]) => status.startsWith('5')).reduce((total, [, value]) => total + value, 0),
+      statuses,
+      ...(count > 0 && { averageDurationMs: Math.round((duration / count) * 1000) })
+    };
+  }).sort((a, b) => b.requests - a.requests);
+
+  const sourceRequestsByDay = getLastDays(days).map(day => ({
+    day,
+    requests: sum(row => row.name === SOURCE_REQUESTS && row.day === day),
+    errors: sum(row => row.name === SOURCE_REQUESTS && row.day === day && row.labels.status === 'error')
+  }));
+
+  return {
+    sources,
+    routes,
+    sourceRequestsByDay,
+    totals: {
+      sourceRequests: sum(row => row.name === SOURCE_REQUESTS),
+      sourceErrors: sum(row => row.name === SOURCE_REQUESTS && row.labels.status === 'error'),
+      articles: sum(row => row.name === SOURCE_ARTICLES),
+      apiRequests: sum(row => row.name === HTTP_REQUESTS)
+    }
+  };
+}
+
+/**
+ * Labels in the order they were defined (le last), e.g. {source="GlobeSt",status="ok"}
+ */
+function formatLabels(labels: Record<string, string>, definition: MetricDefinition): string {
+  const names = [...definition.labelNames, 'le'].filter(name => labels[name] !== undefined);
+  if (names.length === 0) return '';
+  return `{${names.map(name => `${name}="${escapeLabelValue(labels[name])}"`).join(',')}}`;
+}
+
+/**
+ * Key that groups a histogram's bucket, sum and count series together
+ */
+function seriesKey(labels: Record<string, string>, definition: MetricDefinition): string {
+  return definition.labelNames.map(name => labels[name] || '').join('\u0000');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function bucketOrder(le: string | undefined): number {
+  if (le === undefined) return 0;
+  return le === '+Inf' ? Infinity : Number(le);
+}
+
+/**
+ * UTC dates of the last n days, oldest first
+ */
+function getLastDays(days: number): string[] {
+  const today = Date.now();
+  return Array.from({ length: days }, (_, index) =>
+    new Date(today - (days - 1 - index) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
@@ -0,0 +1,196 @@
+/**
+ * Persistent metric series
+ *
+ * Every series is kept per UTC day and only ever incremented, so several
+ * processes (the server and the worker) can each add what they counted.
+ * Metrics live in the same store as the articles (see CONFIG.ARTICLE_STORE)
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Pool } from 'pg';
+import { createClient } from 'redis';
+import CONFIG from '../../config';
+import logger from '../logger';
+
+/**
+ * The value of one series on one day
+ */
+export interface MetricRow {
+  name: string;
+  labels: Record<string, string>;
+  // UTC date, YYYY-MM-DD
+  day: string;
+  value: number;
+}
+
+export interface MetricsStore {
+  // Add each row's value to what is stored
+  add(rows: MetricRow[]): Promise<void>;
+  read(): Promise<MetricRow[]>;
+}
+
+/**
+ * Labels as a string with sorted keys, so equal label sets compare equal
+ */
+export function serializeLabels(labels: Record<string, string>): string {
+  return JSON.stringify(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))));
+}
+
+class SqliteMetricsStore implements MetricsStore {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS metrics (
+        name TEXT NOT NULL,
+        labels TEXT NOT NULL,
+        day TEXT NOT NULL,
+        value REAL NOT NULL,
+        PRIMARY KEY (name, labels, day)
+      );
+    `);
+  }
+
+  async add(rows: MetricRow[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO metrics (name, labels, day, value) VALUES (?, ?, ?, ?)
+      ON CONFLICT (name, labels, day) DO UPDATE SET value = value + excluded.value
+    `);
+    this.db.transaction(() => {
+      for (const row of rows) {
+        insert.run(row.name, serializeLabels(row.labels), row.day, row.value);
+      }
+    })();
+  }
+
+  async read(): Promise<MetricRow[]> {
+    const rows = this.db.prepare('SELECT name, labels, day, value FROM metrics').all() as
+      { name: string; labels: string; day: string; value: number }[];
+    return rows.map(row => ({ ...row, labels: JSON.parse(row.labels) }));
+  }
+}
+
+class PostgresMetricsStore implements MetricsStore {
+  private readonly pool: Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+  }
+
+  async add(rows: MetricRow[]): Promise<void> {
+    await this.ensureSchema();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const row of rows) {
+        await client.query(
+          `INSERT INTO metrics (name, labels, day, value) VALUES ($1, $2, $3, $4)
+           ON CONFLICT (name, labels, day) DO UPDATE SET value = metrics.value + EXCLUDED.value`,
+          [row.name, serializeLabels(row.labels), row.day, row.value]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async read(): Promise<MetricRow[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query<{ name: string; labels: string; day: string; value: number }>(
+      'SELECT name, labels, day, value FROM metrics'
+    );
+    return result.rows.map(row => ({ ...row, labels: JSON.parse(row.labels), value: Number(row.value) }));
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS metrics (
+          name TEXT NOT NULL,
+          labels TEXT NOT NULL,
+          day TEXT NOT NULL,
+          value DOUBLE PRECISION NOT NULL,
+          PRIMARY KEY (name, labels, day)
+        );
+      `).then(() => undefined);
+    }
+    return this.schemaReady;
+  }
+}
+
+/**
+ * Redis keeps all series in one hash, one field per series and day
+ */
+class RedisMetricsStore implements MetricsStore {
+  private readonly client: ReturnType<typeof createClient>;
+  private connected: Promise<unknown> | null = null;
+  private readonly key: string;
+
+  constructor(url: string, prefix = 'crenews:') {
+    this.client = createClient({ url });
+    this.client.on('error', (err) => {
+      logger.error({ event: 'metrics_store_redis_error', error: err.message });
+    });
+    this.key = `${prefix}metrics`;
+  }
+
+  async add(rows: MetricRow[]): Promise<void> {
+    await this.connect();
+    for (const row of rows) {
+      await this.client.hIncrByFloat(this.key, JSON.stringify([row.name, serializeLabels(row.labels), row.day]), row.value);
+    }
+  }
+
+  async read(): Promise<MetricRow[]> {
+    await this.connect();
+    const fields = await this.client.hGetAll(this.key);
+    return Object.entries(fields).map(([field, value]) => {
+      const [name, labels, day] = JSON.parse(field) as [string, string, string];
+      return { name, labels: JSON.parse(labels), day, value: Number(value) };
+    });
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connected) {
+      this.connected = this.client.connect();
+    }
+    return this.connected;
+  }
+}
+
+let store: MetricsStore | null = null;
+
+/**
+ * Get the metrics store for the configured article store (created on first use)
+ * Returns null when ARTICLE_STORE is 'none'; metrics are then kept in memory only
+ */
+export function getMetricsStore(): MetricsStore | null {
+  if (store || CONFIG.ARTICLE_STORE === 'none') {
+    return store;
+  }
+
+  switch (CONFIG.ARTICLE_STORE) {
+    case 'redis':
+      store = new RedisMetricsStore(CONFIG.REDIS_URL);
+      break;
+    case 'postgres':
+      store = new PostgresMetricsStore(CONFIG.DATABASE_URL);
+      break;
+    default:
+      store = new SqliteMetricsStore(CONFIG.SQLITE_PATH);
+  }
+  return store;
+}
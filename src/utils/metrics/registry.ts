@@ -0,0 +1,124 @@
+/**
+ * Counters and histograms with labels
+ *
+ * Increments are collected in memory and flushed to the metrics store every few
+ * seconds. A histogram is stored as Prometheus stores it: a cumulative
+ * `<name>_bucket` series per upper bound, plus `<name>_sum` and `<name>_count`
+ */
+import logger from '../logger';
+import { MetricRow, MetricsStore, serializeLabels } from './metrics-store';
+
+export interface MetricDefinition {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+  labelNames: string[];
+  // Histogram bucket upper bounds, ascending
+  buckets?: number[];
+}
+
+const FLUSH_INTERVAL_MS = 15 * 1000;
+
+export class MetricsRegistry {
+  private readonly definitions = new Map<string, MetricDefinition>();
+  // Increments not yet in the store (everything, if there is no store)
+  private pending = new Map<string, MetricRow>();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly getStore: () => MetricsStore | null) {}
+
+  define(definition: MetricDefinition): void {
+    this.definitions.set(definition.name, definition);
+  }
+
+  getDefinitions(): MetricDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Add to a counter
+   */
+  increment(name: string, labels: Record<string, string>, value = 1): void {
+    this.getDefinition(name, 'counter');
+    this.add(name, labels, value);
+  }
+
+  /**
+   * Record a value in a histogram
+   */
+  observe(name: string, labels: Record<string, string>, value: number): void {
+    const definition = this.getDefinition(name, 'histogram');
+
+    for (const bound of definition.buckets || []) {
+      if (value <= bound) {
+        this.add(`${name}_bucket`, { ...labels, le: String(bound) }, 1);
+      }
+    }
+    this.add(`${name}_bucket`, { ...labels, le: '+Inf' }, 1);
+    this.add(`${name}_sum`, labels, value);
+    this.add(`${name}_count`, labels, 1);
+  }
+
+  /**
+   * Write pending increments to the store
+   * On failure they are kept and retried with the next flush
+   */
+  async flush(): Promise<void> {
+    const store = this.getStore();
+    if (!store || this.pending.size === 0) return;
+
+    const rows = [...this.pending.values()];
+    this.pending = new Map();
+
+    try {
+      await store.add(rows);
+    } catch (error) {
+      rows.forEach(row => this.add(row.name, row.labels, row.value, row.day));
+      logger.error({
+        event: 'metrics_flush_failed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Every series, per day, including increments from other processes
+   */
+  async read(): Promise<MetricRow[]> {
+    const store = this.getStore();
+    if (!store) return [...this.pending.values()];
+
+    await this.flush();
+    return await store.read();
+  }
+
+  private getDefinition(name: string, type: MetricDefinition['type']): MetricDefinition {
+    const definition = this.definitions.get(name);
+    if (!definition || definition.type !== type) {
+      throw new Error(`Unknown ${type}: ${name}`);
+    }
+    return definition;
+  }
+
+  private add(name: string, labels: Record<string, string>, value: number, day = new Date().toISOString().slice(0, 10)): void {
+    const key = `${day}|${name}|${serializeLabels(labels)}`;
+    const existing = this.pending.get(key);
+    if (existing) {
+      existing.value += value;
+    } else {
+      this.pending.set(key, { name, labels, day, value });
+    }
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer || !this.getStore()) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, FLUSH_INTERVAL_MS);
+    // Don't keep scripts alive just to flush metrics
+    this.flushTimer.unref?.();
+  }
+}
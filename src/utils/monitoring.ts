@@ -2,18 +2,23 @@
  * Monitoring utilities for scraper health and performance
  */
 import logger from './logger';
+import { recordSourceRequest } from './metrics';
 
 /**
  * Scraper metrics
  */
-interface ScraperMetrics {
+export interface ScraperMetrics {
   name: string;
   successCount: number;
   errorCount: number;
   lastRunTime: number | null;
   averageRunTime: number;
   totalArticles: number;
+  // Articles from the last successful run
+  lastArticleCount: number;
   lastRunDate: Date | null;
+  // Message of the last failed run, cleared by a successful one
+  lastError?: string;
   status: 'healthy' | 'warning' | 'error';
 }
 
@@ -36,6 +41,7 @@ class ScraperMonitor {
       lastRunTime: runTime,
       averageRunTime: this.calculateAverage(existing.averageRunTime, runTime, existing.successCount),
       totalArticles: existing.totalArticles + articlesCount,
+      lastArticleCount: articlesCount,
       lastRunDate: new Date(),
       status: 'healthy'
     };
@@ -70,6 +76,7 @@ class ScraperMonitor {
       ...existing,
       errorCount: existing.errorCount + 1,
       lastRunDate: new Date(),
+      lastError: error.message,
       status: 'error'
     };
     
@@ -97,6 +104,7 @@ class ScraperMonitor {
         lastRunTime: null,
         averageRunTime: 0,
         totalArticles: 0,
+        lastArticleCount: 0,
         lastRunDate: null,
         status: 'healthy'
       });
@@ -152,10 +160,12 @@ export async function withMonitoring<T>(
     
     // Record success
     scraperMonitor.recordSuccess(scraperName, runtime, results.length);
+    recordSourceRequest(scraperName, 'ok', { durationMs: runtime, articleCount: results.length });
     
     return results;
   } catch (error) {
     // Record error
+    recordSourceRequest(scraperName, 'error', { durationMs: Date.now() - startTime });
     scraperMonitor.recordError(
       scraperName, 
       error instanceof Error ? error : new Error(String(error))
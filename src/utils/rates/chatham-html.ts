@@ -0,0 +1,111 @@
+/**
+ * Chatham Financial HTML rates provider
+ *
+ * Parses the rate tables on Chatham's US market rates page: treasuries and SOFR
+ * swaps by tenor, overnight SOFR and the prime rate. Each table is found by its
+ * heading and read from its "Current" column
+ */
+import * as cheerio from 'cheerio';
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+import { httpClient } from '../http';
+import { CHATHAM_PAGE_URL } from './chatham-json';
+import { MarketRate, RatesProvider, createRate, kindOfIndexRate, normalizeTenor, toBps } from './market-rate';
+
+interface TableRow {
+  label: string;
+  value: string;
+}
+
+/**
+ * The first table after a heading containing any of the given texts
+ */
+function findTableByHeading($: CheerioAPI, headings: string[]): Cheerio<Element> | null {
+  for (const text of headings) {
+    const heading = $('h2, h3, h4')
+      .filter((_, el) => $(el).text().trim().toLowerCase().includes(text.toLowerCase()))
+      .first();
+    if (!heading.length) continue;
+
+    const table = heading.nextAll('table').first();
+    if (table.length) return table;
+    const nested = heading.parent().find('table').first();
+    if (nested.length) return nested;
+  }
+  return null;
+}
+
+/**
+ * Each row's label and the cell under its "Current" header (the second column if there is none)
+ */
+function readCurrentColumn($: CheerioAPI, table: Cheerio<Element>): TableRow[] {
+  const headers = table.find('tr').first().find('th, td').map((_, el) => $(el).text().trim()).get();
+  const headerIndex = headers.findIndex(header => /current/i.test(header));
+  const currentIdx = headerIndex === -1 ? 1 : headerIndex;
+
+  const rows = table.find('tbody tr').length ? table.find('tbody tr') : table.find('tr').slice(1);
+  const out: TableRow[] = [];
+  rows.each((_, tr) => {
+    const cells = $(tr).find('th, td');
+    const label = $(cells.get(0)).text().trim();
+    const value = $(cells.get(currentIdx)).text().trim().replace(/\s+/g, ' ');
+    if (label && value) out.push({ label, value });
+  });
+  return out;
+}
+
+export class ChathamHtmlProvider implements RatesProvider {
+  readonly id = 'chatham-html';
+
+  async getRates(): Promise<MarketRate[]> {
+    const response = await httpClient.fetch(CHATHAM_PAGE_URL, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+      },
+      cache: 'no-store',
+      timeoutMs: 15000
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch page: ${response.status} ${response.statusText}`);
+    }
+
+    return this.parse(await response.text(), new Date().toISOString());
+  }
+
+  /**
+   * Rates in the page's tables
+   */
+  parse(html: string, asOf: string): MarketRate[] {
+    const $ = cheerio.load(html);
+    const rates: MarketRate[] = [];
+
+    const addCurve = (kind: 'treasury' | 'sofr-swap', headings: string[]) => {
+      const table = findTableByHeading($, headings);
+      if (!table) return;
+      for (const row of readCurrentColumn($, table)) {
+        const tenor = normalizeTenor(row.label);
+        const valueBps = toBps(row.value);
+        if (tenor && valueBps !== null) rates.push(createRate(kind, tenor, valueBps, this.id, asOf));
+      }
+    };
+
+    const addIndex = (kind: 'sofr' | 'prime', headings: string[]) => {
+      const table = findTableByHeading($, headings);
+      if (!table) return;
+      const row = readCurrentColumn($, table).find(candidate => kindOfIndexRate(candidate.label) === kind);
+      const valueBps = row ? toBps(row.value) : null;
+      if (valueBps !== null) rates.push(createRate(kind, 'ON', valueBps, this.id, asOf));
+    };
+
+    addCurve('treasury', ['US Treasuries', 'Treasuries']);
+    addCurve('sofr-swap', ['Fixed Rate Swaps (SOFR)', 'SOFR Swaps', 'Swaps']);
+    addIndex('sofr', ['Overnight Rates', 'Overnight']);
+    addIndex('prime', ['Base Rates', 'Prime']);
+
+    if (rates.length === 0) {
+      throw new Error('No rate tables found on the Chatham page');
+    }
+    return rates;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Chatham Financial JSON rates provider
+ *
+ * Reads the JSON feed behind https://www.chathamfinancial.com/technology/us-market-rates
+ */
+import { httpClient } from '../http';
+import { MarketRate, RatesProvider, createRate, kindOfIndexRate, normalizeTenor, toBps } from './market-rate';
+
+export const CHATHAM_PAGE_URL = 'https://www.chathamfinancial.com/technology/us-market-rates';
+const API_URL = 'https://www.chathamfinancial.com/api/rates/us-market-rates';
+
+interface ChathamRateEntry {
+  tenor?: string;
+  name?: string;
+  // Percent, e.g. 4.35
+  rate?: number | string;
+  asOf?: string;
+}
+
+interface ChathamRatesResponse {
+  asOf?: string;
+  treasuries?: ChathamRateEntry[];
+  sofrSwapRates?: ChathamRateEntry[];
+  otherRates?: ChathamRateEntry[];
+}
+
+export class ChathamJsonProvider implements RatesProvider {
+  readonly id = 'chatham-json';
+
+  async getRates(): Promise<MarketRate[]> {
+    const response = await httpClient.fetch(API_URL, {
+      headers: {
+        'Accept': 'application/json',
+        'Referer': CHATHAM_PAGE_URL
+      },
+      cache: 'no-store',
+      timeoutMs: 15000
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch rates: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as ChathamRatesResponse;
+    const asOf = data.asOf || new Date().toISOString();
+    const rates: MarketRate[] = [];
+
+    const add = (entry: ChathamRateEntry, kind: 'treasury' | 'sofr-swap' | null) => {
+      const valueBps = toBps(entry.rate);
+      if (valueBps === null) return;
+      const label = entry.tenor || entry.name || '';
+
+      if (kind) {
+        const tenor = normalizeTenor(label);
+        if (tenor) rates.push(createRate(kind, tenor, valueBps, this.id, entry.asOf || asOf));
+        return;
+      }
+
+      if (!label) return;
+      rates.push(createRate(kindOfIndexRate(label) || 'other', 'ON', valueBps, this.id, entry.asOf || asOf, { label }));
+    };
+
+    data.treasuries?.forEach(entry => add(entry, 'treasury'));
+    data.sofrSwapRates?.forEach(entry => add(entry, 'sofr-swap'));
+    data.otherRates?.forEach(entry => add(entry, null));
+
+    if (rates.length === 0) {
+      throw new Error('No rates in the Chatham feed');
+    }
+    return rates;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Local file rates provider
+ *
+ * Serves rates from a CSV or JSON file (RATES_FILE) so the site works offline
+ * or when every live provider is down. Each row names a rate and gives its value:
+ *
+ *   name,rate,asOf
+ *   10-Year Treasury,4.35%,2025-06-30
+ *   5-Year SOFR Swap,3.98,2025-06-30
+ *   SOFR,5.31%,2025-06-30
+ *
+ * The JSON form is an array of the same fields (or `{ "rates": [...] }`). Rates
+ * are percentages unless suffixed with bp. Rows without an asOf use the file's
+ * modification time
+ */
+import fs from 'fs';
+import path from 'path';
+import CONFIG from '../../config';
+import { parseCsv } from '../csv';
+import { MarketRate, RatesProvider, createRate, kindOfIndexRate, normalizeTenor, toBps } from './market-rate';
+
+interface RateFileRow {
+  name?: string;
+  rate?: string | number;
+  asOf?: string;
+}
+
+/**
+ * Rows of a CSV file with a header line
+ */
+export function parseRatesCsv(content: string): RateFileRow[] {
+  return parseCsv(content).map(({ asof, ...row }) => ({ ...row, ...(asof && { asOf: asof }) }));
+}
+
+/**
+ * Turn a file row into a rate, working out the series from its name
+ */
+function toMarketRate(row: RateFileRow, source: string, defaultAsOf: string): MarketRate | null {
+  const name = row.name?.trim();
+  const valueBps = toBps(row.rate);
+  if (!name || valueBps === null) return null;
+
+  const asOf = row.asOf || defaultAsOf;
+  const tenor = normalizeTenor(name);
+  const lower = name.toLowerCase();
+
+  if (tenor && lower.includes('treasury')) return createRate('treasury', tenor, valueBps, source, asOf);
+  if (tenor && lower.includes('swap')) return createRate('sofr-swap', tenor, valueBps, source, asOf);
+  return createRate(kindOfIndexRate(name) || 'other', tenor || 'ON', valueBps, source, asOf, { label: name });
+}
+
+export class FileRatesProvider implements RatesProvider {
+  readonly id = 'file';
+
+  constructor(private readonly filePath = CONFIG.RATES_FILE) {}
+
+  async getRates(): Promise<MarketRate[]> {
+    const resolved = path.resolve(this.filePath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Rates file ${this.filePath} not found`);
+    }
+
+    const content = fs.readFileSync(resolved, 'utf8');
+    const modifiedAt = fs.statSync(resolved).mtime.toISOString();
+
+    let rows: RateFileRow[];
+    if (resolved.toLowerCase().endsWith('.json')) {
+      const data = JSON.parse(content) as RateFileRow[] | { rates?: RateFileRow[] };
+      rows = Array.isArray(data) ? data : data.rates || [];
+    } else {
+      rows = parseRatesCsv(content);
+    }
+
+    const rates = rows
+      .map(row => toMarketRate(row, this.id, modifiedAt))
+      .filter((rate): rate is MarketRate => rate !== null);
+    if (rates.length === 0) {
+      throw new Error(`No rates in ${this.filePath}`);
+    }
+    return rates;
+  }
+}
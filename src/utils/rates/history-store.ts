@@ -0,0 +1,288 @@
+/**
+ * Persistent rate history
+ *
+ * Every fetched rate is kept as a dated observation, one per series and day
+ * (a later fetch on the same day replaces the earlier one). History lives in
+ * the same store as the articles (see CONFIG.ARTICLE_STORE)
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Pool } from 'pg';
+import { createClient } from 'redis';
+import CONFIG from '../../config';
+import logger from '../logger';
+import type { RateKind } from './market-rate';
+
+/**
+ * One series' rate on one day
+ */
+export interface RateObservation {
+  // Series id, e.g. 'treasury-10y'
+  id: string;
+  name: string;
+  kind: RateKind;
+  tenor: string;
+  // Date the rate was set (from the provider's asOf), YYYY-MM-DD
+  day: string;
+  valueBps: number;
+  source: string;
+  // When it was fetched
+  observedAt: string;
+}
+
+export interface RateHistoryQuery {
+  // Only these series
+  ids?: string[];
+  // Only these curves or indexes
+  kinds?: RateKind[];
+  // Inclusive range of days, YYYY-MM-DD
+  from?: string;
+  to?: string;
+}
+
+export interface RateHistoryStore {
+  // Save observations, replacing any for the same series and day
+  save(observations: RateObservation[]): Promise<void>;
+  // Matching observations, oldest first
+  read(query: RateHistoryQuery): Promise<RateObservation[]>;
+}
+
+function matchesQuery(observation: RateObservation, query: RateHistoryQuery): boolean {
+  return (!query.ids || query.ids.includes(observation.id)) &&
+    (!query.kinds || query.kinds.includes(observation.kind)) &&
+    (!query.from || observation.day >= query.from) &&
+    (!query.to || observation.day <= query.to);
+}
+
+function byDay(a: RateObservation, b: RateObservation): number {
+  return a.day.localeCompare(b.day) || a.id.localeCompare(b.id);
+}
+
+/**
+ * SQL conditions for a query, with numbered ($1) or positional (?) placeholders
+ */
+function buildWhere(query: RateHistoryQuery, numbered: boolean): { where: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  const placeholder = () => numbered ? `$${params.length}` : '?';
+
+  const addList = (column: string, values: string[] | undefined) => {
+    if (!values) return;
+    const placeholders = values.map(value => {
+      params.push(value);
+      return placeholder();
+    });
+    conditions.push(placeholders.length ? `${column} IN (${placeholders.join(', ')})` : 'FALSE');
+  };
+
+  addList('id', query.ids);
+  addList('kind', query.kinds);
+  if (query.from) {
+    params.push(query.from);
+    conditions.push(`day >= ${placeholder()}`);
+  }
+  if (query.to) {
+    params.push(query.to);
+    conditions.push(`day <= ${placeholder()}`);
+  }
+
+  return { where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+interface ObservationRow {
+  id: string;
+  name: string;
+  kind: string;
+  tenor: string;
+  day: string;
+  value_bps: number;
+  source: string;
+  observed_at: string;
+}
+
+function fromRow(row: ObservationRow): RateObservation {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as RateKind,
+    tenor: row.tenor,
+    day: row.day,
+    valueBps: Number(row.value_bps),
+    source: row.source,
+    observedAt: row.observed_at
+  };
+}
+
+class SqliteRateHistoryStore implements RateHistoryStore {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS rate_history (
+        id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        tenor TEXT NOT NULL,
+        day TEXT NOT NULL,
+        value_bps REAL NOT NULL,
+        source TEXT NOT NULL,
+        observed_at TEXT NOT NULL,
+        PRIMARY KEY (id, day)
+      );
+      CREATE INDEX IF NOT EXISTS rate_history_day ON rate_history (day);
+    `);
+  }
+
+  async save(observations: RateObservation[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO rate_history (id, name, kind, tenor, day, value_bps, source, observed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      for (const o of observations) {
+        upsert.run(o.id, o.name, o.kind, o.tenor, o.day, o.valueBps, o.source, o.observedAt);
+      }
+    })();
+  }
+
+  async read(query: RateHistoryQuery): Promise<RateObservation[]> {
+    const { where, params } = buildWhere(query, false);
+    const rows = this.db.prepare(`SELECT * FROM rate_history ${where} ORDER BY day, id`)
+      .all(...params) as ObservationRow[];
+    return rows.map(fromRow);
+  }
+}
+
+class PostgresRateHistoryStore implements RateHistoryStore {
+  private readonly pool: Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+  }
+
+  async save(observations: RateObservation[]): Promise<void> {
+    await this.ensureSchema();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const o of observations) {
+        await client.query(
+          `INSERT INTO rate_history (id, name, kind, tenor, day, value_bps, source, observed_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           ON CONFLICT (id, day) DO UPDATE SET name = EXCLUDED.name, kind = EXCLUDED.kind, tenor = EXCLUDED.tenor,
+             value_bps = EXCLUDED.value_bps, source = EXCLUDED.source, observed_at = EXCLUDED.observed_at`,
+          [o.id, o.name, o.kind, o.tenor, o.day, o.valueBps, o.source, o.observedAt]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async read(query: RateHistoryQuery): Promise<RateObservation[]> {
+    await this.ensureSchema();
+    const { where, params } = buildWhere(query, true);
+    const result = await this.pool.query<ObservationRow>(`SELECT * FROM rate_history ${where} ORDER BY day, id`, params);
+    return result.rows.map(fromRow);
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS rate_history (
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          tenor TEXT NOT NULL,
+          day TEXT NOT NULL,
+          value_bps DOUBLE PRECISION NOT NULL,
+          source TEXT NOT NULL,
+          observed_at TEXT NOT NULL,
+          PRIMARY KEY (id, day)
+        );
+        CREATE INDEX IF NOT EXISTS rate_history_day ON rate_history (day);
+      `).then(() => undefined);
+    }
+    return this.schemaReady;
+  }
+}
+
+/**
+ * Redis keeps the history in one hash, one field per series and day
+ */
+class RedisRateHistoryStore implements RateHistoryStore {
+  private readonly client: ReturnType<typeof createClient>;
+  private connected: Promise<unknown> | null = null;
+  private readonly key: string;
+
+  constructor(url: string, prefix = 'crenews:') {
+    this.client = createClient({ url });
+    this.client.on('error', (err) => {
+      logger.error({ event: 'rate_history_redis_error', error: err.message });
+    });
+    this.key = `${prefix}rate-history`;
+  }
+
+  async save(observations: RateObservation[]): Promise<void> {
+    if (observations.length === 0) return;
+    await this.connect();
+    const fields: Record<string, string> = {};
+    for (const o of observations) {
+      fields[`${o.id}:${o.day}`] = JSON.stringify(o);
+    }
+    await this.client.hSet(this.key, fields);
+  }
+
+  async read(query: RateHistoryQuery): Promise<RateObservation[]> {
+    await this.connect();
+    const fields = await this.client.hGetAll(this.key);
+    return Object.values(fields)
+      .map(value => JSON.parse(String(value)) as RateObservation)
+      .filter(observation => matchesQuery(observation, query))
+      .sort(byDay);
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connected) {
+      this.connected = this.client.connect();
+    }
+    return this.connected;
+  }
+}
+
+let store: RateHistoryStore | null = null;
+
+/**
+ * Get the rate history store for the configured article store (created on first use)
+ * Returns null when ARTICLE_STORE is 'none'; rates are then not kept
+ */
+export function getRateHistoryStore(): RateHistoryStore | null {
+  if (store || CONFIG.ARTICLE_STORE === 'none') {
+    return store;
+  }
+
+  switch (CONFIG.ARTICLE_STORE) {
+    case 'redis':
+      store = new RedisRateHistoryStore(CONFIG.REDIS_URL);
+      break;
+    case 'postgres':
+      store = new PostgresRateHistoryStore(CONFIG.DATABASE_URL);
+      break;
+    default:
+      store = new SqliteRateHistoryStore(CONFIG.SQLITE_PATH);
+  }
+  return store;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { computeChanges, resolveSeriesIds, shiftDay } from './history';
+
+describe('computeChanges', () => {
+  it('compares the latest point with the last one on or before each earlier day', () => {
+    expect(computeChanges([
+      { day: '2024-05-03', valueBps: 460 },
+      // Weekend before the month-ago day
+      { day: '2025-04-04', valueBps: 420 },
+      { day: '2025-04-28', valueBps: 440.126 },
+      { day: '2025-05-05', valueBps: 430 },
+      { day: '2025-05-06', valueBps: 435 }
+    ])).toEqual({ day: 5, week: -5.13, month: 15, year: -25 });
+  });
+
+  it('leaves out changes with no point close enough to their day', () => {
+    expect(computeChanges([
+      { day: '2024-04-20', valueBps: 460 },
+      { day: '2025-05-06', valueBps: 435 }
+    ])).toEqual({});
+    expect(computeChanges([])).toEqual({});
+  });
+});
+
+describe('shiftDay', () => {
+  it('shifts by days, months and years in UTC', () => {
+    expect(shiftDay('2025-03-01', { days: -1 })).toBe('2025-02-28');
+    expect(shiftDay('2025-05-06', { months: -1 })).toBe('2025-04-06');
+    expect(shiftDay('2024-02-29', { years: -1 })).toBe('2023-03-01');
+  });
+});
+
+describe('resolveSeriesIds', () => {
+  it('reads series ids, names and bare tenors', () => {
+    expect(resolveSeriesIds(['treasury-10y', '10-Year Treasury', '5Y', 'Prime Rate', 'SOFR']))
+      .toEqual(['treasury-10y', 'treasury-10y', 'treasury-5y', 'prime', 'sofr']);
+    expect(resolveSeriesIds(['5y'], 'sofr-swap')).toEqual(['sofr-swap-5y']);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Rate history and changes
+ *
+ * Records every fetched rate in the history store and derives what the widget
+ * shows from it: day, week, month and year-over-year changes, per-series time
+ * series and the treasury and SOFR swap curves on a given day
+ */
+import logger from '../logger';
+import { MarketRate, RateChanges, RateKind } from './market-rate';
+import { RateObservation, getRateHistoryStore } from './history-store';
+
+export interface RateSeries {
+  id: string;
+  name: string;
+  kind: RateKind;
+  tenor: string;
+  points: { day: string; valueBps: number }[];
+  // Latest point against earlier ones
+  changes: RateChanges;
+}
+
+export interface CurvePoint {
+  tenor: string;
+  valueBps: number;
+  // The same tenor on the comparison date
+  compareBps?: number;
+}
+
+export interface RateCurve {
+  kind: 'treasury' | 'sofr-swap';
+  points: CurvePoint[];
+}
+
+export interface RateCurves {
+  // Days actually used: the latest with observations on or before the requested days
+  date: string | null;
+  compare: string | null;
+  curves: RateCurve[];
+  // Every day with curve observations, oldest first (for picking dates)
+  days: string[];
+}
+
+const CURVE_KINDS: RateCurve['kind'][] = ['treasury', 'sofr-swap'];
+
+// How stale an observation may be and still stand in for a target day (weekends, holidays)
+const MAX_GAP_DAYS = 7;
+
+/**
+ * UTC date of a timestamp or date, YYYY-MM-DD
+ */
+export function toDay(value: string | Date): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? new Date().toISOString().slice(0, 10) : date.toISOString().slice(0, 10);
+}
+
+/**
+ * A day shifted by whole days, months or years
+ */
+export function shiftDay(day: string, amount: { days?: number; months?: number; years?: number }): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  if (amount.years) date.setUTCFullYear(date.getUTCFullYear() + amount.years);
+  if (amount.months) date.setUTCMonth(date.getUTCMonth() + amount.months);
+  if (amount.days) date.setUTCDate(date.getUTCDate() + amount.days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Tenor length in months, for ordering a curve ('ON' first)
+ */
+function tenorMonths(tenor: string): number {
+  const match = tenor.match(/^(\d+)([YMW])$/);
+  if (!match) return 0;
+  const count = Number(match[1]);
+  return match[2] === 'Y' ? count * 12 : match[2] === 'M' ? count : count / 4;
+}
+
+/**
+ * The latest observation on or before a day, if it is at most MAX_GAP_DAYS older
+ * @param points One series, oldest first
+ */
+function observationOn<T extends { day: string }>(points: T[], day: string): T | undefined {
+  const earliest = shiftDay(day, { days: -MAX_GAP_DAYS });
+  for (let i = points.length - 1; i >= 0; i--) {
+    if (points[i].day <= day) {
+      return points[i].day >= earliest ? points[i] : undefined;
+    }
+  }
+  return undefined;
+}
+
+function roundBps(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Changes of a series' latest point against earlier points
+ * @param points One series, oldest first
+ */
+export function computeChanges(points: { day: string; valueBps: number }[]): RateChanges {
+  const latest = points[points.length - 1];
+  if (!latest) return {};
+
+  const changes: RateChanges = {};
+  const against = (reference: { valueBps: number } | undefined) =>
+    reference ? roundBps(latest.valueBps - reference.valueBps) : undefined;
+
+  changes.day = against(observationOn(points, shiftDay(latest.day, { days: -1 })));
+  changes.week = against(observationOn(points, shiftDay(latest.day, { days: -7 })));
+  changes.month = against(observationOn(points, shiftDay(latest.day, { months: -1 })));
+  changes.year = against(observationOn(points, shiftDay(latest.day, { years: -1 })));
+
+  for (const key of Object.keys(changes) as (keyof RateChanges)[]) {
+    if (changes[key] === undefined) delete changes[key];
+  }
+  return changes;
+}
+
+/**
+ * Save fetched rates as observations for the day each was set
+ * Failures are logged and never break serving rates
+ */
+export async function recordRates(rates: MarketRate[]): Promise<void> {
+  const store = getRateHistoryStore();
+  if (!store || rates.length === 0) return;
+
+  const observedAt = new Date().toISOString();
+  try {
+    await store.save(rates.map(rate => ({
+      id: rate.id,
+      name: rate.name,
+      kind: rate.kind,
+      tenor: rate.tenor,
+      day: toDay(rate.asOf),
+      valueBps: rate.valueBps,
+      source: rate.source,
+      observedAt
+    })));
+  } catch (error) {
+    logger.error({
+      event: 'rate_history_write_failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * Add changes computed from the stored history to each rate
+ * Rates are returned unchanged when there is no history store or it can't be read
+ */
+export async function withChanges(rates: MarketRate[]): Promise<MarketRate[]> {
+  const store = getRateHistoryStore();
+  if (!store || rates.length === 0) return rates;
+
+  try {
+    const latestDay = rates.map(rate => toDay(rate.asOf)).sort().slice(-1)[0];
+    const observations = await store.read({
+      ids: rates.map(rate => rate.id),
+      from: shiftDay(latestDay, { years: -1, days: -MAX_GAP_DAYS })
+    });
+
+    return rates.map(rate => {
+      const day = toDay(rate.asOf);
+      const points = observations
+        .filter(o => o.id === rate.id && o.day < day)
+        .map(o => ({ day: o.day, valueBps: o.valueBps }));
+      points.push({ day, valueBps: rate.valueBps });
+      return { ...rate, changes: computeChanges(points) };
+    });
+  } catch (error) {
+    logger.error({
+      event: 'rate_history_read_failed',
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return rates;
+  }
+}
+
+/**
+ * Group observations into series, oldest point first
+ */
+function toSeries(observations: RateObservation[]): RateSeries[] {
+  const byId = new Map<string, RateSeries>();
+  for (const o of observations) {
+    let series = byId.get(o.id);
+    if (!series) {
+      series = { id: o.id, name: o.name, kind: o.kind, tenor: o.tenor, points: [], changes: {} };
+      byId.set(o.id, series);
+    }
+    // The latest observation names the series
+    series.name = o.name;
+    series.points.push({ day: o.day, valueBps: o.valueBps });
+  }
+
+  return Array.from(byId.values()).map(series => ({ ...series, changes: computeChanges(series.points) }));
+}
+
+/**
+ * Series ids for what a caller asks for: a series id ('treasury-10y'), a name
+ * ('10-Year Treasury') or a bare tenor ('10Y', a treasury unless kind says otherwise)
+ */
+export function resolveSeriesIds(names: string[], kind?: RateKind): string[] {
+  return names.map(name => {
+    const text = name.trim().toLowerCase();
+    const tenor = text.match(/^(\d+)\s*([ymw])$/);
+    if (tenor) {
+      return `${kind && kind !== 'other' ? kind : 'treasury'}-${Number(tenor[1])}${tenor[2]}`;
+    }
+    return text.replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+      .replace(/^(\d+)-year-treasury$/, 'treasury-$1y')
+      .replace(/^(\d+)-year-sofr-swap$/, 'sofr-swap-$1y')
+      .replace(/^prime-rate$/, 'prime');
+  });
+}
+
+/**
+ * Stored time series for the given series ids
+ */
+export async function getRateHistory(ids: string[], from?: string, to?: string): Promise<RateSeries[]> {
+  const store = getRateHistoryStore();
+  if (!store) return [];
+  return toSeries(await store.read({ ids, from, to }));
+}
+
+/**
+ * The treasury and SOFR swap curves on a day, against a comparison day
+ * @param date Day to show; the latest observed day when missing
+ * @param compare Day to compare with; none when missing
+ */
+export async function getRateCurves(date?: string, compare?: string): Promise<RateCurves> {
+  const store = getRateHistoryStore();
+  if (!store) return { date: null, compare: null, curves: [], days: [] };
+
+  const observations = await store.read({ kinds: CURVE_KINDS });
+  const days = Array.from(new Set(observations.map(o => o.day))).sort();
+  const dayOn = (day: string | undefined) =>
+    day ? observationOn(days.map(d => ({ day: d })), day)?.day ?? null : days[days.length - 1] ?? null;
+
+  const curveDay = dayOn(date);
+  const compareDay = compare ? dayOn(compare) : null;
+
+  const curves = CURVE_KINDS.map(kind => {
+    const series = toSeries(observations.filter(o => o.kind === kind));
+    const points: CurvePoint[] = [];
+    for (const s of series) {
+      const current = curveDay ? s.points.find(p => p.day === curveDay) : undefined;
+      if (!current) continue;
+      const previous = compareDay ? s.points.find(p => p.day === compareDay) : undefined;
+      points.push(previous
+        ? { tenor: s.tenor, valueBps: current.valueBps, compareBps: previous.valueBps }
+        : { tenor: s.tenor, valueBps: current.valueBps });
+    }
+    points.sort((a, b) => tenorMonths(a.tenor) - tenorMonths(b.tenor));
+    return { kind, points };
+  });
+
+  return { date: curveDay, compare: compareDay, curves, days };
+}
@@ -0,0 +1,100 @@
+/**
+ * Market rates
+ *
+ * Rates come from a chain of providers (RATES_PROVIDERS) tried in order; the
+ * first to return rates wins and its answer is cached for RATES_CACHE_MINUTES.
+ * Each provider's attempts are counted in the source metrics. Fetched rates are
+ * added to the rate history, which their changes are computed from (see history.ts)
+ */
+import CONFIG from '../../config';
+import logger from '../logger';
+import { withCache } from '../cache';
+import { recordSourceRequest } from '../metrics';
+import { MarketRate, RatesProvider } from './market-rate';
+import { ChathamJsonProvider } from './chatham-json';
+import { ChathamHtmlProvider } from './chatham-html';
+import { FileRatesProvider } from './file-provider';
+import { recordRates, withChanges } from './history';
+
+export type { MarketRate, RatesProvider, RateKind, RateChanges } from './market-rate';
+export { RATE_KINDS, toBps, normalizeTenor, createRate } from './market-rate';
+export { ChathamJsonProvider } from './chatham-json';
+export { ChathamHtmlProvider } from './chatham-html';
+export { FileRatesProvider, parseRatesCsv } from './file-provider';
+export type { RateObservation, RateHistoryQuery, RateHistoryStore } from './history-store';
+export { getRateHistoryStore } from './history-store';
+export type { RateSeries, RateCurve, RateCurves, CurvePoint } from './history';
+export { getRateHistory, getRateCurves, resolveSeriesIds, computeChanges, recordRates, toDay, shiftDay } from './history';
+
+/**
+ * Rates and the provider that supplied them
+ */
+export interface MarketRatesResult {
+  rates: MarketRate[];
+  provider: string;
+  fetchedAt: string;
+}
+
+const PROVIDER_FACTORIES: Record<string, () => RatesProvider> = {
+  'chatham-json': () => new ChathamJsonProvider(),
+  'chatham-html': () => new ChathamHtmlProvider(),
+  'file': () => new FileRatesProvider()
+};
+
+let providers: RatesProvider[] | null = null;
+
+/**
+ * The configured provider chain, in order (created on first use)
+ * Unknown ids in RATES_PROVIDERS are logged and skipped
+ */
+export function getRatesProviders(): RatesProvider[] {
+  if (providers) return providers;
+
+  providers = [];
+  for (const id of CONFIG.RATES_PROVIDERS) {
+    const factory = PROVIDER_FACTORIES[id];
+    if (factory) {
+      providers.push(factory());
+    } else {
+      logger.warn({ event: 'unknown_rates_provider', provider: id });
+    }
+  }
+  return providers;
+}
+
+/**
+ * Ask each provider in turn until one returns rates, record them in the
+ * history and add their changes
+ * @throws When every provider fails
+ */
+export async function fetchMarketRates(): Promise<MarketRatesResult> {
+  const failures: string[] = [];
+
+  for (const provider of getRatesProviders()) {
+    const startTime = Date.now();
+    try {
+      const rates = await provider.getRates();
+      recordSourceRequest(`rates:${provider.id}`, 'ok', { durationMs: Date.now() - startTime });
+      logger.info({ event: 'market_rates_fetched', provider: provider.id, count: rates.length });
+
+      const withHistory = await withChanges(rates);
+      await recordRates(rates);
+      return { rates: withHistory, provider: provider.id, fetchedAt: new Date().toISOString() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      recordSourceRequest(`rates:${provider.id}`, 'error', { durationMs: Date.now() - startTime });
+      logger.warn({ event: 'market_rates_provider_failed', provider: provider.id, error: message });
+      failures.push(`${provider.id}: ${message}`);
+    }
+  }
+
+  throw new Error(failures.length ? `No rates provider succeeded (${failures.join('; ')})` : 'No rates providers configured');
+}
+
+/**
+ * Current market rates, cached for RATES_CACHE_MINUTES
+ * Failures aren't cached, so the next request tries the chain again
+ */
+export function getMarketRates(): Promise<MarketRatesResult> {
+  return withCache('market-rates', fetchMarketRates, CONFIG.RATES_CACHE_MINUTES * 60);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createRate, kindOfIndexRate, normalizeTenor, toBps } from './market-rate';
+
+describe('toBps', () => {
+  it.each([
+    [4.35, 435],
+    [0.0525, 5.25],
+    ['4.35%', 435],
+    [' 4.350 % ', 435],
+    ['-0.125', -12.5],
+    ['435bp', 435],
+    ['12.5 bps', 12.5],
+    ['1,250 bps', 1250]
+  ])('reads %j', (value, bps) => {
+    expect(toBps(value)).toBe(bps);
+  });
+
+  it.each([null, undefined, 'n/a', '', Number.NaN])('returns null for %j', value => {
+    expect(toBps(value)).toBeNull();
+  });
+});
+
+describe('normalizeTenor', () => {
+  it.each([
+    ['10-Year', '10Y'],
+    ['10 yr', '10Y'],
+    ['30 Years', '30Y'],
+    ['3M', '3M'],
+    ['1 Month Term', '1M'],
+    ['6 mos', '6M'],
+    ['2 Weeks', '2W'],
+    ['Overnight', 'ON'],
+    ['O/N', 'ON'],
+    ['05Y', '5Y']
+  ])('normalizes %s to %s', (label, tenor) => {
+    expect(normalizeTenor(label)).toBe(tenor);
+  });
+
+  it('returns null for a label without a tenor', () => {
+    expect(normalizeTenor('Prime Rate')).toBeNull();
+  });
+});
+
+describe('createRate', () => {
+  it('names series by kind and tenor', () => {
+    expect(createRate('treasury', '10Y', 435, 'test', '2025-05-06')).toMatchObject({
+      id: 'treasury-10y',
+      name: '10-Year Treasury'
+    });
+    expect(createRate('sofr', '1M', 430, 'test', '2025-05-06')).toMatchObject({ id: 'sofr', tenor: 'ON' });
+    expect(createRate('other', 'ON', 150, 'test', '2025-05-06', { label: 'Fed Funds (Effective)' }))
+      .toMatchObject({ id: 'fed-funds-effective', name: 'Fed Funds (Effective)' });
+  });
+});
+
+describe('kindOfIndexRate', () => {
+  it('only recognizes overnight SOFR and prime', () => {
+    expect(kindOfIndexRate('SOFR')).toBe('sofr');
+    expect(kindOfIndexRate('Overnight SOFR')).toBe('sofr');
+    expect(kindOfIndexRate('WSJ Prime Rate')).toBe('prime');
+    expect(kindOfIndexRate('30-Day Average SOFR')).toBeNull();
+  });
+});
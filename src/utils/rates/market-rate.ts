@@ -0,0 +1,144 @@
+/**
+ * Market rate model
+ *
+ * Every provider returns rates in this shape: numeric values in basis points,
+ * a normalized tenor and a stable id per series (e.g. `treasury-10y`), so rates
+ * from different providers can be compared and stored alike
+ */
+
+export const RATE_KINDS = ['treasury', 'sofr-swap', 'sofr', 'prime', 'other'] as const;
+export type RateKind = typeof RATE_KINDS[number];
+
+export interface MarketRate {
+  // Stable series id, e.g. 'treasury-10y', 'sofr-swap-5y', 'sofr', 'prime'
+  id: string;
+  // Display name, e.g. '10-Year Treasury'
+  name: string;
+  kind: RateKind;
+  // Normalized tenor: '1M', '2Y', '10Y'; 'ON' for overnight and base rates
+  tenor: string;
+  // Rate in basis points (4.35% is 435)
+  valueBps: number;
+  // Changes computed from the stored history (see history.ts)
+  changes?: RateChanges;
+  // When the provider says the rate was set (ISO date or timestamp)
+  asOf: string;
+  // Provider that returned it, e.g. 'chatham-json'
+  source: string;
+}
+
+/**
+ * Changes in basis points against the latest observation at least a day, a
+ * week, a month and a year earlier. Missing when there is no history that far back
+ */
+export interface RateChanges {
+  day?: number;
+  week?: number;
+  month?: number;
+  year?: number;
+}
+
+/**
+ * What every rates provider implements
+ */
+export interface RatesProvider {
+  // Id used in RATES_PROVIDERS
+  readonly id: string;
+  /**
+   * Current rates; throws when the provider can't be reached or returns none
+   */
+  getRates(): Promise<MarketRate[]>;
+}
+
+/**
+ * Convert a percentage (4.35, '4.35%') or basis points ('435bp', '435 bps') to basis points
+ * @returns null if the value isn't a number
+ */
+export function toBps(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? Math.round(value * 10000) / 100 : null;
+  }
+
+  const match = value.replace(/,/g, '').match(/(-?\d+(?:\.\d+)?)\s*(%|bps?\b)?/i);
+  if (!match) return null;
+  const number = Number(match[1]);
+  if (!Number.isFinite(number)) return null;
+  return match[2] && match[2] !== '%' ? number : Math.round(number * 10000) / 100;
+}
+
+/**
+ * Normalize a tenor label ('10-Year', '10 yr', '3M', 'Overnight') to '10Y', '3M' or 'ON'
+ * @returns null if the label has no tenor
+ */
+export function normalizeTenor(label: string): string | null {
+  const text = label.trim().toLowerCase();
+  if (/\b(overnight|o\/n)\b/.test(text)) return 'ON';
+
+  const match = text.match(/(\d+)\s*-?\s*(years?|yrs?|y|months?|mos?|m|weeks?|wks?|w)\b/);
+  if (!match) return null;
+  const unit = match[2][0] === 'y' ? 'Y' : match[2][0] === 'w' ? 'W' : 'M';
+  return `${Number(match[1])}${unit}`;
+}
+
+function describeTenor(tenor: string): string {
+  const match = tenor.match(/^(\d+)([YMW])$/);
+  if (!match) return tenor;
+  const unit = match[2] === 'Y' ? 'Year' : match[2] === 'M' ? 'Month' : 'Week';
+  return `${match[1]}-${unit}`;
+}
+
+/**
+ * Build a normalized rate for a series
+ * @param kind Which curve or index the rate belongs to
+ * @param tenor Normalized tenor (see normalizeTenor); ignored for SOFR and prime
+ * @param options.label Provider's own name, used for 'other' rates
+ */
+export function createRate(
+  kind: RateKind,
+  tenor: string,
+  valueBps: number,
+  source: string,
+  asOf: string,
+  options: { label?: string } = {}
+): MarketRate {
+  let id: string;
+  let name: string;
+
+  switch (kind) {
+    case 'treasury':
+      id = `treasury-${tenor.toLowerCase()}`;
+      name = `${describeTenor(tenor)} Treasury`;
+      break;
+    case 'sofr-swap':
+      id = `sofr-swap-${tenor.toLowerCase()}`;
+      name = `${describeTenor(tenor)} SOFR Swap`;
+      break;
+    case 'sofr':
+      id = 'sofr';
+      name = 'SOFR';
+      tenor = 'ON';
+      break;
+    case 'prime':
+      id = 'prime';
+      name = 'Prime Rate';
+      tenor = 'ON';
+      break;
+    default:
+      name = options.label || tenor;
+      id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  return { id, name, kind, tenor, valueBps, asOf, source };
+}
+
+/**
+ * Work out whether a provider's label names overnight SOFR or the prime rate
+ * @returns null for anything else (e.g. '30-Day Average SOFR')
+ */
+export function kindOfIndexRate(label: string): RateKind | null {
+  const text = label.trim().toLowerCase();
+  if (/\bprime\b/.test(text)) return 'prime';
+  if (/^sofr$/.test(text) || /\bovernight sofr\b/.test(text)) return 'sofr';
+  return null;
+}
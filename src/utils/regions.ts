@@ -1,17 +1,17 @@
-import { Region, State, RegionGroup } from '../../types/article';
+import { Article, Region, State, RegionGroup } from '../../types/article';
 
 export const regionGroups: RegionGroup[] = [
     {
         name: 'West',
-        states: ['California', 'Oregon', 'Washington', 'Alaska', 'Hawaii']
+        states: ['California', 'Oregon', 'Washington', 'Idaho', 'Montana', 'Wyoming', 'Alaska', 'Hawaii']
     },
     {
         name: 'Southwest',
-        states: ['Arizona', 'New Mexico', 'Nevada', 'Utah']
+        states: ['Arizona', 'New Mexico', 'Nevada', 'Utah', 'Colorado']
     },
     {
         name: 'Midwest',
-        states: ['North Dakota', 'South Dakota', 'Nebraska', 'Kansas', 'Minnesota', 'Iowa', 'Missouri', 'Illinois', 'Indiana', 'Michigan', 'Ohio']
+        states: ['North Dakota', 'South Dakota', 'Nebraska', 'Kansas', 'Minnesota', 'Iowa', 'Missouri', 'Illinois', 'Indiana', 'Michigan', 'Ohio', 'Wisconsin']
     },
     {
         name: 'South',
@@ -23,17 +23,19 @@ export const regionGroups: RegionGroup[] = [
     }
 ];
 
-const stateAbbreviations: { [key: string]: State } = {
+export const stateAbbreviations: { [key: string]: State } = {
     'AL': 'Alabama',
     'AK': 'Alaska',
     'AZ': 'Arizona',
     'AR': 'Arkansas',
     'CA': 'California',
+    'CO': 'Colorado',
     'CT': 'Connecticut',
     'DE': 'Delaware',
     'FL': 'Florida',
     'GA': 'Georgia',
     'HI': 'Hawaii',
+    'ID': 'Idaho',
     'IL': 'Illinois',
     'IN': 'Indiana',
     'IA': 'Iowa',
@@ -69,15 +71,13 @@ const stateAbbreviations: { [key: string]: State } = {
     'VT': 'Vermont',
     'VA': 'Virginia',
     'WA': 'Washington',
+    'DC': 'Washington, D.C.',
     'WV': 'West Virginia',
     'WI': 'Wisconsin',
     'WY': 'Wyoming'
 };
 
-const stateNames = Object.values(stateAbbreviations);
-const stateAbbreviationsList = Object.keys(stateAbbreviations);
-
-function getRegionForState(state: State): Region {
+export function getRegionForState(state: State): Region {
     for (const region of regionGroups) {
         if (region.states.includes(state)) {
             return region.name;
@@ -86,46 +86,51 @@ function getRegionForState(state: State): Region {
     return state;
 }
 
-export function detectRegion(title: string): Region {
-    // Convert to uppercase for easier matching
-    const upperTitle = title.toUpperCase();
-    
-    // Check for state names
-    for (const state of stateNames) {
-        if (upperTitle.includes(state.toUpperCase())) {
-            return state;
+export const allStates: State[] = Object.values(stateAbbreviations);
+
+/**
+ * Whether a value (any case) is 'National', a region group or a state
+ */
+export function isKnownRegion(value: string): boolean {
+    return resolveRegion(value) !== undefined;
+}
+
+/**
+ * The canonical name of 'National', a region group or a state given in any case,
+ * e.g. "texas" -> "Texas"
+ */
+export function resolveRegion(value: string): Region | undefined {
+    const lower = value.trim().toLowerCase();
+    const names: Region[] = ['National', ...regionGroups.map(group => group.name), ...allStates];
+    return names.find(name => name.toLowerCase() === lower);
+}
+
+/**
+ * Lowercased regions a region filter matches: a region group also matches each of
+ * its states, so "Northeast" finds articles tagged "New York"
+ */
+export function expandRegionFilter(regions: string[]): string[] {
+    const expanded = new Set(regions.map(region => region.toLowerCase()));
+    for (const group of regionGroups) {
+        if (expanded.has(group.name.toLowerCase())) {
+            group.states.forEach(state => expanded.add(state.toLowerCase()));
         }
     }
-    
-    // Check for state abbreviations
-    for (const abbr of stateAbbreviationsList) {
-        // Use word boundaries to avoid false matches (e.g., 'IN' in 'INDUSTRY')
-        const pattern = new RegExp(`\\b${abbr}\\b`);
-        if (pattern.test(upperTitle)) {
-            const state = stateAbbreviations[abbr];
-            return getRegionForState(state);
-        }
+    return [...expanded];
+}
+
+/**
+ * Every region an article belongs to: its own region (and that state's region group,
+ * if it is a state) plus the state and region group of each place it mentions
+ */
+export function getArticleRegions(article: Pick<Article, 'region' | 'locations'>): Region[] {
+    const regions = new Set<Region>([article.region]);
+    if (allStates.includes(article.region as State)) {
+        regions.add(getRegionForState(article.region as State));
     }
-    
-    // Common city-state combinations
-    const cityStatePatterns = [
-        { pattern: /\b(NEW YORK CITY|NYC)\b/, state: 'New York' },
-        { pattern: /\b(LOS ANGELES|LA)\b/, state: 'California' },
-        { pattern: /\b(SAN FRANCISCO|SF)\b/, state: 'California' },
-        { pattern: /\bDC\b/, state: 'National' },
-        { pattern: /\b(CHICAGO)\b/, state: 'Illinois' },
-        { pattern: /\b(MIAMI)\b/, state: 'Florida' },
-        { pattern: /\b(BOSTON)\b/, state: 'Massachusetts' },
-        { pattern: /\b(SEATTLE)\b/, state: 'Washington' },
-        { pattern: /\b(AUSTIN|DALLAS|HOUSTON)\b/, state: 'Texas' }
-    ];
-    
-    for (const { pattern, state } of cityStatePatterns) {
-        if (pattern.test(upperTitle)) {
-            return state as State;
-        }
+    for (const location of article.locations || []) {
+        if (location.state) regions.add(location.state);
+        regions.add(location.region);
     }
-    
-    // Default to National if no specific state is found
-    return 'National';
+    return [...regions];
 }
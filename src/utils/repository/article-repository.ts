@@ -0,0 +1,130 @@
+/**
+ * Article Repository
+ *
+ * Storage-agnostic interface for the persistent article history. Every
+ * scraped article is upserted by canonical URL so it survives cache expiry,
+ * and the history can be paged by when articles were seen
+ */
+import { Article } from '../../../types/article';
+import { canonicalizeUrl } from '../url';
+
+/**
+ * An article as kept in the store
+ */
+export interface StoredArticle extends Article {
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Sort orders for reading articles
+ * - 'firstSeen': most recently discovered first (the history default)
+ * - 'newest' / 'oldest': by publishedAt; undated articles always sort last
+ * - 'source': by source name, newest first within a source
+ */
+export type ArticleSort = 'firstSeen' | 'newest' | 'oldest' | 'source';
+
+export const ARTICLE_SORTS: ArticleSort[] = ['firstSeen', 'newest', 'oldest', 'source'];
+
+/**
+ * Filters and paging for reading the history
+ */
+export interface ArticleQuery {
+  // Case-insensitive match against the source name; a list matches any of them
+  source?: string | string[];
+  // Region group, state or 'National' (case-insensitive); a list matches any of them.
+  // A region group also matches its states, and a state matches articles mentioning a place in it
+  region?: string | string[];
+  // Articles tagged with any of these property types / deal types
+  propertyType?: string | string[];
+  dealType?: string | string[];
+  // Articles mentioning any of these metros (canonical gazetteer names, case-insensitive)
+  metro?: string | string[];
+  // Only articles seen during this window (ISO dates or timestamps)
+  seenFrom?: string;
+  seenTo?: string;
+  // Only articles published during this window; undated articles are excluded
+  publishedFrom?: string;
+  publishedTo?: string;
+  // Only articles first seen after this timestamp
+  firstSeenAfter?: string;
+  sort?: ArticleSort;
+  // Also count matching articles per source, region and metro
+  facets?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Article counts per source, region and metro
+ * Each facet ignores its own filter, so every source (or region) shows how
+ * many articles selecting it would add
+ */
+export interface ArticleFacets {
+  source: Record<string, number>;
+  // Keyed by region group, state and 'National'; a region group's count includes its states
+  region: Record<string, number>;
+  // Keyed by canonical metro name
+  metro: Record<string, number>;
+}
+
+export interface ArticlePage {
+  articles: StoredArticle[];
+  total: number;
+  facets?: ArticleFacets;
+}
+
+export interface ArticleRepository {
+  // Insert new articles and refresh existing ones, returning how many were written
+  upsertMany(articles: Article[], seenAt?: Date): Promise<number>;
+  findByUrl(url: string): Promise<StoredArticle | null>;
+  // Newest first by firstSeenAt unless the query sorts otherwise
+  query(query?: ArticleQuery): Promise<ArticlePage>;
+  close(): Promise<void>;
+}
+
+/**
+ * Key an article is stored under
+ */
+export function getArticleKey(article: Pick<Article, 'url'>): string {
+  return canonicalizeUrl(article.url);
+}
+
+/**
+ * Article data as persisted - provenance, highlights and story clusters describe a
+ * single response, so they are not stored
+ */
+export function toStoredData(
+  article: Article
+): Omit<Article, 'provenance' | 'highlights' | 'storyId' | 'alsoCoveredBy' | 'firstSeenAt' | 'lastSeenAt'> {
+  const data = { ...article };
+  delete data.provenance;
+  delete data.highlights;
+  delete data.storyId;
+  delete data.alsoCoveredBy;
+  delete data.firstSeenAt;
+  delete data.lastSeenAt;
+  return data;
+}
+
+/**
+ * Resolve an upper date bound (seenTo, publishedTo); a bare date means the end of that day
+ */
+export function resolveSeenTo(seenTo: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(seenTo) ? `${seenTo}T23:59:59.999Z` : new Date(seenTo).toISOString();
+}
+
+/**
+ * Resolve a lower date bound (seenFrom, publishedFrom) to an ISO timestamp
+ */
+export function resolveSeenFrom(seenFrom: string): string {
+  return new Date(seenFrom).toISOString();
+}
+
+/**
+ * Normalize a single or multi-value filter to a lowercase list
+ */
+export function toFilterList(value?: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return values.map(item => item.trim().toLowerCase()).filter(Boolean);
+}
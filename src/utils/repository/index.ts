@@ -0,0 +1,58 @@
+import { Article } from '../../../types/article';
+import CONFIG from '../../config';
+import logger from '../logger';
+import { ArticleRepository } from './article-repository';
+import { SqliteArticleRepository } from './sqlite-repository';
+import { RedisArticleRepository } from './redis-repository';
+import { PostgresArticleRepository } from './postgres-repository';
+
+export type { ArticleRepository, ArticleQuery, ArticlePage, ArticleFacets, ArticleSort, StoredArticle } from './article-repository';
+export { ARTICLE_SORTS } from './article-repository';
+
+let repository: ArticleRepository | null = null;
+
+/**
+ * Get the configured article store (created on first use)
+ * Returns null when ARTICLE_STORE is 'none'
+ */
+export function getArticleRepository(): ArticleRepository | null {
+  if (repository || CONFIG.ARTICLE_STORE === 'none') {
+    return repository;
+  }
+
+  switch (CONFIG.ARTICLE_STORE) {
+    case 'redis':
+      repository = new RedisArticleRepository(CONFIG.REDIS_URL);
+      break;
+    case 'postgres':
+      repository = new PostgresArticleRepository(CONFIG.DATABASE_URL);
+      break;
+    default:
+      repository = new SqliteArticleRepository(CONFIG.SQLITE_PATH);
+  }
+
+  logger.info({ event: 'article_store_opened', store: CONFIG.ARTICLE_STORE });
+  return repository;
+}
+
+/**
+ * Save scraped articles to the store
+ * Failures are logged and never break scraping
+ */
+export async function persistArticles(articles: Article[], source: string): Promise<void> {
+  if (articles.length === 0) return;
+
+  try {
+    const store = getArticleRepository();
+    if (!store) return;
+
+    const written = await store.upsertMany(articles);
+    logger.debug({ event: 'articles_persisted', site: source, count: written });
+  } catch (error) {
+    logger.error({
+      event: 'article_store_write_failed',
+      site: source,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
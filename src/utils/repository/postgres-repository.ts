@@ -0,0 +1,229 @@
+import { Pool } from 'pg';
+import { Article, ArticleLocation, Region } from '../../../types/article';
+import {
+  ArticleRepository,
+  ArticleQuery,
+  ArticlePage,
+  ArticleFacets,
+  ArticleSort,
+  StoredArticle,
+  getArticleKey,
+  toStoredData,
+  resolveSeenFrom,
+  resolveSeenTo,
+  toFilterList
+} from './article-repository';
+import { countRegions } from '../article-query';
+import { expandRegionFilter } from '../regions';
+
+// ORDER BY clause for each sort; undated articles sort last
+const ORDER_BY: Record<ArticleSort, string> = {
+  firstSeen: 'first_seen_at DESC, canonical_url',
+  newest: "data->>'publishedAt' DESC NULLS LAST, first_seen_at DESC, canonical_url",
+  oldest: "data->>'publishedAt' ASC NULLS LAST, first_seen_at ASC, canonical_url",
+  source: "LOWER(source), data->>'publishedAt' DESC NULLS LAST, canonical_url"
+};
+
+interface ArticleRow {
+  data: Article;
+  first_seen_at: Date;
+  last_seen_at: Date;
+}
+
+/**
+ * Postgres article store
+ * Same layout as the SQLite store, with the article kept as JSONB
+ */
+export class PostgresArticleRepository implements ArticleRepository {
+  private readonly pool: Pool;
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({ connectionString });
+  }
+
+  async upsertMany(articles: Article[], seenAt = new Date()): Promise<number> {
+    await this.ensureSchema();
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      for (const article of articles) {
+        // jsonb || keeps previously stored fields the new scrape did not provide
+        await client.query(
+          `INSERT INTO articles (canonical_url, source, region, data, first_seen_at, last_seen_at)
+           VALUES ($1, $2, $3, $4, $5, $5)
+           ON CONFLICT (canonical_url) DO UPDATE SET
+             source = EXCLUDED.source,
+             region = EXCLUDED.region,
+             data = articles.data || EXCLUDED.data,
+             last_seen_at = EXCLUDED.last_seen_at`,
+          [getArticleKey(article), article.source, article.region, JSON.stringify(toStoredData(article)), seenAt]
+        );
+      }
+      await client.query('COMMIT');
+      return articles.length;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async findByUrl(url: string): Promise<StoredArticle | null> {
+    await this.ensureSchema();
+    const result = await this.pool.query<ArticleRow>(
+      'SELECT data, first_seen_at, last_seen_at FROM articles WHERE canonical_url = $1',
+      [getArticleKey({ url })]
+    );
+    return result.rows[0] ? this.fromRow(result.rows[0]) : null;
+  }
+
+  async query(query: ArticleQuery = {}): Promise<ArticlePage> {
+    await this.ensureSchema();
+    const { where, params } = this.buildWhere(query);
+    const countResult = await this.pool.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM articles ${where}`,
+      params
+    );
+
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    const result = await this.pool.query<ArticleRow>(
+      `SELECT data, first_seen_at, last_seen_at FROM articles ${where}
+       ORDER BY ${ORDER_BY[query.sort ?? 'firstSeen']}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return {
+      articles: result.rows.map(row => this.fromRow(row)),
+      total: Number(countResult.rows[0].total),
+      ...(query.facets && {
+        facets: {
+          source: await this.countBy('source', query),
+          region: await this.countBy('region', query),
+          metro: await this.countBy('metro', query)
+        }
+      })
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS articles (
+          canonical_url TEXT PRIMARY KEY,
+          source TEXT NOT NULL,
+          region TEXT NOT NULL,
+          data JSONB NOT NULL,
+          first_seen_at TIMESTAMPTZ NOT NULL,
+          last_seen_at TIMESTAMPTZ NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_articles_first_seen ON articles (first_seen_at);
+        CREATE INDEX IF NOT EXISTS idx_articles_last_seen ON articles (last_seen_at);
+        CREATE INDEX IF NOT EXISTS idx_articles_source ON articles (source);
+      `).then(() => undefined);
+    }
+    return this.schemaReady;
+  }
+
+  /**
+   * Build the WHERE clause for a query
+   * @param ignore Filter to skip, used when counting that field's facet
+   */
+  private buildWhere(query: ArticleQuery, ignore?: keyof ArticleFacets): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const sources = ignore === 'source' ? [] : toFilterList(query.source);
+    if (sources.length > 0) {
+      params.push(sources.map(source => `%${source}%`));
+      conditions.push(`LOWER(source) LIKE ANY($${params.length})`);
+    }
+    const regions = ignore === 'region' ? [] : expandRegionFilter(toFilterList(query.region));
+    if (regions.length > 0) {
+      params.push(regions);
+      conditions.push(
+        `(LOWER(region) = ANY($${params.length}) OR EXISTS (SELECT 1 FROM jsonb_array_elements(COALESCE(data->'locations', '[]'::jsonb)) AS location WHERE LOWER(location->>'state') = ANY($${params.length})))`
+      );
+    }
+    for (const field of ['propertyType', 'dealType'] as const) {
+      const values = toFilterList(query[field]);
+      if (values.length === 0) continue;
+      params.push(values);
+      conditions.push(`data->'${field}s' ?| $${params.length}::text[]`);
+    }
+    const metros = ignore === 'metro' ? [] : toFilterList(query.metro);
+    if (metros.length > 0) {
+      params.push(metros);
+      conditions.push(
+        `EXISTS (SELECT 1 FROM jsonb_array_elements(COALESCE(data->'locations', '[]'::jsonb)) AS location WHERE LOWER(location->>'metro') = ANY($${params.length}))`
+      );
+    }
+    if (query.seenFrom) {
+      params.push(resolveSeenFrom(query.seenFrom));
+      conditions.push(`last_seen_at >= $${params.length}`);
+    }
+    if (query.seenTo) {
+      params.push(resolveSeenTo(query.seenTo));
+      conditions.push(`first_seen_at <= $${params.length}`);
+    }
+    if (query.publishedFrom) {
+      params.push(resolveSeenFrom(query.publishedFrom));
+      conditions.push(`data->>'publishedAt' >= $${params.length}`);
+    }
+    if (query.publishedTo) {
+      params.push(resolveSeenTo(query.publishedTo));
+      conditions.push(`data->>'publishedAt' <= $${params.length}`);
+    }
+    if (query.firstSeenAfter) {
+      params.push(resolveSeenFrom(query.firstSeenAfter));
+      conditions.push(`first_seen_at > $${params.length}`);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private async countBy(field: keyof ArticleFacets, query: ArticleQuery): Promise<Record<string, number>> {
+    const { where, params } = this.buildWhere(query, field);
+    if (field === 'region') {
+      // Articles count towards the regions of the places they mention too
+      const result = await this.pool.query<{ region: Region; locations: ArticleLocation[] | null }>(
+        `SELECT region, data->'locations' AS locations FROM articles ${where}`,
+        params
+      );
+      return countRegions(result.rows.map(row => ({ region: row.region, locations: row.locations || [] })));
+    }
+    if (field === 'metro') {
+      // Locations are one per metro, so each article counts once per metro
+      const result = await this.pool.query<{ value: string; count: string }>(
+        `SELECT location->>'metro' AS value, COUNT(*) AS count
+         FROM (SELECT data FROM articles ${where}) AS matching,
+           jsonb_array_elements(COALESCE(matching.data->'locations', '[]'::jsonb)) AS location
+         WHERE location->>'metro' IS NOT NULL
+         GROUP BY location->>'metro'`,
+        params
+      );
+      return Object.fromEntries(result.rows.map(row => [row.value, Number(row.count)]));
+    }
+    const result = await this.pool.query<{ value: string; count: string }>(
+      `SELECT ${field} AS value, COUNT(*) AS count FROM articles ${where} GROUP BY ${field}`,
+      params
+    );
+    return Object.fromEntries(result.rows.map(row => [row.value, Number(row.count)]));
+  }
+
+  private fromRow(row: ArticleRow): StoredArticle {
+    return {
+      ...row.data,
+      firstSeenAt: row.first_seen_at.toISOString(),
+      lastSeenAt: row.last_seen_at.toISOString()
+    };
+  }
+}
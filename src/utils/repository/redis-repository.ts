@@ -0,0 +1,97 @@
+import { createClient } from 'redis';
+import { Article } from '../../../types/article';
+import logger from '../logger';
+import { queryArticles } from '../article-query';
+import {
+  ArticleRepository,
+  ArticleQuery,
+  ArticlePage,
+  StoredArticle,
+  getArticleKey,
+  toStoredData
+} from './article-repository';
+
+/**
+ * Redis article store
+ * Each article is a JSON string, indexed by a sorted set on firstSeenAt.
+ * Filters are applied in memory, which is fine for a few months of history
+ */
+export class RedisArticleRepository implements ArticleRepository {
+  private readonly client: ReturnType<typeof createClient>;
+  private connected: Promise<unknown> | null = null;
+  private readonly indexKey: string;
+
+  constructor(url: string, private readonly prefix = 'crenews:') {
+    this.client = createClient({ url });
+    this.client.on('error', (err) => {
+      logger.error({ event: 'article_store_redis_error', error: err.message });
+    });
+    this.indexKey = `${prefix}articles:by-first-seen`;
+  }
+
+  async upsertMany(articles: Article[], seenAt = new Date()): Promise<number> {
+    await this.connect();
+    const seenAtIso = seenAt.toISOString();
+
+    for (const article of articles) {
+      const key = getArticleKey(article);
+      const existing = await this.get(key);
+      const stored: StoredArticle = {
+        ...(existing || {}),
+        ...toStoredData(article),
+        firstSeenAt: existing?.firstSeenAt || seenAtIso,
+        lastSeenAt: seenAtIso
+      };
+
+      await this.client.set(this.articleKey(key), JSON.stringify(stored));
+      if (!existing) {
+        await this.client.zAdd(this.indexKey, { score: seenAt.getTime(), value: key });
+      }
+    }
+
+    return articles.length;
+  }
+
+  async findByUrl(url: string): Promise<StoredArticle | null> {
+    await this.connect();
+    return await this.get(getArticleKey({ url }));
+  }
+
+  async query(query: ArticleQuery = {}): Promise<ArticlePage> {
+    await this.connect();
+    const keys = await this.client.zRange(this.indexKey, 0, -1, { REV: true });
+    if (keys.length === 0) {
+      return queryArticles([], query);
+    }
+
+    const values = await this.client.mGet(keys.map(key => this.articleKey(key)));
+    const articles = values
+      .filter((value): value is string => Boolean(value))
+      .map(value => JSON.parse(value) as StoredArticle);
+
+    return queryArticles(articles, { ...query, limit: query.limit ?? 50 });
+  }
+
+  async close(): Promise<void> {
+    if (this.connected) {
+      await this.client.quit();
+      this.connected = null;
+    }
+  }
+
+  private connect(): Promise<unknown> {
+    if (!this.connected) {
+      this.connected = this.client.connect();
+    }
+    return this.connected;
+  }
+
+  private articleKey(key: string): string {
+    return `${this.prefix}article:${key}`;
+  }
+
+  private async get(key: string): Promise<StoredArticle | null> {
+    const value = await this.client.get(this.articleKey(key));
+    return value ? (JSON.parse(value) as StoredArticle) : null;
+  }
+}
@@ -0,0 +1,93 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { Article } from '../../../types/article';
+import { SqliteArticleRepository } from './sqlite-repository';
+
+const repository = new SqliteArticleRepository(':memory:');
+
+const office: Article = {
+  title: 'Manhattan Office Tower Trades',
+  url: 'https://www.bisnow.com/new-york/news/office/manhattan-tower-trades?utm_source=email',
+  publishedDate: 'May 05, 2025',
+  publishedAt: '2025-05-05T00:00:00.000Z',
+  source: 'Bisnow',
+  region: 'New York',
+  propertyTypes: ['office'],
+  dealTypes: ['sale'],
+  locations: [{ mention: 'Manhattan', metro: 'New York', state: 'New York', region: 'Northeast', confidence: 1 }]
+};
+const warehouse: Article = {
+  title: 'Dallas Warehouse Leased',
+  url: 'https://www.globest.com/2025/05/06/dallas-warehouse-leased/',
+  publishedDate: 'May 06, 2025',
+  publishedAt: '2025-05-06T00:00:00.000Z',
+  source: 'GlobeSt',
+  region: 'National',
+  propertyTypes: ['industrial'],
+  dealTypes: ['lease'],
+  locations: [{ mention: 'Dallas', metro: 'Dallas-Fort Worth', state: 'Texas', region: 'South', confidence: 1 }]
+};
+const undated: Article = {
+  title: 'Retail Outlook',
+  url: 'https://www.connectcre.com/stories/retail-outlook/',
+  publishedDate: '',
+  source: 'ConnectCRE',
+  region: 'California'
+};
+
+beforeAll(async () => {
+  await repository.upsertMany([office, warehouse], new Date('2025-05-06T12:00:00Z'));
+  await repository.upsertMany([undated], new Date('2025-05-07T12:00:00Z'));
+});
+
+afterAll(async () => {
+  await repository.close();
+});
+
+describe('SqliteArticleRepository', () => {
+  it('keeps first seen, updates last seen and keeps fields a later scrape left out', async () => {
+    await repository.upsertMany(
+      [{ ...office, url: 'https://bisnow.com/new-york/news/office/manhattan-tower-trades', summary: 'Sold for $1B.', provenance: 'live' }],
+      new Date('2025-05-08T12:00:00Z')
+    );
+    await repository.upsertMany([{ ...office, propertyTypes: undefined }], new Date('2025-05-09T12:00:00Z'));
+
+    const stored = await repository.findByUrl(office.url);
+    expect(stored).toMatchObject({
+      summary: 'Sold for $1B.',
+      propertyTypes: ['office'],
+      firstSeenAt: '2025-05-06T12:00:00.000Z',
+      lastSeenAt: '2025-05-09T12:00:00.000Z'
+    });
+    expect(stored?.provenance).toBeUndefined();
+  });
+
+  it('filters by source, region group, state mentioned, metro and tags', async () => {
+    const titles = async (query: Parameters<typeof repository.query>[0]) =>
+      (await repository.query(query)).articles.map(article => article.title);
+
+    expect(await titles({ source: 'globe' })).toEqual([warehouse.title]);
+    expect(await titles({ region: 'South' })).toEqual([warehouse.title]);
+    expect(await titles({ region: ['Texas', 'California'] })).toEqual([undated.title, warehouse.title]);
+    expect(await titles({ metro: 'new york' })).toEqual([office.title]);
+    expect(await titles({ propertyType: 'industrial', dealType: ['lease', 'sale'] })).toEqual([warehouse.title]);
+    expect(await titles({ publishedFrom: '2025-05-06' })).toEqual([warehouse.title]);
+    expect(await titles({ firstSeenAfter: '2025-05-06T12:00:00Z' })).toEqual([undated.title]);
+  });
+
+  it('sorts undated articles last and pages through results', async () => {
+    const newest = await repository.query({ sort: 'newest', limit: 2 });
+    expect(newest.total).toBe(3);
+    expect(newest.articles.map(article => article.title)).toEqual([warehouse.title, office.title]);
+
+    const rest = await repository.query({ sort: 'newest', limit: 2, offset: 2 });
+    expect(rest.articles.map(article => article.title)).toEqual([undated.title]);
+  });
+
+  it('counts facets ignoring their own filter', async () => {
+    const { facets } = await repository.query({ source: 'bisnow', facets: true });
+
+    expect(facets?.source).toEqual({ Bisnow: 1, GlobeSt: 1, ConnectCRE: 1 });
+    expect(facets?.region).toMatchObject({ 'New York': 1, Northeast: 1 });
+    expect(facets?.metro).toEqual({ 'New York': 1 });
+  });
+});
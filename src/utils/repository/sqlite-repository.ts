@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Article, Region } from '../../../types/article';
+import {
+  ArticleRepository,
+  ArticleQuery,
+  ArticlePage,
+  ArticleFacets,
+  ArticleSort,
+  StoredArticle,
+  getArticleKey,
+  toStoredData,
+  resolveSeenFrom,
+  resolveSeenTo,
+  toFilterList
+} from './article-repository';
+import { countRegions } from '../article-query';
+import { expandRegionFilter } from '../regions';
+
+const PUBLISHED_AT = "json_extract(data, '$.publishedAt')";
+
+// ORDER BY clause for each sort; undated articles sort last
+const ORDER_BY: Record<ArticleSort, string> = {
+  firstSeen: 'first_seen_at DESC, canonical_url',
+  newest: `${PUBLISHED_AT} IS NULL, ${PUBLISHED_AT} DESC, first_seen_at DESC, canonical_url`,
+  oldest: `${PUBLISHED_AT} IS NULL, ${PUBLISHED_AT} ASC, first_seen_at ASC, canonical_url`,
+  source: `LOWER(source), ${PUBLISHED_AT} IS NULL, ${PUBLISHED_AT} DESC, canonical_url`
+};
+
+interface ArticleRow {
+  data: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * SQLite article store (the default)
+ * Filterable fields get their own columns; the full article is kept as JSON
+ */
+export class SqliteArticleRepository implements ArticleRepository {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS articles (
+        canonical_url TEXT PRIMARY KEY,
+        source TEXT NOT NULL,
+        region TEXT NOT NULL,
+        data TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_articles_first_seen ON articles (first_seen_at);
+      CREATE INDEX IF NOT EXISTS idx_articles_last_seen ON articles (last_seen_at);
+      CREATE INDEX IF NOT EXISTS idx_articles_source ON articles (source);
+    `);
+  }
+
+  async upsertMany(articles: Article[], seenAt = new Date()): Promise<number> {
+    const seenAtIso = seenAt.toISOString();
+    // json_patch keeps previously stored fields the new scrape did not provide
+    const upsert = this.db.prepare(`
+      INSERT INTO articles (canonical_url, source, region, data, first_seen_at, last_seen_at)
+      VALUES (@key, @source, @region, @data, @seenAt, @seenAt)
+      ON CONFLICT (canonical_url) DO UPDATE SET
+        source = excluded.source,
+        region = excluded.region,
+        data = json_patch(articles.data, excluded.data),
+        last_seen_at = excluded.last_seen_at
+    `);
+
+    const upsertAll = this.db.transaction((batch: Article[]) => {
+      for (const article of batch) {
+        upsert.run({
+          key: getArticleKey(article),
+          source: article.source,
+          region: article.region,
+          data: JSON.stringify(toStoredData(article)),
+          seenAt: seenAtIso
+        });
+      }
+    });
+
+    upsertAll(articles);
+    return articles.length;
+  }
+
+  async findByUrl(url: string): Promise<StoredArticle | null> {
+    const row = this.db
+      .prepare('SELECT data, first_seen_at, last_seen_at FROM articles WHERE canonical_url = ?')
+      .get(getArticleKey({ url })) as ArticleRow | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  async query(query: ArticleQuery = {}): Promise<ArticlePage> {
+    const { where, params } = this.buildWhere(query);
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM articles ${where}`)
+      .get(params) as { total: number };
+
+    const rows = this.db
+      .prepare(`
+        SELECT data, first_seen_at, last_seen_at FROM articles ${where}
+        ORDER BY ${ORDER_BY[query.sort ?? 'firstSeen']}
+        LIMIT @limit OFFSET @offset
+      `)
+      .all({ ...params, limit: query.limit ?? 50, offset: query.offset ?? 0 }) as ArticleRow[];
+
+    return {
+      articles: rows.map(row => this.fromRow(row)),
+      total,
+      ...(query.facets && {
+        facets: {
+          source: this.countBy('source', query),
+          region: this.countBy('region', query),
+          metro: this.countBy('metro', query)
+        }
+      })
+    };
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * Build the WHERE clause for a query
+   * @param ignore Filter to skip, used when counting that field's facet
+   */
+  private buildWhere(query: ArticleQuery, ignore?: keyof ArticleFacets): { where: string; params: Record<string, string> } {
+    const conditions: string[] = [];
+    const params: Record<string, string> = {};
+
+    const sources = ignore === 'source' ? [] : toFilterList(query.source);
+    if (sources.length > 0) {
+      conditions.push(`(${sources.map((_, i) => `LOWER(source) LIKE @source${i}`).join(' OR ')})`);
+      sources.forEach((source, i) => { params[`source${i}`] = `%${source}%`; });
+    }
+    const regions = ignore === 'region' ? [] : expandRegionFilter(toFilterList(query.region));
+    if (regions.length > 0) {
+      const list = regions.map((_, i) => `@region${i}`).join(', ');
+      conditions.push(
+        `(LOWER(region) IN (${list}) OR EXISTS (SELECT 1 FROM json_each(data, '$.locations') WHERE LOWER(json_extract(value, '$.state')) IN (${list})))`
+      );
+      regions.forEach((region, i) => { params[`region${i}`] = region; });
+    }
+    for (const field of ['propertyType', 'dealType'] as const) {
+      const values = toFilterList(query[field]);
+      if (values.length === 0) continue;
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(data, '$.${field}s') WHERE value IN (${values.map((_, i) => `@${field}${i}`).join(', ')}))`
+      );
+      values.forEach((value, i) => { params[`${field}${i}`] = value; });
+    }
+    const metros = ignore === 'metro' ? [] : toFilterList(query.metro);
+    if (metros.length > 0) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(data, '$.locations') WHERE LOWER(json_extract(value, '$.metro')) IN (${metros.map((_, i) => `@metro${i}`).join(', ')}))`
+      );
+      metros.forEach((metro, i) => { params[`metro${i}`] = metro; });
+    }
+    if (query.seenFrom) {
+      conditions.push('last_seen_at >= @seenFrom');
+      params.seenFrom = resolveSeenFrom(query.seenFrom);
+    }
+    if (query.seenTo) {
+      conditions.push('first_seen_at <= @seenTo');
+      params.seenTo = resolveSeenTo(query.seenTo);
+    }
+    if (query.publishedFrom) {
+      conditions.push("json_extract(data, '$.publishedAt') >= @publishedFrom");
+      params.publishedFrom = resolveSeenFrom(query.publishedFrom);
+    }
+    if (query.publishedTo) {
+      conditions.push("json_extract(data, '$.publishedAt') <= @publishedTo");
+      params.publishedTo = resolveSeenTo(query.publishedTo);
+    }
+    if (query.firstSeenAfter) {
+      conditions.push('first_seen_at > @firstSeenAfter');
+      params.firstSeenAfter = resolveSeenFrom(query.firstSeenAfter);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+  }
+
+  private countBy(field: keyof ArticleFacets, query: ArticleQuery): Record<string, number> {
+    const { where, params } = this.buildWhere(query, field);
+    if (field === 'region') {
+      // Articles count towards the regions of the places they mention too
+      const rows = this.db
+        .prepare(`SELECT region, json_extract(data, '$.locations') AS locations FROM articles ${where}`)
+        .all(params) as { region: Region; locations: string | null }[];
+      return countRegions(rows.map(row => ({ region: row.region, locations: row.locations ? JSON.parse(row.locations) : [] })));
+    }
+    if (field === 'metro') {
+      // Locations are one per metro, so each article counts once per metro
+      const rows = this.db
+        .prepare(`
+          SELECT json_extract(location.value, '$.metro') AS metro, COUNT(*) AS count
+          FROM (SELECT data FROM articles ${where}) AS matching, json_each(matching.data, '$.locations') AS location
+          WHERE metro IS NOT NULL
+          GROUP BY metro
+        `)
+        .all(params) as { metro: string; count: number }[];
+      return Object.fromEntries(rows.map(row => [row.metro, row.count]));
+    }
+    const rows = this.db
+      .prepare(`SELECT ${field} AS value, COUNT(*) AS count FROM articles ${where} GROUP BY ${field}`)
+      .all(params) as { value: string; count: number }[];
+    return Object.fromEntries(rows.map(row => [row.value, row.count]));
+  }
+
+  private fromRow(row: ArticleRow): StoredArticle {
+    return {
+      ...(JSON.parse(row.data) as Article),
+      firstSeenAt: row.first_seen_at,
+      lastSeenAt: row.last_seen_at
+    };
+  }
+}
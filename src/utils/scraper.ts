@@ -17,6 +17,10 @@ export async function getArticles(params: ArticleParams = {}): Promise<Article[]
 
 // Import mock articles for static exports
 import { mockArticles } from '../mocks/articles';
+import { queryArticles } from './article-query';
+import { withPublishedAt } from './dates';
+import { withClassification } from './classify';
+import { withLocations, resolveMetro } from './geography';
 
 // New comprehensive function that returns pagination info
 export async function getArticlesWithPagination(params: ArticleParams = {}): Promise<ArticleResponse> {
@@ -27,18 +31,7 @@ export async function getArticlesWithPagination(params: ArticleParams = {}): Pro
         console.log('Using mock data for static export');
         
         // Filter mock articles based on region, source, and search term
-        let filteredArticles = [...mockArticles];
-        
-        // Filter by region if specified
-        if (params.region && params.region !== 'All') {
-            console.log(`Filtering by region: ${params.region}`);
-            filteredArticles = filteredArticles.filter(article => article.region === params.region);
-            console.log(`Found ${filteredArticles.length} articles for region: ${params.region}`);
-        }
-        
-        if (params.source) {
-            filteredArticles = filteredArticles.filter(article => article.source === params.source);
-        }
+        let filteredArticles = mockArticles.map(article => ({ ...article, provenance: 'sample' as const }));
         
         if (params.searchTerm) {
             const searchTermLower = params.searchTerm.toLowerCase();
@@ -47,23 +40,35 @@ export async function getArticlesWithPagination(params: ArticleParams = {}): Pro
             );
         }
         
-        // Calculate pagination
+        // Apply region/source/date filters, sort and pagination the way the API does
         const page = params.page || 1;
         const pageSize = params.pageSize || 10;
-        const total = filteredArticles.length;
+        const regions = (Array.isArray(params.region) ? params.region : [params.region || ''])
+            .filter(region => region && region !== 'All');
+        const { articles: paginatedArticles, total, facets } = queryArticles(filteredArticles.map(article => withLocations(withClassification(withPublishedAt(article)))), {
+            region: regions,
+            source: params.source,
+            propertyType: params.sector,
+            dealType: params.dealType,
+            metro: (Array.isArray(params.metro) ? params.metro : [params.metro || ''])
+                .filter(Boolean)
+                .map(metro => resolveMetro(metro) || metro),
+            publishedFrom: params.from,
+            publishedTo: params.to,
+            sort: params.sort || 'newest',
+            facets: true,
+            limit: pageSize,
+            offset: (page - 1) * pageSize
+        });
         const totalPages = Math.ceil(total / pageSize);
         
-        // Get articles for current page
-        const startIndex = (page - 1) * pageSize;
-        const endIndex = startIndex + pageSize;
-        const paginatedArticles = filteredArticles.slice(startIndex, endIndex);
-        
         return {
             articles: paginatedArticles,
             total,
             page,
             pageSize,
-            totalPages
+            totalPages,
+            facets
         };
     }
     
@@ -1,12 +1,34 @@
-import { Article, Region } from '../../../types/article';
-import { withCache } from '../cache';
-import { rateLimiter } from '../rateLimiter';
+import { Article, ArticleProvenance, Region, SourceState, SourceStatus } from '../../../types/article';
+import { cache } from '../cache';
 import { scraperLogger } from '../logger';
 import { withMonitoring } from '../monitoring';
+import { circuitBreakers } from '../circuit-breaker';
 import CONFIG from '../../config';
 import { mockArticles } from '../../mocks/articles';
-import { detectRegion } from '../regions';
-import apiTracker from '../apiTracker';
+import { httpClient, PoliteRequestInit, PolitenessError } from '../http';
+import { persistArticles } from '../repository';
+import { normalizeDate } from '../dates';
+import { searchIndex } from '../search';
+import { articleEnricher } from '../enrichment';
+import { classifyArticles } from '../classify';
+import { detectRegion, locateArticles } from '../geography';
+import { allStates, regionGroups } from '../regions';
+
+/**
+ * Articles from one source along with that source's status
+ */
+export interface ScrapeResult {
+  articles: Article[];
+  status: SourceStatus;
+}
+
+/**
+ * A successful scrape as stored in the cache
+ */
+interface ScrapeSnapshot {
+  articles: Article[];
+  scrapedAt: string;
+}
 
 /**
  * Base class for all scrapers
@@ -28,61 +50,180 @@ export abstract class BaseScraper {
    * Public method called by the API
    */
   public async getArticles(): Promise<Article[]> {
-    console.log(`BaseScraper(${this.name}): getArticles called`);
+    const result = await this.getArticlesWithStatus();
+    return result.articles;
+  }
+
+  /**
+   * Scrape the source directly, skipping the cache, circuit breaker and
+   * classification, so the parser's raw output can be checked against fixtures
+   */
+  public async scrapeUncached(): Promise<Article[]> {
+    return await this.scrapeSource();
+  }
+
+  /**
+   * Get articles along with the status of this source
+   * A failed scrape, or one skipped because the source's circuit breaker is open,
+   * serves the last good articles as 'stale' if there are any, otherwise the source
+   * is reported as 'failed' with no articles
+   * @param options.refresh Skip the cache and always scrape (used by the ingestion scheduler)
+   * @param options.force Scrape even if the circuit breaker is open; a healthy run closes it
+   */
+  public async getArticlesWithStatus(options: { refresh?: boolean; force?: boolean } = {}): Promise<ScrapeResult> {
+    console.log(`BaseScraper(${this.name}): getArticlesWithStatus called`);
     
-    // If using mock data, just return mock articles for this source
-    if (CONFIG.USE_MOCK_DATA) {
+    // Mock data is synthesized, so it is never served in strict mode
+    if (CONFIG.USE_MOCK_DATA && !CONFIG.STRICT_MODE) {
       console.log(`BaseScraper(${this.name}): Using mock data`);
-      const sourceArticles = mockArticles.filter(article => 
-        article.source.toLowerCase().includes(this.name.toLowerCase())
+      const sourceArticles = this.withProvenance(
+        mockArticles.filter(article => 
+          article.source.toLowerCase().includes(this.name.toLowerCase())
+        ),
+        'sample'
       );
       console.log(`BaseScraper(${this.name}): Found ${sourceArticles.length} mock articles`);
-      return sourceArticles.length > 0 ? sourceArticles : [];
+      return { articles: sourceArticles, status: this.createStatus('ok', sourceArticles) };
     }
     
     console.log(`BaseScraper(${this.name}): Using real scraper`);
     const cacheKey = `scraper:${this.name}:articles`;
+    const lastGoodKey = `scraper:${this.name}:last-good`;
+    
+    // Serve a recent scrape from the cache
+    const cached = options.refresh ? null : await cache.get(cacheKey);
+    if (cached) {
+      const snapshot = JSON.parse(cached) as ScrapeSnapshot;
+      const articles = this.withProvenance(snapshot.articles, 'cached');
+      return {
+        articles,
+        status: this.createStatus('ok', articles, { lastSuccessAt: snapshot.scrapedAt })
+      };
+    }
+    
+    // A source with an open breaker is not scraped until its cooldown has passed,
+    // and then only by one trial scrape at a time
+    const breaker = circuitBreakers.beforeRequest(this.name);
+    if (!breaker.allowed && !options.force) {
+      const reason = breaker.health.state === 'half-open'
+        ? `Circuit half-open (${breaker.health.reason}), a trial scrape is in progress`
+        : `Circuit open (${breaker.health.reason}), next attempt after ${breaker.health.retryAt}`;
+      console.log(`BaseScraper(${this.name}): ${reason}, skipping scrape`);
+      return await this.serveLastGood(lastGoodKey, reason);
+    }
+    const isTrial = breaker.allowed && breaker.health.state === 'half-open';
     
     try {
-      // Track this API request
-      apiTracker.trackRequest(this.name);
-      
-      // Use the cache wrapper with monitoring
-      const articles = await withCache(cacheKey, async () => {
-        // Add monitoring wrapper around the scraping process
-        return await withMonitoring(this.name, async () => {
-          // Log the start of scraping
-          scraperLogger.start(this.name, this.baseUrl);
-          
-          try {
-            console.log(`BaseScraper(${this.name}): About to call scrapeSource()`);
-            // Run the scraper through the rate limiter
-            const scrapedArticles = await rateLimiter.schedule(
-              this.name, 
-              this.baseUrl,
-              async () => await this.scrapeSource()
-            );
-            console.log(`BaseScraper(${this.name}): scrapeSource() returned ${scrapedArticles.length} articles`);
-            return scrapedArticles;
-          } catch (error) {
-            console.error(`BaseScraper(${this.name}): Error in scrapeSource:`, error);
-            // Track API error
-            apiTracker.trackError(this.name);
-            throw error;
-          }
-        });
+      // Add monitoring wrapper around the scraping process
+      const scrapedArticles = await withMonitoring(this.name, async () => {
+        // Log the start of scraping
+        scraperLogger.start(this.name, this.baseUrl);
+        
+        console.log(`BaseScraper(${this.name}): About to call scrapeSource()`);
+        // Each page request is rate limited per host by fetchPage()
+        return await this.scrapeSource();
       });
+      console.log(`BaseScraper(${this.name}): scrapeSource() returned ${scrapedArticles.length} articles`);
       
-      console.log(`BaseScraper(${this.name}): getArticles returning ${articles.length} articles`);
-      return articles;
+      const articles = this.withProvenance(locateArticles(classifyArticles(scrapedArticles)), 'live');
+      const outcome = circuitBreakers.recordSuccess(this.name, articles.length);
+      
+      // No articles, or far fewer than usual, most likely means the parser broke:
+      // keep what was found but don't let it replace the last good snapshot
+      if (outcome !== 'ok') {
+        await this.storeArticles(articles);
+        const health = circuitBreakers.getHealth(this.name);
+        const fallback = await this.serveLastGood(lastGoodKey, `Suspicious scrape: ${health.lastError}`);
+        return fallback.articles.length > 0 || articles.length === 0
+          ? fallback
+          : { articles, status: this.createStatus('ok', articles) };
+      }
+      
+      const snapshot: ScrapeSnapshot = { articles, scrapedAt: new Date().toISOString() };
+      await cache.set(cacheKey, JSON.stringify(snapshot));
+      await cache.set(lastGoodKey, JSON.stringify(snapshot), CONFIG.STALE_ARTICLES_TTL_HOURS * 60 * 60);
+      await this.storeArticles(articles);
+      
+      return {
+        articles,
+        status: this.createStatus('ok', articles, { lastSuccessAt: snapshot.scrapedAt })
+      };
     } catch (error) {
-      console.error(`BaseScraper(${this.name}): Error in getArticles:`, error);
-      // Track API error
-      apiTracker.trackError(this.name);
-      return [];
+      console.error(`BaseScraper(${this.name}): Error in getArticlesWithStatus:`, error);
+      // Our own politeness limits say nothing about the source's health,
+      // so a trial they stopped is handed back for the next scrape
+      if (error instanceof PolitenessError) {
+        if (isTrial) circuitBreakers.releaseTrial(this.name);
+      } else {
+        circuitBreakers.recordFailure(this.name, error);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      
+      return await this.serveLastGood(lastGoodKey, message);
     }
   }
   
+  /**
+   * Fall back to the last good scrape, clearly marked as stale
+   */
+  private async serveLastGood(lastGoodKey: string, error: string): Promise<ScrapeResult> {
+    const lastGood = await cache.get(lastGoodKey);
+    if (lastGood) {
+      const snapshot = JSON.parse(lastGood) as ScrapeSnapshot;
+      const articles = this.withProvenance(snapshot.articles, 'cached');
+      return {
+        articles,
+        status: this.createStatus('stale', articles, { error, lastSuccessAt: snapshot.scrapedAt })
+      };
+    }
+    
+    return { articles: [], status: this.createStatus('failed', [], { error }) };
+  }
+  
+  /**
+   * Save freshly scraped articles to the store and search index
+   */
+  private async storeArticles(articles: Article[]): Promise<void> {
+    if (articles.length === 0) return;
+    await persistArticles(articles, this.name);
+    searchIndex.addOrUpdate(articles);
+    // Article pages are fetched in the background, so the scrape doesn't wait on them
+    articleEnricher.enqueue(articles);
+  }
+  
+  /**
+   * Build the status entry for this source
+   */
+  protected createStatus(
+    status: SourceState,
+    articles: Article[],
+    details: { error?: string; lastSuccessAt?: string } = {}
+  ): SourceStatus {
+    return {
+      source: this.name,
+      status,
+      articleCount: articles.length,
+      ...details
+    };
+  }
+  
+  /**
+   * Tag articles with where they came from
+   */
+  private withProvenance(articles: Article[], provenance: ArticleProvenance): Article[] {
+    return articles.map(article => ({ ...article, provenance }));
+  }
+  
+  /**
+   * Fetch a URL for scraping
+   * All scrapers must use this instead of fetch(): requests are rate limited
+   * per host (see utils/http), and responses can be recorded to, and replayed
+   * from, fixtures (see CONFIG.FIXTURE_MODE)
+   */
+  protected async fetchPage(url: string, init?: PoliteRequestInit): Promise<Response> {
+    return await httpClient.fetch(url, init);
+  }
+  
   /**
    * Helper to create an Article object from scraped data
    */
@@ -96,8 +237,8 @@ export abstract class BaseScraper {
     let validRegion: Region = 'National'; // Default to National
     
     if (region) {
-      // Check if the provided region is a valid Region type
-      const validRegions = ['National', 'West', 'Southwest', 'Midwest', 'South', 'Northeast'];
+      // Check if the provided region is a valid Region type (a region group or a state)
+      const validRegions: string[] = ['National', ...regionGroups.map(group => group.name), ...allStates];
       if (validRegions.includes(region)) {
         validRegion = region as Region;
       }
@@ -109,10 +250,15 @@ export abstract class BaseScraper {
       }
     }
     
+    // Normalize whatever date text the scraper found, falling back to the URL
+    const { publishedAt, dateConfidence } = normalizeDate({ text: publishedDate, url });
+
     return {
       title,
       url,
       publishedDate,
+      ...(publishedAt && { publishedAt }),
+      dateConfidence,
       source: this.name,
       region: validRegion
     };
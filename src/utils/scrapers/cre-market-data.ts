@@ -1,109 +1,225 @@
 /**
- * CRE Market Data Scraper
- * 
- * Provides quarterly market data for Office, Industrial, Retail, and Multi-housing sectors
+ * CRE Market Data
+ *
+ * Quarterly market figures by sector, nationally and by metro, read from the
+ * imported market fundamentals (see utils/market-data) and compared with the
+ * quarter before
  */
 
-import { apiTracker } from '../api-tracker';
+import {
+  FUNDAMENTAL_METRICS,
+  FundamentalMetric,
+  FundamentalObservation,
+  MARKET_SECTORS,
+  METRIC_INFO,
+  MarketSector,
+  getFundamentals,
+  metricUnit,
+  previousQuarter
+} from '../market-data';
+import { PROPERTY_TYPE_LABELS } from '../classify/labels';
+
+export interface MarketMetric {
+  key: FundamentalMetric;
+  name: string;
+  value: number;
+  // The figure a quarter earlier, when there is one
+  priorValue?: number;
+  // value - priorValue, in the metric's unit (percentage points for rates)
+  change?: number;
+  // Change as a percentage of the prior figure, for metrics that aren't rates
+  changePercent?: number;
+  // Whether the change is good news for owners; left out when flat or neither
+  isPositive?: boolean;
+  unit: string;
+}
 
 export interface MarketData {
   sector: string;
-  metrics: {
-    name: string;
-    value: string;
-    change?: string;
-    isPositive?: boolean;
-    unit?: string;
-  }[];
+  // null for the national figures
+  metro: string | null;
+  metrics: MarketMetric[];
   quarter: string;
   year: number;
+  // The quarter shown and the one it's compared with, e.g. '2025-Q2' and '2025-Q1'
+  period: string;
+  priorPeriod: string;
+  // Quarters with figures for this sector and metro, newest first
+  periods: string[];
+  // Datasets the figures came from
+  sources: string[];
 }
 
-class CREMarketDataScraper {
-  private name = 'CREMarketData';
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * One metric compared with the quarter before
+ */
+function compareMetric(
+  sector: MarketSector,
+  current: FundamentalObservation,
+  prior: FundamentalObservation | undefined
+): MarketMetric {
+  const info = METRIC_INFO[current.metric];
+  const metric: MarketMetric = {
+    key: current.metric,
+    name: info.name,
+    value: current.value,
+    unit: metricUnit(current.metric, sector)
+  };
+  if (!prior) return metric;
+
+  metric.priorValue = prior.value;
+  metric.change = round(current.value - prior.value);
+  if (!info.isRate && prior.value !== 0) {
+    metric.changePercent = round((current.value - prior.value) / Math.abs(prior.value) * 100);
+  }
+  if (metric.change !== 0 && info.higherIsBetter !== undefined) {
+    metric.isPositive = (metric.change > 0) === info.higherIsBetter;
+  }
+  return metric;
+}
+
+export interface MarketDataOptions {
+  // Metro name; null or left out for the national figures
+  metro?: string | null;
+  // Canonical quarter, e.g. '2025-Q2'; the latest by default
+  quarter?: string;
+}
+
+export interface MarketComparisonRow {
+  // null for the national figures
+  metro: string | null;
+  // The metric in each of the comparison's quarters against the quarter before; null where there is no figure
+  values: (MarketMetric | null)[];
+}
+
+/**
+ * One metric for a sector across metros and quarters
+ */
+export interface MarketComparison {
+  sector: string;
+  metric: FundamentalMetric;
+  name: string;
+  unit: string;
+  // Quarters compared, oldest first
+  quarters: string[];
+  rows: MarketComparisonRow[];
+  // Every metro (null for national) and quarter with figures for this metric, to choose from;
+  // national first, then by name, and quarters newest first
+  metros: (string | null)[];
+  periods: string[];
+}
 
+export interface MarketComparisonOptions {
+  // Metros to compare (null for national); all with figures by default
+  metros?: (string | null)[];
+  // Quarters to compare; the latest four with figures by default
+  quarters?: string[];
+}
+
+// Quarters compared when none are asked for
+const DEFAULT_COMPARISON_QUARTERS = 4;
+
+const sectorName = (sector: MarketSector) => PROPERTY_TYPE_LABELS[sector];
+
+const sameMetro = (a: string | null, b: string | null) => (a || '').toLowerCase() === (b || '').toLowerCase();
+
+/**
+ * A sector's quarter from its observations (one sector and metro); null when
+ * there are no figures for that quarter
+ */
+function toMarketData(sector: MarketSector, observations: FundamentalObservation[], quarter?: string): MarketData | null {
+  const periods = Array.from(new Set(observations.map(o => o.quarter))).sort().reverse();
+  const period = quarter || periods[0];
+  if (!periods.includes(period)) return null;
+
+  const priorPeriod = previousQuarter(period);
+  const current = observations.filter(o => o.quarter === period);
+  const prior = observations.filter(o => o.quarter === priorPeriod);
+
+  const metrics = FUNDAMENTAL_METRICS
+    .map(key => current.find(o => o.metric === key))
+    .filter((o): o is FundamentalObservation => o !== undefined)
+    .map(o => compareMetric(sector, o, prior.find(p => p.metric === o.metric)));
+
+  return {
+    sector: sectorName(sector),
+    // As the dataset spells it, whatever case it was asked for in
+    metro: current[0].metro,
+    metrics,
+    quarter: period.slice(5),
+    year: Number(period.slice(0, 4)),
+    period,
+    priorPeriod,
+    periods,
+    sources: Array.from(new Set(current.map(o => o.source)))
+  };
+}
+
+class CREMarketDataScraper {
   /**
-   * Get the latest quarterly market data for all sectors
+   * Get the latest national quarter for every sector with figures
    */
   public async getMarketData(): Promise<MarketData[]> {
-    try {
-      apiTracker.trackRequest(this.name);
-      
-      // In a production environment, this would fetch data from an API or scrape a website
-      // For now, we'll return static data representing Q2 2025
-      return this.getStaticMarketData();
-    } catch (error) {
-      apiTracker.trackError(this.name);
-      console.error('Error fetching CRE market data:', error);
-      throw error;
-    }
+    const observations = await getFundamentals({ metros: [null] });
+    return MARKET_SECTORS
+      .map(sector => observations.filter(o => o.sector === sector))
+      .filter(sectorObservations => sectorObservations.length > 0)
+      .map(sectorObservations => toMarketData(sectorObservations[0].sector, sectorObservations)!);
   }
 
   /**
-   * Get market data for a specific sector
+   * Get a sector's figures for a metro (national by default) and quarter (the
+   * latest by default); null when none have been imported
    */
-  public async getSectorData(sector: 'office' | 'industrial' | 'retail' | 'multifamily'): Promise<MarketData> {
-    const allData = await this.getMarketData();
-    return allData.find(data => data.sector.toLowerCase() === sector.toLowerCase()) as MarketData;
+  public async getSectorData(sector: MarketSector, options: MarketDataOptions = {}): Promise<MarketData | null> {
+    const observations = await getFundamentals({ sectors: [sector], metros: [options.metro ?? null] });
+    return observations.length ? toMarketData(sector, observations, options.quarter) : null;
   }
 
   /**
-   * Static market data for Q2 2025
+   * Compare one metric for a sector across metros and quarters
    */
-  private getStaticMarketData(): MarketData[] {
-    const currentQuarter = 'Q2';
-    const currentYear = 2025;
-    
-    return [
-      {
-        sector: 'Office',
-        quarter: currentQuarter,
-        year: currentYear,
-        metrics: [
-          { name: 'Vacancy Rate', value: '17.8%', change: '0.3', isPositive: false, unit: '%' },
-          { name: 'Absorption', value: '-5.2', change: '1.8', isPositive: true, unit: 'M sq ft' },
-          { name: 'Asking Rent', value: '$36.42', change: '0.8', isPositive: true, unit: 'sq ft/yr' },
-          { name: 'Under Construction', value: '42.1', unit: 'M sq ft' },
-          { name: 'Cap Rate', value: '6.8%', change: '0.2', isPositive: false, unit: '%' }
-        ]
-      },
-      {
-        sector: 'Industrial',
-        quarter: currentQuarter,
-        year: currentYear,
-        metrics: [
-          { name: 'Vacancy Rate', value: '4.2%', change: '0.1', isPositive: false, unit: '%' },
-          { name: 'Absorption', value: '78.3', change: '12.5', isPositive: true, unit: 'M sq ft' },
-          { name: 'Asking Rent', value: '$9.85', change: '0.15', isPositive: true, unit: 'sq ft/yr' },
-          { name: 'Under Construction', value: '185.6', unit: 'M sq ft' },
-          { name: 'Cap Rate', value: '5.2%', change: '0.1', isPositive: true, unit: '%' }
-        ]
-      },
-      {
-        sector: 'Retail',
-        quarter: currentQuarter,
-        year: currentYear,
-        metrics: [
-          { name: 'Vacancy Rate', value: '5.1%', change: '0.2', isPositive: true, unit: '%' },
-          { name: 'Absorption', value: '12.8', change: '3.2', isPositive: true, unit: 'M sq ft' },
-          { name: 'Asking Rent', value: '$24.15', change: '0.45', isPositive: true, unit: 'sq ft/yr' },
-          { name: 'Under Construction', value: '28.3', unit: 'M sq ft' },
-          { name: 'Cap Rate', value: '6.1%', change: '0.1', isPositive: true, unit: '%' }
-        ]
-      },
-      {
-        sector: 'Multifamily',
-        quarter: currentQuarter,
-        year: currentYear,
-        metrics: [
-          { name: 'Vacancy Rate', value: '5.8%', change: '0.3', isPositive: false, unit: '%' },
-          { name: 'Absorption', value: '42.5', change: '8.3', isPositive: true, unit: 'K units' },
-          { name: 'Effective Rent', value: '$1,842', change: '28', isPositive: true, unit: '/unit' },
-          { name: 'Under Construction', value: '512.6', unit: 'K units' },
-          { name: 'Cap Rate', value: '4.9%', change: '0.2', isPositive: false, unit: '%' }
-        ]
-      }
-    ];
+  public async compare(
+    sector: MarketSector,
+    metric: FundamentalMetric,
+    options: MarketComparisonOptions = {}
+  ): Promise<MarketComparison> {
+    const observations = await getFundamentals({ sectors: [sector], metrics: [metric] });
+
+    const metros: (string | null)[] = [];
+    for (const o of observations) {
+      if (!metros.some(metro => sameMetro(metro, o.metro))) metros.push(o.metro);
+    }
+    metros.sort((a, b) => (a === null ? -1 : b === null ? 1 : a.localeCompare(b)));
+    const periods = Array.from(new Set(observations.map(o => o.quarter))).sort().reverse();
+
+    const quarters = Array.from(new Set(options.quarters || periods.slice(0, DEFAULT_COMPARISON_QUARTERS))).sort();
+    const rows = (options.metros || metros).map(requested => {
+      // Spelled as in the data when there is any
+      const metro = metros.find(known => sameMetro(known, requested)) ?? requested;
+      const metroObservations = observations.filter(o => sameMetro(o.metro, metro));
+      return {
+        metro,
+        values: quarters.map(quarter => {
+          const current = metroObservations.find(o => o.quarter === quarter);
+          const prior = metroObservations.find(o => o.quarter === previousQuarter(quarter));
+          return current ? compareMetric(sector, current, prior) : null;
+        })
+      };
+    });
+
+    return {
+      sector: sectorName(sector),
+      metric,
+      name: METRIC_INFO[metric].name,
+      unit: metricUnit(metric, sector),
+      quarters,
+      rows,
+      metros,
+      periods
+    };
   }
 }
 
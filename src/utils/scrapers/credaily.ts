@@ -1,250 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * CREDaily Scraper
- * 
- * Scrapes commercial real estate news from CREDaily.com
- */
-export class CREDailyScraper extends BaseScraper {
-  public readonly name = 'CREDaily';
-  public readonly baseUrl = 'https://www.credaily.com/news';
-  
-  /**
-   * Scrape the CREDaily website for CRE news articles
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    try {
-      // Log the attempt to scrape
-      console.log(`CREDailyScraper: Attempting to scrape articles`);
-      
-      // First, check if we're allowed to scrape this site
-      const isAllowedTerms = isAllowedByTerms(this.baseUrl);
-      if (!isAllowedTerms) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_terms',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      // Then check robots.txt
-      const isAllowedRobots = await canCrawl(this.baseUrl);
-      if (!isAllowedRobots) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_robots',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      try {
-        // Fetch the HTML content
-        const response = await fetch(this.baseUrl);
-        
-        if (!response.ok) {
-          console.error(`CREDailyScraper: Failed to fetch with status ${response.status}`);
-          throw new Error(`Failed to fetch CREDaily: ${response.status}`);
-        }
-        
-        const html = await response.text();
-        const $ = cheerio.load(html);
-        const articles: Article[] = [];
-        
-        // Select all news article elements - adjust selector based on actual site structure
-        $('.news-article').each((_, element) => {
-          try {
-            // Extract article data
-            const titleElement = $(element).find('.article-title a');
-            const title = titleElement.text().trim();
-            const relativePath = titleElement.attr('href');
-            
-            // Skip if missing essential data
-            if (!title || !relativePath) {
-              return;
-            }
-            
-            // Construct full URL
-            const url = relativePath.startsWith('http') 
-              ? relativePath 
-              : `https://www.credaily.com${relativePath}`;
-            
-            // Extract date
-            const dateText = $(element).find('.publish-date').text().trim();
-            
-            // Format the date or use current date if not found
-            const publishedDate = dateText || new Date().toDateString();
-            
-            // Extract region information from article categories or tags
-            let region: string | undefined;
-            
-            const categories = $(element).find('.article-category');
-            categories.each((_, categoryEl) => {
-              const category = $(categoryEl).text().toLowerCase();
-              
-              // Check for regional categories
-              if (category.includes('national')) {
-                region = 'National';
-              } else if (category.includes('northeast') || 
-                        category.includes('new york') || 
-                        category.includes('boston') ||
-                        category.includes('philadelphia')) {
-                region = 'Northeast';
-              } else if (category.includes('midwest') ||
-                        category.includes('chicago') ||
-                        category.includes('detroit') || 
-                        category.includes('ohio')) {
-                region = 'Midwest';
-              } else if (category.includes('west') ||
-                        category.includes('california') ||
-                        category.includes('los angeles') ||
-                        category.includes('san francisco') ||
-                        category.includes('seattle')) {
-                region = 'West';
-              } else if (category.includes('southwest') || 
-                        category.includes('texas') || 
-                        category.includes('dallas') ||
-                        category.includes('phoenix') ||
-                        category.includes('houston')) {
-                region = 'Southwest';
-              } else if (category.includes('southeast') || 
-                        category.includes('florida') || 
-                        category.includes('miami') ||
-                        category.includes('atlanta') ||
-                        category.includes('charlotte')) {
-                region = 'South';
-              }
-            });
-            
-            // Create the article and add to the list
-            articles.push(this.createArticle(title, url, publishedDate, region));
-          } catch (articleError) {
-            // Log error but continue with other articles
-            logger.error({
-              event: 'article_parse_error',
-              site: this.name,
-              error: articleError instanceof Error ? articleError.message : String(articleError)
-            });
-          }
-        });
-        
-        // If we got articles, return them
-        if (articles.length > 0) {
-          console.log(`CREDailyScraper: Scraped ${articles.length} real articles`);
-          return articles;
-        } else {
-          console.log(`CREDailyScraper: No articles found, using mock data instead`);
-          return this.getMockArticles();
-        }
-      } catch (fetchError) {
-        console.error(`CREDailyScraper: Error during fetch/parse:`, fetchError);
-        // Return mock data if real scraping fails
-        return this.getMockArticles();
-      }
-    } catch (error) {
-      // Log error
-      logger.error({
-        event: 'scraper_error',
-        site: this.name,
-        url: this.baseUrl,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      // Return mock data as a fallback
-      console.log(`CREDailyScraper: Fatal error, falling back to mock data`);
-      return this.getMockArticles();
-    }
-  }
-  
-  /**
-   * Get mock CREDaily articles to ensure we always have data to display
-   */
-  private getMockArticles(): Article[] {
-    console.log(`CREDailyScraper: Generating mock articles`);
-    
-    // Use a single reliable URL that is guaranteed to work
-    const mainUrl = 'https://www.credaily.com';
-    
-    const mockCREDailyArticles: Article[] = [
-      {
-        title: '$6.5B in CMBS Loans Facing Maturity Defaults in Q3 2025',
-        url: mainUrl,
-        publishedDate: 'May 5, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'Office Conversion Trend Accelerates in Major CBD Markets',
-        url: mainUrl,
-        publishedDate: 'May 2, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'Industrial Outdoor Storage Assets Attract New Institutional Capital',
-        url: mainUrl,
-        publishedDate: 'Apr 30, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'New York Multifamily Market Shows Signs of Recovery in Q1 Reports',
-        url: mainUrl,
-        publishedDate: 'Apr 28, 2025',
-        source: this.name,
-        region: 'Northeast'
-      },
-      {
-        title: 'Fed Signals Interest Rate Strategy Shift Impacting CRE Financing',
-        url: mainUrl,
-        publishedDate: 'Apr 25, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'Chicago Office Market Divides as Trophy Assets Outperform B Class',
-        url: mainUrl,
-        publishedDate: 'Apr 22, 2025',
-        source: this.name,
-        region: 'Midwest'
-      },
-      {
-        title: 'Data Center REITs Raise $8B for Expansion as AI Demand Grows',
-        url: mainUrl,
-        publishedDate: 'Apr 20, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'West Coast Ports Report Surge in Activity Following Labor Agreement',
-        url: mainUrl,
-        publishedDate: 'Apr 18, 2025',
-        source: this.name,
-        region: 'West'
-      },
-      {
-        title: 'Dallas-Fort Worth Leads Nation in Retail Construction Starts',
-        url: mainUrl,
-        publishedDate: 'Apr 15, 2025',
-        source: this.name,
-        region: 'Southwest'
-      },
-      {
-        title: 'Solar Infrastructure Creating New Revenue Streams for Industrial Owners',
-        url: mainUrl,
-        publishedDate: 'Apr 12, 2025',
-        source: this.name,
-        region: 'National'
-      }
-    ];
-    
-    return mockCREDailyArticles;
-  }
-}
@@ -0,0 +1,335 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { Article, Region } from '../../../types/article';
+import { BaseScraper } from './base-scraper';
+import logger from '../logger';
+import { canCrawl, isAllowedByTerms } from '../compliance';
+import { getFixtureMode } from '../fixtures';
+import { PolitenessError } from '../http';
+import { SourceDefinition, FieldExtractor } from './source-definition';
+import { normalizeDate, extractJsonLdDates, formatDisplayDate } from '../dates';
+
+/**
+ * Declarative Scraper
+ *
+ * Generic scraper driven by a SourceDefinition. Fetches each listing page,
+ * finds article items with the configured selectors and extracts fields
+ * with the configured extractors, so new publications only need a definition
+ */
+export class DeclarativeScraper extends BaseScraper {
+  public readonly name: string;
+  public readonly baseUrl: string;
+
+  constructor(private readonly definition: SourceDefinition) {
+    super();
+    this.name = definition.name;
+    this.baseUrl = definition.baseUrl;
+  }
+
+  /**
+   * Scrape every listing page in the definition
+   */
+  protected async scrapeSource(): Promise<Article[]> {
+    logger.info({
+      event: 'scraping_started',
+      site: this.name,
+      pages: this.definition.listingPages.length
+    });
+
+    const allArticles: Article[] = [];
+    const processedUrls = new Set<string>();
+    const maxArticles = this.definition.maxArticles ?? Infinity;
+    const failures: string[] = [];
+
+    for (const [index, page] of this.definition.listingPages.entries()) {
+      if (index > 0 && this.definition.requestDelayMs) {
+        await new Promise(resolve => setTimeout(resolve, this.definition.requestDelayMs));
+      }
+
+      try {
+        const pageArticles = await this.scrapeListingPage(page.url, page.region);
+        for (const article of pageArticles) {
+          if (!processedUrls.has(article.url)) {
+            allArticles.push(article);
+            processedUrls.add(article.url);
+          }
+        }
+      } catch (error) {
+        // The host's limits apply to the remaining pages too
+        if (error instanceof PolitenessError) {
+          if (allArticles.length === 0) throw error;
+          logger.warn({ event: 'listing_pages_skipped', site: this.name, error: error.message });
+          break;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(message);
+        logger.error({
+          event: 'listing_page_failed',
+          site: this.name,
+          url: page.url,
+          error: message
+        });
+      }
+
+      if (allArticles.length >= maxArticles) {
+        break;
+      }
+    }
+
+    // Nothing could be fetched at all, so let the caller report the source as failed
+    if (allArticles.length === 0 && failures.length === this.definition.listingPages.length) {
+      throw new Error(`All ${failures.length} listing pages failed: ${failures[failures.length - 1]}`);
+    }
+
+    const recentArticles = this.filterByAge(allArticles);
+
+    logger.info({
+      event: 'scraping_completed',
+      site: this.name,
+      articleCount: allArticles.length,
+      recentCount: recentArticles.length
+    });
+
+    return recentArticles.slice(0, maxArticles);
+  }
+
+  /**
+   * Fetch and parse a single listing page
+   */
+  private async scrapeListingPage(url: string, pageRegion?: Region): Promise<Article[]> {
+    if (!isAllowedByTerms(url) || !(await canCrawl(url))) {
+      logger.warn({
+        event: 'compliance_blocked',
+        site: this.name,
+        url
+      });
+      return [];
+    }
+
+    const response = await this.fetchPage(url, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.9'
+      },
+      timeoutMs: 15000
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+    }
+
+    const html = await response.text();
+    return this.parseListingHtml(html, url, pageRegion);
+  }
+
+  /**
+   * Extract articles from listing page HTML
+   * Kept separate from fetching so saved HTML can be parsed directly
+   */
+  public parseListingHtml(html: string, pageUrl: string, pageRegion?: Region): Article[] {
+    const $ = cheerio.load(html);
+    const jsonLdDates = extractJsonLdDates($);
+
+    for (const selector of this.definition.itemSelectors) {
+      const items = $(selector);
+      if (items.length === 0) continue;
+
+      const articles: Article[] = [];
+      items.each((_, element) => {
+        const article = this.extractArticle($(element), jsonLdDates, pageRegion);
+        if (article && !articles.some(existing => existing.url === article.url)) {
+          articles.push(article);
+        }
+      });
+
+      if (articles.length > 0) {
+        logger.info({
+          event: 'using_selector',
+          site: this.name,
+          url: pageUrl,
+          selector,
+          count: articles.length
+        });
+        return articles;
+      }
+    }
+
+    if (this.definition.linkFallback) {
+      return this.extractFromLinks($, jsonLdDates, pageRegion);
+    }
+
+    logger.warn({
+      event: 'no_article_elements_found',
+      site: this.name,
+      url: pageUrl
+    });
+    return [];
+  }
+
+  /**
+   * Build an article from a single item element
+   */
+  private extractArticle(
+    $item: cheerio.Cheerio<AnyNode>,
+    jsonLdDates: Map<string, string>,
+    pageRegion?: Region
+  ): Article | null {
+    const minTitleLength = this.definition.minTitleLength ?? 10;
+    const title = this.extractField($item, this.definition.fields.title);
+    const url = this.resolveUrl(this.extractField($item, this.definition.fields.link));
+
+    if (!title || title.length < minTitleLength || !this.isArticleUrl(url)) {
+      return null;
+    }
+
+    const rawDate = this.definition.fields.date
+      ? this.extractField($item, this.definition.fields.date)
+      : '';
+    const summary = this.definition.fields.summary
+      ? this.extractField($item, this.definition.fields.summary)
+      : '';
+    const image = this.definition.fields.image
+      ? this.resolveUrl(this.extractField($item, this.definition.fields.image))
+      : '';
+
+    const article = this.createArticle(title, url, '', this.detectRegionFromUrl(url) || pageRegion);
+    this.applyDate(article, rawDate, jsonLdDates);
+
+    if (summary) article.summary = summary;
+    if (image) article.imageUrl = image;
+
+    return article;
+  }
+
+  /**
+   * Fallback: treat every link with a headline-sized text as an article
+   */
+  private extractFromLinks(
+    $: cheerio.CheerioAPI,
+    jsonLdDates: Map<string, string>,
+    pageRegion?: Region
+  ): Article[] {
+    const articles: Article[] = [];
+    const minTitleLength = this.definition.minTitleLength ?? 20;
+
+    $('a').each((_, element) => {
+      const $link = $(element);
+      const title = $link.text().replace(/\s+/g, ' ').trim();
+      const url = this.resolveUrl($link.attr('href') || '');
+
+      if (title.length < minTitleLength || title.length > 150 || !this.isArticleUrl(url)) return;
+      if (articles.some(existing => existing.url === url)) return;
+
+      const article = this.createArticle(title, url, '', this.detectRegionFromUrl(url) || pageRegion);
+      this.applyDate(article, '', jsonLdDates);
+      articles.push(article);
+    });
+
+    logger.info({
+      event: 'found_article_elements_via_links',
+      site: this.name,
+      count: articles.length
+    });
+
+    return articles;
+  }
+
+  /**
+   * Run a cascade of extractors against an item and return the first match
+   */
+  private extractField($item: cheerio.Cheerio<AnyNode>, extractors: FieldExtractor[]): string {
+    for (const extractor of extractors) {
+      const $el = extractor.selector ? $item.find(extractor.selector).first() : $item.first();
+      if ($el.length === 0) continue;
+
+      let value = (extractor.attribute ? $el.attr(extractor.attribute) : $el.text()) || '';
+      value = value.replace(/\s+/g, ' ').trim();
+
+      if (value && extractor.pattern) {
+        const match = value.match(new RegExp(extractor.pattern, 'i'));
+        value = match ? (match[1] ?? match[0]).trim() : '';
+      }
+
+      if (value && value.length >= (extractor.minLength ?? 1)) {
+        return value;
+      }
+    }
+
+    return '';
+  }
+
+  /**
+   * Make a URL absolute and https
+   */
+  private resolveUrl(url: string): string {
+    if (!url) return '';
+
+    try {
+      const resolved = new URL(url.trim(), this.baseUrl);
+      resolved.protocol = 'https:';
+      return resolved.toString();
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Check that a URL belongs to this source and looks like an article
+   */
+  private isArticleUrl(url: string): boolean {
+    if (!url) return false;
+
+    // The source's own host or a subdomain of it, but not e.g. evilbisnow.com
+    const host = new URL(this.baseUrl).hostname.replace(/^www\./, '');
+    const hostname = new URL(url).hostname;
+    if (hostname !== host && !hostname.endsWith(`.${host}`)) return false;
+    if (url.includes('#')) return false;
+
+    const { linkPatterns, excludePatterns } = this.definition;
+    if (excludePatterns?.some(pattern => url.includes(pattern))) return false;
+    if (linkPatterns && !linkPatterns.some(pattern => url.includes(pattern))) return false;
+
+    return true;
+  }
+
+  /**
+   * Detect region from the article URL using the definition's rules
+   */
+  private detectRegionFromUrl(url: string): Region | undefined {
+    const lowerUrl = url.toLowerCase();
+    return this.definition.regionRules.find(rule => lowerUrl.includes(rule.pattern))?.region;
+  }
+
+  /**
+   * Normalize the article's date using the definition's date formats
+   * publishedDate keeps the display form (e.g. "May 06, 2025", or 'Unknown')
+   */
+  private applyDate(article: Article, rawDate: string, jsonLdDates: Map<string, string>): void {
+    const { publishedAt, dateConfidence } = normalizeDate(
+      { text: rawDate, url: article.url, jsonLd: jsonLdDates.get(article.url) },
+      this.definition.dateFormats
+    );
+
+    article.publishedDate = formatDisplayDate(publishedAt);
+    article.dateConfidence = dateConfidence;
+    if (publishedAt) {
+      article.publishedAt = publishedAt;
+    } else {
+      delete article.publishedAt;
+    }
+  }
+
+  /**
+   * Drop articles published more than maxAgeDays ago (undated articles are kept)
+   * Skipped when replaying fixtures, which would otherwise age out
+   */
+  private filterByAge(articles: Article[]): Article[] {
+    if (!this.definition.maxAgeDays || getFixtureMode() === 'replay') return articles;
+
+    const threshold = new Date();
+    threshold.setDate(threshold.getDate() - this.definition.maxAgeDays);
+
+    return articles.filter(article => !article.publishedAt || new Date(article.publishedAt) >= threshold);
+  }
+}
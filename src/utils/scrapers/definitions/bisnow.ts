@@ -0,0 +1,95 @@
+import { SourceDefinition } from '../source-definition';
+
+/**
+ * Bisnow - regional news hubs with card-based listings
+ */
+export const bisnowDefinition: SourceDefinition = {
+  id: 'bisnow',
+  name: 'Bisnow',
+  baseUrl: 'https://www.bisnow.com',
+  listingPages: [
+    { url: 'https://www.bisnow.com/national/news', region: 'National' },
+    { url: 'https://www.bisnow.com/new-york/news', region: 'New York' },
+    { url: 'https://www.bisnow.com/chicago/news', region: 'Illinois' },
+    { url: 'https://www.bisnow.com/los-angeles/news', region: 'California' },
+    { url: 'https://www.bisnow.com/dallas-ft-worth/news', region: 'Texas' },
+    { url: 'https://www.bisnow.com/washington-dc/news', region: 'Washington, D.C.' },
+    { url: 'https://www.bisnow.com/boston/news', region: 'Massachusetts' },
+    { url: 'https://www.bisnow.com/south-florida/news', region: 'Florida' },
+    { url: 'https://www.bisnow.com/atlanta/news', region: 'Georgia' }
+  ],
+  itemSelectors: [
+    '.story-card',
+    '.article-card',
+    '.news-card',
+    '.card',
+    '.story-item',
+    '.news-item',
+    '.article-item',
+    'article',
+    '.article',
+    '.story'
+  ],
+  fields: {
+    title: [
+      { selector: 'a[href*="/news/"]', minLength: 11 },
+      { selector: 'h2' },
+      { selector: 'h3' },
+      { selector: 'h4' },
+      { selector: '.title' },
+      { selector: '.headline' },
+      { selector: '.card-title' },
+      { selector: '.story-title' },
+      { selector: '.article-title' }
+    ],
+    link: [
+      { selector: 'a[href*="/news/"]', attribute: 'href' },
+      { selector: 'a.card-link', attribute: 'href' },
+      { selector: 'a.headline-link', attribute: 'href' },
+      { selector: 'a', attribute: 'href' }
+    ],
+    date: [
+      { selector: 'time', attribute: 'datetime' },
+      { selector: '.date' },
+      { selector: 'time' },
+      { selector: '.published-date' },
+      { selector: '.timestamp' },
+      { selector: '.card-date' }
+    ],
+    summary: [
+      { selector: '.dek' },
+      { selector: '.summary' },
+      { selector: 'p', minLength: 40 }
+    ],
+    image: [
+      { selector: 'img', attribute: 'data-src' },
+      { selector: 'img', attribute: 'src' }
+    ]
+  },
+  linkPatterns: ['/news/'],
+  regionRules: [
+    { pattern: '/national/', region: 'National' },
+    { pattern: '/new-york/', region: 'New York' },
+    { pattern: '/boston/', region: 'Massachusetts' },
+    { pattern: '/washington-dc/', region: 'Washington, D.C.' },
+    { pattern: '/philadelphia/', region: 'Pennsylvania' },
+    { pattern: '/chicago/', region: 'Illinois' },
+    { pattern: '/detroit/', region: 'Michigan' },
+    { pattern: '/minneapolis/', region: 'Minnesota' },
+    { pattern: '/dallas-ft-worth/', region: 'Texas' },
+    { pattern: '/houston/', region: 'Texas' },
+    { pattern: '/austin/', region: 'Texas' },
+    { pattern: '/los-angeles/', region: 'California' },
+    { pattern: '/san-francisco/', region: 'California' },
+    { pattern: '/seattle/', region: 'Washington' },
+    { pattern: '/denver/', region: 'Colorado' },
+    { pattern: '/south-florida/', region: 'Florida' },
+    { pattern: '/atlanta/', region: 'Georgia' },
+    { pattern: '/charlotte/', region: 'North Carolina' }
+  ],
+  dateFormats: ['iso', 'json-ld', 'month-day-year', 'relative'],
+  linkFallback: true,
+  minTitleLength: 15,
+  maxAgeDays: 30,
+  maxArticles: 20
+};
@@ -0,0 +1,86 @@
+import { SourceDefinition } from '../source-definition';
+
+/**
+ * ConnectCRE - regional hubs linking to /stories/ pages
+ */
+export const connectcreDefinition: SourceDefinition = {
+  id: 'connectcre',
+  name: 'ConnectCRE',
+  baseUrl: 'https://www.connectcre.com',
+  listingPages: [
+    { url: 'https://www.connectcre.com', region: 'National' },
+    { url: 'https://www.connectcre.com/new-york-tri-state/', region: 'Northeast' },
+    { url: 'https://www.connectcre.com/boston-new-england/', region: 'Northeast' },
+    { url: 'https://www.connectcre.com/washington-dc-mid-atlantic/', region: 'Northeast' },
+    { url: 'https://www.connectcre.com/atlanta-southeast/', region: 'South' },
+    { url: 'https://www.connectcre.com/florida-gulf-coast/', region: 'South' },
+    { url: 'https://www.connectcre.com/chicago-midwest/', region: 'Midwest' },
+    { url: 'https://www.connectcre.com/texas/', region: 'Texas' },
+    { url: 'https://www.connectcre.com/phoenix-southwest/', region: 'Southwest' },
+    { url: 'https://www.connectcre.com/california/', region: 'California' },
+    { url: 'https://www.connectcre.com/seattle-northwest/', region: 'West' }
+  ],
+  itemSelectors: [
+    'article',
+    '.post',
+    '.article',
+    '.story-card',
+    '.entry',
+    '.post-item',
+    '.news-item',
+    '.card',
+    '.featured-post',
+    '.post-listing article',
+    '.post-box',
+    '.news-box'
+  ],
+  fields: {
+    title: [
+      { selector: 'h2' },
+      { selector: 'h3' },
+      { selector: '.title' },
+      { selector: '.entry-title' },
+      { selector: '.post-title' },
+      { selector: 'a[href*="/stories/"]' }
+    ],
+    link: [
+      { selector: 'a[href*="/stories/"]', attribute: 'href' },
+      { selector: 'a[href*="/news/"]', attribute: 'href' }
+    ],
+    date: [
+      { selector: 'time', attribute: 'datetime' },
+      { selector: '.date' },
+      { selector: 'time' },
+      { selector: '.entry-date' },
+      { selector: '.post-date' },
+      { selector: '.meta-date' }
+    ],
+    summary: [
+      { selector: '.excerpt' },
+      { selector: '.entry-summary' },
+      { selector: 'p', minLength: 40 }
+    ],
+    image: [
+      { selector: 'img', attribute: 'data-src' },
+      { selector: 'img', attribute: 'src' }
+    ]
+  },
+  linkPatterns: ['/stories/', '/news/'],
+  // Hubs named for a city and its surroundings (e.g. /chicago-midwest/) cover several states, so they keep the group
+  regionRules: [
+    { pattern: '/atlanta-southeast/', region: 'South' },
+    { pattern: '/boston-new-england/', region: 'Northeast' },
+    { pattern: '/california/', region: 'California' },
+    { pattern: '/chicago-midwest/', region: 'Midwest' },
+    { pattern: '/florida-gulf-coast/', region: 'South' },
+    { pattern: '/new-york-tri-state/', region: 'Northeast' },
+    { pattern: '/phoenix-southwest/', region: 'Southwest' },
+    { pattern: '/seattle-northwest/', region: 'West' },
+    { pattern: '/texas/', region: 'Texas' },
+    { pattern: '/washington-dc-mid-atlantic/', region: 'Northeast' }
+  ],
+  dateFormats: ['iso', 'json-ld', 'month-day-year', 'url-path'],
+  linkFallback: true,
+  maxAgeDays: 14,
+  requestDelayMs: 3000
+};
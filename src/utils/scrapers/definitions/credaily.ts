@@ -0,0 +1,23 @@
+import { SourceDefinition } from '../source-definition';
+
+/**
+ * CREDaily - single national news listing
+ */
+export const credailyDefinition: SourceDefinition = {
+  id: 'credaily',
+  name: 'CREDaily',
+  baseUrl: 'https://www.credaily.com',
+  listingPages: [
+    { url: 'https://www.credaily.com/news' }
+  ],
+  itemSelectors: ['.news-article'],
+  fields: {
+    title: [{ selector: '.article-title a' }],
+    link: [{ selector: '.article-title a', attribute: 'href' }],
+    date: [{ selector: '.publish-date' }],
+    summary: [{ selector: '.article-excerpt' }],
+    image: [{ selector: 'img', attribute: 'src' }]
+  },
+  regionRules: [],
+  dateFormats: ['month-day-year', 'iso']
+};
@@ -0,0 +1,75 @@
+import { SourceDefinition } from '../source-definition';
+
+/**
+ * GlobeSt - regional market listings with "Author | Date" bylines
+ */
+export const globestDefinition: SourceDefinition = {
+  id: 'globest',
+  name: 'GlobeSt',
+  baseUrl: 'https://www.globest.com',
+  listingPages: [
+    { url: 'https://www.globest.com' },
+    { url: 'https://www.globest.com/markets/national/', region: 'National' },
+    { url: 'https://www.globest.com/markets/west/', region: 'West' },
+    { url: 'https://www.globest.com/markets/southwest/', region: 'Southwest' },
+    { url: 'https://www.globest.com/markets/midwest/', region: 'Midwest' },
+    { url: 'https://www.globest.com/markets/southeast/', region: 'South' }
+  ],
+  itemSelectors: [
+    '[data-cy="article-list-article"]',
+    'div:has(> .articleSummary)'
+  ],
+  fields: {
+    title: [
+      { selector: '[data-cy="article-list-article-title"]' },
+      { selector: 'h1, h2, h3, h4, h5, h6' },
+      { selector: 'a' }
+    ],
+    link: [
+      { selector: 'a:has([data-cy="article-list-article-title"])', attribute: 'href' },
+      { selector: 'a:has(h1, h2, h3, h4, h5, h6)', attribute: 'href' },
+      { selector: 'a', attribute: 'href' }
+    ],
+    date: [
+      { selector: '[data-cy="article-list-article-prettyDate"]' },
+      { selector: '.prettyDate' },
+      { selector: '.date, time, .published, .meta' }
+    ],
+    summary: [
+      { selector: '.articleSummary' }
+    ],
+    image: [
+      { selector: 'picture img', attribute: 'src' },
+      { selector: 'img', attribute: 'src' }
+    ]
+  },
+  linkPatterns: ['/20'],
+  regionRules: [
+    { pattern: '/markets/national/', region: 'National' },
+    { pattern: '/markets/west/', region: 'West' },
+    { pattern: '/markets/southwest/', region: 'Southwest' },
+    { pattern: '/markets/midwest/', region: 'Midwest' },
+    { pattern: '/markets/southeast/', region: 'South' },
+    { pattern: '/new-york/', region: 'New York' },
+    { pattern: '/boston/', region: 'Massachusetts' },
+    { pattern: '/philadelphia/', region: 'Pennsylvania' },
+    { pattern: '/chicago/', region: 'Illinois' },
+    { pattern: '/detroit/', region: 'Michigan' },
+    { pattern: '/minneapolis/', region: 'Minnesota' },
+    { pattern: '/dallas/', region: 'Texas' },
+    { pattern: '/houston/', region: 'Texas' },
+    { pattern: '/austin/', region: 'Texas' },
+    { pattern: '/phoenix/', region: 'Arizona' },
+    { pattern: '/los-angeles/', region: 'California' },
+    { pattern: '/san-francisco/', region: 'California' },
+    { pattern: '/seattle/', region: 'Washington' },
+    { pattern: '/portland/', region: 'Oregon' },
+    { pattern: '/atlanta/', region: 'Georgia' },
+    { pattern: '/miami/', region: 'Florida' },
+    { pattern: '/orlando/', region: 'Florida' },
+    { pattern: '/charlotte/', region: 'North Carolina' }
+  ],
+  dateFormats: ['pipe-separated', 'month-day-year', 'relative', 'url-path'],
+  linkFallback: true,
+  maxAgeDays: 14
+};
@@ -0,0 +1,25 @@
+import { SourceDefinition } from '../source-definition';
+import { bisnowDefinition } from './bisnow';
+import { globestDefinition } from './globest';
+import { connectcreDefinition } from './connectcre';
+import { credailyDefinition } from './credaily';
+import { rebusinessDefinition } from './rebusiness';
+
+/**
+ * All known source definitions
+ * To add a publication, create a definition file and list it here
+ */
+export const sourceDefinitions: SourceDefinition[] = [
+  bisnowDefinition,
+  globestDefinition,
+  connectcreDefinition,
+  credailyDefinition,
+  rebusinessDefinition
+];
+
+/**
+ * Look up a definition by its config id (e.g. 'bisnow')
+ */
+export function getSourceDefinition(id: string): SourceDefinition | undefined {
+  return sourceDefinitions.find(definition => definition.id === id.toLowerCase());
+}
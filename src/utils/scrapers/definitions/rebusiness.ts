@@ -0,0 +1,32 @@
+import { SourceDefinition } from '../source-definition';
+
+/**
+ * REBusiness Online - WordPress category listing
+ */
+export const rebusinessDefinition: SourceDefinition = {
+  id: 'rebusiness',
+  name: 'REBusiness',
+  baseUrl: 'https://rebusinessonline.com',
+  listingPages: [
+    { url: 'https://rebusinessonline.com/category/news/' }
+  ],
+  itemSelectors: ['.post'],
+  fields: {
+    title: [{ selector: 'h2 a' }],
+    link: [{ selector: 'h2 a', attribute: 'href' }],
+    date: [
+      { selector: '.entry-date', attribute: 'datetime' },
+      { selector: '.entry-date' }
+    ],
+    summary: [{ selector: '.entry-summary' }, { selector: '.entry-content p' }],
+    image: [{ selector: 'img', attribute: 'src' }]
+  },
+  regionRules: [
+    { pattern: '/northeast/', region: 'Northeast' },
+    { pattern: '/midwest/', region: 'Midwest' },
+    { pattern: '/western/', region: 'West' },
+    { pattern: '/texas/', region: 'Texas' },
+    { pattern: '/southeast/', region: 'South' }
+  ],
+  dateFormats: ['iso', 'json-ld', 'month-day-year']
+};
@@ -1,592 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article, Region } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * Enhanced Bisnow Scraper
- *
- * A more robust scraper for Bisnow that follows redirects,
- * handles modern sites, and uses multiple strategies to find articles
- */
-export class EnhancedBisnowScraper extends BaseScraper {
-  public readonly name: string = 'Bisnow';
-  public readonly baseUrl: string = 'https://www.bisnow.com/national/news';
-
-  // List of article URLs to use as seeds - these are REAL current Bisnow articles
-  private readonly sampleArticleUrls: string[] = [
-    'https://www.bisnow.com/national/news/capital-markets/cre-lending-market-update-128384',
-    'https://www.bisnow.com/national/news/multifamily/apartment-rent-growth-july-2025-128380',
-    'https://www.bisnow.com/national/news/construction-development/construction-costs-q2-2025-128307',
-    'https://www.bisnow.com/national/news/economy/cpi-inflation-june-2025-128354',
-    'https://www.bisnow.com/national/news/commercial-real-estate/office-investment-sales-q2-2025-128344',
-    'https://www.bisnow.com/national/news/retail/retail-sales-june-2025-128339',
-    'https://www.bisnow.com/national/news/technology/proptech-funding-q2-2025-128325',
-    'https://www.bisnow.com/national/news/office/return-to-office-trends-2025-128320',
-    'https://www.bisnow.com/national/news/retail/retail-expansion-2025-128318',
-    'https://www.bisnow.com/national/news/multifamily/multifamily-investment-outlook-2025-128316'
-  ];
-  
-  // Map of URL patterns to regions
-  private readonly regionPatterns: Array<{pattern: string, region: Region}> = [
-    { pattern: '/national/', region: 'National' },
-    { pattern: '/new-york/', region: 'Northeast' },
-    { pattern: '/boston/', region: 'Northeast' },
-    { pattern: '/washington-dc/', region: 'Northeast' },
-    { pattern: '/philadelphia/', region: 'Northeast' },
-    { pattern: '/chicago/', region: 'Midwest' },
-    { pattern: '/detroit/', region: 'Midwest' },
-    { pattern: '/minneapolis/', region: 'Midwest' },
-    { pattern: '/dallas-ft-worth/', region: 'Southwest' },
-    { pattern: '/houston/', region: 'Southwest' },
-    { pattern: '/austin/', region: 'Southwest' },
-    { pattern: '/los-angeles/', region: 'West' },
-    { pattern: '/san-francisco/', region: 'West' },
-    { pattern: '/seattle/', region: 'West' },
-    { pattern: '/denver/', region: 'West' },
-    { pattern: '/south-florida/', region: 'South' },
-    { pattern: '/atlanta/', region: 'South' },
-    { pattern: '/charlotte/', region: 'South' }
-  ];
-  
-  /**
-   * List of Bisnow regional sites to gather comprehensive news
-   */
-  private readonly regionalUrls: string[] = [
-    'https://www.bisnow.com/national/news',
-    'https://www.bisnow.com/new-york/news',
-    'https://www.bisnow.com/chicago/news',
-    'https://www.bisnow.com/los-angeles/news',
-    'https://www.bisnow.com/dallas-ft-worth/news',
-    'https://www.bisnow.com/washington-dc/news',
-    'https://www.bisnow.com/boston/news',
-    'https://www.bisnow.com/south-florida/news',
-    'https://www.bisnow.com/atlanta/news'
-  ];
-
-  /**
-   * Detect region from URL based on patterns
-   */
-  private detectRegionFromUrl(url: string): Region {
-    for (const { pattern, region } of this.regionPatterns) {
-      if (url.includes(pattern)) {
-        return region;
-      }
-    }
-    return 'National';
-  }
-  
-  /**
-   * Validate and fix a URL to ensure it's a valid, working URL
-   * @param url The URL to validate and fix
-   * @returns A validated and fixed URL
-   */
-  private validateAndFixUrl(url: string): string {
-    // Handle empty or invalid URLs
-    if (!url || typeof url !== 'string') {
-      return 'https://www.bisnow.com';
-    }
-    
-    // Clean the URL - remove whitespace and normalize
-    const cleanUrl = url.trim();
-    
-    // Log the original URL for debugging
-    logger.info({
-      event: 'validating_url',
-      original: cleanUrl
-    });
-    
-    // Already a fully qualified URL
-    if (cleanUrl.startsWith('http://') || cleanUrl.startsWith('https://')) {
-      // Make sure it's https
-      const httpsUrl = cleanUrl.replace(/^http:/i, 'https:');
-      logger.info({
-        event: 'url_already_absolute',
-        original: cleanUrl,
-        fixed: httpsUrl
-      });
-      return httpsUrl;
-    }
-    
-    // Handle relative URLs
-    if (cleanUrl.startsWith('/')) {
-      const absoluteUrl = `https://www.bisnow.com${cleanUrl}`;
-      logger.info({
-        event: 'url_was_relative_with_slash',
-        original: cleanUrl,
-        fixed: absoluteUrl
-      });
-      return absoluteUrl;
-    }
-    
-    // Handle URLs without leading slash
-    const absoluteUrl = `https://www.bisnow.com/${cleanUrl}`;
-    logger.info({
-      event: 'url_was_relative_without_slash',
-      original: cleanUrl,
-      fixed: absoluteUrl
-    });
-    return absoluteUrl;
-  }
-
-  /**
-   * Verify that a URL is from Bisnow
-   * @param url The URL to check
-   * @returns True if the URL is from Bisnow, false otherwise
-   */
-  private isBisnowUrl(url: string): boolean {
-    return url.includes('bisnow.com');
-  }
-  
-  /**
-   * Get known title for a specific URL
-   * This handles special cases where we know the correct title for a URL
-   * @param url The URL to check
-   * @returns The known title if available, or null if not found
-   */
-  private getKnownTitleForUrl(url: string): string | null {
-    // Map of problematic URLs to their correct titles
-    const knownTitles: Record<string, string> = {
-      'https://www.bisnow.com/national/news/industrial/while-abandoned-industrial-sites-will-get-a-second-chance-tariffs-be-damned-129260': 
-        'Abandoned Industrial Sites Could Get A Second Chance As Manufacturing Demand Switches Industries'
-    };
-    
-    // Check if the URL is in our known titles map
-    for (const knownUrl in knownTitles) {
-      if (url.includes(knownUrl) || knownUrl.includes(url)) {
-        return knownTitles[knownUrl];
-      }
-    }
-    
-    return null;
-  }
-
-  /**
-   * Extract article details from a specific URL
-   */
-  private async extractArticleDetails(url: string): Promise<Article | null> {
-    try {
-      // Validate and fix the URL
-      const validUrl = this.validateAndFixUrl(url);
-      
-      // Check compliance first
-      const complianceCheck = await isAllowedByTerms(validUrl);
-      const robotsCheck = await canCrawl(validUrl);
-      
-      if (!complianceCheck || !robotsCheck) {
-        logger.warn({
-          event: 'compliance_blocked',
-          site: this.name,
-          url: validUrl
-        });
-        return null;
-      }
-      
-      logger.info({
-        event: 'fetching_article_details',
-        site: this.name,
-        url: validUrl
-      });
-      
-      // Check if we have a known title for this URL
-      const knownTitle = this.getKnownTitleForUrl(validUrl);
-      if (knownTitle) {
-        logger.info({
-          event: 'using_known_title',
-          url: validUrl,
-          title: knownTitle
-        });
-        
-        return {
-          title: knownTitle,
-          url: validUrl,
-          publishedDate: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-          source: this.name,
-          region: this.detectRegionFromUrl(validUrl)
-        };
-      }
-      
-      // Fetch the article with proper headers and timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      
-      let html = '';
-      let $ = cheerio.load('');
-      
-      try {
-        const response = await fetch(validUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          logger.warn({
-            event: 'article_fetch_failed',
-            site: this.name,
-            url: validUrl,
-            status: response.status,
-            statusText: response.statusText
-          });
-          return null;
-        }
-        
-        html = await response.text();
-        $ = cheerio.load(html);
-        
-        logger.info({
-          event: 'article_fetch_success',
-          site: this.name,
-          url: validUrl,
-          bytes: html.length
-        });
-      } catch (fetchError) {
-        logger.error({
-          event: 'article_fetch_error',
-          site: this.name,
-          url: validUrl,
-          error: fetchError instanceof Error ? fetchError.message : String(fetchError)
-        });
-        return null;
-      }
-      
-      // Try multiple selector patterns to find the title
-      const titleSelectors = [
-        'h1.article-title',
-        'h1.headline',
-        'h1.title',
-        'h1'
-      ];
-      
-      let title = '';
-      
-      for (const selector of titleSelectors) {
-        const element = $(selector).first();
-        if (element.length > 0) {
-          title = element.text().trim();
-          break;
-        }
-      }
-      
-      if (!title) {
-        logger.warn({
-          event: 'title_extract_failed',
-          site: this.name,
-          url: validUrl
-        });
-        // Try to get a title from the meta tags
-        const metaTitle = $('meta[property="og:title"]').attr('content') || 
-                         $('meta[name="twitter:title"]').attr('content') ||
-                         $('title').text();
-        title = metaTitle ? metaTitle.trim() : '';
-      }
-      
-      // Try multiple selector patterns to find the date
-      const dateSelectors = [
-        'time',
-        '.date',
-        '.published-date',
-        'meta[property="article:published_time"]'
-      ];
-      
-      let publishedDate = '';
-      
-      for (const selector of dateSelectors) {
-        const element = $(selector).first();
-        if (element.length > 0) {
-          publishedDate = selector.startsWith('meta') 
-            ? element.attr('content')?.split('T')[0] || ''
-            : element.text().trim();
-          break;
-        }
-      }
-      
-      if (!publishedDate) {
-        // Use a default recent date if we can't find one
-        const now = new Date();
-        const month = now.toLocaleString('en-US', { month: 'short' });
-        const day = now.getDate();
-        const year = now.getFullYear();
-        publishedDate = `${month} ${day}, ${year}`;
-      }
-      
-      // Determine the region based on the URL
-      const region = this.detectRegionFromUrl(validUrl);
-      
-      if (title) {
-        return {
-          title,
-          url: validUrl,
-          publishedDate,
-          source: this.name,
-          region
-        };
-      }
-      
-      return null;
-    } catch (error) {
-      logger.error({
-        event: 'article_extract_error',
-        site: this.name,
-        url,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return null;
-    }
-  }
-  
-  /**
-   * Scrape articles from a specific regional URL
-   * @param regionalUrl The regional URL to scrape
-   * @returns Array of articles from the regional URL
-   */
-  private async scrapeRegionalUrl(regionalUrl: string): Promise<Article[]> {
-    try {
-      // Check if we can crawl this URL
-      const canCrawlResult = await canCrawl(regionalUrl);
-      const termsResult = await isAllowedByTerms(regionalUrl);
-      
-      if (!canCrawlResult || !termsResult) {
-        logger.warn({
-          event: 'crawling_disallowed',
-          site: this.name,
-          url: regionalUrl,
-          reason: 'Robots.txt or terms disallow crawling'
-        });
-        return [];
-      }
-
-      // Use a realistic user agent
-      const userAgents = [
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.1 Safari/605.1.15',
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:89.0) Gecko/20100101 Firefox/89.0'
-      ];
-      const userAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
-
-      // Fetch the HTML content
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000);
-      
-      const response = await fetch(regionalUrl, {
-        headers: {
-          'User-Agent': userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        logger.error({
-          event: 'fetch_error',
-          site: this.name,
-          url: regionalUrl,
-          status: response.status,
-          statusText: response.statusText
-        });
-        return [];
-      }
-
-      const html = await response.text();
-      const $ = cheerio.load(html);
-
-      const articles: Article[] = [];
-
-      // Find article elements on the page
-      $('.bisnow-article, article, .article-card, .story-card, .news-item').each((_index, element) => {
-        try {
-          // Extract title
-          let title = $(element).find('h2, h3, .title, .headline').first().text().trim();
-          if (!title) {
-            const titleLink = $(element).find('a[href*="/news/"]').first();
-            title = titleLink.text().trim();
-          }
-
-          // Extract URL
-          let url = $(element).find('a[href*="/news/"]').first().attr('href') || '';
-          if (!url) {
-            const anyLink = $(element).find('a').first().attr('href');
-            url = anyLink || '';
-          }
-
-          // Skip if no URL found
-          if (!url) {
-            return;
-          }
-
-          // Make sure URL is absolute
-          if (!url.startsWith('http')) {
-            if (url.startsWith('/')) {
-              url = `https://www.bisnow.com${url}`;
-            } else {
-              url = `https://www.bisnow.com/${url}`;
-            }
-          }
-
-          // Extract published date
-          let publishedDate = $(element).find('.date, time, .published-date, .timestamp').first().text().trim();
-          if (!publishedDate) {
-            publishedDate = $(element).find('.meta').text().trim();
-          }
-
-          // If we couldn't find a date, use current date
-          if (!publishedDate) {
-            publishedDate = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-          }
-
-          // Only add article if we have a title and URL
-          if (title && url) {
-            const region = this.detectRegionFromUrl(url);
-            articles.push({
-              title,
-              url,
-              publishedDate,
-              source: this.name,
-              region
-            });
-          }
-        } catch (error) {
-          logger.error({
-            event: 'article_extraction_error',
-            site: this.name,
-            url: regionalUrl,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-      });
-
-      logger.info({
-        event: 'regional_scraping_complete',
-        site: this.name,
-        url: regionalUrl,
-        articlesFound: articles.length
-      });
-
-      return articles;
-    } catch (error) {
-      logger.error({
-        event: 'regional_scraping_error',
-        site: this.name,
-        url: regionalUrl,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return [];
-    }
-  }
-
-  /**
-   * Scrape articles from Bisnow
-   * This is the main method that implements the abstract method from BaseScraper
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    logger.info({
-      event: 'scraping_start',
-      site: this.name
-    });
-    
-    const allArticles: Article[] = [];
-    
-    // Scrape each regional URL
-    for (const regionalUrl of this.regionalUrls) {
-      try {
-        logger.info({
-          event: 'scraping_region',
-          site: this.name,
-          url: regionalUrl
-        });
-        
-        const regionArticles = await this.scrapeRegionalUrl(regionalUrl);
-        
-        // Filter articles to only include those from the last 14 days
-        const twoWeeksAgo = new Date();
-        twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
-        
-        const filteredArticles = regionArticles.filter(article => {
-          try {
-            const pubDate = new Date(article.publishedDate);
-            return pubDate >= twoWeeksAgo;
-          } catch (error) {
-            logger.warn({
-              event: 'date_parsing_error',
-              site: this.name,
-              title: article.title,
-              date: article.publishedDate,
-              error: error instanceof Error ? error.message : String(error)
-            });
-            return false;
-          }
-        });
-        
-        logger.info({
-          event: 'articles_filtered_by_date',
-          site: this.name,
-          url: regionalUrl,
-          totalArticles: regionArticles.length,
-          filteredArticles: filteredArticles.length
-        });
-        
-        allArticles.push(...filteredArticles);
-      } catch (error) {
-        logger.error({
-          event: 'region_scraping_error',
-          site: this.name,
-          url: regionalUrl,
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
-    
-    // If no articles were found, return sample articles with current dates
-    if (allArticles.length === 0) {
-      logger.warn({
-        event: 'using_sample_articles',
-        site: this.name,
-        reason: 'No articles found from scraping'
-      });
-      
-      return this.sampleArticleUrls.map((url, index) => {
-        // Generate dates within the last 14 days
-        const date = new Date();
-        date.setDate(date.getDate() - (index % 14)); // Spread out over the last 14 days
-        
-        return {
-          title: this.getKnownTitleForUrl(url) || `Bisnow Article ${index + 1}`,
-          url,
-          publishedDate: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-          source: this.name,
-          region: this.detectRegionFromUrl(url)
-        };
-      });
-    }
-    
-    // Sort articles by date (newest first)
-    allArticles.sort((a, b) => {
-      try {
-        const dateA = new Date(a.publishedDate);
-        const dateB = new Date(b.publishedDate);
-        return dateB.getTime() - dateA.getTime();
-      } catch {
-        return 0;
-      }
-    });
-    
-    logger.info({
-      event: 'scraping_complete',
-      site: this.name,
-      articlesFound: allArticles.length
-    });
-    
-    return allArticles;
-  }
-}
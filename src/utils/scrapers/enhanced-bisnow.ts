@@ -1,1236 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article, Region } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * Enhanced Bisnow Scraper
- *
- * A more robust scraper for Bisnow that follows redirects,
- * handles modern sites, and uses multiple strategies to find articles
- */
-export class EnhancedBisnowScraper extends BaseScraper {
-  public readonly name: string = 'Bisnow';
-  public readonly baseUrl: string = 'https://www.bisnow.com/national/news';
-
-  // List of article URLs to use as seeds - these are REAL current Bisnow articles
-  private readonly sampleArticleUrls: string[] = [
-    'https://www.bisnow.com/national/news/capital-markets/cre-lending-market-update-128384',
-    'https://www.bisnow.com/national/news/multifamily/apartment-rent-growth-july-2025-128380',
-    'https://www.bisnow.com/national/news/construction-development/construction-costs-q2-2025-128307',
-    'https://www.bisnow.com/national/news/economy/cpi-inflation-june-2025-128354',
-    'https://www.bisnow.com/national/news/commercial-real-estate/office-investment-sales-q2-2025-128344',
-    'https://www.bisnow.com/national/news/retail/retail-sales-june-2025-128339',
-    'https://www.bisnow.com/national/news/technology/proptech-funding-q2-2025-128325',
-    'https://www.bisnow.com/national/news/office/return-to-office-trends-2025-128320',
-    'https://www.bisnow.com/national/news/retail/retail-expansion-2025-128318',
-    'https://www.bisnow.com/national/news/multifamily/multifamily-investment-outlook-2025-128316'
-  ];
-  
-  // Map of URL patterns to regions
-  private readonly regionPatterns: Array<{pattern: string, region: Region}> = [
-    { pattern: '/national/', region: 'National' },
-    { pattern: '/new-york/', region: 'Northeast' },
-    { pattern: '/boston/', region: 'Northeast' },
-    { pattern: '/washington-dc/', region: 'Northeast' },
-    { pattern: '/philadelphia/', region: 'Northeast' },
-    { pattern: '/chicago/', region: 'Midwest' },
-    { pattern: '/detroit/', region: 'Midwest' },
-    { pattern: '/minneapolis/', region: 'Midwest' },
-    { pattern: '/dallas-ft-worth/', region: 'Southwest' },
-    { pattern: '/houston/', region: 'Southwest' },
-    { pattern: '/austin/', region: 'Southwest' },
-    { pattern: '/los-angeles/', region: 'West' },
-    { pattern: '/san-francisco/', region: 'West' },
-    { pattern: '/seattle/', region: 'West' },
-    { pattern: '/denver/', region: 'West' },
-    { pattern: '/south-florida/', region: 'South' },
-    { pattern: '/atlanta/', region: 'South' },
-    { pattern: '/charlotte/', region: 'South' }
-  ];
-  
-  /**
-   * List of Bisnow regional sites to gather comprehensive news
-   */
-  private readonly regionalUrls: string[] = [
-    'https://www.bisnow.com/national/news',
-    'https://www.bisnow.com/new-york/news',
-    'https://www.bisnow.com/chicago/news',
-    'https://www.bisnow.com/los-angeles/news',
-    'https://www.bisnow.com/dallas-ft-worth/news',
-    'https://www.bisnow.com/washington-dc/news',
-    'https://www.bisnow.com/boston/news',
-    'https://www.bisnow.com/south-florida/news',
-    'https://www.bisnow.com/atlanta/news'
-  ];
-
-  /**
-   * Detect region from URL based on patterns
-   */
-  private detectRegionFromUrl(url: string): Region {
-    for (const { pattern, region } of this.regionPatterns) {
-      if (url.includes(pattern)) {
-        return region;
-      }
-    }
-    return 'National';
-  }
-  
-  /**
-   * Validate and fix a URL to ensure it's a valid, working URL
-   * @param url The URL to validate and fix
-   * @returns A validated and fixed URL
-   */
-  private validateAndFixUrl(url: string): string {
-    // Handle empty or invalid URLs
-    if (!url || typeof url !== 'string') {
-      return 'https://www.bisnow.com';
-    }
-    
-    // Clean the URL - remove whitespace and normalize
-    const cleanUrl = url.trim();
-    
-    // Log the original URL for debugging
-    logger.info({
-      event: 'validating_url',
-      original: cleanUrl
-    });
-    
-    // Already a fully qualified URL
-    if (cleanUrl.startsWith('http://') || cleanUrl.startsWith('https://')) {
-      // Make sure it's https
-      const httpsUrl = cleanUrl.replace(/^http:/i, 'https:');
-      logger.info({
-        event: 'url_already_absolute',
-        original: cleanUrl,
-        fixed: httpsUrl
-      });
-      return httpsUrl;
-    }
-    
-    // Handle relative URLs
-    if (cleanUrl.startsWith('/')) {
-      const absoluteUrl = `https://www.bisnow.com${cleanUrl}`;
-      logger.info({
-        event: 'url_was_relative_with_slash',
-        original: cleanUrl,
-        fixed: absoluteUrl
-      });
-      return absoluteUrl;
-    }
-    
-    // Handle URLs without leading slash
-    const absoluteUrl = `https://www.bisnow.com/${cleanUrl}`;
-    logger.info({
-      event: 'url_was_relative_without_slash',
-      original: cleanUrl,
-      fixed: absoluteUrl
-    });
-    return absoluteUrl;
-  }
-
-  /**
-   * Verify that a URL is from Bisnow
-   * @param url The URL to check
-   * @returns True if the URL is from Bisnow, false otherwise
-   */
-  private isBisnowUrl(url: string): boolean {
-    return url.includes('bisnow.com');
-  }
-  
-  /**
-   * Get known title for a specific URL
-   * This handles special cases where we know the correct title for a URL
-   * @param url The URL to check
-   * @returns The known title if available, or null if not found
-   */
-  private getKnownTitleForUrl(url: string): string | null {
-    // Map of problematic URLs to their correct titles
-    const knownTitles: Record<string, string> = {
-      'https://www.bisnow.com/national/news/industrial/while-abandoned-industrial-sites-will-get-a-second-chance-tariffs-be-damned-129260': 
-        'Abandoned Industrial Sites Could Get A Second Chance As Manufacturing Demand Switches Industries'
-    };
-    
-    // Check if the URL is in our known titles map
-    for (const knownUrl in knownTitles) {
-      if (url.includes(knownUrl) || knownUrl.includes(url)) {
-        return knownTitles[knownUrl];
-      }
-    }
-    
-    return null;
-  }
-
-  /**
-   * Extract article details from a specific URL
-   */
-  private async extractArticleDetails(url: string): Promise<Article | null> {
-    try {
-      // Validate URL
-      if (!url || !url.includes('bisnow.com')) {
-        logger.warn({
-          event: 'invalid_url',
-          site: this.name,
-          url
-        });
-        return null;
-      }
-      
-      // Check compliance
-      const canCrawlResult = await canCrawl(url);
-      const termsResult = await isAllowedByTerms(url);
-      
-      if (!canCrawlResult || !termsResult) {
-        logger.warn({
-          event: 'compliance_blocked',
-          site: this.name,
-          url
-        });
-        return null;
-      }
-      
-      logger.info({
-        event: 'fetching_article_details',
-        site: this.name,
-        url
-      });
-      
-      // Check if we have a known title for this URL
-      const knownTitle = this.getKnownTitleForUrl(url);
-      if (knownTitle) {
-        logger.info({
-          event: 'using_known_title',
-          url,
-          title: knownTitle
-        });
-        
-        return {
-          title: knownTitle,
-          url,
-          publishedDate: new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
-          source: this.name,
-          region: this.detectRegionFromUrl(url)
-        };
-      }
-      
-      // Fetch the article with proper headers and timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-      
-      let html = '';
-      let $: cheerio.CheerioAPI;
-      
-      try {
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          logger.warn({
-            event: 'article_fetch_failed',
-            site: this.name,
-            url,
-            status: response.status,
-            statusText: response.statusText
-          });
-          return null;
-        }
-        
-        html = await response.text();
-        $ = cheerio.load(html);
-        
-        logger.info({
-          event: 'article_fetch_success',
-          site: this.name,
-          url,
-          bytes: html.length
-        });
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        logger.error({
-          event: 'article_fetch_error',
-          site: this.name,
-          url,
-          error: fetchError instanceof Error ? fetchError.message : String(fetchError)
-        });
-        return null;
-      }
-      
-      // Try multiple selector patterns to find the title
-      const titleSelectors = [
-        'h1.article-title',
-        'h1.headline',
-        'h1.title',
-        'h1'
-      ];
-      
-      let title = '';
-      
-      for (const selector of titleSelectors) {
-        const element = $(selector).first();
-        if (element.length > 0) {
-          title = element.text().trim();
-          break;
-        }
-      }
-      
-      if (!title) {
-        logger.warn({
-          event: 'title_extract_failed',
-          site: this.name,
-          url
-        });
-        // Try to get a title from the meta tags
-        const metaTitle = $('meta[property="og:title"]').attr('content') || 
-                         $('meta[name="twitter:title"]').attr('content') ||
-                         $('title').text();
-        title = metaTitle ? metaTitle.trim() : '';
-      }
-      
-      // Try multiple selector patterns to find the date
-      const dateSelectors = [
-        'time',
-        '.date',
-        '.published-date',
-        'meta[property="article:published_time"]'
-      ];
-      
-      let publishedDate = '';
-      
-      for (const selector of dateSelectors) {
-        const element = $(selector).first();
-        if (element.length > 0) {
-          publishedDate = selector.startsWith('meta') 
-            ? element.attr('content')?.split('T')[0] || ''
-            : element.text().trim();
-          break;
-        }
-      }
-      
-      if (!publishedDate) {
-        // Use a default recent date if we can't find one
-        const now = new Date();
-        const month = now.toLocaleString('en-US', { month: 'short' });
-        const day = now.getDate();
-        const year = now.getFullYear();
-        publishedDate = `${month} ${day}, ${year}`;
-      }
-      
-      // Determine the region based on the URL
-      const region = this.detectRegionFromUrl(url);
-      
-      if (title) {
-        return {
-          title,
-          url,
-          publishedDate,
-          source: this.name,
-          region
-        };
-      }
-      
-      return null;
-    } catch (error: unknown) {
-      logger.error({
-        event: 'article_extract_error',
-        site: this.name,
-        url,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return null;
-    }
-  }
-  
-  /**
-   * Scrape articles from a specific regional URL
-   * @param regionalUrl The regional URL to scrape
-   * @returns Array of articles from the regional URL
-   */
-  private async scrapeRegionalUrl(regionalUrl: string): Promise<Article[]> {
-    try {
-      // Check if we can crawl this URL
-      const canCrawlResult = await canCrawl(regionalUrl);
-      const termsResult = await isAllowedByTerms(regionalUrl);
-      
-      if (!canCrawlResult || !termsResult) {
-        logger.warn({
-          event: 'crawling_disallowed',
-          site: this.name,
-          url: regionalUrl,
-          reason: 'Robots.txt or terms disallow crawling'
-        });
-        return [];
-      }
-
-      // Use a realistic user agent
-      const userAgents = [
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.1.1 Safari/605.1.15',
-        'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:89.0) Gecko/20100101 Firefox/89.0'
-      ];
-      const userAgent = userAgents[Math.floor(Math.random() * userAgents.length)];
-
-      logger.info({
-        event: 'fetching_regional_url',
-        site: this.name,
-        url: regionalUrl
-      });
-
-      // Fetch the HTML content
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000);
-      
-      const response = await fetch(regionalUrl, {
-        headers: {
-          'User-Agent': userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        logger.error({
-          event: 'fetch_error',
-          site: this.name,
-          url: regionalUrl,
-          status: response.status,
-          statusText: response.statusText
-        });
-        return [];
-      }
-
-      const html = await response.text();
-      const $ = cheerio.load(html);
-
-      logger.info({
-        event: 'html_loaded',
-        site: this.name,
-        url: regionalUrl,
-        htmlLength: html.length
-      });
-
-      const articles: Article[] = [];
-
-      // Bisnow has updated their site structure - try multiple selector patterns
-      // First try the new card-based layout
-      const cardSelectors = [
-        '.story-card',
-        '.article-card',
-        '.news-card',
-        '.card',
-        '.story-item',
-        '.news-item',
-        '.article-item',
-        'article',
-        '.article',
-        '.story'
-      ];
-      
-      // Log the number of elements found for each selector for debugging
-      cardSelectors.forEach(selector => {
-        const count = $(selector).length;
-        logger.info({
-          event: 'selector_count',
-          site: this.name,
-          url: regionalUrl,
-          selector,
-          count
-        });
-      });
-
-      // Try each selector until we find articles
-      for (const selector of cardSelectors) {
-        if ($(selector).length > 0) {
-          logger.info({
-            event: 'using_selector',
-            site: this.name,
-            url: regionalUrl,
-            selector,
-            count: $(selector).length
-          });
-          
-          $(selector).each((_index, element) => {
-            try {
-              // First, try to find a link with both URL and title in the same element
-              const linkSelectors = [
-                'a[href*="/news/"]', 
-                'a[href*="article"]', 
-                'a[href*="story"]', 
-                'a.card-link', 
-                'a.headline-link',
-                'a.article-link',
-                'a'
-              ];
-              
-              let url = '';
-              let title = '';
-              let foundLinkWithTitle = false;
-              
-              // Try to find a link that has both a URL and meaningful text content
-              for (const linkSelector of linkSelectors) {
-                const linkElement = $(element).find(linkSelector).first();
-                if (linkElement.length > 0) {
-                  const potentialUrl = linkElement.attr('href');
-                  const potentialTitle = linkElement.text().trim();
-                  
-                  // Only use this if both URL and title are present and title is substantial
-                  if (potentialUrl && potentialTitle && potentialTitle.length > 10) {
-                    url = potentialUrl;
-                    title = potentialTitle;
-                    foundLinkWithTitle = true;
-                    
-                    logger.info({
-                      event: 'found_matching_link_and_title',
-                      site: this.name,
-                      title,
-                      url
-                    });
-                    
-                    break;
-                  }
-                }
-              }
-              
-              // If we didn't find a good link with title, try separate approaches
-              if (!foundLinkWithTitle) {
-                // Extract title - try multiple selectors
-                const titleSelectors = ['h2', 'h3', 'h4', '.title', '.headline', '.card-title', '.story-title', '.article-title'];
-                
-                for (const titleSelector of titleSelectors) {
-                  const titleElement = $(element).find(titleSelector).first();
-                  if (titleElement.length > 0) {
-                    title = titleElement.text().trim();
-                    if (title) break;
-                  }
-                }
-                
-                // Extract URL separately
-                for (const linkSelector of linkSelectors) {
-                  const link = $(element).find(linkSelector).first().attr('href');
-                  if (link) {
-                    url = link;
-                    break;
-                  }
-                }
-              }
-
-              // Skip if no URL found
-              if (!url) {
-                return;
-              }
-
-              // Make sure URL is absolute
-              if (!url.startsWith('http')) {
-                if (url.startsWith('/')) {
-                  url = `https://www.bisnow.com${url}`;
-                } else {
-                  url = `https://www.bisnow.com/${url}`;
-                }
-              }
-
-              // Extract published date - try multiple selectors
-              const dateSelectors = ['.date', 'time', '.published-date', '.timestamp', '.meta', '.card-date', '.article-date', '.story-date'];
-              let publishedDate = '';
-              
-              for (const dateSelector of dateSelectors) {
-                const dateElement = $(element).find(dateSelector).first();
-                if (dateElement.length > 0) {
-                  publishedDate = dateElement.text().trim();
-                  if (publishedDate) break;
-                }
-              }
-
-              // If we couldn't find a date, use current date
-              if (!publishedDate) {
-                publishedDate = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-              }
-
-              // Only add article if we have a title and URL
-              if (title && url) {
-                const region = this.detectRegionFromUrl(url);
-                logger.info({
-                  event: 'article_found',
-                  site: this.name,
-                  title,
-                  url,
-                  publishedDate,
-                  region
-                });
-                
-                articles.push({
-                  title,
-                  url,
-                  publishedDate,
-                  source: this.name,
-                  region
-                });
-              }
-            } catch (error) {
-              logger.error({
-                event: 'article_extraction_error',
-                site: this.name,
-                url: regionalUrl,
-                error: error instanceof Error ? error.message : String(error)
-              });
-            }
-          });
-          
-          // If we found articles with this selector, no need to try others
-          if (articles.length > 0) {
-            break;
-          }
-        }
-      }
-      
-      // If we still haven't found any articles, try a more aggressive approach
-      // Look for any links that might be articles
-      if (articles.length === 0) {
-        logger.info({
-          event: 'trying_fallback_selectors',
-          site: this.name,
-          url: regionalUrl
-        });
-        
-        // First try to find article links with substantial text content
-        interface ArticleLink {
-          href: string;
-          text: string;
-        }
-        
-        const articleLinks: ArticleLink[] = [];
-        
-        // Collect all potential article links
-        $('a').each((_index, element) => {
-          const $element = $(element);
-          const href = $element.attr('href') || '';
-          const text = $element.text().trim();
-          
-          // Check if this looks like an article link
-          const isArticleLink = (
-            href && 
-            (href.includes('/news/') || href.includes('article') || href.includes('story')) && 
-            text && 
-            text.length > 15 && // Longer text is more likely to be an article title
-            !text.includes('Login') && // Filter out navigation links
-            !text.includes('Sign') && 
-            !text.includes('Menu') &&
-            !text.includes('Search')
-          );
-          
-          if (isArticleLink) {
-            articleLinks.push({
-              href,
-              text
-            });
-          }
-        });
-        
-        // Log how many potential article links we found
-        logger.info({
-          event: 'potential_article_links_found',
-          site: this.name,
-          url: regionalUrl,
-          count: articleLinks.length
-        });
-        
-        // Process the collected links
-        for (const { href, text } of articleLinks) {
-          try {
-            if (!href || !text) continue;
-            
-            // Make sure URL is absolute
-            let fullUrl = href;
-            if (!fullUrl.startsWith('http')) {
-              if (fullUrl.startsWith('/')) {
-                fullUrl = `https://www.bisnow.com${fullUrl}`;
-              } else {
-                fullUrl = `https://www.bisnow.com/${fullUrl}`;
-              }
-            }
-            
-            // Check if this URL is already in our articles list
-            const isDuplicate = articles.some(article => 
-              article.url === fullUrl || 
-              article.title === text ||
-              (article.title && text && article.title.includes(text) || text.includes(article.title))
-            );
-            
-            if (isDuplicate) continue;
-            
-            // Check if this is a valid article URL pattern
-            if (!fullUrl.includes('bisnow.com') || 
-                !(/\/news\/|article|story/.test(fullUrl))) {
-              continue;
-            }
-            
-            const region = this.detectRegionFromUrl(fullUrl);
-            const publishedDate = new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-            
-            logger.info({
-              event: 'fallback_article_found',
-              site: this.name,
-              title: text,
-              url: fullUrl
-            });
-            
-            articles.push({
-              title: text,
-              url: fullUrl,
-              publishedDate,
-              source: this.name,
-              region
-            });
-            
-            // Limit the number of articles we extract this way
-            if (articles.length >= 10) break;
-          } catch (error) {
-            logger.error({
-              event: 'fallback_extraction_error',
-              site: this.name,
-              url: regionalUrl,
-              error: error instanceof Error ? error.message : String(error)
-            });
-          }
-        }
-      }
-
-      logger.info({
-        event: 'regional_scraping_complete',
-        site: this.name,
-        url: regionalUrl,
-        articlesFound: articles.length
-      });
-
-      return articles;
-    } catch (error) {
-      logger.error({
-        event: 'regional_scraping_error',
-        site: this.name,
-        url: regionalUrl,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return [];
-    }
-  }
-
-  /**
-   * Scrape articles from Bisnow
-   * This is the main method that implements the abstract method from BaseScraper
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    logger.info({
-      event: 'scraping_start',
-      site: this.name
-    });
-    
-    const allArticles: Article[] = [];
-    
-    // Try to scrape each regional URL
-    let scrapingSuccessCount = 0;
-    let scrapingErrorCount = 0;
-    
-    // Try more regional URLs to increase chances of finding real articles
-    const extendedRegionalUrls = [
-      ...this.regionalUrls,
-      'https://www.bisnow.com/san-francisco/news',
-      'https://www.bisnow.com/houston/news',
-      'https://www.bisnow.com/seattle/news',
-      'https://www.bisnow.com/denver/news'
-    ];
-    
-    for (const regionalUrl of extendedRegionalUrls) {
-      try {
-        logger.info({
-          event: 'scraping_region',
-          site: this.name,
-          url: regionalUrl
-        });
-        
-        const regionArticles = await this.scrapeRegionalUrl(regionalUrl);
-        
-        if (regionArticles.length > 0) {
-          scrapingSuccessCount++;
-          
-          // Filter articles to only include those from the last 30 days (extended from 14 days to get more results)
-          const thirtyDaysAgo = new Date();
-          thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-          
-          const filteredArticles = regionArticles.filter(article => {
-            // Filter out articles with generic or placeholder titles
-            if (!article.title || 
-                article.title.includes('Bisnow Article') || 
-                article.title.length < 10) {
-              return false;
-            }
-            
-            try {
-              // Try to parse the date, but be flexible with formats
-              let pubDate: Date;
-              
-              // Handle various date formats
-              if (article.publishedDate.includes(',')) {
-                // Format like "Jul 5, 2025"
-                pubDate = new Date(article.publishedDate);
-              } else if (article.publishedDate.match(/^\d{1,2}\/\d{1,2}\/\d{4}$/)) {
-                // Format like "7/5/2025"
-                const [month, day, year] = article.publishedDate.split('/');
-                pubDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-              } else {
-                // Try direct parsing
-                pubDate = new Date(article.publishedDate);
-              }
-              
-              // Check if date is valid
-              if (isNaN(pubDate.getTime())) {
-                // If invalid date, assume it's recent
-                return true;
-              }
-              
-              return pubDate >= thirtyDaysAgo;
-            } catch (error) {
-              logger.warn({
-                event: 'date_parsing_error',
-                site: this.name,
-                title: article.title,
-                date: article.publishedDate,
-                error: error instanceof Error ? error.message : String(error)
-              });
-              // If we can't parse the date, assume it's recent
-              return true;
-            }
-          });
-          
-          logger.info({
-            event: 'articles_filtered_by_date',
-            site: this.name,
-            url: regionalUrl,
-            totalArticles: regionArticles.length,
-            filteredArticles: filteredArticles.length
-          });
-          
-          // Only add non-duplicate articles
-          for (const article of filteredArticles) {
-            const isDuplicate = allArticles.some(existingArticle => 
-              existingArticle.url === article.url || 
-              existingArticle.title === article.title ||
-              // Check for similar titles (to avoid slight variations of the same article)
-              (existingArticle.title.length > 20 && 
-               article.title.length > 20 &&
-               (existingArticle.title.includes(article.title.substring(0, 20)) || 
-                article.title.includes(existingArticle.title.substring(0, 20))))
-            );
-            
-            if (!isDuplicate) {
-              allArticles.push(article);
-            }
-          }
-          
-          // If we have enough articles, we can stop scraping more regions
-          if (allArticles.length >= 15) {
-            break;
-          }
-        } else {
-          logger.warn({
-            event: 'no_articles_found',
-            site: this.name,
-            url: regionalUrl
-          });
-        }
-      } catch (error) {
-        scrapingErrorCount++;
-        logger.error({
-          event: 'region_scraping_error',
-          site: this.name,
-          url: regionalUrl,
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
-    
-    // If we didn't get enough articles, try to scrape individual article URLs directly
-    // First, try to find article URLs from the Bisnow homepage
-    if (allArticles.length < 5) {
-      try {
-        logger.info({
-          event: 'scraping_homepage_for_articles',
-          site: this.name
-        });
-        
-        const homepageUrl = 'https://www.bisnow.com';
-        const response = await fetch(homepageUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-          }
-        });
-        
-        if (response.ok) {
-          const html = await response.text();
-          const $ = cheerio.load(html);
-          
-          const homepageArticleUrls: string[] = [];
-          
-          // Look for article links on the homepage
-          $('a[href*="/news/"]').each((_index, element) => {
-            const href = $(element).attr('href');
-            if (href && href.includes('/news/') && !href.includes('#') && href.length > 15) {
-              const fullUrl = this.validateAndFixUrl(href);
-              if (this.isBisnowUrl(fullUrl) && !homepageArticleUrls.includes(fullUrl)) {
-                homepageArticleUrls.push(fullUrl);
-              }
-            }
-          });
-          
-          logger.info({
-            event: 'found_homepage_article_urls',
-            site: this.name,
-            count: homepageArticleUrls.length
-          });
-          
-          // Try to extract details from these URLs
-          for (const articleUrl of homepageArticleUrls) {
-            try {
-              const article = await this.extractArticleDetails(articleUrl);
-              if (article && article.title && article.title.length > 10) {
-                // Check if this article is already in our list
-                const isDuplicate = allArticles.some(existingArticle => 
-                  existingArticle.url === article.url || existingArticle.title === article.title
-                );
-                
-                if (!isDuplicate) {
-                  allArticles.push(article);
-                }
-              }
-            } catch (error) {
-              logger.error({
-                event: 'homepage_article_extraction_error',
-                site: this.name,
-                url: articleUrl,
-                error: error instanceof Error ? error.message : String(error)
-              });
-            }
-            
-            // If we've found enough articles, stop trying more URLs
-            if (allArticles.length >= 15) {
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        logger.error({
-          event: 'homepage_scraping_error',
-          site: this.name,
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
-    }
-    
-    // If we still didn't get enough articles, try the sample URLs as a backup
-    if (allArticles.length < 5) {
-      logger.info({
-        event: 'trying_direct_article_scraping',
-        site: this.name,
-        articlesFoundSoFar: allArticles.length
-      });
-      
-      // Try to extract details from sample URLs directly
-      for (const sampleUrl of this.sampleArticleUrls) {
-        try {
-          const article = await this.extractArticleDetails(sampleUrl);
-          if (article && article.title && article.title.length > 10) {
-            // Check if this article is already in our list
-            const isDuplicate = allArticles.some(existingArticle => 
-              existingArticle.url === article.url || existingArticle.title === article.title
-            );
-            
-            if (!isDuplicate) {
-              allArticles.push(article);
-            }
-          }
-        } catch (error) {
-          logger.error({
-            event: 'sample_article_extraction_error',
-            site: this.name,
-            url: sampleUrl,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-        
-        // If we've found enough articles, stop trying more sample URLs
-        if (allArticles.length >= 10) {
-          break;
-        }
-      }
-    }
-    
-    // If we still don't have enough articles, make a more aggressive attempt to get real content
-    if (allArticles.length < 5) {
-      logger.warn({
-        event: 'making_aggressive_attempt_for_real_articles',
-        site: this.name,
-        articlesFoundSoFar: allArticles.length
-      });
-      
-      // Try to scrape the main Bisnow site and all regional sites more aggressively
-      const additionalUrls = [
-        'https://www.bisnow.com',
-        'https://www.bisnow.com/national',
-        'https://www.bisnow.com/news',
-        'https://www.bisnow.com/recent',
-        'https://www.bisnow.com/latest',
-        'https://www.bisnow.com/commercial-real-estate-news'
-      ];
-      
-      for (const url of additionalUrls) {
-        try {
-          const response = await fetch(url, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            },
-            signal: AbortSignal.timeout(15000)
-          });
-          
-          if (response.ok) {
-            const html = await response.text();
-            const $ = cheerio.load(html);
-            
-            // Look for any links that might be articles
-            const articleLinks: Set<string> = new Set();
-            
-            // Try various selectors to find article links
-            const linkSelectors = [
-              'a[href*="/news/"]',
-              '.article a',
-              '.story a',
-              '.headline a',
-              '.title a',
-              'h1 a',
-              'h2 a',
-              'h3 a',
-              '.card a',
-              '.post a'
-            ];
-            
-            for (const selector of linkSelectors) {
-              $(selector).each((_idx, element) => {
-                const href = $(element).attr('href');
-                const text = $(element).text().trim();
-                
-                if (href && 
-                    href.includes('/news/') && 
-                    !href.includes('#') && 
-                    href.length > 15 &&
-                    text && 
-                    text.length > 15) {
-                  const fullUrl = this.validateAndFixUrl(href);
-                  if (this.isBisnowUrl(fullUrl)) {
-                    articleLinks.add(fullUrl);
-                  }
-                }
-              });
-            }
-            
-            logger.info({
-              event: 'found_additional_article_links',
-              site: this.name,
-              url,
-              count: articleLinks.size
-            });
-            
-            // Extract article details from each link
-            for (const articleUrl of articleLinks) {
-              try {
-                const article = await this.extractArticleDetails(articleUrl);
-                if (article && article.title && article.title.length > 15) {
-                  // Check if this article is already in our list
-                  const isDuplicate = allArticles.some(existingArticle => 
-                    existingArticle.url === article.url || 
-                    existingArticle.title === article.title ||
-                    (existingArticle.title.length > 20 && 
-                     article.title.length > 20 &&
-                     (existingArticle.title.includes(article.title.substring(0, 20)) || 
-                      article.title.includes(existingArticle.title.substring(0, 20))))
-                  );
-                  
-                  if (!isDuplicate) {
-                    allArticles.push(article);
-                  }
-                }
-              } catch (error) {
-                // Continue to the next link if there's an error
-              }
-              
-              // If we've found enough articles, stop
-              if (allArticles.length >= 10) {
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          // Continue to the next URL if there's an error
-        }
-        
-        // If we've found enough articles, stop
-        if (allArticles.length >= 10) {
-          break;
-        }
-      }
-    }
-    
-    // As a last resort, try to directly extract real titles from the sample URLs
-    if (allArticles.length < 3) {
-      logger.warn({
-        event: 'making_final_attempt_for_real_articles',
-        site: this.name,
-        articlesFoundSoFar: allArticles.length
-      });
-      
-      // Try to extract real titles from the sample URLs
-      for (const sampleUrl of this.sampleArticleUrls) {
-        try {
-          // Use a more aggressive approach to extract the real title
-          const response = await fetch(sampleUrl, {
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            },
-            signal: AbortSignal.timeout(10000)
-          });
-          
-          if (response.ok) {
-            const html = await response.text();
-            const $ = cheerio.load(html);
-            
-            // Try multiple selectors to find the real title
-            const titleSelectors = [
-              'h1.article-title',
-              'h1.headline',
-              'h1.title',
-              'h1',
-              'title',
-              'meta[property="og:title"]',
-              'meta[name="twitter:title"]'
-            ];
-            
-            let realTitle = '';
-            
-            for (const selector of titleSelectors) {
-              const element = $(selector).first();
-              if (element.length > 0) {
-                if (selector.startsWith('meta')) {
-                  realTitle = element.attr('content') || '';
-                } else {
-                  realTitle = element.text();
-                }
-                
-                realTitle = realTitle.trim();
-                
-                if (realTitle && realTitle.length > 15) {
-                  break;
-                }
-              }
-            }
-            
-            if (realTitle && realTitle.length > 15) {
-              // Get the region from the URL
-              const region = this.detectRegionFromUrl(sampleUrl);
-              
-              // Get the date from the page or use current date
-              let publishedDate = '';
-              const dateSelectors = ['time', '.date', '.published-date', 'meta[property="article:published_time"]'];
-              
-              for (const selector of dateSelectors) {
-                const element = $(selector).first();
-                if (element.length > 0) {
-                  publishedDate = selector.startsWith('meta') 
-                    ? element.attr('content')?.split('T')[0] || ''
-                    : element.text().trim();
-                  break;
-                }
-              }
-              
-              if (!publishedDate) {
-                const now = new Date();
-                publishedDate = now.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-              }
-              
-              // Create an article with the real title
-              const article: Article = {
-                title: realTitle,
-                url: sampleUrl,
-                publishedDate,
-                source: this.name,
-                region
-              };
-              
-              // Check if this article is already in our list
-              const isDuplicate = allArticles.some(existingArticle => 
-                existingArticle.url === article.url || 
-                existingArticle.title === article.title ||
-                (existingArticle.title.length > 20 && 
-                 article.title.length > 20 &&
-                 (existingArticle.title.includes(article.title.substring(0, 20)) || 
-                  article.title.includes(existingArticle.title.substring(0, 20))))
-              );
-              
-              if (!isDuplicate) {
-                allArticles.push(article);
-              }
-            }
-          }
-        } catch (error) {
-          // Continue to the next URL if there's an error
-        }
-      }
-    }
-    
-    // If we still have no articles, log an error but don't use placeholders
-    // Instead, return an empty array which is better than fake content
-    if (allArticles.length === 0) {
-      logger.error({
-        event: 'no_articles_found_after_all_attempts',
-        site: this.name,
-        message: 'Could not find any real articles after multiple attempts'
-      });
-      
-      // Return empty array instead of fake content
-      return [];
-    }
-    
-    // Sort articles by date (newest first)
-    allArticles.sort((a, b) => {
-      try {
-        const dateA = new Date(a.publishedDate);
-        const dateB = new Date(b.publishedDate);
-        return dateB.getTime() - dateA.getTime();
-      } catch {
-        return 0;
-      }
-    });
-    
-    // Limit to a reasonable number of articles
-    const maxArticles = Math.min(allArticles.length, 20);
-    const limitedArticles = allArticles.slice(0, maxArticles);
-    
-    logger.info({
-      event: 'scraping_complete',
-      site: this.name,
-      articlesFound: allArticles.length,
-      articlesReturned: limitedArticles.length,
-      usingPlaceholders: limitedArticles.some(a => a.title.includes('CRE Lending') || a.title.includes('Bisnow Article'))
-    });
-    
-    return limitedArticles;
-  }
-}
@@ -1,773 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article, Region } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * Enhanced ConnectCRE Scraper
- * 
- * A scraper for ConnectCRE that handles multiple regions and extracts articles
- * from their regional pages.
- */
-export class EnhancedConnectCREScraper extends BaseScraper {
-  public readonly name = 'ConnectCRE';
-  public readonly baseUrl = 'https://www.connectcre.com';
-  
-  // List of article URLs to use as samples - these are REAL, VERIFIED ConnectCRE URLs
-  private readonly sampleArticleUrls = [
-    'https://www.connectcre.com/stories/ncreif-property-appreciation-turns-positive-for-first-time-since-2022/',
-    'https://www.connectcre.com/stories/investors-bring-bullish-outlook-to-u-s-cre-for-2025/',
-    'https://www.connectcre.com/stories/defining-commercial-real-estate-in-an-uncertain-environment/',
-    'https://www.connectcre.com/stories/multifamily-sector-sees-positive-signs-for-2025/',
-    'https://www.connectcre.com/stories/cre-financing-markets-show-signs-of-thawing/'
-  ];
-  
-  // Map of URL patterns to regions
-  private readonly regionPatterns: Array<{pattern: string, region: Region}> = [
-    { pattern: '/atlanta-southeast/', region: 'South' as Region },
-    { pattern: '/boston-new-england/', region: 'Northeast' as Region },
-    { pattern: '/california/', region: 'West' as Region },
-    { pattern: '/chicago-midwest/', region: 'Midwest' as Region },
-    { pattern: '/florida-gulf-coast/', region: 'South' as Region },
-    { pattern: '/new-york-tri-state/', region: 'Northeast' as Region },
-    { pattern: '/phoenix-southwest/', region: 'Southwest' as Region },
-    { pattern: '/seattle-northwest/', region: 'West' as Region },
-    { pattern: '/texas/', region: 'Southwest' as Region },
-    { pattern: '/washington-dc-mid-atlantic/', region: 'Northeast' as Region }
-  ];
-  
-  // List of regional URLs to scrape
-  private readonly regionalUrls = [
-    { region: 'National' as Region, url: 'https://www.connectcre.com' },
-    { region: 'Northeast' as Region, url: 'https://www.connectcre.com/new-york-tri-state/' },
-    { region: 'Northeast' as Region, url: 'https://www.connectcre.com/boston-new-england/' },
-    { region: 'Northeast' as Region, url: 'https://www.connectcre.com/washington-dc-mid-atlantic/' },
-    { region: 'South' as Region, url: 'https://www.connectcre.com/atlanta-southeast/' },
-    { region: 'South' as Region, url: 'https://www.connectcre.com/florida-gulf-coast/' },
-    { region: 'Midwest' as Region, url: 'https://www.connectcre.com/chicago-midwest/' },
-    { region: 'Southwest' as Region, url: 'https://www.connectcre.com/texas/' },
-    { region: 'Southwest' as Region, url: 'https://www.connectcre.com/phoenix-southwest/' },
-    { region: 'West' as Region, url: 'https://www.connectcre.com/california/' },
-    { region: 'West' as Region, url: 'https://www.connectcre.com/seattle-northwest/' }
-  ];
-  
-  /**
-   * Detect region from URL based on patterns
-   */
-  private detectRegionFromUrl(url: string): Region {
-    for (const { pattern, region } of this.regionPatterns) {
-      if (url.includes(pattern)) {
-        return region;
-      }
-    }
-    return 'National';
-  }
-  
-  /**
-   * Extract date from URL or text
-   */
-  private extractDateFromUrl(url: string): string {
-    // Try to extract date from URL format like /YYYY/MM/DD/
-    const dateRegex = /\/(\d{4})\/(\d{2})\/(\d{2})\//;
-    const match = url.match(dateRegex);
-    
-    if (match) {
-      const year = match[1];
-      const month = match[2];
-      const day = match[3];
-      
-      // Convert month number to name
-      const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const monthIndex = parseInt(month, 10) - 1;
-      const monthName = monthNames[monthIndex];
-      
-      return `${monthName} ${parseInt(day, 10)}, ${year}`;
-    }
-    
-    // If no date in URL, use current date
-    const now = new Date();
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    return `${monthNames[now.getMonth()]} ${now.getDate()}, ${now.getFullYear()}`;
-  }
-  
-  /**
-   * Validate and fix a URL to ensure it's a valid, working URL
-   */
-  private validateAndFixUrl(url: string): string {
-    // Handle empty or invalid URLs
-    if (!url || typeof url !== 'string') {
-      return this.baseUrl;
-    }
-    
-    // Clean the URL - remove whitespace and normalize
-    const cleanUrl = url.trim();
-    
-    // Already a fully qualified URL
-    if (cleanUrl.startsWith('http://') || cleanUrl.startsWith('https://')) {
-      // Make sure it's https
-      const httpsUrl = cleanUrl.replace(/^http:/i, 'https:');
-      return httpsUrl;
-    }
-    
-    // Handle relative URLs
-    if (cleanUrl.startsWith('/')) {
-      return `${this.baseUrl}${cleanUrl}`;
-    }
-    
-    // Handle URLs without leading slash
-    return `${this.baseUrl}/${cleanUrl}`;
-  }
-  
-  /**
-   * Verify that a URL is from ConnectCRE
-   */
-  private isConnectCREUrl(url: string): boolean {
-    return url.includes('connectcre.com');
-  }
-  
-  /**
-   * Scrape articles from a specific URL
-   */
-  // Array of realistic user agents to rotate through
-  private readonly userAgents = [
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/92.0.4515.159 Safari/537.36',
-    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/15.0 Safari/605.1.15',
-    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/92.0.4515.131 Safari/537.36',
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:90.0) Gecko/20100101 Firefox/90.0',
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:91.0) Gecko/20100101 Firefox/91.0',
-    'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/92.0.4515.107 Safari/537.36',
-    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.61 Safari/537.36 Edg/94.0.992.31'
-  ];
-
-  // Get a random user agent from the list
-  private getRandomUserAgent(): string {
-    return this.userAgents[Math.floor(Math.random() * this.userAgents.length)];
-  }
-
-  // Add a delay between requests to avoid rate limiting
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
-  private async scrapeUrl(url: string, region: Region = 'National'): Promise<Article[]> {
-    try {
-      // Check compliance first
-      if (!isAllowedByTerms(url) || !(await canCrawl(url))) {
-        logger.warn({
-          event: 'compliance_blocked',
-          site: this.name,
-          url
-        });
-        return this.createRealisticArticles(region);
-      }
-      
-      logger.info({
-        event: 'scraping_url',
-        site: this.name,
-        url,
-        region
-      });
-      
-      // Add a random delay between 1-3 seconds to avoid triggering rate limits
-      await this.delay(1000 + Math.random() * 2000);
-      
-      // Use more browser-like headers to avoid being blocked
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': this.getRandomUserAgent(),
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Referer': 'https://www.google.com/',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Cache-Control': 'max-age=0',
-          'sec-ch-ua': '"Not_A Brand";v="8", "Chromium";v="120"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"Windows"',
-          'Sec-Fetch-Dest': 'document',
-          'Sec-Fetch-Mode': 'navigate',
-          'Sec-Fetch-Site': 'cross-site',
-          'Sec-Fetch-User': '?1',
-          'Pragma': 'no-cache'
-        }
-      });
-      
-      // Set a manual timeout to abort long-running requests
-      const timeoutPromise = new Promise<Response>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timed out')), 10000);
-      });
-      
-      // Race between the fetch and the timeout
-      try {
-        await Promise.race([Promise.resolve(response), timeoutPromise]);
-      } catch (error) {
-        logger.warn({
-          event: 'request_timeout',
-          site: this.name,
-          url
-        });
-        return this.createRealisticArticles(region);
-      }
-      
-      if (!response.ok) {
-        logger.warn({
-          event: 'url_fetch_failed',
-          site: this.name,
-          url,
-          status: response.status
-        });
-        
-        // If we can't access the website directly, use our region-specific realistic articles
-        logger.info({
-          event: 'using_realistic_articles_due_to_blocked_access',
-          site: this.name,
-          url,
-          status: response.status,
-          region
-        });
-        
-        // Create region-specific articles with current dates
-        return this.createRealisticArticles(region);
-      }
-      
-      const html = await response.text();
-      const $ = cheerio.load(html);
-      
-      // Try multiple selectors that might contain articles
-      const articleSelectors = [
-        'article', 
-        '.post', 
-        '.article', 
-        '.story-card',
-        '.entry',
-        '.post-item',
-        '.news-item',
-        '.card',
-        '.featured-post',
-        '.blog-post',
-        // More specific ConnectCRE selectors
-        '.post-content',
-        '.post-listing article',
-        '.post-box',
-        '.news-box',
-        // Very generic selectors as fallback
-        'div.row div.col-md-4',
-        'div.container div.row > div'
-      ];
-      
-      let articleElements = $();
-      
-      // Try each selector until we find some elements
-      for (const selector of articleSelectors) {
-        const elements = $(selector);
-        if (elements.length > 0) {
-          articleElements = elements;
-          logger.info({
-            event: 'found_article_elements',
-            site: this.name,
-            url,
-            selector,
-            count: elements.length
-          });
-          break;
-        }
-      }
-      
-      // If we still didn't find any elements, try a more aggressive approach
-      if (articleElements.length === 0) {
-        // Look for any elements that contain links to stories
-        $('a').each((_, link) => {
-          const href = $(link).attr('href') || '';
-          if (href.includes('/stories/') || href.includes('/news/')) {
-            const parent = $(link).closest('div, article, section');
-            if (parent.length > 0) {
-              articleElements = articleElements.add(parent);
-            }
-          }
-        });
-        
-        logger.info({
-          event: 'found_article_elements_via_links',
-          site: this.name,
-          url,
-          count: articleElements.length
-        });
-      }
-      
-      // If we still don't have any elements, return realistic articles
-      if (articleElements.length === 0) {
-        logger.warn({
-          event: 'no_article_elements_found',
-          site: this.name,
-          url
-        });
-        return this.createRealisticArticles(region);
-      }
-      
-      const articles: Article[] = [];
-      
-      // Process each article element
-      articleElements.each((_, element) => {
-        const $article = $(element);
-        
-        // Find all links in the article
-        const links = $article.find('a').toArray();
-        let articleUrl = '';
-        
-        // First try to find links that look like story links
-        for (const link of links) {
-          const linkElement = $(link);
-          const href = linkElement.attr('href') || '';
-          
-          if (href && this.isConnectCREUrl(href) && (href.includes('/stories/') || href.includes('/news/'))) {
-            articleUrl = href;
-            break;
-          }
-        }
-        
-        // If no story link found, try any ConnectCRE link
-        if (!articleUrl) {
-          for (const link of links) {
-            const linkElement = $(link);
-            const href = linkElement.attr('href') || '';
-            
-            if (href && this.isConnectCREUrl(href)) {
-              articleUrl = href;
-              break;
-            }
-          }
-        }
-        
-        // If still no ConnectCRE URL, skip this article
-        if (!articleUrl || !this.isConnectCREUrl(articleUrl)) {
-          return; // Skip this article
-        }
-        
-        // Validate and fix the URL
-        const validatedUrl = this.validateAndFixUrl(articleUrl);
-        
-        // Extract title - try multiple selectors
-        let title = '';
-        const titleSelectors = ['h2', 'h3', '.title', '.entry-title', '.post-title'];
-        
-        for (const selector of titleSelectors) {
-          const $title = $article.find(selector).first();
-          if ($title.length > 0) {
-            title = $title.text().trim();
-            if (title) break;
-          }
-        }
-        
-        // If no title found from selectors, try the first link text
-        if (!title) {
-          const firstLink = $article.find('a').first();
-          if (firstLink.length > 0) {
-            title = firstLink.text().trim();
-          }
-        }
-        
-        // If still no title, try to extract from URL
-        if (!title) {
-          const urlParts = validatedUrl.split('/');
-          if (urlParts.length > 0) {
-            const lastPart = urlParts[urlParts.length - 1] || urlParts[urlParts.length - 2];
-            if (lastPart) {
-              title = lastPart.replace(/-/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
-            }
-          }
-        }
-        
-        // Skip if no title
-        if (!title) {
-          return; // Skip this article
-        }
-        
-        // Extract date - try multiple selectors
-        let publishedDate = '';
-        const dateSelectors = ['.date', 'time', '.entry-date', '.post-date', '.meta-date'];
-        
-        for (const selector of dateSelectors) {
-          const $date = $article.find(selector).first();
-          if ($date.length > 0) {
-            publishedDate = $date.text().trim();
-            if (publishedDate) break;
-          }
-        }
-        
-        // If no date found, try to extract from URL
-        if (!publishedDate) {
-          publishedDate = this.extractDateFromUrl(validatedUrl);
-        }
-        
-        // Create article object
-        const article: Article = {
-          title,
-          url: validatedUrl,
-          publishedDate,
-          source: this.name,
-          region
-        };
-        
-        // Add to articles array
-        articles.push(article);
-        
-        logger.info({
-          event: 'article_extracted',
-          site: this.name,
-          title: article.title,
-          url: article.url,
-          date: article.publishedDate,
-          region: article.region
-        });
-      });
-      
-      return articles;
-    } catch (error) {
-      logger.error({
-        event: 'url_scraping_error',
-        site: this.name,
-        url,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return [];
-    }
-  }
-  
-  /**
-   * Create realistic articles with current dates based on real article patterns
-   */
-  /**
-   * Create realistic articles with current dates and real ConnectCRE URLs
-   * This is our primary fallback mechanism when direct scraping is blocked
-   */
-  private createRealisticArticles(region: Region): Article[] {
-    // Get current date for realistic dates
-    const now = new Date();
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    // Define region-specific articles for more relevant content with REAL, VERIFIED URLs
-    // We only need to define the regions we actually use in our scraper
-    const regionalArticles: {[key in 'National' | 'Northeast' | 'South' | 'Midwest' | 'Southwest' | 'West']: Array<{title: string, url: string, days: number}>} = {
-      'National': [
-        {
-          title: "NCREIF: Property Appreciation Turns Positive for First Time Since 2022",
-          url: 'https://www.connectcre.com/stories/ncreif-property-appreciation-turns-positive-for-first-time-since-2022/',
-          days: 0
-        },
-        {
-          title: 'Investors Bring Bullish Outlook to U.S. CRE for 2025',
-          url: 'https://www.connectcre.com/stories/investors-bring-bullish-outlook-to-u-s-cre-for-2025/',
-          days: 1
-        },
-        {
-          title: 'Defining Commercial Real Estate in an Uncertain Environment',
-          url: 'https://www.connectcre.com/stories/defining-commercial-real-estate-in-an-uncertain-environment/',
-          days: 2
-        },
-        {
-          title: 'Multifamily Sector Sees Positive Signs for 2025',
-          url: 'https://www.connectcre.com/stories/multifamily-sector-sees-positive-signs-for-2025/',
-          days: 3
-        }
-      ],
-      'Northeast': [
-        {
-          title: 'JLL Arranges $77M Construction Loan for Bronx Affordable Housing',
-          url: 'https://www.connectcre.com/stories/jll-arranges-77m-construction-loan-for-bronx-affordable-housing/',
-          days: 0
-        },
-        {
-          title: 'Cushman & Wakefield Arranges $44M Sale of Boston-Area Apartment Community',
-          url: 'https://www.connectcre.com/stories/cushman-wakefield-arranges-44m-sale-of-boston-area-apartment-community/',
-          days: 1
-        },
-        {
-          title: 'Newmark Arranges $125M Financing for DC Office-to-Residential Conversion',
-          url: 'https://www.connectcre.com/stories/newmark-arranges-125m-financing-for-dc-office-to-residential-conversion/',
-          days: 2
-        }
-      ],
-      'South': [
-        {
-          title: 'Colliers Brokers Sale of 1.1M-SF Industrial Portfolio in Atlanta',
-          url: 'https://www.connectcre.com/stories/colliers-brokers-sale-of-1-1m-sf-industrial-portfolio-in-atlanta/',
-          days: 0
-        },
-        {
-          title: 'Cushman & Wakefield Arranges $108M Sale of South Florida Office Tower',
-          url: 'https://www.connectcre.com/stories/cushman-wakefield-arranges-108m-sale-of-south-florida-office-tower/',
-          days: 1
-        },
-        {
-          title: 'JLL Capital Markets Arranges $85M Financing for Miami Mixed-Use Development',
-          url: 'https://www.connectcre.com/stories/jll-capital-markets-arranges-85m-financing-for-miami-mixed-use-development/',
-          days: 2
-        }
-      ],
-      'Midwest': [
-        {
-          title: 'Marcus & Millichap Brokers $32M Sale of Chicago Multifamily Portfolio',
-          url: 'https://www.connectcre.com/stories/marcus-millichap-brokers-32m-sale-of-chicago-multifamily-portfolio/',
-          days: 0
-        },
-        {
-          title: 'CBRE Arranges $55M Sale of Minneapolis Office Building',
-          url: 'https://www.connectcre.com/stories/cbre-arranges-55m-sale-of-minneapolis-office-building/',
-          days: 1
-        },
-        {
-          title: 'Detroit Industrial Market Sees Record Absorption in Q1 2025',
-          url: 'https://www.connectcre.com/stories/detroit-industrial-market-sees-record-absorption-in-q1-2025/',
-          days: 2
-        }
-      ],
-      'Southwest': [
-        {
-          title: 'JLL Arranges $120M Sale of Dallas Office Tower',
-          url: 'https://www.connectcre.com/stories/jll-arranges-120m-sale-of-dallas-office-tower/',
-          days: 0
-        },
-        {
-          title: 'CBRE Brokers Sale of 2.5M-SF Industrial Portfolio in Texas',
-          url: 'https://www.connectcre.com/stories/cbre-brokers-sale-of-2-5m-sf-industrial-portfolio-in-texas/',
-          days: 1
-        },
-        {
-          title: 'Phoenix Multifamily Market Continues Strong Performance in Q1 2025',
-          url: 'https://www.connectcre.com/stories/phoenix-multifamily-market-continues-strong-performance-in-q1-2025/',
-          days: 2
-        }
-      ],
-      'West': [
-        {
-          title: 'Newmark Arranges $95M Sale of Los Angeles Office Building',
-          url: 'https://www.connectcre.com/stories/newmark-arranges-95m-sale-of-los-angeles-office-building/',
-          days: 0
-        },
-        {
-          title: 'Seattle Life Sciences Sector Continues to Attract Investment',
-          url: 'https://www.connectcre.com/stories/seattle-life-sciences-sector-continues-to-attract-investment/',
-          days: 1
-        },
-        {
-          title: 'San Francisco Office Market Shows Signs of Recovery in 2025',
-          url: 'https://www.connectcre.com/stories/san-francisco-office-market-shows-signs-of-recovery-in-2025/',
-          days: 2
-        }
-      ]
-    };
-    
-    // Generic articles to use if no region-specific articles are available - REAL, VERIFIED URLs
-    const genericArticles = [
-      {
-        title: 'CRE Financing Markets Show Signs of Thawing',
-        url: 'https://www.connectcre.com/stories/cre-financing-markets-show-signs-of-thawing/',
-        days: 4
-      },
-      {
-        title: 'Data Centers Continue to Drive CRE Investment in 2025',
-        url: 'https://www.connectcre.com/stories/data-centers-continue-to-drive-cre-investment-in-2025/',
-        days: 5
-      },
-      {
-        title: 'ESG Considerations Increasingly Important for CRE Investors',
-        url: 'https://www.connectcre.com/stories/esg-considerations-increasingly-important-for-cre-investors/',
-        days: 6
-      },
-      {
-        title: 'Fed Rate Cuts Could Boost CRE Transaction Volume',
-        url: 'https://www.connectcre.com/stories/fed-rate-cuts-could-boost-cre-transaction-volume/',
-        days: 7
-      },
-      {
-        title: 'PropTech Investment Reaches New Heights in Q1 2025',
-        url: 'https://www.connectcre.com/stories/proptech-investment-reaches-new-heights-in-q1-2025/',
-        days: 8
-      }
-    ];
-    
-    // Get articles for the specified region, or fall back to National if not available
-    // Use type assertion to ensure we only access valid regions
-    const regionKey = (region === 'National' || region === 'Northeast' || region === 'South' || 
-                      region === 'Midwest' || region === 'Southwest' || region === 'West') ? 
-                      region : 'National';
-    let articlesToUse = regionalArticles[regionKey];
-    
-    // Add some generic articles to ensure we have enough content
-    articlesToUse = [...articlesToUse, ...genericArticles];
-    
-    // Create articles with the current region and realistic dates
-    return articlesToUse.map((article: {title: string, url: string, days: number}) => {
-      const articleDate = new Date(now);
-      articleDate.setDate(articleDate.getDate() - article.days);
-      
-      const formattedDate = `${monthNames[articleDate.getMonth()]} ${articleDate.getDate()}, ${articleDate.getFullYear()}`;
-      
-      return {
-        title: article.title,
-        url: article.url,
-        publishedDate: formattedDate,
-        source: this.name,
-        region: region
-      };
-    });
-  }
-  
-  /**
-   * Get sample articles for testing or when scraping fails
-   */
-  private getSampleArticles(): Article[] {
-    // Use the createRealisticArticles method to get current dates
-    return this.createRealisticArticles('National');
-  }
-  
-  /**
-   * Scrape articles from all ConnectCRE regional sites
-   * Filters articles to only include those from the last 2 weeks
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    try {
-      // Log the start of scraping
-      logger.info({
-        event: 'scraping_started',
-        site: this.name
-      });
-      
-      // Array to hold all articles
-      const allArticles: Article[] = [];
-      // Set to track processed URLs to avoid duplicates
-      const processedUrls = new Set<string>();
-      
-      // Try to scrape from the main page first
-      try {
-        const mainPageArticles = await this.scrapeUrl(this.baseUrl);
-        mainPageArticles.forEach(article => {
-          if (!processedUrls.has(article.url)) {
-            allArticles.push(article);
-            processedUrls.add(article.url);
-          }
-        });
-      } catch (error) {
-        logger.error({
-          event: 'main_page_scraping_failed',
-          site: this.name,
-          error: error instanceof Error ? error.message : String(error)
-        });
-        
-        // If main page scraping fails, add National articles
-        const nationalArticles = this.createRealisticArticles('National');
-        nationalArticles.forEach(article => {
-          if (!processedUrls.has(article.url)) {
-            allArticles.push(article);
-            processedUrls.add(article.url);
-          }
-        });
-      }
-      
-      // Try to scrape each regional page with delays between requests
-      for (const { region, url } of this.regionalUrls) {
-        try {
-          logger.info({
-            event: 'scraping_region',
-            region,
-            url
-          });
-          
-          // Add a longer delay between regional requests (3-7 seconds)
-          await this.delay(3000 + Math.random() * 4000);
-          
-          const regionalArticles = await this.scrapeUrl(url, region);
-          regionalArticles.forEach(article => {
-            if (!processedUrls.has(article.url)) {
-              allArticles.push(article);
-              processedUrls.add(article.url);
-            }
-          });
-        } catch (error) {
-          logger.error({
-            event: 'region_scraping_failed',
-            region,
-            url,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          
-          // If regional scraping fails, add region-specific articles
-          const regionalFallbackArticles = this.createRealisticArticles(region);
-          regionalFallbackArticles.forEach(article => {
-            if (!processedUrls.has(article.url)) {
-              allArticles.push(article);
-              processedUrls.add(article.url);
-            }
-          });
-        }
-      }
-      
-      logger.info({
-        event: 'scraping_completed',
-        site: this.name,
-        articleCount: allArticles.length
-      });
-      
-      // If no articles found, return sample articles
-      if (allArticles.length === 0) {
-        logger.warn({
-          event: 'no_articles_found',
-          site: this.name,
-          using: 'sample_articles'
-        });
-        return this.getSampleArticles();
-      }
-      
-      // Filter articles to only include those from the last 2 weeks
-      const twoWeeksAgo = new Date();
-      twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
-      
-      const filteredArticles = allArticles.filter(article => {
-        // Parse the published date
-        try {
-          const publishedDate = new Date(article.publishedDate);
-          // Only include articles from the last 2 weeks
-          return publishedDate >= twoWeeksAgo;
-        } catch (error) {
-          // If we can't parse the date, include the article anyway
-          logger.warn({
-            event: 'date_parsing_error',
-            site: this.name,
-            date: article.publishedDate,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          return true;
-        }
-      });
-      
-      logger.info({
-        event: 'filtered_articles_by_date',
-        site: this.name,
-        total: allArticles.length,
-        filtered: filteredArticles.length,
-        dateThreshold: twoWeeksAgo.toISOString()
-      });
-      
-      // Sort articles by date (newest first)
-      filteredArticles.sort((a, b) => {
-        const dateA = new Date(a.publishedDate);
-        const dateB = new Date(b.publishedDate);
-        return dateB.getTime() - dateA.getTime();
-      });
-      
-      return filteredArticles;
-    } catch (error) {
-      logger.error({
-        event: 'scraping_failed',
-        site: this.name,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      // Return sample articles as fallback
-      return this.getSampleArticles();
-    }
-  }
-}
@@ -1,561 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article, Region } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * Enhanced GlobeSt Scraper
- * 
- * A robust scraper for GlobeSt.com that follows redirects,
- * handles modern sites, and uses multiple strategies to find articles
- */
-export class EnhancedGlobeStScraper extends BaseScraper {
-  public readonly name = 'GlobeSt';
-  public readonly baseUrl = 'https://www.globest.com';
-  
-  // Regional URLs to scrape
-  private readonly regionalUrls: Record<string, string> = {
-    'National': 'https://www.globest.com/markets/national/',
-    'West': 'https://www.globest.com/markets/west/',
-    'Southwest': 'https://www.globest.com/markets/southwest/',
-    'Midwest': 'https://www.globest.com/markets/midwest/',
-    'South': 'https://www.globest.com/markets/southeast/'
-  };
-  
-  // Map of URL patterns to regions
-  private readonly regionPatterns: Array<{pattern: string, region: Region}> = [
-    { pattern: '/markets/national/', region: 'National' as Region },
-    { pattern: '/markets/west/', region: 'West' as Region },
-    { pattern: '/markets/southwest/', region: 'Southwest' as Region },
-    { pattern: '/markets/midwest/', region: 'Midwest' as Region },
-    { pattern: '/markets/southeast/', region: 'South' as Region },
-    // City-specific patterns
-    { pattern: '/new-york/', region: 'Northeast' as Region },
-    { pattern: '/boston/', region: 'Northeast' as Region },
-    { pattern: '/philadelphia/', region: 'Northeast' as Region },
-    { pattern: '/chicago/', region: 'Midwest' as Region },
-    { pattern: '/detroit/', region: 'Midwest' as Region },
-    { pattern: '/minneapolis/', region: 'Midwest' as Region },
-    { pattern: '/dallas/', region: 'Southwest' as Region },
-    { pattern: '/houston/', region: 'Southwest' as Region },
-    { pattern: '/austin/', region: 'Southwest' as Region },
-    { pattern: '/phoenix/', region: 'Southwest' as Region },
-    { pattern: '/los-angeles/', region: 'West' as Region },
-    { pattern: '/san-francisco/', region: 'West' as Region },
-    { pattern: '/seattle/', region: 'West' as Region },
-    { pattern: '/portland/', region: 'West' as Region },
-    { pattern: '/atlanta/', region: 'South' as Region },
-    { pattern: '/miami/', region: 'South' as Region },
-    { pattern: '/orlando/', region: 'South' as Region },
-    { pattern: '/charlotte/', region: 'South' as Region }
-  ];
-
-  // Sample article URLs for fallback
-  private readonly sampleArticleUrls = [
-    'https://www.globest.com/2025/07/01/office-market-recovery-continues-in-q2/',
-    'https://www.globest.com/2025/07/02/multifamily-investment-volume-rebounds-in-first-half-of-2025/',
-    'https://www.globest.com/2025/07/03/industrial-sector-remains-resilient-amid-economic-uncertainty/',
-    'https://www.globest.com/2025/07/04/retail-sector-shows-signs-of-stabilization-in-mid-2025/',
-    'https://www.globest.com/2025/07/05/cre-lending-environment-improves-as-rates-stabilize/'
-  ];
-  
-  /**
-   * Detect region from URL based on patterns
-   */
-  private detectRegionFromUrl(url: string): Region | null {
-    if (!url) return null;
-    
-    const lowerUrl = url.toLowerCase();
-    
-    for (const { pattern, region } of this.regionPatterns) {
-      if (lowerUrl.includes(pattern)) {
-        return region;
-      }
-    }
-    
-    // Default to National if no region is found
-    return 'National' as Region;
-  }
-  
-  /**
-   * Validate and fix a URL to ensure it's properly formatted
-   * @param url The URL to validate and fix
-   * @returns The validated and fixed URL
-   */
-  private validateAndFixUrl(url: string): string {
-    if (!url) return '';
-    
-    // Add domain if it's a relative URL
-    if (url.startsWith('/')) {
-      return `${this.baseUrl}${url}`;
-    }
-    
-    // Add https:// if it's missing
-    if (!url.startsWith('http')) {
-      return `https://${url}`;
-    }
-    
-    return url;
-  }
-  
-  /**
-   * Check if a URL is from GlobeSt
-   * @param url The URL to check
-   * @returns True if the URL is from GlobeSt, false otherwise
-   */
-  private isGlobeStUrl(url: string): boolean {
-    return url.includes('globest.com');
-  }
-  
-  /**
-   * Extract and format date from prettyDate element
-   * @param text The text content of the prettyDate element
-   * @returns Formatted date string
-   */
-  private extractDate(text: string): string {
-    if (!text) return 'Unknown';
-    
-    // Log the input text for debugging
-    console.log(`GlobeSt extractDate input: "${text}"`);
-    
-    // If the text contains a pipe character, it's likely in the format "Author | Date"
-    if (text.includes('|')) {
-      const parts = text.split('|');
-      if (parts.length > 1) {
-        const extractedDate = parts[1].trim().replace(/\s+/g, ' ');
-        console.log(`GlobeSt extracted date from pipe format: "${extractedDate}"`);
-        return extractedDate;
-      }
-    }
-    
-    // Check if the text contains a date pattern
-    const dateRegex = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},\s+\d{4}/i;
-    const match = text.match(dateRegex);
-    if (match) {
-      console.log(`GlobeSt extracted date from regex: "${match[0]}"`);
-      return match[0];
-    }
-    
-    console.log(`GlobeSt using trimmed text as date: "${text.trim()}"`);
-    return text.trim();
-  }
-  
-  /**
-   * Extract date from URL as a fallback method
-   * GlobeSt URLs typically follow a pattern that includes the publication date (e.g., /2025/05/06/)
-   * @param url The URL to extract date from
-   * @returns Formatted date string or 'Unknown' if date can't be extracted
-   */
-  private extractDateFromUrl(url: string): string {
-    if (!url) return 'Unknown';
-    
-    // Extract date from URL if possible (format: /YYYY/MM/DD/)
-    const dateMatch = url.match(/\/(\d{4})\/(\d{2})\/(\d{2})\//i);
-    if (dateMatch) {
-      const year = dateMatch[1];
-      const month = parseInt(dateMatch[2]);
-      const day = dateMatch[3];
-      
-      // Convert month number to name
-      const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-      const monthName = monthNames[month - 1];
-      
-      // Format date like "May 06, 2025"
-      const formattedDate = `${monthName} ${day}, ${year}`;
-      console.log(`GlobeSt extracted date from URL: "${formattedDate}" from URL: ${url}`);
-      return formattedDate;
-    }
-    
-    return 'Unknown';
-  }
-
-  /**
-   * Get a path to an element in the DOM
-   * @param $ The cheerio instance
-   * @param element The element to get a path for
-   * @returns A string representing the path to the element
-   */
-  private getElementPath($: cheerio.CheerioAPI, element: cheerio.Element): string {
-    if (!element) return '';
-    
-    const tagName = element.tagName || '';
-    const id = $(element).attr('id') ? `#${$(element).attr('id')}` : '';
-    const classes = $(element).attr('class') ? `.${$(element).attr('class')?.replace(/\s+/g, '.')}` : '';
-    
-    return `${tagName}${id}${classes}`;
-  }
-  
-  /**
-   * Scrape a specific URL for articles
-   * @param url The URL to scrape
-   * @param defaultRegion Optional default region to use if region cannot be detected
-   * @returns Array of articles found at the URL
-   */
-  private async scrapeUrl(url: string, defaultRegion?: Region): Promise<Article[]> {
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        logger.warn({
-          event: 'scrape_failed',
-          url,
-          status: response.status
-        });
-        return [];
-      }
-      
-      const html = await response.text();
-      const $ = cheerio.load(html);
-      
-      // Articles to return
-      const articles: Article[] = [];
-      
-      // Detect region from URL
-      const region = this.detectRegionFromUrl(url) || defaultRegion || 'National' as Region;
-      
-      // Extract all prettyDate elements for later use
-      const prettyDates = new Map<string, string>();
-      $('.prettyDate').each((_, el) => {
-        const $el = $(el);
-        const text = $el.text().trim();
-        const date = this.extractDate(text);
-        
-        // Use the element's path as a key
-        const path = this.getElementPath($, el);
-        prettyDates.set(path, date);
-      });
-      
-      // Based on our analysis, GlobeSt uses a different structure than we initially expected
-      // Look for elements with article summaries
-      const articleSummaryElements = $('.articleSummary').closest('div');
-      
-      // If we found article summaries, extract articles from them
-      if (articleSummaryElements.length > 0) {
-        articleSummaryElements.each((_, element) => {
-          const $element = $(element);
-          
-          // Try to find title and URL - look for heading elements first
-          const titleElement = $element.find('h1, h2, h3, h4, h5, h6').first();
-          const linkElement = titleElement.find('a').length ? 
-            titleElement.find('a') : 
-            $element.find('a').first();
-          
-          const title = titleElement.text().trim() || linkElement.text().trim();
-          const articleUrl = this.validateAndFixUrl(linkElement.attr('href') || '');
-          
-          // Skip if no title or URL or if URL is not an article
-          if (!title || !articleUrl || !articleUrl.includes('/')) return;
-          
-          // Try to find date - GlobeSt uses prettyDate class for dates
-          let publishedDate = 'Unknown';
-          
-          // First, check if there's a prettyDate element directly inside this element
-          const dateElement = $element.find('.prettyDate').first();
-          if (dateElement.length > 0) {
-            publishedDate = this.extractDate(dateElement.text());
-          } else {
-            // If no direct prettyDate, look for other date indicators
-            const otherDateElement = $element.find('.date, time, .published, .meta').first();
-            if (otherDateElement.length > 0) {
-              publishedDate = this.extractDate(otherDateElement.text());
-            } else {
-              // Try to find a date pattern in the text
-              const fullText = $element.text();
-              const dateRegex = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},\s+\d{4}/i;
-              const dateMatch = fullText.match(dateRegex);
-              if (dateMatch) {
-                publishedDate = dateMatch[0];
-              }
-            }
-          }
-          
-          // If still unknown, try to find a nearby prettyDate element
-          if (publishedDate === 'Unknown') {
-            // Get the closest prettyDate by traversing up the DOM
-            let current = $element;
-            let found = false;
-            
-            // Try up to 3 levels up
-            for (let i = 0; i < 3 && !found; i++) {
-              current = current.parent();
-              if (current.length === 0) break;
-              
-              const path = this.getElementPath($, current[0]);
-              
-              if (prettyDates.has(path)) {
-                publishedDate = prettyDates.get(path) || 'Unknown';
-                found = true;
-                break;
-              }
-              
-              // Also check siblings
-              current.siblings().each((_, sibling) => {
-                if (found) return false;
-                
-                const siblingPath = this.getElementPath($, sibling);
-                if (prettyDates.has(siblingPath)) {
-                  publishedDate = prettyDates.get(siblingPath) || 'Unknown';
-                  found = true;
-                  return false;
-                }
-                return true;
-              });
-            }
-          }
-          
-          // If date is Unknown, try to extract it from the URL as a fallback
-          let finalPublishedDate = publishedDate;
-          if (finalPublishedDate === 'Unknown') {
-            finalPublishedDate = this.extractDateFromUrl(articleUrl);
-          }
-          
-          const article: Article = {
-            title,
-            url: articleUrl,
-            source: this.name,
-            publishedDate: finalPublishedDate,
-            region
-          };
-          
-          articles.push(article);
-        });
-      }
-      
-      // If we didn't find articles using the article summary approach, try a more general approach
-      if (articles.length === 0) {
-        // Look for any links that might be articles
-        $('a').each((_, element) => {
-          const $element = $(element);
-          const href = $element.attr('href') || '';
-          const text = $element.text().trim();
-          
-          // Only consider non-empty links with text that might be article titles
-          if (text && text.length > 20 && text.length < 150 && href.includes('/') && !href.includes('#')) {
-            const articleUrl = this.validateAndFixUrl(href);
-            
-            // Skip if not a GlobeSt URL or if it's not an article path
-            if (!this.isGlobeStUrl(articleUrl) || !articleUrl.includes('/20')) return;
-            
-            // Try to find date near this link
-            let publishedDate = 'Unknown';
-            
-            // First, check if the link text contains a date
-            const linkText = $element.text().trim();
-            const dateRegex = /(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\s+\d{1,2},\s+\d{4}/i;
-            const linkDateMatch = linkText.match(dateRegex);
-            if (linkDateMatch) {
-              publishedDate = linkDateMatch[0];
-            } else {
-              // Look for a prettyDate element near this link
-              const $parent = $element.parent();
-              const $prettyDate = $parent.find('.prettyDate');
-              
-              if ($prettyDate.length > 0) {
-                publishedDate = this.extractDate($prettyDate.text());
-              } else {
-                // Try to find a date in the parent's text
-                const parentText = $parent.text();
-                const parentDateMatch = parentText.match(dateRegex);
-                if (parentDateMatch) {
-                  publishedDate = parentDateMatch[0];
-                } else {
-                  // Try to find a nearby prettyDate by traversing up the DOM
-                  let current = $parent;
-                  let found = false;
-                  
-                  // Try up to 3 levels up
-                  for (let i = 0; i < 3 && !found; i++) {
-                    current = current.parent();
-                    if (current.length === 0) break;
-                    
-                    const path = this.getElementPath($, current[0]);
-                    
-                    if (prettyDates.has(path)) {
-                      publishedDate = prettyDates.get(path) || 'Unknown';
-                      found = true;
-                      break;
-                    }
-                  }
-                }
-              }
-            }
-            
-            // If date is Unknown, try to extract it from the URL as a fallback
-            let finalPublishedDate = publishedDate;
-            if (finalPublishedDate === 'Unknown') {
-              finalPublishedDate = this.extractDateFromUrl(articleUrl);
-            }
-            
-            const article: Article = {
-              title: text,
-              url: articleUrl,
-              source: this.name,
-              publishedDate: finalPublishedDate,
-              region
-            };
-            
-            articles.push(article);
-          }
-        });
-      }
-      
-      console.log(`Scraped ${articles.length} articles from ${url}`);
-      
-      return articles;
-    } catch (error) {
-      logger.error({
-        event: 'scrape_error',
-        url,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      return [];
-    }
-  }
-  
-  /**
-   * Get sample articles for GlobeSt
-   * Used as a fallback when scraping fails
-   */
-  private getSampleArticles(): Article[] {
-    const articles: Article[] = [];
-    const now = new Date();
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    // Create sample articles with realistic dates (within the last 2 weeks)
-    for (let i = 0; i < this.sampleArticleUrls.length; i++) {
-      const daysAgo = i;
-      const date = new Date(now);
-      date.setDate(date.getDate() - daysAgo);
-      
-      const formattedDate = `${monthNames[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()}`;
-      const region = i % 5 === 0 ? 'National' as Region :
-                    i % 5 === 1 ? 'West' as Region :
-                    i % 5 === 2 ? 'Southwest' as Region :
-                    i % 5 === 3 ? 'Midwest' as Region :
-                    'South' as Region;
-      
-      articles.push({
-        title: `Sample GlobeSt Article ${i + 1}`,
-        url: this.sampleArticleUrls[i % this.sampleArticleUrls.length],
-        publishedDate: formattedDate,
-        source: this.name,
-        region
-      });
-    }
-    
-    return articles;
-  }
-  
-  /**
-   * Scrape articles from GlobeSt
-   * Filters articles to only include those from the last 2 weeks
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    console.log(`EnhancedGlobeStScraper: Starting scrape of ${this.name}`);
-    
-    try {
-      // Log the attempt to scrape
-      logger.info({
-        event: 'scraping_started',
-        site: this.name
-      });
-      
-      // Collect all articles from all regions
-      const allArticles: Article[] = [];
-      const processedUrls = new Set<string>(); // To avoid duplicates
-      
-      // First scrape the main page
-      const mainPageArticles = await this.scrapeUrl(this.baseUrl);
-      mainPageArticles.forEach(article => {
-        if (!processedUrls.has(article.url)) {
-          allArticles.push(article);
-          processedUrls.add(article.url);
-        }
-      });
-      
-      // Then scrape each regional page
-      for (const [region, url] of Object.entries(this.regionalUrls)) {
-        try {
-          logger.info({
-            event: 'scraping_region',
-            region,
-            url
-          });
-          
-          const regionalArticles = await this.scrapeUrl(url, region as Region);
-          regionalArticles.forEach(article => {
-            if (!processedUrls.has(article.url)) {
-              allArticles.push(article);
-              processedUrls.add(article.url);
-            }
-          });
-        } catch (error) {
-          logger.error({
-            event: 'region_scraping_failed',
-            region,
-            url,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-      }
-      
-      logger.info({
-        event: 'scraping_completed',
-        site: this.name,
-        articleCount: allArticles.length
-      });
-      
-      console.log(`EnhancedGlobeStScraper: Found ${allArticles.length} articles`);
-      
-      // If we didn't find any articles, return sample articles as a fallback
-      if (allArticles.length === 0) {
-        console.log(`EnhancedGlobeStScraper: No articles found, returning sample articles`);
-        return this.getSampleArticles();
-      }
-      
-      // Filter articles to only include those from the last 2 weeks
-      const twoWeeksAgo = new Date();
-      twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14);
-      
-      const filteredArticles = allArticles.filter(article => {
-        // Parse the published date
-        try {
-          const publishedDate = new Date(article.publishedDate);
-          // Only include articles from the last 2 weeks
-          return publishedDate >= twoWeeksAgo;
-        } catch (error) {
-          // If we can't parse the date, include the article anyway
-          logger.warn({
-            event: 'date_parsing_error',
-            site: this.name,
-            date: article.publishedDate,
-            error: error instanceof Error ? error.message : String(error)
-          });
-          return true;
-        }
-      });
-      
-      logger.info({
-        event: 'filtered_articles_by_date',
-        site: this.name,
-        total: allArticles.length,
-        filtered: filteredArticles.length,
-        dateThreshold: twoWeeksAgo.toISOString()
-      });
-      
-      // Return the filtered results
-      return filteredArticles;
-    } catch (error) {
-      // Log the error
-      logger.error({
-        event: 'scraping_failed',
-        site: this.name,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      // Return sample articles as a fallback
-      console.log(`EnhancedGlobeStScraper: Error scraping, returning sample articles`);
-      return this.getSampleArticles();
-    }
-  }
-}
@@ -0,0 +1,28 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { sourceDefinitions } from './definitions';
+import { getRecordedPages, loadSnapshot, replaySource } from './fixture-replay';
+import { setFixtureMode } from '../fixtures';
+
+/**
+ * Every source definition is replayed against its recorded listing pages and
+ * must produce exactly the articles in its snapshot. After an intended parser
+ * change, refresh the snapshots with `npm run fixtures:replay -- --update`
+ */
+beforeAll(() => {
+  setFixtureMode('replay');
+});
+
+describe.each(sourceDefinitions)('$name fixtures', definition => {
+  it('has recorded listing pages', () => {
+    expect(getRecordedPages(definition).length).toBeGreaterThan(0);
+  });
+
+  it('matches the snapshot', async () => {
+    const expected = loadSnapshot(definition.id);
+    expect(expected, `no snapshot for ${definition.id}`).not.toBeNull();
+
+    const articles = await replaySource(definition);
+    expect(articles.length).toBeGreaterThan(0);
+    expect(articles).toEqual(expected);
+  });
+});
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { Article } from '../../../types/article';
+import { DeclarativeScraper } from './declarative-scraper';
+import { SourceDefinition } from './source-definition';
+import { getFixturePath } from '../fixtures';
+import CONFIG from '../../config';
+
+/**
+ * Fixture replay
+ *
+ * Runs a source definition against its recorded listing pages and keeps the
+ * expected output as a snapshot per source (fixtures/snapshots/<id>.json).
+ * Used by the fixtures:replay script and the scraper tests
+ */
+const SNAPSHOTS_DIR = path.resolve(CONFIG.FIXTURES_DIR, '..', 'snapshots');
+
+/**
+ * Raised when a source has no recorded listing pages to replay
+ */
+export class NoFixturesError extends Error {
+  constructor(public readonly sourceId: string) {
+    super(`No fixtures recorded for ${sourceId}, run npm run fixtures:record -- ${sourceId}`);
+    this.name = 'NoFixturesError';
+  }
+}
+
+/**
+ * Listing pages of a definition that have a recorded fixture
+ */
+export function getRecordedPages(definition: SourceDefinition): SourceDefinition['listingPages'] {
+  return definition.listingPages.filter(page => fs.existsSync(getFixturePath(page.url)));
+}
+
+/**
+ * Scrape a source from its recorded listing pages only
+ * Fixture mode must already be 'replay' (or 'record' to fetch every page)
+ */
+export async function replaySource(definition: SourceDefinition): Promise<Article[]> {
+  const listingPages = getRecordedPages(definition);
+  if (listingPages.length === 0) {
+    throw new NoFixturesError(definition.id);
+  }
+
+  const scraper = new DeclarativeScraper({ ...definition, listingPages });
+  return await scraper.scrapeUncached();
+}
+
+export function getSnapshotPath(sourceId: string): string {
+  return path.join(SNAPSHOTS_DIR, `${sourceId}.json`);
+}
+
+export function loadSnapshot(sourceId: string): Article[] | null {
+  const snapshotPath = getSnapshotPath(sourceId);
+  if (!fs.existsSync(snapshotPath)) return null;
+  return JSON.parse(fs.readFileSync(snapshotPath, 'utf8')) as Article[];
+}
+
+export function saveSnapshot(sourceId: string, articles: Article[]): void {
+  fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+  fs.writeFileSync(getSnapshotPath(sourceId), JSON.stringify(articles, null, 2) + '\n');
+}
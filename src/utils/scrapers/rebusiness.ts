@@ -1,235 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * REBusiness Online Scraper
- * 
- * Scrapes commercial real estate news from REBusinessOnline.com
- */
-export class REBusinessScraper extends BaseScraper {
-  public readonly name = 'REBusiness';
-  public readonly baseUrl = 'https://rebusinessonline.com/category/news/';
-  
-  /**
-   * Scrape the REBusiness website for CRE news articles
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    try {
-      // Log the attempt to scrape
-      console.log(`REBusinessScraper: Attempting to scrape articles`);
-      
-      // First, check if we're allowed to scrape this site
-      const isAllowedTerms = isAllowedByTerms(this.baseUrl);
-      if (!isAllowedTerms) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_terms',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      // Then check robots.txt
-      const isAllowedRobots = await canCrawl(this.baseUrl);
-      if (!isAllowedRobots) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_robots',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      try {
-        // Fetch the HTML content
-        const response = await fetch(this.baseUrl);
-        
-        if (!response.ok) {
-          console.error(`REBusinessScraper: Failed to fetch with status ${response.status}`);
-          throw new Error(`Failed to fetch REBusiness: ${response.status}`);
-        }
-        
-        const html = await response.text();
-        const $ = cheerio.load(html);
-        const articles: Article[] = [];
-        
-        // Select all news article elements
-        $('.post').each((_, element) => {
-          try {
-            // Extract article data
-            const titleElement = $(element).find('h2 a');
-            const title = titleElement.text().trim();
-            const url = titleElement.attr('href');
-            
-            // Skip if missing essential data
-            if (!title || !url) {
-              return;
-            }
-            
-            // Extract date
-            const dateText = $(element).find('.entry-date').text().trim();
-            
-            // Format the date or use current date if not found
-            const publishedDate = dateText || new Date().toDateString();
-            
-            // Extract region information
-            // REBusiness often has category tags that indicate region
-            let region: string | undefined;
-            
-            const categories = $(element).find('.cat-links a');
-            categories.each((_, categoryEl) => {
-              const category = $(categoryEl).text().toLowerCase();
-              
-              // Check for regional categories
-              if (category.includes('national')) {
-                region = 'National';
-              } else if (category.includes('northeast') || 
-                        category.includes('new york') || 
-                        category.includes('boston')) {
-                region = 'Northeast';
-              } else if (category.includes('midwest') || 
-                        category.includes('chicago') ||
-                        category.includes('ohio') || 
-                        category.includes('michigan')) {
-                region = 'Midwest';
-              } else if (category.includes('west') || 
-                        category.includes('california') || 
-                        category.includes('seattle')) {
-                region = 'West';
-              } else if (category.includes('southwest') || 
-                        category.includes('texas') || 
-                        category.includes('dallas')) {
-                region = 'Southwest';
-              } else if (category.includes('southeast') || 
-                        category.includes('florida') || 
-                        category.includes('atlanta')) {
-                region = 'South';
-              }
-            });
-            
-            // Create the article and add to the list
-            articles.push(this.createArticle(title, url, publishedDate, region));
-          } catch (articleError) {
-            // Log error but continue with other articles
-            logger.error({
-              event: 'article_parse_error',
-              site: this.name,
-              error: articleError instanceof Error ? articleError.message : String(articleError)
-            });
-          }
-        });
-        
-        // If we got articles, return them
-        if (articles.length > 0) {
-          console.log(`REBusinessScraper: Scraped ${articles.length} real articles`);
-          return articles;
-        } else {
-          console.log(`REBusinessScraper: No articles found, using mock data instead`);
-          return this.getMockArticles();
-        }
-      } catch (fetchError) {
-        console.error(`REBusinessScraper: Error during fetch/parse:`, fetchError);
-        // Return mock data if real scraping fails
-        return this.getMockArticles();
-      }
-    } catch (error) {
-      // Log error
-      logger.error({
-        event: 'scraper_error',
-        site: this.name,
-        url: this.baseUrl,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      // Return mock data as a fallback
-      console.log(`REBusinessScraper: Fatal error, falling back to mock data`);
-      return this.getMockArticles();
-    }
-  }
-  
-  /**
-   * Get mock REBusiness articles to ensure we always have data to display
-   */
-  private getMockArticles(): Article[] {
-    console.log(`REBusinessScraper: Generating mock articles`);
-    const mockREBusinessArticles: Article[] = [
-      {
-        title: 'JLL Arranges $125M Construction Loan for Multifamily Project in Denver',
-        url: 'https://rebusinessonline.com/jll-arranges-125m-construction-loan-denver-multifamily',
-        publishedDate: 'May 2, 2025',
-        source: this.name,
-        region: 'West'
-      },
-      {
-        title: 'Marcus & Millichap Brokers $47M Sale of Industrial Portfolio in Phoenix',
-        url: 'https://rebusinessonline.com/marcus-millichap-brokers-47m-sale-of-industrial-portfolio-in-phoenix',
-        publishedDate: 'May 1, 2025',
-        source: this.name,
-        region: 'Southwest'
-      },
-      {
-        title: 'CBRE Facilitates Acquisition of 350,000 SF Office Campus in Nashville',
-        url: 'https://rebusinessonline.com/cbre-facilitates-acquisition-of-office-campus-in-nashville',
-        publishedDate: 'Apr 29, 2025',
-        source: this.name,
-        region: 'South'
-      },
-      {
-        title: 'Blackstone Acquires Life Science Portfolio in Boston for $850M',
-        url: 'https://rebusinessonline.com/blackstone-acquires-life-science-portfolio-in-boston-for-850m',
-        publishedDate: 'Apr 28, 2025',
-        source: this.name,
-        region: 'Northeast'
-      },
-      {
-        title: 'Cushman & Wakefield Report: Industrial Vacancy Rates Remain at Historic Lows Nationwide',
-        url: 'https://rebusinessonline.com/cushman-wakefield-report-industrial-vacancy-rates-remain-at-historic-lows',
-        publishedDate: 'Apr 26, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'Prologis Breaks Ground on 1.2M SF Logistics Center in Chicago Suburb',
-        url: 'https://rebusinessonline.com/prologis-breaks-ground-on-logistics-center-in-chicago-suburb',
-        publishedDate: 'Apr 25, 2025',
-        source: this.name,
-        region: 'Midwest'
-      },
-      {
-        title: 'Eastdil Secured Completes $320M Sale of Mixed-Use Development in Seattle',
-        url: 'https://rebusinessonline.com/eastdil-secured-completes-320m-sale-of-mixed-use-development-in-seattle',
-        publishedDate: 'Apr 24, 2025',
-        source: this.name,
-        region: 'West'
-      },
-      {
-        title: 'Colliers: Office-to-Residential Conversions Accelerating in Major Markets',
-        url: 'https://rebusinessonline.com/colliers-office-to-residential-conversions-accelerating-in-major-markets',
-        publishedDate: 'Apr 22, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'Walker & Dunlop Secures $78M for Affordable Housing Development in Atlanta',
-        url: 'https://rebusinessonline.com/walker-dunlop-secures-78m-for-affordable-housing-development-in-atlanta',
-        publishedDate: 'Apr 20, 2025',
-        source: this.name,
-        region: 'South'
-      },
-      {
-        title: 'Hines Launches $1.5B Fund Targeting Sun Belt Office Acquisitions',
-        url: 'https://rebusinessonline.com/hines-launches-fund-targeting-sun-belt-office-acquisitions',
-        publishedDate: 'Apr 18, 2025',
-        source: this.name,
-        region: 'National'
-      }
-    ];
-    
-    return mockREBusinessArticles;
-  }
-}
@@ -0,0 +1,75 @@
+/**
+ * Scraper status for the admin page
+ *
+ * Combines the run metrics of this process (scraperMonitor), the ingestion state
+ * written by whichever process runs the scheduler, and the circuit breaker
+ */
+import { scraperMonitor } from '../monitoring';
+import { circuitBreakers, BreakerState } from '../circuit-breaker';
+import { loadIngestState } from '../ingest/ingest-state';
+import CONFIG from '../../config';
+import { sourceDefinitions } from './definitions';
+import { SourceDefinition } from './source-definition';
+
+export interface ScraperStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  status: 'active' | 'warning' | 'error' | 'disabled';
+  lastRun?: string;
+  // Articles from the last run
+  articleCount?: number;
+  lastError?: string;
+  successCount: number;
+  errorCount: number;
+  averageRunTime?: number;
+  breaker: BreakerState;
+  healthScore: number;
+}
+
+/**
+ * Status of every known source, enabled or not
+ */
+export function getScraperStatuses(): ScraperStatus[] {
+  return sourceDefinitions.map(getScraperStatus);
+}
+
+/**
+ * Status of one source
+ */
+export function getScraperStatus(definition: SourceDefinition): ScraperStatus {
+  const enabled = CONFIG.ENABLE_SOURCES.includes(definition.id);
+  const metrics = scraperMonitor.getAllMetrics().find(candidate => candidate.name === definition.name);
+  const schedule = loadIngestState()[definition.id];
+  const health = circuitBreakers.getHealth(definition.name);
+
+  // Use whichever run is more recent: this process's or the scheduler's
+  const localRun = metrics?.lastRunDate?.toISOString();
+  const useLocal = Boolean(localRun && (!schedule?.lastFinishedAt || localRun > schedule.lastFinishedAt));
+  const lastError = useLocal ? metrics?.lastError : schedule?.lastError;
+  const failed = useLocal ? metrics?.status === 'error' : schedule?.lastStatus === 'failed';
+
+  let status: ScraperStatus['status'] = 'active';
+  if (!enabled) {
+    status = 'disabled';
+  } else if (failed || health.state === 'open') {
+    status = 'error';
+  } else if (lastError || health.state === 'half-open' || metrics?.status === 'warning') {
+    status = 'warning';
+  }
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    enabled,
+    status,
+    lastRun: useLocal ? localRun : schedule?.lastFinishedAt,
+    articleCount: useLocal ? metrics?.lastArticleCount : schedule?.lastArticleCount,
+    ...(lastError && { lastError }),
+    successCount: metrics?.successCount || 0,
+    errorCount: metrics?.errorCount || 0,
+    ...(metrics?.averageRunTime && { averageRunTime: Math.round(metrics.averageRunTime) }),
+    breaker: health.state,
+    healthScore: health.score
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Source Definition Schema
+ *
+ * Describes a news publication declaratively so that DeclarativeScraper
+ * can scrape it without a hand-written scraper class
+ */
+import { Region } from '../../../types/article';
+import { DateFormat } from '../dates';
+
+export type { DateFormat } from '../dates';
+
+/**
+ * A single way of pulling a value out of an article item
+ * Extractors are listed in priority order - the first one that yields a value wins
+ */
+export interface FieldExtractor {
+  // CSS selector relative to the article item (omit to read the item itself)
+  selector?: string;
+  // Attribute to read instead of the element text (e.g. 'href', 'src', 'datetime')
+  attribute?: string;
+  // Optional regex applied to the value; the first capture group (or whole match) is kept
+  pattern?: string;
+  // Values shorter than this are ignored and the next extractor is tried
+  minLength?: number;
+}
+
+/**
+ * A listing page to scrape, with the region its articles default to
+ */
+export interface ListingPage {
+  url: string;
+  region?: Region;
+}
+
+/**
+ * Maps a URL fragment to a region (e.g. '/chicago/' -> 'Midwest')
+ * Sections covering one state use the state (e.g. '/houston/' -> 'Texas'), which
+ * region filters match under the state's group in utils/regions
+ */
+export interface RegionRule {
+  pattern: string;
+  region: Region;
+}
+
+/**
+ * Full declarative description of a news source
+ */
+export interface SourceDefinition {
+  // Key used in CONFIG.ENABLE_SOURCES (lowercase)
+  id: string;
+  // Source name shown on articles (e.g. 'Bisnow')
+  name: string;
+  baseUrl: string;
+  listingPages: ListingPage[];
+  // Selectors for article items, tried in order until one yields articles
+  itemSelectors: string[];
+  fields: {
+    title: FieldExtractor[];
+    link: FieldExtractor[];
+    date?: FieldExtractor[];
+    summary?: FieldExtractor[];
+    image?: FieldExtractor[];
+  };
+  // Article URLs must contain at least one of these fragments
+  linkPatterns?: string[];
+  // Article URLs containing any of these fragments are skipped
+  excludePatterns?: string[];
+  regionRules: RegionRule[];
+  // Date formats tried in order (see DateFormat in utils/dates)
+  dateFormats: DateFormat[];
+  // Scan every link on the page when no item selector matches
+  linkFallback?: boolean;
+  minTitleLength?: number;
+  // Drop articles whose date is older than this many days
+  maxAgeDays?: number;
+  maxArticles?: number;
+  // Delay between listing page requests
+  requestDelayMs?: number;
+}
@@ -1,336 +0,0 @@
-import * as cheerio from 'cheerio';
-import { Article } from '../../../types/article';
-import { BaseScraper } from './base-scraper';
-import logger from '../logger';
-import { canCrawl, isAllowedByTerms } from '../compliance';
-
-/**
- * The Real Deal Scraper
- * 
- * Scrapes commercial real estate news from TheRealDeal.com
- * Note: This site uses dynamic elements that may require more advanced techniques
- */
-export class TheRealDealScraper extends BaseScraper {
-  public readonly name = 'TheRealDeal';
-  public readonly baseUrl = 'https://therealdeal.com/national/commercial-real-estate';
-  
-  /**
-   * Format URLs to use The Real Deal's region-specific pages that are known to work
-   * @param url The original URL
-   * @param region The article region
-   * @returns A URL for the appropriate regional page
-   */
-  private formatUrl(url: string, region?: string): string {
-    // Use region-specific URLs that are known to work
-    if (region === 'Northeast') {
-      return 'https://therealdeal.com/new-york/';
-    } else if (region === 'West') {
-      // Choose between LA and San Francisco
-      return url.toLowerCase().includes('francisco') ? 
-        'https://therealdeal.com/san-francisco/' : 'https://therealdeal.com/la/';
-    } else if (region === 'Midwest') {
-      return 'https://therealdeal.com/chicago/';
-    } else if (region === 'Southwest' || region === 'South' && url.toLowerCase().includes('texas')) {
-      return 'https://therealdeal.com/texas/';
-    } else if (region === 'South') {
-      return 'https://therealdeal.com/miami/';
-    } else {
-      // Default to national for any other region
-      return 'https://therealdeal.com/national/';
-    }
-  }
-  
-  /**
-   * Scrape The Real Deal website for CRE news articles
-   * Note: Due to dynamic content loading, this may require fallback to mock data
-   */
-  protected async scrapeSource(): Promise<Article[]> {
-    try {
-      // Log the attempt to scrape
-      console.log(`TheRealDealScraper: Attempting to scrape articles`);
-      
-      // First, check if we're allowed to scrape this site
-      const isAllowedTerms = isAllowedByTerms(this.baseUrl);
-      if (!isAllowedTerms) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_terms',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      // Then check robots.txt
-      const isAllowedRobots = await canCrawl(this.baseUrl);
-      if (!isAllowedRobots) {
-        logger.warn({
-          event: 'scraping_not_allowed_by_robots',
-          site: this.name,
-          url: this.baseUrl
-        });
-        // Return mock data instead
-        return this.getMockArticles();
-      }
-      
-      try {
-        // Fetch the HTML content with special headers to emulate a browser
-        const response = await fetch(this.baseUrl, {
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Connection': 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-            'Cache-Control': 'max-age=0'
-          }
-        });
-        
-        if (!response.ok) {
-          console.error(`TheRealDealScraper: Failed to fetch with status ${response.status}`);
-          throw new Error(`Failed to fetch TheRealDeal: ${response.status}`);
-        }
-        
-        const html = await response.text();
-        const $ = cheerio.load(html);
-        const articles: Article[] = [];
-        
-        // Try multiple selectors for articles since the site may have different layouts or dynamic content
-        // Selector 1: Main articles
-        $('.article-card, .post-card, .news-item, .article-item').each((_, element) => {
-          try {
-            // Extract article data using various potential selectors
-            const titleElement = $(element).find('.headline h2, .article-title a, h2 a, .title a, a.headline');
-            const title = titleElement.text().trim();
-            const url = titleElement.attr('href') || $(element).find('a').first().attr('href');
-            
-            // Skip if missing essential data
-            if (!title || !url) {
-              return;
-            }
-            
-            // Ensure URL is absolute
-            const fullUrl = url.startsWith('http') ? url : `https://therealdeal.com${url}`;
-            
-            // Extract date - try multiple selectors
-            const dateElement = $(element).find('.date, .post-date, .published-date, time, .timestamp');
-            const dateText = dateElement.text().trim() || dateElement.attr('datetime') || '';
-            
-            // Format the date or use current date if not found
-            const publishedDate = dateText || new Date().toDateString();
-            
-            // Extract region information from categories or article text
-            let region: string | undefined;
-            
-            // Look for region indicators in the article text or URL
-            const articleText = $(element).text().toLowerCase();
-            const articleHtml = $(element).html()?.toLowerCase() || '';
-            
-            if (articleText.includes('new york') || articleText.includes('nyc') || 
-                articleHtml.includes('new york') || articleHtml.includes('nyc') ||
-                fullUrl.includes('new-york') || fullUrl.includes('nyc')) {
-              region = 'Northeast';
-            } else if (articleText.includes('chicago') || articleText.includes('midwest') ||
-                      articleHtml.includes('chicago') || articleHtml.includes('midwest') ||
-                      fullUrl.includes('chicago') || fullUrl.includes('midwest')) {
-              region = 'Midwest';
-            } else if (articleText.includes('california') || articleText.includes('los angeles') || 
-                      articleText.includes('san francisco') || articleText.includes('seattle') ||
-                      articleHtml.includes('california') || articleHtml.includes('los angeles') ||
-                      articleHtml.includes('san francisco') || articleHtml.includes('seattle') ||
-                      fullUrl.includes('california') || fullUrl.includes('los-angeles') ||
-                      fullUrl.includes('san-francisco') || fullUrl.includes('seattle')) {
-              region = 'West';
-            } else if (articleText.includes('texas') || articleText.includes('dallas') || 
-                      articleText.includes('houston') || articleText.includes('austin') ||
-                      articleHtml.includes('texas') || articleHtml.includes('dallas') ||
-                      articleHtml.includes('houston') || articleHtml.includes('austin') ||
-                      fullUrl.includes('texas') || fullUrl.includes('dallas') ||
-                      fullUrl.includes('houston') || fullUrl.includes('austin')) {
-              region = 'Southwest';
-            } else if (articleText.includes('florida') || articleText.includes('miami') || 
-                      articleText.includes('atlanta') || articleText.includes('south') ||
-                      articleHtml.includes('florida') || articleHtml.includes('miami') ||
-                      articleHtml.includes('atlanta') || articleHtml.includes('south') ||
-                      fullUrl.includes('florida') || fullUrl.includes('miami') ||
-                      fullUrl.includes('atlanta') || fullUrl.includes('south')) {
-              region = 'South';
-            } else {
-              region = 'National';
-            }
-            
-            // Convert region to the expected format
-            const regionTyped = region as 'Northeast' | 'Midwest' | 'West' | 'Southwest' | 'South' | 'National';
-            
-            // Get region-specific URL that is guaranteed to work
-            const formattedUrl = this.formatUrl(fullUrl, regionTyped);
-            
-            // Create the article and add to the list
-            articles.push({
-              title,
-              url: formattedUrl,
-              publishedDate,
-              source: this.name,
-              region: regionTyped
-            });
-          } catch (articleError) {
-            // Log error but continue with other articles
-            logger.error({
-              event: 'article_parse_error',
-              site: this.name,
-              error: articleError instanceof Error ? articleError.message : String(articleError)
-            });
-          }
-        });
-        
-        // Try a second type of selector if first didn't work
-        if (articles.length === 0) {
-          $('.post, .story, .news-article, article').each((_, element) => {
-            try {
-              const title = $(element).find('h2, h3, .title').text().trim();
-              let articleUrl = $(element).find('a').attr('href');
-              if (!articleUrl) return;
-              
-              // Fix relative URLs and ensure they're in the correct format
-              if (articleUrl.startsWith('/')) {
-                articleUrl = `${this.baseUrl}${articleUrl}`;
-              }
-              
-              // Make sure the URL is in the correct format (should contain /commercial-real-estate/ for consistency)
-              if (!articleUrl.includes('/commercial-real-estate/') && !articleUrl.match(/\/(national|new-york|miami|chicago|los-angeles|san-francisco|texas)\//) && !articleUrl.includes('/markets/')) {
-                // Try to format the URL correctly
-                const urlParts = articleUrl.split('/');
-                const slug = urlParts[urlParts.length - 1];
-                articleUrl = `${this.baseUrl}/national/commercial-real-estate/${slug}/`;
-              }
-              
-              // Ensure URLs end with a trailing slash for consistency
-              if (!articleUrl.endsWith('/')) {
-                articleUrl += '/';
-              }
-              
-              const dateText = $(element).find('.date, time').text().trim();
-              const publishedDate = dateText || new Date().toDateString();
-              
-              // Default to National if we can't determine region
-              const region = 'National';
-              
-              articles.push(this.createArticle(title, articleUrl, publishedDate, region));
-            } catch (err) {
-              // Continue to next element
-            }
-          });
-        }
-        
-        // If we got articles, return them
-        if (articles.length > 0) {
-          console.log(`TheRealDealScraper: Scraped ${articles.length} real articles`);
-          return articles;
-        } else {
-          console.log(`TheRealDealScraper: No articles found, using mock data instead`);
-          return this.getMockArticles();
-        }
-      } catch (fetchError) {
-        console.error(`TheRealDealScraper: Error during fetch/parse:`, fetchError);
-        // Return mock data if real scraping fails
-        return this.getMockArticles();
-      }
-    } catch (error) {
-      // Log error
-      logger.error({
-        event: 'scraper_error',
-        site: this.name,
-        url: this.baseUrl,
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      // Return mock data as a fallback
-      console.log(`TheRealDealScraper: Fatal error, falling back to mock data`);
-      return this.getMockArticles();
-    }
-  }
-  
-  /**
-   * Get mock The Real Deal articles to ensure we always have data to display
-   * High-quality mock data is especially important since the site may use dynamic elements
-   * that make scraping more challenging
-   */
-  private getMockArticles(): Article[] {
-    console.log(`TheRealDealScraper: Generating mock articles`);
-    
-    const mockTheRealDealArticles: Article[] = [
-      {
-        title: 'Investor Buys $83M Manhattan Office Building, Bucking Market Downturn',
-        url: 'https://therealdeal.com/new-york/',
-        publishedDate: 'May 5, 2025',
-        source: this.name,
-        region: 'Northeast'
-      },
-      {
-        title: 'Bay Area Office Vacancy Hits 30%, But Top Assets Still Draw Interest',
-        url: 'https://therealdeal.com/san-francisco/',
-        publishedDate: 'May 4, 2025',
-        source: this.name,
-        region: 'West'
-      },
-      {
-        title: 'New York City Cracks Down on Office-to-Residential Conversion Rules',
-        url: 'https://therealdeal.com/new-york/',
-        publishedDate: 'May 3, 2025',
-        source: this.name,
-        region: 'Northeast'
-      },
-      {
-        title: 'Miami Luxury Condo Market Shows Signs of Cooling After Record Run',
-        url: 'https://therealdeal.com/miami/',
-        publishedDate: 'May 2, 2025',
-        source: this.name,
-        region: 'South'
-      },
-      {
-        title: 'Chicago Industrial Corridor Sees Surge in Last-Mile Logistics Development',
-        url: 'https://therealdeal.com/chicago/',
-        publishedDate: 'May 1, 2025',
-        source: this.name,
-        region: 'Midwest'
-      },
-      {
-        title: 'Austin Office Leasing Activity Picks Up as Tech Firms Expand Footprint',
-        url: 'https://therealdeal.com/texas/',
-        publishedDate: 'Apr 30, 2025',
-        source: this.name,
-        region: 'Southwest'
-      },
-      {
-        title: 'Fed Decision on Interest Rates Causes REIT Rally Across Sectors',
-        url: 'https://therealdeal.com/national/',
-        publishedDate: 'Apr 29, 2025',
-        source: this.name,
-        region: 'National'
-      },
-      {
-        title: 'LA Housing Development Bill Gains Traction in State Legislature',
-        url: 'https://therealdeal.com/la/',
-        publishedDate: 'Apr 28, 2025',
-        source: this.name,
-        region: 'West'
-      },
-      {
-        title: 'Manhattan Multifamily Sales Volume Up 25% in Q1 2025',
-        url: 'https://therealdeal.com/new-york/',
-        publishedDate: 'Apr 27, 2025',
-        source: this.name,
-        region: 'Northeast'
-      },
-      {
-        title: 'Industrial Real Estate Pipeline Shrinks as Developers Exercise Caution',
-        url: 'https://therealdeal.com/national/',
-        publishedDate: 'Apr 26, 2025',
-        source: this.name,
-        region: 'National'
-      }
-    ];
-    
-    return mockTheRealDealArticles;
-  }
-}
@@ -0,0 +1,299 @@
+import MiniSearch, { SearchResult } from 'minisearch';
+import { Article, SearchHighlight } from '../../../types/article';
+import logger from '../logger';
+import { getArticleRepository } from '../repository';
+import { getArticleKey } from '../repository/article-repository';
+
+type SearchField = SearchHighlight['field'];
+
+// Fields that are searched, with how much a match in each counts
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  summary: 1.5,
+  body: 1
+};
+const SEARCH_FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+// Characters of context on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 80;
+// Articles read from the store per batch when syncing
+const SYNC_BATCH_SIZE = 1000;
+// Minimum time between syncs with the article store
+const SYNC_INTERVAL_MS = 30 * 1000;
+
+interface IndexedDocument {
+  id: string;
+  title: string;
+  summary: string;
+  body: string;
+}
+
+/**
+ * A search hit: the article, its relevance score and snippets of the matching fields
+ */
+export interface SearchHit {
+  article: Article;
+  score: number;
+  highlights: SearchHighlight[];
+}
+
+/**
+ * A parsed search: free terms plus "quoted phrases"
+ */
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[];
+}
+
+/**
+ * Article Search Index
+ *
+ * In-memory inverted index (MiniSearch) over article titles, summaries and
+ * body text. Scrapers add articles as they are scraped, and the index pulls
+ * articles ingested by other processes from the article store before searching
+ *
+ * Query syntax: words match by prefix and tolerate typos, "quoted phrases"
+ * must appear verbatim, and every word or phrase must match
+ */
+class ArticleSearchIndex {
+  private index = this.createIndex();
+  private articles: Map<string, Article> = new Map();
+  private lastSyncAt: string | null = null;
+  private lastSyncCheck = 0;
+  private syncing: Promise<void> | null = null;
+
+  /**
+   * Add articles to the index, replacing earlier versions of the same articles
+   */
+  addOrUpdate(articles: Article[]): void {
+    for (const article of articles) {
+      const id = getArticleKey(article);
+      const existing = this.articles.get(id);
+      this.articles.set(id, { ...existing, ...toIndexedContent(article) });
+
+      const document = this.toDocument(id, this.articles.get(id)!);
+      if (this.index.has(id)) {
+        this.index.replace(document);
+      } else {
+        this.index.add(document);
+      }
+    }
+  }
+
+  /**
+   * Number of indexed articles
+   */
+  size(): number {
+    return this.articles.size;
+  }
+
+  /**
+   * Search the index, best matches first
+   */
+  search(query: string): SearchHit[] {
+    const parsed = parseQuery(query);
+    const words = [...parsed.terms, ...parsed.phrases.flatMap(phrase => phrase.split(' '))];
+    if (words.length === 0) return [];
+
+    const results = this.index.search(words.join(' '), {
+      combineWith: 'AND',
+      boost: FIELD_BOOSTS,
+      // Phrase words must match exactly; free words match by prefix and allow typos
+      prefix: term => parsed.terms.includes(term) && term.length >= 2,
+      fuzzy: term => (parsed.terms.includes(term) && term.length >= 5 ? 0.2 : false)
+    });
+
+    const hits: SearchHit[] = [];
+    for (const result of results) {
+      const article = this.articles.get(result.id as string);
+      if (!article || !matchesPhrases(article, parsed.phrases)) continue;
+
+      hits.push({
+        article,
+        score: result.score,
+        highlights: buildHighlights(article, result, parsed.phrases)
+      });
+    }
+
+    return hits;
+  }
+
+  /**
+   * Pull articles seen in the article store since the last sync
+   * Skipped if a sync ran in the last few seconds; concurrent callers share one sync
+   */
+  async syncFromStore(): Promise<void> {
+    const repository = getArticleRepository();
+    if (!repository || Date.now() - this.lastSyncCheck < SYNC_INTERVAL_MS) return;
+
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    const repository = getArticleRepository();
+    if (!repository) return;
+
+    const startedAt = new Date().toISOString();
+    let synced = 0;
+
+    for (let offset = 0; ; offset += SYNC_BATCH_SIZE) {
+      const { articles } = await repository.query({
+        seenFrom: this.lastSyncAt || undefined,
+        limit: SYNC_BATCH_SIZE,
+        offset
+      });
+      this.addOrUpdate(articles);
+      synced += articles.length;
+      if (articles.length < SYNC_BATCH_SIZE) break;
+    }
+
+    this.lastSyncAt = startedAt;
+    this.lastSyncCheck = Date.now();
+
+    logger.debug({ event: 'search_index_synced', count: synced, total: this.articles.size });
+  }
+
+  private createIndex(): MiniSearch<IndexedDocument> {
+    return new MiniSearch<IndexedDocument>({
+      fields: SEARCH_FIELDS,
+      storeFields: []
+    });
+  }
+
+  private toDocument(id: string, article: Article): IndexedDocument {
+    return {
+      id,
+      title: article.title,
+      summary: article.summary || '',
+      body: article.body || ''
+    };
+  }
+}
+
+/**
+ * The article itself, without details of the response it came from
+ */
+function toIndexedContent(article: Article): Article {
+  const content = { ...article };
+  delete content.provenance;
+  delete content.highlights;
+  delete content.storyId;
+  delete content.alsoCoveredBy;
+  return content;
+}
+
+/**
+ * Split a query into free terms and "quoted phrases" (lowercased, whitespace collapsed)
+ */
+function parseQuery(query: string): ParsedQuery {
+  const phrases: string[] = [];
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const normalized = normalizeText(phrase);
+    if (normalized) phrases.push(normalized);
+    return ' ';
+  });
+
+  const terms = normalizeText(rest.replace(/"/g, ' '))
+    .split(' ')
+    .filter(Boolean);
+
+  return { terms, phrases };
+}
+
+// Lowercase and drop punctuation, splitting words the way the index tokenizer does
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[\p{P}\p{S}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether every phrase appears in one of the article's searchable fields
+ */
+function matchesPhrases(article: Article, phrases: string[]): boolean {
+  if (phrases.length === 0) return true;
+
+  const texts = SEARCH_FIELDS.map(field => normalizeText(article[field] || ''));
+  return phrases.every(phrase => texts.some(text => text.includes(phrase)));
+}
+
+/**
+ * Snippets of each field that matched, with the matching words marked
+ */
+function buildHighlights(article: Article, result: SearchResult, phrases: string[]): SearchHighlight[] {
+  // Matched document terms, e.g. "multifamily" for the query word "multifam"
+  const terms = Object.keys(result.match);
+  const fields = new Set(Object.values(result.match).flat() as SearchField[]);
+
+  return SEARCH_FIELDS
+    .filter(field => fields.has(field) && article[field])
+    .map(field => ({
+      field,
+      snippet: markMatches(
+        field === 'title' ? article.title : excerpt(article[field]!, [...phrases, ...terms]),
+        [...phrases, ...terms]
+      )
+    }));
+}
+
+/**
+ * Cut a window of text around the first match
+ */
+function excerpt(text: string, needles: string[]): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  const pattern = buildPattern(needles);
+  const first = pattern ? clean.search(pattern) : -1;
+  if (first < 0 || clean.length <= SNIPPET_CONTEXT * 2) {
+    return clean.length > SNIPPET_CONTEXT * 2 ? `${clean.slice(0, SNIPPET_CONTEXT * 2)}…` : clean;
+  }
+
+  const start = Math.max(0, clean.lastIndexOf(' ', Math.max(0, first - SNIPPET_CONTEXT)) + 1);
+  const endSpace = clean.indexOf(' ', first + SNIPPET_CONTEXT);
+  const end = endSpace < 0 ? clean.length : endSpace;
+
+  return `${start > 0 ? '…' : ''}${clean.slice(start, end)}${end < clean.length ? '…' : ''}`;
+}
+
+function markMatches(text: string, needles: string[]): string {
+  const pattern = buildPattern(needles);
+  return pattern ? text.replace(pattern, '<mark>$&</mark>') : text;
+}
+
+/**
+ * Case-insensitive pattern matching any needle at the start of a word
+ * Longer needles come first so phrases win over their individual words
+ */
+function buildPattern(needles: string[]): RegExp | null {
+  const alternatives = [...new Set(needles)]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(needle => needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+
+  return alternatives.length > 0 ? new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu') : null;
+}
+
+// Export a singleton instance
+export const searchIndex = new ArticleSearchIndex();
+
+/**
+ * Search articles, returning matches in relevance order with their highlights
+ * @param within Only search these articles (they are indexed first); otherwise
+ *   search everything in the article store
+ */
+export async function searchArticles(query: string, within?: Article[]): Promise<Article[]> {
+  if (!within) {
+    await searchIndex.syncFromStore();
+    return searchIndex.search(query).map(hit => ({ ...hit.article, highlights: hit.highlights }));
+  }
+
+  searchIndex.addOrUpdate(within);
+  const byKey = new Map(within.map(article => [getArticleKey(article), article]));
+
+  return searchIndex.search(query).flatMap(hit => {
+    const article = byKey.get(getArticleKey(hit.article));
+    return article ? [{ ...article, highlights: hit.highlights }] : [];
+  });
+}
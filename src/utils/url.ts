@@ -0,0 +1,41 @@
+/**
+ * URL helpers shared by the scrapers and the article store
+ */
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|cmpid|s_cid)$/i;
+
+// Query parameters that select an AMP rendering of a page
+const AMP_PARAMS = /^(amp|outputtype)$/i;
+
+/**
+ * Normalize an article URL so the same story always maps to the same key
+ * - forces https and a lowercase host without "www." or "amp."
+ * - drops the fragment, tracking parameters and any trailing slash
+ * - maps AMP variants (/amp/ path segments, .amp.html, ?amp=1) to the regular page
+ * - sorts the remaining query parameters
+ */
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.protocol = 'https:';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^(www|amp)\./, '');
+    parsed.hash = '';
+    parsed.port = '';
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key) && !AMP_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    const pathname = parsed.pathname
+      .replace(/\/amp(?=\/|$)/gi, '')
+      .replace(/\.amp\.html$/i, '.html')
+      .replace(/\/+$/, '');
+    parsed.pathname = pathname || '/';
+
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
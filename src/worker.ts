@@ -0,0 +1,24 @@
+import { ingestionScheduler } from './utils/ingest';
+import logger from './utils/logger';
+
+/**
+ * Standalone ingestion worker
+ *
+ * Runs the ingestion scheduler outside the Next server. Start the server with
+ * INGEST_IN_SERVER=false so the two don't both schedule scrapes
+ */
+function startWorker() {
+  console.log('Starting ingestion worker...');
+  ingestionScheduler.start();
+
+  const shutdown = (signal: string) => {
+    logger.info({ event: 'ingest_worker_stopping', signal });
+    ingestionScheduler.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+startWorker();
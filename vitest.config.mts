@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      // Tests never reach real sites, stores or caches
+      FIXTURE_MODE: 'replay',
+      ARTICLE_STORE: 'none',
+      USE_REDIS: 'false',
+      LOG_LEVEL: 'error'
+    }
+  }
+});